@@ -39,6 +39,16 @@
 
   container.appendChild(iframe);
 
+  // Random per-browser id; widget tokens are bound to it so one visitor
+  // can't read or continue another visitor's conversation
+  const visitorStorageKey = `aoun_visitor_${kbId}`;
+  let visitorId = null;
+  try {
+    visitorId = window.localStorage.getItem(visitorStorageKey);
+  } catch {
+    // storage blocked: the server issues a fresh id per page load
+  }
+
   // Token management state
   let currentToken = null;
   let tokenExpiry = null;
@@ -88,7 +98,7 @@
         method: "POST",
         credentials: "include",
         headers,
-        body: JSON.stringify({ kbId }),
+        body: JSON.stringify({ kbId, visitorId }),
       });
 
       if (!resp.ok) {
@@ -119,6 +129,15 @@
       const metadata = data?.metadata ?? null;
       authMethod = data?.auth_method || "unknown";
 
+      if (data?.visitorId && data.visitorId !== visitorId) {
+        visitorId = data.visitorId;
+        try {
+          window.localStorage.setItem(visitorStorageKey, visitorId);
+        } catch {
+          // keep it for this page load only
+        }
+      }
+
       if (!token) {
         console.error("Widget: no token returned in response");
         return false;
@@ -0,0 +1,41 @@
+import ConversationsClient from "@/components/dashboard/ConversationsClient";
+import { getConversations } from "@/lib/actions/conversations";
+import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
+import { prisma } from "@/lib/prisma";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+
+type ConversationsPageProps = {
+  params: Promise<{ lang: SupportedLang }>;
+  searchParams: Promise<{ id?: string }>;
+};
+
+const ConversationsPage = async ({
+  params,
+  searchParams,
+}: ConversationsPageProps) => {
+  const { lang, dict } = await getLangAndDict(params);
+  const { id } = await searchParams;
+
+  const { ownerId } = await getDashboardWorkspace(lang, "conversations");
+
+  const bots = await prisma.bot.findMany({
+    where: { userId: ownerId },
+    select: { id: true, name: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const initialData = await getConversations();
+
+  return (
+    <ConversationsClient
+      lang={lang}
+      dict={dict}
+      bots={bots}
+      initialConversations={initialData.conversations}
+      initialCursor={initialData.nextCursor}
+      initialSelectedId={id ?? null}
+    />
+  );
+};
+
+export default ConversationsPage;
@@ -1,8 +1,10 @@
 import DeployClient from "@/components/dashboard/DeployClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, type SupportedLang } from "@/lib/dictionaries";
+import { migrateLegacyKbApiKey } from "@/lib/kb/kbApiKeys";
 import { prisma } from "@/lib/prisma";
-import { notFound, redirect } from "next/navigation";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+import { notFound } from "next/navigation";
 
 type DeployPageProps = {
   params: Promise<{ lang: SupportedLang; kbId: string }>;
@@ -20,15 +22,10 @@ const DeployPage = async ({ params }: DeployPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
   const { kbId } = await params;
 
-  const session = await auth();
-  const userId = session?.user?.id;
-
-  if (!userId) {
-    return redirect(`/${lang}/auth/login`);
-  }
+  const { ownerId, role } = await getDashboardWorkspace(lang);
 
   const kb = await prisma.knowledgeBase.findUnique({
-    where: { id: kbId },
+    where: { id: kbId, userId: ownerId },
     select: { id: true },
   });
 
@@ -38,17 +35,37 @@ const DeployPage = async ({ params }: DeployPageProps) => {
 
   const integrations = (await prisma.integration.findMany({
     where: {
-      userId,
+      userId: ownerId,
       enabled: true,
     },
   })) as IntegrationItem[];
 
+  // Keys are managed by workspace owners and admins only
+  let apiKeys = null;
+  if (hasWorkspacePermission(role, "manage")) {
+    await migrateLegacyKbApiKey(kb.id);
+    apiKeys = await prisma.apiKey.findMany({
+      where: { kbId: kb.id, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        label: true,
+        prefix: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        lastUsedIp: true,
+        createdAt: true,
+      },
+    });
+  }
+
   return (
     <DeployClient
       lang={lang}
       dict={dict}
       kbId={kb.id}
       integrations={integrations}
+      apiKeys={apiKeys}
     />
   );
 };
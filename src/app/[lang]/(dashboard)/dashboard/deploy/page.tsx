@@ -1,8 +1,7 @@
 import DeployListClient from "@/components/dashboard/DeployListClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
-import { redirect } from "next/navigation";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 
 type DeployListPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -11,16 +10,11 @@ type DeployListPageProps = {
 const DeployListPage = async ({ params }: DeployListPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user?.id;
-
-  if (!userId) {
-    return redirect(`/${lang}/auth/login`);
-  }
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   // Get all user's knowledge bases with document and embedding counts
   const knowledgeBases = await prisma.knowledgeBase.findMany({
-    where: { userId },
+    where: { userId: ownerId },
     include: {
       documents: {
         select: { id: true }, // Just count documents
@@ -1,9 +1,8 @@
 import IntegrationsClient from "@/components/dashboard/IntegrationsClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 import { IntegrationType } from "@prisma/client";
-import { redirect } from "next/navigation";
 
 type IntegrationsPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -17,15 +16,10 @@ type ConnectedApp = {
 
 const IntegrationsPage = async ({ params }: IntegrationsPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
-  const session = await auth();
-
-  const userId = session?.user.id;
-  if (!userId) {
-    return redirect(`/${lang}/auth/login`);
-  }
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   const integrations = await prisma.integration.findMany({
-    where: { userId },
+    where: { userId: ownerId },
     select: {
       provider: true,
       type: true,
@@ -0,0 +1,39 @@
+import InviteAcceptClient from "@/components/dashboard/InviteAcceptClient";
+import { auth } from "@/lib/auth";
+import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
+import { findWorkspaceInvitation } from "@/lib/workspaces/workspaceAccess";
+import { redirect } from "next/navigation";
+
+type InvitePageProps = {
+  params: Promise<{ lang: SupportedLang; token: string }>;
+};
+
+const InvitePage = async ({ params }: InvitePageProps) => {
+  const { lang, dict } = await getLangAndDict(params);
+  const { token } = await params;
+
+  const session = await auth();
+  if (!session?.user?.id) return redirect(`/${lang}/auth/login`);
+
+  const invitation = await findWorkspaceInvitation(token);
+
+  return (
+    <InviteAcceptClient
+      lang={lang}
+      dict={dict}
+      token={token}
+      invitation={
+        invitation && {
+          email: invitation.email,
+          role: invitation.role,
+          workspaceName: invitation.workspace.name,
+          inviterName:
+            invitation.invitedBy?.name || invitation.invitedBy?.email || null,
+        }
+      }
+      userEmail={session.user.email?.toLowerCase() ?? ""}
+    />
+  );
+};
+
+export default InvitePage;
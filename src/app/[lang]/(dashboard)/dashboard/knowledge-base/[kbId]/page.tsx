@@ -1,8 +1,8 @@
 import KnowledgeBaseClient from "@/components/dashboard/KnowledgeBaseClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
-import { notFound, redirect } from "next/navigation";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+import { notFound } from "next/navigation";
 
 type KnowledgeBasePageProps = {
   params: Promise<{ lang: SupportedLang; kbId: string }>;
@@ -12,16 +12,15 @@ const KnowledgeBasePage = async ({ params }: KnowledgeBasePageProps) => {
   const { lang, dict } = await getLangAndDict(params);
   const { kbId } = await params;
 
-  const session = await auth();
-  const userId = session?.user?.id;
-
-  if (!userId) {
-    return redirect(`/${lang}/auth/login`)
-  }
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   const kb = await prisma.knowledgeBase.findUnique({
-    where: { userId, id: kbId },
-    include: { documents: true, embeddings: true },
+    where: { userId: ownerId, id: kbId },
+    include: {
+      documents: true,
+      embeddings: true,
+      pageChanges: { orderBy: { createdAt: "desc" }, take: 20 },
+    },
   });
 
   if (!kb) return notFound();
@@ -1,9 +1,8 @@
 import KnowledgeBaseListClient from "@/components/dashboard/KnowledgeBaseListClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
 import { getAgentLimitInfo } from "@/lib/subscription/checkUsageLimits";
-import { redirect } from "next/navigation";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 
 type KnowledgeBaseListPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -14,20 +13,15 @@ const KnowledgeBaseListPage = async ({
 }: KnowledgeBaseListPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user?.id;
-
-  if (!userId) {
-    redirect(`/${lang}/auth/login`);
-  }
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   // Get agent limit info using subscription control
-  const agentLimitInfo = await getAgentLimitInfo(userId);
+  const agentLimitInfo = await getAgentLimitInfo(ownerId);
 
   // Get user's subscription details
   const subscription = await prisma.subscription.findFirst({
     where: {
-      userId,
+      userId: ownerId,
       status: { in: ["ACTIVE", "TRIALING", "PAST_DUE"] },
     },
     include: { plan: true },
@@ -36,7 +30,7 @@ const KnowledgeBaseListPage = async ({
 
   // Get all user's knowledge bases
   const knowledgeBases = await prisma.knowledgeBase.findMany({
-    where: { userId },
+    where: { userId: ownerId },
     include: {
       documents: {
         select: { id: true },
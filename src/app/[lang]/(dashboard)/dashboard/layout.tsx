@@ -1,6 +1,10 @@
 import DashboardShell from "@/components/dashboard/DashboardShell";
 import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
+import {
+  getWorkspaceContext,
+  listUserWorkspaces,
+} from "@/lib/workspaces/workspaceAccess";
 import { Metadata } from "next";
 import { redirect } from "next/navigation";
 import type { ReactNode } from "react";
@@ -34,11 +38,14 @@ export default async function DashboardLayout({
   const { lang } = await params;
   const session = await auth();
   const user = session?.user;
+  const workspace = await getWorkspaceContext();
 
-  if (!user) {
+  if (!user || !workspace) {
     return redirect(`/${lang}/auth/login`);
   }
 
+  const workspaces = await listUserWorkspaces(user.id);
+
   const userProps = {
     id: user.id,
     name: user.name ?? "",
@@ -48,7 +55,16 @@ export default async function DashboardLayout({
   };
 
   return (
-    <DashboardShell lang={lang} user={userProps}>
+    <DashboardShell
+      lang={lang}
+      user={userProps}
+      workspace={{
+        id: workspace.workspaceId,
+        name: workspace.name,
+        role: workspace.role,
+      }}
+      workspaces={workspaces}
+    >
       {children}
     </DashboardShell>
   );
@@ -1,8 +1,7 @@
 import LeadsClient from "@/components/dashboard/LeadsClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
-import { redirect } from "next/navigation";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 
 type LeadsPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -11,21 +10,16 @@ type LeadsPageProps = {
 const LeadsPage = async ({ params }: LeadsPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user.id;
-
-  if (!userId) {
-    return redirect(`/${lang}/auth/login`);
-  }
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   const leads = await prisma.lead.findMany({
-    where: { userId },
+    where: { userId: ownerId },
     orderBy: { createdAt: "desc" },
   });
 
   const integrations = await prisma.integration.findMany({
     where: {
-      userId: session.user.id,
+      userId: ownerId,
       enabled: true,
     },
   });
@@ -4,9 +4,8 @@ import DashboardClient, {
 } from "@/components/dashboard/DashboardClient";
 import EmptyState from "@/components/dashboard/EmptyState";
 import { getUserUsage } from "@/lib/actions/getUserUsage";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, type SupportedLang } from "@/lib/dictionaries";
-import { redirect } from "next/navigation";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 
 type DashboardPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -15,17 +14,11 @@ type DashboardPageProps = {
 export default async function DashboardPage({ params }: DashboardPageProps) {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user?.id;
-
-  // Redirect to login if not authenticated
-  if (!userId) {
-    redirect(`/${lang}/auth/login`);
-  }
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   let usageData: UserUsage | null = null;
   try {
-    usageData = await getUserUsage(userId);
+    usageData = await getUserUsage(ownerId);
   } catch (err) {
     console.error("Failed to load usage:", err);
     usageData = null;
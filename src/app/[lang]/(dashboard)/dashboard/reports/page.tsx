@@ -1,10 +1,9 @@
 import ReportsClient from "@/components/dashboard/ReportsClient";
 import { getReportsData } from "@/lib/actions/getReportsData";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 import { PlanName, SubscriptionStatus } from "@prisma/client";
-import { redirect } from "next/navigation";
 
 type ReportsPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -13,14 +12,12 @@ type ReportsPageProps = {
 const ReportsPage = async ({ params }: ReportsPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user.id;
-  if (!userId) return redirect(`/${lang}/auth/login`);
+  const { ownerId } = await getDashboardWorkspace(lang);
 
   // Check if user has an active subscription with report access
   const subscription = await prisma.subscription.findFirst({
     where: {
-      userId,
+      userId: ownerId,
       status: {
         in: [
           SubscriptionStatus.ACTIVE,
@@ -39,7 +36,7 @@ const ReportsPage = async ({ params }: ReportsPageProps) => {
 
   const isAdmin = await prisma.user
     .findUnique({
-      where: { id: userId },
+      where: { id: ownerId },
       select: { role: true },
     })
     .then((user) => user?.role === "ADMIN")
@@ -57,7 +54,7 @@ const ReportsPage = async ({ params }: ReportsPageProps) => {
 
   // Get data only for users with report access, provide empty data otherwise
   const data = hasReportAccess
-    ? await getReportsData(userId)
+    ? await getReportsData(ownerId)
     : {
         monthlyData: [],
         bots: [],
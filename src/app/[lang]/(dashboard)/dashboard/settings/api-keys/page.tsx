@@ -0,0 +1,41 @@
+import ApiKeysClient from "@/components/dashboard/ApiKeysClient";
+import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
+import { prisma } from "@/lib/prisma";
+import { checkEntitlement } from "@/lib/subscription/checkUsageLimits";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+
+type ApiKeysPageProps = {
+  params: Promise<{ lang: SupportedLang }>;
+};
+
+const ApiKeysPage = async ({ params }: ApiKeysPageProps) => {
+  const { lang, dict } = await getLangAndDict(params);
+  const { ownerId } = await getDashboardWorkspace(lang, "manage");
+
+  const [apiKeys, apiAccess] = await Promise.all([
+    prisma.apiKey.findMany({
+      where: { userId: ownerId, kbId: null, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        label: true,
+        prefix: true,
+        scopes: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+    }),
+    checkEntitlement(ownerId, "apiAccess"),
+  ]);
+
+  return (
+    <ApiKeysClient
+      lang={lang}
+      dict={dict}
+      apiKeys={apiKeys}
+      hasApiAccess={apiAccess.allowed}
+    />
+  );
+};
+
+export default ApiKeysPage;
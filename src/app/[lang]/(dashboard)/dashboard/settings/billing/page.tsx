@@ -0,0 +1,36 @@
+import BillingClient from "@/components/dashboard/BillingClient";
+import OverageSettingsCard from "@/components/dashboard/OverageSettingsCard";
+import UsageAlertsCard from "@/components/dashboard/UsageAlertsCard";
+import {
+  getBillingOverview,
+  getOverageSettings,
+  getUsageAlertSettings,
+} from "@/lib/actions/billing";
+import { getLangAndDict, type SupportedLang } from "@/lib/dictionaries";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+
+type BillingPageProps = {
+  params: Promise<{ lang: SupportedLang }>;
+};
+
+const BillingPage = async ({ params }: BillingPageProps) => {
+  const { lang, dict } = await getLangAndDict(params);
+  // Billing follows the workspace owner's account
+  await getDashboardWorkspace(lang, "billing");
+
+  const [overview, overage, alerts] = await Promise.all([
+    getBillingOverview(),
+    getOverageSettings(),
+    getUsageAlertSettings(),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <BillingClient overview={overview} dict={dict} lang={lang} />
+      <UsageAlertsCard initial={alerts} dict={dict} lang={lang} />
+      <OverageSettingsCard initial={overage} dict={dict} lang={lang} />
+    </div>
+  );
+};
+
+export default BillingPage;
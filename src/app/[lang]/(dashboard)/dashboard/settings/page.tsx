@@ -1,6 +1,17 @@
 import SettingsClient from "@/components/dashboard/SettingsClient";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
 import { auth } from "@/lib/auth";
 import { getLangAndDict, type SupportedLang } from "@/lib/dictionaries";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+import Link from "next/link";
 import { redirect } from "next/navigation";
 
 type SettingsPageProps = {
@@ -16,6 +27,8 @@ const SettingsPage = async ({ params }: SettingsPageProps) => {
     return redirect(`/${lang}/auth/login`);
   }
 
+  const workspace = await getDashboardWorkspace(lang, "conversations");
+
   const userPublic = {
     id: user.id,
     name: user.name ?? "",
@@ -24,7 +37,58 @@ const SettingsPage = async ({ params }: SettingsPageProps) => {
     role: user.role ?? "USER",
   };
 
-  return <SettingsClient lang={lang} dict={dict} user={userPublic} />;
+  return (
+    <div className="space-y-6">
+      <SettingsClient lang={lang} dict={dict} user={userPublic} />
+      <Card className={lang === "ar" ? "rtl:text-right" : ""}>
+        <CardHeader>
+          <CardTitle>{dict.dashboard_team.title}</CardTitle>
+          <CardDescription>{dict.dashboard_team.description}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button asChild variant="outline">
+            <Link href={`/${lang}/dashboard/settings/team`}>
+              {dict.dashboard_team.open_team}
+            </Link>
+          </Button>
+        </CardFooter>
+      </Card>
+      {hasWorkspacePermission(workspace.role, "manage") && (
+        <Card className={lang === "ar" ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle>{dict.dashboard_api_keys.title}</CardTitle>
+            <CardDescription>
+              {dict.dashboard_api_keys.description}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button asChild variant="outline">
+              <Link href={`/${lang}/dashboard/settings/api-keys`}>
+                {dict.dashboard_api_keys.open_api_keys}
+              </Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+      {hasWorkspacePermission(workspace.role, "billing") && (
+        <Card className={lang === "ar" ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle>{dict.dashboard_billing.title}</CardTitle>
+            <CardDescription>
+              {dict.dashboard_billing.description}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button asChild variant="outline">
+              <Link href={`/${lang}/dashboard/settings/billing`}>
+                {dict.dashboard_billing.open_billing}
+              </Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
 };
 
 export default SettingsPage;
@@ -0,0 +1,65 @@
+import TeamClient from "@/components/dashboard/TeamClient";
+import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
+import { prisma } from "@/lib/prisma";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
+
+type TeamPageProps = {
+  params: Promise<{ lang: SupportedLang }>;
+};
+
+const TeamPage = async ({ params }: TeamPageProps) => {
+  const { lang, dict } = await getLangAndDict(params);
+
+  // Every member can see who else is in the workspace
+  const workspace = await getDashboardWorkspace(lang, "conversations");
+  const canManage = hasWorkspacePermission(workspace.role, "manage");
+
+  const [members, invitations] = await Promise.all([
+    prisma.workspaceMember.findMany({
+      where: { workspaceId: workspace.workspaceId },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        userId: true,
+        role: true,
+        user: { select: { name: true, email: true } },
+      },
+    }),
+    canManage
+      ? prisma.workspaceInvitation.findMany({
+          where: {
+            workspaceId: workspace.workspaceId,
+            acceptedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          orderBy: { createdAt: "desc" },
+          select: { id: true, email: true, role: true, expiresAt: true },
+        })
+      : [],
+  ]);
+
+  return (
+    <TeamClient
+      lang={lang}
+      dict={dict}
+      workspace={{
+        id: workspace.workspaceId,
+        name: workspace.name,
+        role: workspace.role,
+      }}
+      currentUserId={workspace.userId}
+      members={members.map((m) => ({
+        id: m.id,
+        userId: m.userId,
+        role: m.role,
+        name: m.user.name,
+        email: m.user.email,
+      }))}
+      invitations={invitations}
+      canManage={canManage}
+    />
+  );
+};
+
+export default TeamPage;
@@ -1,7 +1,7 @@
 import SetupClient from "@/components/dashboard/SetupClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 import { notFound } from "next/navigation";
 
 type SetupPageProps = {
@@ -12,11 +12,10 @@ const SetupPage = async ({ params }: SetupPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
   const { kbId } = await params;
 
-  const session = await auth();
-  const userId = session?.user?.id;
+  const { ownerId } = await getDashboardWorkspace(lang, "edit");
 
   const kb = await prisma.knowledgeBase.findFirst({
-    where: { userId, id: kbId },
+    where: { userId: ownerId, id: kbId },
     include: { documents: true, bot: { select: { id: true } } },
   });
 
@@ -28,7 +27,7 @@ const SetupPage = async ({ params }: SetupPageProps) => {
       hasKb={!!kb}
       lang={lang}
       dict={dict}
-      currentUserId={userId!}
+      currentUserId={ownerId}
     />
   );
 };
@@ -1,7 +1,7 @@
 import SetupClient from "@/components/dashboard/SetupClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { checkAgentLimit } from "@/lib/subscription/checkUsageLimits";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 import { redirect } from "next/navigation";
 
 type SetupPageProps = {
@@ -11,19 +11,16 @@ type SetupPageProps = {
 const SetupPage = async ({ params }: SetupPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user?.id;
-
-  if (!userId) return redirect(`/${lang}/auth/login`);
+  const { ownerId } = await getDashboardWorkspace(lang, "edit");
 
   // Check if user can create more agents using subscription control
-  const agentCheck = await checkAgentLimit(userId);
+  const agentCheck = await checkAgentLimit(ownerId);
 
   if (!agentCheck.allowed) {
     return redirect(`/${lang}/dashboard/setup`);
   }
 
-  return <SetupClient lang={lang} dict={dict} currentUserId={userId!} />;
+  return <SetupClient lang={lang} dict={dict} currentUserId={ownerId} />;
 };
 
 export default SetupPage;
@@ -1,10 +1,9 @@
 import { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
 import SetupListClient from "@/components/dashboard/SetupListClient";
-import { auth } from "@/lib/auth";
 import { getLangAndDict, SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
 import { getAgentLimitInfo } from "@/lib/subscription/checkUsageLimits";
-import { redirect } from "next/navigation";
+import { getDashboardWorkspace } from "@/lib/workspaces/workspaceAccess";
 
 type SetupListPageProps = {
   params: Promise<{ lang: SupportedLang }>;
@@ -14,16 +13,13 @@ type SetupListPageProps = {
 const SetupListPage = async ({ params }: SetupListPageProps) => {
   const { lang, dict } = await getLangAndDict(params);
 
-  const session = await auth();
-  const userId = session?.user?.id;
+  const { ownerId } = await getDashboardWorkspace(lang, "edit");
 
-  if (!userId) return redirect(`/${lang}/auth/login`);
-
-  const agentLimitInfo = await getAgentLimitInfo(userId);
+  const agentLimitInfo = await getAgentLimitInfo(ownerId);
 
   const subscription = await prisma.subscription.findFirst({
     where: {
-      userId,
+      userId: ownerId,
       status: { in: ["ACTIVE", "TRIALING", "PAST_DUE"] },
     },
     include: { plan: true },
@@ -32,7 +28,7 @@ const SetupListPage = async ({ params }: SetupListPageProps) => {
 
   // Get all user's knowledge bases/agents
   const knowledgeBases = await prisma.knowledgeBase.findMany({
-    where: { userId },
+    where: { userId: ownerId },
     include: {
       documents: {
         select: {
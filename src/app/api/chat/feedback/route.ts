@@ -0,0 +1,76 @@
+// app/api/chat/feedback/route.ts
+export const runtime = "nodejs";
+
+import { FeedbackRating, recordFeedback } from "@/lib/analytics/recordFeedback";
+import { checkRateLimit, getUserIdentifier } from "@/lib/upstash";
+import {
+  verifyWidgetRequest,
+  WidgetAuthError,
+  WidgetPayload,
+} from "@/lib/widget/verifyWidgetRequest";
+import { NextResponse } from "next/server";
+
+type FeedbackRequestBody = {
+  kbId?: string;
+  eventId?: string;
+  rating?: FeedbackRating;
+  comment?: string;
+};
+
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as FeedbackRequestBody;
+    const { kbId, eventId, rating, comment } = body || {};
+
+    if (!kbId || !eventId || (rating !== "up" && rating !== "down")) {
+      return NextResponse.json(
+        { error: "kbId, eventId and rating ('up' | 'down') are required" },
+        { status: 400 },
+      );
+    }
+    if (comment !== undefined && typeof comment !== "string") {
+      return NextResponse.json(
+        { error: "comment must be a string" },
+        { status: 400 },
+      );
+    }
+
+    // Widget JWT is mandatory: feedback only comes from the embedded widget
+    let widgetPayload: WidgetPayload;
+    try {
+      widgetPayload = await verifyWidgetRequest(req, kbId);
+    } catch (err) {
+      if (err instanceof WidgetAuthError) {
+        return NextResponse.json(
+          { error: err.message },
+          { status: err.statusCode },
+        );
+      }
+      throw err;
+    }
+
+    const rateLimit = await checkRateLimit(
+      `feedback:${getUserIdentifier(req, widgetPayload)}`,
+      "api",
+    );
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429 },
+      );
+    }
+
+    const result = await recordFeedback({ eventId, kbId, rating, comment });
+    if (!result.ok) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, rating });
+  } catch (err) {
+    console.error("Feedback handler error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,112 @@
+// app/api/chat/messages/route.ts
+export const runtime = "nodejs";
+
+import { isConversationId } from "@/lib/conversations/persistConversation";
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/upstash";
+import {
+  verifyWidgetRequest,
+  WidgetAuthError,
+  WidgetPayload,
+} from "@/lib/widget/verifyWidgetRequest";
+import { NextResponse } from "next/server";
+
+const MAX_MESSAGES = 50;
+
+/**
+ * Widget polling endpoint used while a conversation is handed off to a
+ * human: returns the agent's messages newer than `after`, the conversation
+ * status (so the widget knows when the bot is back) and the server time to
+ * use as the next `after`.
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const kbId = searchParams.get("kbId");
+    const conversationId = searchParams.get("conversationId");
+    const afterParam = searchParams.get("after");
+
+    if (!kbId || !isConversationId(conversationId)) {
+      return NextResponse.json(
+        { error: "kbId and conversationId are required" },
+        { status: 400 },
+      );
+    }
+
+    const after = afterParam ? new Date(afterParam) : null;
+    if (after && Number.isNaN(after.getTime())) {
+      return NextResponse.json(
+        { error: "after must be an ISO date" },
+        { status: 400 },
+      );
+    }
+
+    let widgetPayload: WidgetPayload;
+    try {
+      widgetPayload = await verifyWidgetRequest(req, kbId);
+    } catch (err) {
+      if (err instanceof WidgetAuthError) {
+        return NextResponse.json(
+          { error: err.message },
+          { status: err.statusCode },
+        );
+      }
+      throw err;
+    }
+
+    // Keyed per conversation: all widget visitors share one KB identifier
+    const rateLimit = await checkRateLimit(`messages:${conversationId}`, "api");
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded" },
+        { status: 429 },
+      );
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      // Only the visitor the token was issued to can poll a conversation
+      where: {
+        id: conversationId,
+        kbId,
+        channel: "website",
+        visitorId: widgetPayload.visitorId ?? "",
+      },
+      select: { id: true, status: true },
+    });
+    if (!conversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 },
+      );
+    }
+
+    const now = new Date();
+    const messages = await prisma.message.findMany({
+      where: {
+        conversationId: conversation.id,
+        sender: "agent",
+        createdAt: { ...(after && { gt: after }), lte: now },
+      },
+      orderBy: { createdAt: "asc" },
+      take: MAX_MESSAGES,
+      select: { id: true, sender: true, content: true, createdAt: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      status: conversation.status,
+      messages,
+      // next `after`; stops at the last returned message if the page was full
+      now: (messages.length === MAX_MESSAGES
+        ? messages[messages.length - 1].createdAt
+        : now
+      ).toISOString(),
+    });
+  } catch (err) {
+    console.error("Chat messages handler error:", err);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,91 +1,73 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 export const runtime = "nodejs";
 
-import { logInteraction } from "@/lib/analytics/logInteraction";
+import {
+  Answer,
+  AnswerContext,
+  answerQuestion,
+} from "@/lib/answer/answerQuestion";
+import {
+  handoffMessage,
+  isHandoffRequest,
+  resolveHandoffSettings,
+  startHandoff,
+} from "@/lib/conversations/handoff";
+import {
+  advanceLeadCapture,
+  readLeadCaptureState,
+  resolveLeadCaptureSettings,
+  saveLeadCaptureState,
+} from "@/lib/leads/leadCapture";
+import {
+  appendConversationMessage,
+  appendConversationTurn,
+  findConversation,
+  loadConversationHistory,
+} from "@/lib/conversations/persistConversation";
 import {
   recordInvocationMetrics,
   startInvocation,
 } from "@/lib/monitoring/vercelMetrics";
+import { createSseResponse, sseFromText, wantsEventStream } from "@/lib/sse";
+import { checkUsageLimits } from "@/lib/subscription/checkUsageLimits";
+import { usageLimitMessage } from "@/lib/subscription/limitMessage";
+import { estimateTokens } from "@/lib/usage/metering";
 import {
-  checkUsageLimits,
-  getOverageRate,
-} from "@/lib/subscription/checkUsageLimits";
-import crypto from "crypto";
-import { jwtVerify } from "jose";
+  verifyWidgetRequest,
+  WidgetAuthError,
+  WidgetPayload,
+} from "@/lib/widget/verifyWidgetRequest";
 import { NextResponse } from "next/server";
 
 // ---------- Config ----------
-const OPENAI_MODEL = process.env.CHAT_MODEL || "gpt-4o-mini";
-const DEFAULT_TOP_K = Number(process.env.CHAT_DEFAULT_TOP_K ?? 5);
-const MAX_TOP_K = Number(process.env.CHAT_MAX_TOP_K ?? 8);
-const MAX_PROMPT_TOKENS = Number(process.env.CHAT_MAX_CONTEXT_TOKENS ?? 3000);
 const JWT_SECRET = process.env.WIDGET_JWT_SECRET!;
 if (!JWT_SECRET) throw new Error("WIDGET_JWT_SECRET not defined");
 
 const DEMO_KB_ID = process.env.DEMO_KB_ID ?? null;
 
-// ---------- Helpers ----------
-function sanitizeText(s: string) {
-  return (s || "").toString().trim();
-}
-
-function estimateMinutesFromText(text?: string | null, wpm = 200) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean).length;
-  if (words === 0) return 0;
-  return Math.max(1, Math.ceil(words / wpm));
-}
-
 // ---------- Types ----------
-type ChunkMetadata = {
-  documentId?: string;
-  filename?: string;
-  sourceUrl?: string;
-  chunkIndex?: number;
-  totalChunks?: number;
-  startOffset?: number;
-  endOffset?: number;
-};
-
 type ChatRequestBody = {
   kbId?: string;
   message?: string;
   conversationId?: string | null;
-  history?: Array<{ role?: "user" | "assistant" | string; text?: string }>;
   userId?: string;
   topK?: number;
   isDemo?: boolean;
+  stream?: boolean;
 };
 
 // ---------- POST ----------
 export async function POST(req: Request) {
   // Lazy imports and initializations inside handler
-  const [
-    { createEmbeddings },
-    { prisma },
-    upstashModule,
-    upstashVectorModule,
-    upstashSearchModule,
-  ] = await Promise.all([
-    import("@/lib/embedding-service"),
+  const [{ prisma }, upstashModule, { verifyKbApiKey }] = await Promise.all([
     import("@/lib/prisma"),
     import("@/lib/upstash"),
-    import("@/lib/upstash-vector"),
-    import("@/search/upstash-search"),
+    import("@/lib/kb/kbApiKeys"),
   ]);
 
   const requestPath = new URL(req.url).pathname;
   const invCtx = startInvocation();
-  const { CacheService, checkRateLimit, createHash, getUserIdentifier } =
-    upstashModule as any;
-  const upstashVector = (upstashVectorModule as any).default;
-  const { upstashSearchSimilar } = upstashSearchModule as any;
-
-  // Lazy-init OpenAI and cache
-  const OpenAI = (await import("openai")).default;
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-  const cache = CacheService.getInstance();
+  const { checkRateLimit, getUserIdentifier } = upstashModule as any;
 
   try {
     const body = (await req.json().catch(() => ({}))) as ChatRequestBody;
@@ -93,10 +75,10 @@ export async function POST(req: Request) {
       kbId,
       message,
       conversationId,
-      history = [],
       topK: requestedTopK,
       isDemo = false,
     } = body || {};
+    const stream = wantsEventStream(req, body?.stream);
 
     if (!kbId || !message?.trim()) {
       return NextResponse.json(
@@ -107,33 +89,10 @@ export async function POST(req: Request) {
 
     const isDemoKb = DEMO_KB_ID !== null && kbId === DEMO_KB_ID;
 
-    // Widget JWT verification
     const authHeader = (req.headers.get("authorization") || "").replace(
       /^Bearer\s+/,
       "",
     );
-    let widgetPayload: { kbId?: string; origin?: string } | null = null;
-
-    if (authHeader) {
-      try {
-        const secretKey = new TextEncoder().encode(JWT_SECRET);
-        const { payload } = await jwtVerify(authHeader, secretKey);
-
-        widgetPayload = {
-          kbId: payload.kbId as string | undefined,
-          origin: payload.origin as string | undefined,
-        };
-
-        if (widgetPayload.kbId && widgetPayload.kbId !== kbId) {
-          return NextResponse.json(
-            { error: "KB ID mismatch in widget token" },
-            { status: 403 },
-          );
-        }
-      } catch {
-        widgetPayload = null;
-      }
-    }
 
     // Load KB
     const targetKbId = kbId;
@@ -167,57 +126,31 @@ export async function POST(req: Request) {
 
     const metadata = kbData.metadata ?? {};
 
-    // Widget origin check
-    if (!isDemoKb && widgetPayload) {
-      const allowedOrigins = Array.isArray(metadata.allowedOrigins)
-        ? metadata.allowedOrigins.map((o: string) => new URL(o).origin)
-        : [];
-
-      if (widgetPayload.origin && allowedOrigins.length > 0) {
-        if (!allowedOrigins.includes(widgetPayload.origin)) {
-          return NextResponse.json(
-            { error: "Origin not allowed for widget token" },
-            { status: 403 },
-          );
-        }
-      } else {
+    // Widget JWT verification; a bearer token that isn't a widget token is
+    // checked as an API key below
+    let widgetPayload: WidgetPayload | null = null;
+    try {
+      widgetPayload = await verifyWidgetRequest(req, targetKbId, kb);
+    } catch (err) {
+      if (!(err instanceof WidgetAuthError)) throw err;
+      if (err.code !== "missing_token" && err.code !== "invalid_token") {
         return NextResponse.json(
-          { error: "Invalid widget token (missing origin)" },
-          { status: 403 },
+          { error: err.message },
+          { status: err.statusCode },
         );
       }
     }
 
     // API key protection
     if (!isDemoKb && !widgetPayload) {
-      const storedHashHex =
-        typeof metadata.apiKeyHash === "string"
-          ? metadata.apiKeyHash
-          : undefined;
-      if (!storedHashHex) {
+      const keyCheck = await verifyKbApiKey(kb, authHeader.trim(), req);
+      if (keyCheck === "not_configured") {
         return NextResponse.json(
           { error: "Knowledge base is private; API key required" },
           { status: 401 },
         );
       }
-      if (!authHeader) {
-        return NextResponse.json(
-          { error: "Unauthorized for this KB" },
-          { status: 401 },
-        );
-      }
-
-      const incomingToken = authHeader.trim();
-      const incomingHashBuf = crypto
-        .createHash("sha256")
-        .update(incomingToken, "utf8")
-        .digest();
-      const storedHashBuf = Buffer.from(storedHashHex, "hex");
-
-      if (
-        storedHashBuf.length !== incomingHashBuf.length ||
-        !crypto.timingSafeEqual(storedHashBuf, incomingHashBuf)
-      ) {
+      if (keyCheck === "invalid") {
         return NextResponse.json(
           { error: "Unauthorized for this KB" },
           { status: 401 },
@@ -228,38 +161,22 @@ export async function POST(req: Request) {
     // ========== SUBSCRIPTION & USAGE LIMIT CHECK ==========
     // Skip for demo KB (legacy support)
     if (!isDemoKb) {
-      const estimatedMinutes = estimateMinutesFromText(message);
-      const usageCheck = await checkUsageLimits(
-        kbData.userId,
-        estimatedMinutes,
-      );
+      const usageCheck = await checkUsageLimits(kbData.userId, {
+        tokens: estimateTokens(message),
+      });
 
       if (!usageCheck.allowed) {
-        const responseBody: any = {
-          error: "usage_limit_exceeded",
-          message: usageCheck.reason,
-          requiresUpgrade: usageCheck.requiresUpgrade,
-          planName: usageCheck.planName,
-        };
-
-        // Include usage stats if available
-        if (usageCheck.remainingMinutes !== undefined) {
-          responseBody.usage = {
-            remaining: usageCheck.remainingMinutes,
-            total: usageCheck.totalMinutes,
-            used: usageCheck.usedMinutes,
-          };
-        }
-
-        // Include overage rate if applicable
-        if (usageCheck.planName) {
-          const overageRate = getOverageRate(usageCheck.planName);
-          if (overageRate > 0) {
-            responseBody.overageRate = overageRate;
-          }
-        }
-
-        return NextResponse.json(responseBody, { status: 402 }); // 402 Payment Required
+        console.warn(
+          `Usage limit exceeded for user ${kbData.userId}: ${usageCheck.reason}`,
+        );
+        // Visitors get the KB's polite fallback, not the owner's billing status
+        return NextResponse.json(
+          {
+            error: "usage_limit_exceeded",
+            message: usageLimitMessage(metadata, message),
+          },
+          { status: 402 },
+        );
       }
     }
     // ========== END SUBSCRIPTION CHECK ==========
@@ -285,378 +202,256 @@ export async function POST(req: Request) {
       rateLimit = rl;
     }
 
-    // topK
-    const topK = Math.max(
-      1,
-      Math.min(MAX_TOP_K, Number(requestedTopK ?? DEFAULT_TOP_K)),
-    );
-
-    // Check chat cache
-    const messageHash = createHash(message);
-    const cachedResponse = await cache.getChatResponse(targetKbId, messageHash);
-
-    if (cachedResponse) {
-      const minutes = estimateMinutesFromText(message);
-      const eventId = crypto.randomUUID();
-
-      const fallbackRegex =
-        /\b(i (do not|don't) know|cannot find|no information|sorry,|unable to)/i;
-      const isFallback =
-        !cachedResponse.sources?.length ||
-        fallbackRegex.test(cachedResponse.text);
-      const isCorrect =
-        (cachedResponse.sources?.length ?? 0) > 0 &&
-        cachedResponse.text.length > 20 &&
-        !isFallback;
-      const isNegative = !isCorrect;
-
-      try {
-        await logInteraction({
-          userId: kbData.userId,
-          botId: kbData.botId!,
-          channel: "website",
-          interactions: 1,
-          minutes,
-          isCorrect,
-          isNegative,
-          isFallback,
-          eventId,
-          meta: {
-            requestPath,
-            userIdentifier: isDemoKb
-              ? "demo-user"
-              : getUserIdentifier(req, widgetPayload),
-            promptSize: message.length,
-            retrievedCount: cachedResponse.sources?.length ?? 0,
-            cached: true,
-            isDemo: isDemoKb || isDemo,
-          },
-        });
-      } catch (err) {
-        console.warn("logInteraction failed (cached path):", err);
-      }
+    // Widget visitors are told apart by the id bound into their token
+    const visitorId: string =
+      widgetPayload?.visitorId ??
+      (isDemoKb ? "demo-user" : getUserIdentifier(req, widgetPayload));
 
-      try {
-        await prisma.usage.upsert({
-          where: { eventId },
-          create: {
-            eventId,
-            userId: kbData.userId ?? null,
-            botId: kbData.botId ?? null,
-            date: new Date(),
-            interactions: 1,
-            minutes,
-            meta: {
-              kbId: targetKbId,
-              conversationId: conversationId ?? null,
-              cached: true,
-              promptSize: message.length,
-              retrievedCount: cachedResponse.sources?.length ?? 0,
-              requestPath,
-              userIdentifier: isDemoKb
-                ? "demo-user"
-                : getUserIdentifier(req, widgetPayload),
-              isDemo: isDemoKb || isDemo,
-              createdAt: new Date().toISOString(),
-            },
-          },
-          update: {
-            date: new Date(),
-            meta: {
-              set: {
-                kbId: targetKbId,
-                conversationId: conversationId ?? null,
-                cached: true,
-                promptSize: message.length,
-                retrievedCount: cachedResponse.sources?.length ?? 0,
-                requestPath,
-                userIdentifier: isDemoKb
-                  ? "demo-user"
-                  : getUserIdentifier(req, widgetPayload),
-                isDemo: isDemoKb || isDemo,
-                lastSeenAt: new Date().toISOString(),
-              },
-            },
-          },
-        });
-      } catch (err) {
-        console.warn("usage upsert failed (cached path):", err);
-      }
+    // Prior turns come from the stored conversation only; client-sent
+    // history is ignored so it can't be spoofed. Another visitor's
+    // conversation id is rejected rather than continued.
+    const existingConversation = await findConversation({
+      conversationId,
+      kbId: targetKbId,
+      userId: kbData.userId,
+      visitorId,
+    });
+    if (conversationId && !existingConversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 },
+      );
+    }
+    const history = existingConversation
+      ? await loadConversationHistory(existingConversation.id)
+      : [];
+    let activeConversationId: string | null = existingConversation?.id ?? null;
+
+    // ========== HUMAN HANDOFF ==========
+    // While an agent has the conversation the bot stays quiet; the widget
+    // polls /api/chat/messages for the agent's replies.
+    if (existingConversation?.status === "handoff") {
+      await appendConversationMessage({
+        conversationId: existingConversation.id,
+        sender: "user",
+        content: message,
+      });
 
-      return NextResponse.json({
+      const handoffBody = {
         success: true,
-        text: cachedResponse.text,
-        conversationId: conversationId ?? null,
-        sources: cachedResponse.sources,
-        rateLimit: { remaining: rateLimit.remaining },
-        cached: true,
-        isDemo: isDemoKb || isDemo,
-      });
+        text: "",
+        conversationId: existingConversation.id,
+        handoff: true,
+        handoffSince: existingConversation.handoffAt?.toISOString() ?? null,
+      };
+      return stream
+        ? sseFromText("", handoffBody)
+        : NextResponse.json(handoffBody);
     }
 
-    // Retrieval / embedding
-    let retrieved: Array<{
-      text: string;
-      similarity: number;
-      metadata: ChunkMetadata;
-    }> = [];
+    const handoff = resolveHandoffSettings(metadata);
+    if (!isDemoKb && isHandoffRequest(message, handoff)) {
+      const reply = handoffMessage(handoff, message);
+      activeConversationId = await appendConversationTurn({
+        conversationId: activeConversationId,
+        kbId: targetKbId,
+        userId: kbData.userId,
+        botId: kbData.botId,
+        channel: "website",
+        visitorId,
+        userMessage: message,
+        botMessage: reply,
+        meta: { handoff: "requested" },
+      });
+      await startHandoff({
+        conversationId: activeConversationId,
+        reason: "requested",
+        lastMessage: message,
+      });
 
-    try {
-      const cachedEmbedding = await cache.getEmbedding(message);
-      let queryVec: number[] | undefined = undefined;
-
-      if (Array.isArray(cachedEmbedding) && cachedEmbedding.length > 0) {
-        queryVec = cachedEmbedding as number[];
-      } else {
-        const embeddings = await createEmbeddings([message]);
-        queryVec = embeddings[0];
-        if (queryVec) await cache.setEmbedding(message, queryVec);
-      }
+      const handoffBody = {
+        success: true,
+        text: reply,
+        conversationId: activeConversationId,
+        handoff: true,
+        handoffSince: new Date().toISOString(),
+      };
+      return stream
+        ? sseFromText(reply, handoffBody)
+        : NextResponse.json(handoffBody);
+    }
+    // ========== END HUMAN HANDOFF ==========
+
+    // ========== LEAD CAPTURE ==========
+    // The bot may ask for contact details first; once they're collected it
+    // answers the question that triggered the capture.
+    let question: string = message;
+    let replyPrefix = "";
+    const leadCapture = resolveLeadCaptureSettings(metadata);
+
+    if (!isDemoKb && leadCapture.enabled) {
+      const captureState = readLeadCaptureState(existingConversation?.meta);
+      const userTurns =
+        existingConversation && !captureState
+          ? await prisma.message.count({
+              where: {
+                conversationId: existingConversation.id,
+                sender: "user",
+              },
+            })
+          : 0;
+
+      const step = advanceLeadCapture({
+        settings: leadCapture,
+        state: captureState,
+        message,
+        userTurns,
+        language: metadata.language,
+      });
 
-      if (queryVec) {
-        const results = await upstashVector.query(queryVec, {
-          topK,
-          includeMetadata: true,
-          includeVectors: false,
-          filter: `kbId = '${targetKbId.replace(/'/g, "\\'")}'`,
+      if (step.type === "reply") {
+        activeConversationId = await appendConversationTurn({
+          conversationId: activeConversationId,
+          kbId: targetKbId,
+          userId: kbData.userId,
+          botId: kbData.botId,
+          channel: "website",
+          visitorId,
+          userMessage: message,
+          botMessage: step.text,
+          meta: { leadCapture: step.state.field ?? step.state.status },
         });
-
-        retrieved = (results ?? []).map((result: any) => {
-          const md = result.metadata as Record<string, unknown> | undefined;
-          const text = (md?.text as string) ?? "";
-          const metadata: ChunkMetadata = {
-            documentId: (md?.documentId as string) ?? "",
-            filename: (md?.filename as string) ?? "",
-            sourceUrl: (md?.sourceUrl as string) ?? "",
-            chunkIndex: Number(md?.chunkIndex ?? 0),
-            totalChunks: Number(md?.totalChunks ?? 1),
-            startOffset: Number(md?.startOffset ?? 0),
-            endOffset: Number(md?.endOffset ?? 0),
-          };
-          return {
-            text,
-            similarity: result.score ?? 0,
-            metadata,
-          };
+        await saveLeadCaptureState({
+          conversationId: activeConversationId,
+          state: step.state,
+          userId: kbData.userId,
+          kbId: targetKbId,
+          botId: kbData.botId,
         });
-      } else {
-        retrieved = await upstashSearchSimilar(targetKbId, message, topK);
-      }
-    } catch (err) {
-      console.error("Retrieval failed:", err);
-      retrieved = [];
-    }
 
-    const sourceBlocks = retrieved.map((r, i) => {
-      const srcMeta = r.metadata ?? {};
-      const label = srcMeta.filename || srcMeta.sourceUrl || `source-${i + 1}`;
-      return `SOURCE ${i + 1} (${label}, score=${(r.similarity || 0).toFixed(3)}):\n${r.text}`;
-    });
+        const captureBody = {
+          success: true,
+          text: step.text,
+          conversationId: activeConversationId,
+          leadCapture: step.state.status,
+        };
+        return stream
+          ? sseFromText(step.text, captureBody)
+          : NextResponse.json(captureBody);
+      }
 
-    // Build prompt
-    const personality = (metadata?.personality as string) || "";
-
-    const systemInstruction =
-      `You are a knowledgeable assistant with direct access to our platform's knowledge base.
-
-CRITICAL INSTRUCTIONS:
-1. Answer questions directly using the information from the SOURCE blocks provided below
-2. DO NOT redirect users with phrases like "you can see it in our platform" or "check [HERE]"
-3. Extract and present the actual information from the sources in your response
-4. Be specific and detailed when answering - the sources contain the information users need
-5. Only say you don't have information if the sources genuinely don't contain relevant details
-6. Synthesize information from multiple sources when appropriate
-7. Present information naturally as if you're explaining it directly, not as if you're reading from a document
-
-${personality ? `Additional guidance: ${personality}` : ""}`.trim();
-
-    const retrievalText = sourceBlocks.length
-      ? `\n\nRetrieved information from knowledge base:\n\n${sourceBlocks.join("\n\n---\n\n")}\n\n`
-      : "\n\nNo specific information was retrieved from the knowledge base for this query.\n\n";
-
-    const historyText = history.length
-      ? "Previous conversation:\n" +
-        history
-          .map(
-            (h) =>
-              `${h.role === "assistant" ? "Assistant" : "User"}: ${sanitizeText(h.text ?? "")}`,
-          )
-          .join("\n") +
-        "\n\n"
-      : "";
-
-    const userBlock = `Current question:\nUser: ${sanitizeText(message)}\n\nProvide a direct, informative answer using the retrieved information above:\nAssistant:`;
-    let prompt = `${systemInstruction}\n\n${retrievalText}${historyText}${userBlock}`;
-
-    // Trim prompt if too long
-    if (prompt.length > MAX_PROMPT_TOKENS * 4) {
-      while (sourceBlocks.length && prompt.length > MAX_PROMPT_TOKENS * 4) {
-        sourceBlocks.pop();
-        const newRetrieval = sourceBlocks.length
-          ? `Use the following retrieved snippets to ground your answer:\n\n${sourceBlocks.join("\n\n---\n\n")}\n\n`
-          : "";
-        prompt = `${systemInstruction}\n\n${newRetrieval}${historyText}${userBlock}`;
+      if (step.type === "answer" && activeConversationId) {
+        await saveLeadCaptureState({
+          conversationId: activeConversationId,
+          state: step.state,
+          userId: kbData.userId,
+          kbId: targetKbId,
+          botId: kbData.botId,
+        });
+        question = step.question;
+        replyPrefix = step.prefix;
       }
     }
+    const withPrefix = (text: string) =>
+      replyPrefix ? `${replyPrefix}\n\n${text}` : text;
+    // ========== END LEAD CAPTURE ==========
 
-    // Check prompt-level LLM cache
-    const promptHash = createHash(prompt);
-    let assistantText = await cache.get(`chat_llm:${promptHash}`);
-
-    let llmMs = 0;
-
-    if (!assistantText) {
-      try {
-        const llmStart = Date.now();
-        const resp: any = await openai.responses.create({
-          model: OPENAI_MODEL,
-          input: prompt,
-          max_output_tokens: 800,
-          temperature: 0.1,
+    const answerKb = {
+      id: targetKbId,
+      userId: kbData.userId,
+      botId: kbData.botId,
+      metadata,
+    };
+    const answerContext = (
+      onDelta?: (text: string) => void,
+    ): AnswerContext => ({
+      channel: "website",
+      history,
+      topK: requestedTopK,
+      onDelta,
+      logMeta: {
+        requestPath,
+        userIdentifier: visitorId,
+        isDemo: isDemoKb || isDemo,
+      },
+      // Persist the turn before usage is logged so the row carries its id
+      onAnswer: async (answer) => {
+        activeConversationId = await appendConversationTurn({
+          conversationId: activeConversationId,
+          kbId: targetKbId,
+          userId: kbData.userId,
+          botId: kbData.botId,
+          channel: "website",
+          visitorId,
+          userMessage: message,
+          botMessage: withPrefix(answer.text),
+          sources: answer.sources,
+          isFallback: answer.isFallback,
+          meta: {
+            eventId: answer.eventId,
+            cached: answer.cached,
+            responseTimeMs: answer.llmMs,
+          },
         });
-        llmMs = Date.now() - llmStart;
-
-        if (resp?.output && Array.isArray(resp.output)) {
-          assistantText = resp.output
-            .map((o: any) =>
-              (o?.content || [])
-                .map((c: any) => (typeof c?.text === "string" ? c.text : ""))
-                .join(" "),
-            )
-            .join(" ")
-            .trim();
-        } else if (typeof resp?.output_text === "string") {
-          assistantText = resp.output_text;
-        } else {
-          assistantText = String(resp?.output?.[0]?.content?.[0]?.text ?? "");
-        }
+        return { meta: { conversationId: activeConversationId } };
+      },
+    });
 
-        if (assistantText) {
-          await cache.set(`chat_llm:${promptHash}`, assistantText, 1800);
-        }
-      } catch (err) {
-        console.error("LLM call failed:", err);
-        return NextResponse.json(
-          { error: "LLM call failed", details: String(err) },
-          { status: 500 },
-        );
+    const completeTurn = async (answer: Answer) => {
+      if (!answer.cached) {
+        void recordInvocationMetrics(await invCtx, {
+          llmResponseMs: answer.llmMs,
+          userId: kbData.userId,
+          botId: kbData.botId,
+          tag: "chat",
+        });
       }
-    }
 
-    // Prepare responseData and cache
-    const responseData = {
-      text: assistantText ?? "",
-      sources: retrieved.map((r, i) => ({
-        index: i + 1,
-        similarity: r.similarity,
-        meta: r.metadata,
-      })),
+      return {
+        success: true,
+        text: withPrefix(answer.text),
+        conversationId: activeConversationId,
+        eventId: answer.eventId,
+        sources: answer.sources,
+        rateLimit: { remaining: rateLimit.remaining },
+        cached: answer.cached,
+        isDemo: isDemoKb || isDemo,
+      };
     };
 
-    await cache.setChatResponse(targetKbId, messageHash, responseData);
+    if (stream) {
+      return createSseResponse(async (send) => {
+        if (replyPrefix) send("delta", { text: `${replyPrefix}\n\n` });
 
-    // Usage logging
-    const chatMinutes = estimateMinutesFromText(prompt, 200);
-    const eventId = crypto.randomUUID();
-
-    const fallbackRegex =
-      /\b(i (do not|don't) know|cannot find|no information|sorry,|unable to)/i;
-    const isFallback = !retrieved.length || fallbackRegex.test(assistantText);
-    const isCorrect =
-      retrieved.length > 0 && assistantText.length > 20 && !isFallback;
-    const isNegative = !isCorrect;
+        let answer: Answer;
+        try {
+          answer = await answerQuestion(
+            answerKb,
+            question,
+            answerContext((text) => send("delta", { text })),
+          );
+        } catch (err) {
+          console.error("LLM stream failed:", err);
+          send("error", { error: "LLM call failed", details: String(err) });
+          return;
+        }
 
-    try {
-      await logInteraction({
-        userId: kbData.userId,
-        botId: kbData.botId!,
-        channel: "website",
-        interactions: 1,
-        minutes: chatMinutes,
-        isCorrect,
-        isNegative,
-        isFallback,
-        eventId,
-        meta: {
-          responseTimeMs: llmMs,
-          requestPath,
-          userIdentifier: isDemoKb
-            ? "demo-user"
-            : getUserIdentifier(req, widgetPayload),
-          promptSize: prompt.length,
-          retrievedCount: retrieved.length,
-          isDemo: isDemoKb || isDemo,
-        },
+        send("done", await completeTurn(answer));
       });
-    } catch (err) {
-      console.warn("logInteraction failed (llm path):", err);
     }
 
+    let answer: Answer;
     try {
-      await prisma.usage.upsert({
-        where: { eventId },
-        create: {
-          eventId,
-          userId: kbData.userId ?? null,
-          botId: kbData.botId ?? null,
-          date: new Date(),
-          interactions: 1,
-          minutes: chatMinutes,
-          meta: {
-            kbId: targetKbId,
-            conversationId: conversationId ?? null,
-            cached: false,
-            promptSize: prompt.length,
-            retrievedCount: retrieved.length,
-            responseTimeMs: llmMs,
-            requestPath,
-            userIdentifier: isDemoKb
-              ? "demo-user"
-              : getUserIdentifier(req, widgetPayload),
-            isDemo: isDemoKb || isDemo,
-            createdAt: new Date().toISOString(),
-          },
-        },
-        update: {
-          date: new Date(),
-          meta: {
-            set: {
-              kbId: targetKbId,
-              conversationId: conversationId ?? null,
-              cached: false,
-              promptSize: prompt.length,
-              retrievedCount: retrieved.length,
-              responseTimeMs: llmMs,
-              requestPath,
-              userIdentifier: isDemoKb
-                ? "demo-user"
-                : getUserIdentifier(req, widgetPayload),
-              isDemo: isDemoKb || isDemo,
-              lastSeenAt: new Date().toISOString(),
-            },
-          },
-        },
-      });
+      answer = await answerQuestion(answerKb, question, answerContext());
     } catch (err) {
-      console.warn("usage upsert failed (llm path):", err);
+      console.error("LLM call failed:", err);
+      return NextResponse.json(
+        { error: "LLM call failed", details: String(err) },
+        { status: 500 },
+      );
     }
 
-    void recordInvocationMetrics(await invCtx, {
-      llmResponseMs: llmMs,
-      userId: kbData.userId,
-      botId: kbData.botId,
-      tag: "chat",
-    });
-
-    return NextResponse.json({
-      success: true,
-      text: assistantText,
-      conversationId: conversationId ?? null,
-      sources: responseData.sources,
-      rateLimit: { remaining: rateLimit.remaining },
-      cached: false,
-      isDemo: isDemoKb || isDemo,
-    });
+    return NextResponse.json(await completeTurn(answer));
   } catch (err) {
     console.error("Chat handler error:", err);
     return NextResponse.json(
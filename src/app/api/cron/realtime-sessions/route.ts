@@ -0,0 +1,24 @@
+// app/api/cron/realtime-sessions/route.ts
+import { sweepRealtimeSessions } from "@/lib/usage/realtimeSessions";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+/**
+ * Vercel cron: bills realtime calls that passed the session limit without
+ * the client reporting a disconnect.
+ */
+export async function GET(req: Request) {
+  // Unset, the check below would accept "Bearer undefined"
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not set");
+    return NextResponse.json({ error: "cron_not_configured" }, { status: 500 });
+  }
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const billed = await sweepRealtimeSessions();
+  return NextResponse.json({ billed });
+}
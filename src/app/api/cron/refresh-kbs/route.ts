@@ -0,0 +1,51 @@
+// app/api/cron/refresh-kbs/route.ts
+import { enqueueKbRefresh } from "@/lib/kb/refreshKnowledgeBase";
+import { prisma } from "@/lib/prisma";
+import { RefreshSchedule } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+// Each KB fans out one QStash job per page; the rest wait for the next run
+const MAX_KBS_PER_RUN = 50;
+
+/**
+ * Hourly Vercel cron: queues a re-crawl of every KB whose daily or weekly
+ * refresh is due.
+ */
+export async function GET(req: Request) {
+  // Unset, the check below would accept "Bearer undefined"
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not set");
+    return NextResponse.json({ error: "cron_not_configured" }, { status: 500 });
+  }
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const due = await prisma.knowledgeBase.findMany({
+    where: {
+      refreshSchedule: {
+        in: [RefreshSchedule.DAILY, RefreshSchedule.WEEKLY],
+      },
+      nextRefreshAt: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { nextRefreshAt: "asc" },
+    take: MAX_KBS_PER_RUN,
+  });
+
+  let pages = 0;
+  const failed: string[] = [];
+  for (const kb of due) {
+    try {
+      pages += await enqueueKbRefresh(kb.id);
+    } catch (err) {
+      console.error(`Failed to refresh KB ${kb.id}:`, err);
+      failed.push(kb.id);
+    }
+  }
+
+  return NextResponse.json({ kbs: due.length, pages, failed });
+}
@@ -1,8 +1,10 @@
 // app/api/integrations/callback/[provider]/route.ts
-import { auth } from "@/lib/auth";
 import { encrypt } from "@/lib/crypto";
 import { SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
+import { checkEntitlement } from "@/lib/subscription/checkUsageLimits";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import { IntegrationType } from "@prisma/client";
 import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
@@ -354,12 +356,23 @@ export async function GET(
   }
   if (!stateObj) return redirectWithError("en", "invalid_state");
 
-  const session = await auth();
-  if (!session?.user.id) {
+  // Integrations belong to the active workspace's owner
+  const workspace = await getWorkspaceContext();
+  if (!workspace) {
     return NextResponse.redirect(
       new URL(`/${lang}/auth/login`, process.env.NEXTAUTH_URL!),
     );
   }
+  if (!hasWorkspacePermission(workspace.role, "manage")) {
+    return redirectWithError(lang, "role_not_allowed");
+  }
+
+  if (provider === "facebook") {
+    const entitlement = await checkEntitlement(workspace.ownerId, channel);
+    if (!entitlement.allowed) {
+      return redirectWithError(lang, "channel_not_in_plan");
+    }
+  }
 
   try {
     let tokenRes: TokenResponse;
@@ -418,10 +431,15 @@ export async function GET(
     );
     const providerToStore = provider === "facebook" ? channel : provider;
 
-    await upsertIntegration(session.user.id, providerToStore, integrationType, {
-      ...tokenRes,
-      ...additionalCredentials,
-    });
+    await upsertIntegration(
+      workspace.ownerId,
+      providerToStore,
+      integrationType,
+      {
+        ...tokenRes,
+        ...additionalCredentials,
+      },
+    );
 
     return redirectWithSuccess(
       lang,
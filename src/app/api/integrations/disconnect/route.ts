@@ -1,6 +1,7 @@
-import { auth } from "@/lib/auth";
 import { decrypt } from "@/lib/crypto";
 import { prisma } from "@/lib/prisma";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import { IntegrationType } from "@prisma/client";
 import { NextResponse } from "next/server";
 
@@ -156,15 +157,18 @@ const validateRequest = (
   );
 };
 
+// Integrations belong to the active workspace's owner
 const authenticateUser = async () => {
-  const session = await auth();
-  const userId = session?.user?.id;
+  const workspace = await getWorkspaceContext();
 
-  if (!userId) {
+  if (!workspace) {
     throw new Error("not_authenticated");
   }
+  if (!hasWorkspacePermission(workspace.role, "manage")) {
+    throw new Error("role_not_allowed");
+  }
 
-  return userId;
+  return workspace.ownerId;
 };
 
 export async function POST(req: Request) {
@@ -205,6 +209,9 @@ export async function POST(req: Request) {
     if (error instanceof Error && error.message === "not_authenticated") {
       return createErrorResponse("not_authenticated", 401);
     }
+    if (error instanceof Error && error.message === "role_not_allowed") {
+      return createErrorResponse("role_not_allowed", 403);
+    }
 
     return createErrorResponse("server_error", 500);
   }
@@ -1,15 +1,19 @@
 // app/api/integrations/google/spreadsheet/route.ts
-import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import { NextResponse } from "next/server";
 import { IntegrationType } from "@prisma/client";
 
 export async function POST(req: Request) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
+    const workspace = await getWorkspaceContext();
+    if (!workspace) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (!hasWorkspacePermission(workspace.role, "manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     const { spreadsheetId, spreadsheetName } = await req.json();
 
@@ -23,7 +27,7 @@ export async function POST(req: Request) {
     // Update the Google Sheets integration with the selected spreadsheet
     const integration = await prisma.integration.findFirst({
       where: {
-        userId: session.user.id,
+        userId: workspace.ownerId,
         type: IntegrationType.GOOGLE_SHEETS,
         enabled: true,
       },
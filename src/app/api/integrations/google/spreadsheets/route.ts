@@ -1,7 +1,8 @@
 // app/api/integrations/google/spreadsheets/route.ts
-import { auth } from "@/lib/auth";
 import { decrypt } from "@/lib/crypto";
 import { prisma } from "@/lib/prisma";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import { IntegrationType } from "@prisma/client";
 import { google } from "googleapis";
 import { NextResponse } from "next/server";
@@ -15,15 +16,18 @@ type GoogleFile = {
 
 export async function GET() {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
+    const workspace = await getWorkspaceContext();
+    if (!workspace) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (!hasWorkspacePermission(workspace.role, "manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     // Get the Google Sheets integration
     const integration = await prisma.integration.findFirst({
       where: {
-        userId: session.user.id,
+        userId: workspace.ownerId,
         type: IntegrationType.GOOGLE_SHEETS,
         enabled: true,
       },
@@ -1,5 +1,9 @@
 // app/api/integrations/oauth/[provider]/route.ts
 import { SupportedLang } from "@/lib/dictionaries";
+import { checkEntitlement } from "@/lib/subscription/checkUsageLimits";
+import { isEntitlementChannel } from "@/lib/subscription/planEntitlements";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import crypto from "crypto";
 import { NextResponse } from "next/server";
 
@@ -243,5 +247,28 @@ export async function GET(
       ? normalizedProvider
       : undefined;
 
+  // Messaging channels depend on the role and the owner's plan; the callback checks again
+  if (channel && isEntitlementChannel(channel)) {
+    const workspace = await getWorkspaceContext();
+    if (!workspace) {
+      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+    }
+    if (!hasWorkspacePermission(workspace.role, "manage")) {
+      return NextResponse.json({ error: "role_not_allowed" }, { status: 403 });
+    }
+
+    const entitlement = await checkEntitlement(workspace.ownerId, channel);
+    if (!entitlement.allowed) {
+      return NextResponse.json(
+        {
+          error: "channel_not_in_plan",
+          message: entitlement.reason,
+          requiresUpgrade: true,
+        },
+        { status: 403 },
+      );
+    }
+  }
+
   return handleOAuthProvider(normalizedProvider, type, lang, channel);
 }
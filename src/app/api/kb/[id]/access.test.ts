@@ -0,0 +1,142 @@
+import { auth } from "@/lib/auth";
+import { issueKbApiKey } from "@/lib/kb/kbApiKeys";
+import { prisma } from "@/lib/prisma";
+import { getWorkspaceRole } from "@/lib/workspaces/workspaceAccess";
+import type { WorkspaceRole } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as crawlJobs from "./crawl-jobs/route";
+import * as deployConfig from "./deploy-config/route";
+import * as generateApiKey from "./generate-api-key/route";
+import * as generateVerifyToken from "./generate-verify-token/route";
+
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    knowledgeBase: { findUnique: vi.fn(), update: vi.fn() },
+    auditLog: { create: vi.fn() },
+    crawlJob: { findFirst: vi.fn() },
+    integration: { findUnique: vi.fn() },
+  },
+}));
+vi.mock("next/headers", () => ({ headers: async () => new Headers() }));
+vi.mock("@/lib/workspaces/workspaceAccess", () => ({
+  getWorkspaceRole: vi.fn(),
+}));
+vi.mock("@/lib/kb/crawlJobs", () => ({ getCrawlJobProgress: vi.fn() }));
+vi.mock("@/lib/subscription/checkUsageLimits", () => ({
+  checkEntitlement: vi.fn(async () => ({ allowed: true })),
+}));
+vi.mock("@/lib/kb/kbApiKeys", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/kb/kbApiKeys")>()),
+  issueKbApiKey: vi.fn(async () => ({
+    id: "key-1",
+    key: "kb_secret",
+    prefix: "kb_secret",
+    expiresAt: null,
+  })),
+}));
+
+const KB_ID = "64b7f0c2a1b2c3d4e5f60718";
+const OWNER_ID = "owner-1";
+
+const ctx = { params: Promise.resolve({ id: KB_ID }) };
+
+function post(body: unknown = {}) {
+  return new Request(`http://localhost/api/kb/${KB_ID}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+const get = () => new Request(`http://localhost/api/kb/${KB_ID}`);
+
+const routes = {
+  "GET crawl-jobs": () => crawlJobs.GET(get(), ctx),
+  "GET deploy-config": () => deployConfig.GET(get(), ctx),
+  "POST deploy-config": () =>
+    deployConfig.POST(post({ allowedOrigins: ["https://evil.test"] }), ctx),
+  "POST generate-api-key": () => generateApiKey.POST(post(), ctx),
+  "POST generate-verify-token": () => generateVerifyToken.POST(post(), ctx),
+};
+const writeRoutes = [
+  "POST deploy-config",
+  "POST generate-api-key",
+  "POST generate-verify-token",
+] as const;
+
+function signIn(userId: string | null, role: WorkspaceRole | null = null) {
+  vi.mocked(auth as unknown as () => Promise<unknown>).mockResolvedValue(
+    userId ? { user: { id: userId, role: "USER" } } : null,
+  );
+  vi.mocked(getWorkspaceRole).mockResolvedValue(role);
+}
+
+function expectNoWrites() {
+  expect(prisma.knowledgeBase.update).not.toHaveBeenCalled();
+  expect(issueKbApiKey).not.toHaveBeenCalled();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(prisma.knowledgeBase.findUnique).mockResolvedValue({
+    id: KB_ID,
+    userId: OWNER_ID,
+    title: "Support",
+    metadata: {},
+    lastRefreshAt: null,
+  } as never);
+  vi.mocked(prisma.crawlJob.findFirst).mockResolvedValue(null);
+});
+
+describe("/api/kb/[id] routes", () => {
+  it.each(Object.keys(routes) as (keyof typeof routes)[])(
+    "%s rejects unauthenticated callers",
+    async (route) => {
+      signIn(null);
+
+      const res = await routes[route]();
+      expect(res.status).toBe(401);
+      expectNoWrites();
+    },
+  );
+
+  it.each(Object.keys(routes) as (keyof typeof routes)[])(
+    "%s hides KBs from other workspaces",
+    async (route) => {
+      signIn("stranger");
+
+      const res = await routes[route]();
+      expect(res.status).toBe(404);
+      expect(await res.json()).toMatchObject({ code: "not_found" });
+      expectNoWrites();
+    },
+  );
+
+  it.each(writeRoutes)("%s is forbidden to viewers", async (route) => {
+    signIn("viewer", "VIEWER");
+
+    const res = await routes[route]();
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ code: "forbidden" });
+    expectNoWrites();
+  });
+
+  it("only lets editors change deploy settings, not keys", async () => {
+    signIn("editor", "EDITOR");
+
+    expect((await routes["POST deploy-config"]()).status).toBe(200);
+    expect((await routes["POST generate-api-key"]()).status).toBe(403);
+    expect((await routes["POST generate-verify-token"]()).status).toBe(403);
+    expect(issueKbApiKey).not.toHaveBeenCalled();
+  });
+
+  it.each(Object.keys(routes) as (keyof typeof routes)[])(
+    "%s works for the workspace owner",
+    async (route) => {
+      signIn(OWNER_ID, "OWNER");
+
+      const res = await routes[route]();
+      expect(res.status).toBe(200);
+    },
+  );
+});
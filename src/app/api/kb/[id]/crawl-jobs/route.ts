@@ -0,0 +1,39 @@
+// src/app/api/kb/[id]/crawl-jobs/route.ts
+import { auth } from "@/lib/auth";
+import { getCrawlJobProgress } from "@/lib/kb/crawlJobs";
+import { prisma } from "@/lib/prisma";
+import { KbAccessError, requireKbAccess } from "@/lib/workspaces/kbAccess";
+import { NextResponse } from "next/server";
+
+/**
+ * GET -> progress of the KB's latest crawl, polled by the KB page while a
+ * crawl runs. `{ job: null }` when the KB was never crawled.
+ *
+ * Members of the KB's workspace who can view it.
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: kbId } = await params;
+    await requireKbAccess(await auth(), kbId, "read");
+
+    const job = await prisma.crawlJob.findFirst({
+      where: { kbId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      job: job ? await getCrawlJobProgress(job) : null,
+    });
+  } catch (err) {
+    if (err instanceof KbAccessError)
+      return NextResponse.json(
+        { error: err.message, code: err.code },
+        { status: err.statusCode },
+      );
+    console.error("crawl-jobs GET error:", err);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+}
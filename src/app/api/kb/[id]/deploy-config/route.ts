@@ -2,13 +2,15 @@
 import { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { KbAccessError, requireKbAccess } from "@/lib/workspaces/kbAccess";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
 import { NextResponse } from "next/server";
 
 /**
  * GET -> return deploy metadata (allowedOrigins, isPublic)
  * POST -> update allowedOrigins (array) and isPublic boolean
  *
- * Owner-only actions.
+ * GET needs a workspace role that can view the KB, POST one that can edit it.
  */
 
 export async function GET(
@@ -17,12 +19,7 @@ export async function GET(
 ) {
   try {
     const { id: kbId } = await params;
-    const kb = await prisma.knowledgeBase.findUnique({
-      where: { id: kbId },
-      select: { id: true, metadata: true, userId: true },
-    });
-    if (!kb)
-      return NextResponse.json({ error: "KB not found" }, { status: 404 });
+    const { kb, role } = await requireKbAccess(await auth(), kbId, "read");
 
     const metadata = (kb.metadata as Record<string, unknown>) ?? {};
     const allowedOrigins = Array.isArray(metadata.allowedOrigins)
@@ -30,9 +27,8 @@ export async function GET(
       : [];
     const hasVerifyToken = typeof metadata.verifyTokenHash === "string";
 
-    // Determine if requester is owner so we can optionally return (masked) token or owner-only info
-    const user = await auth().catch(() => null);
-    const isOwner = !!user?.user?.id && user.user.id === kb.userId;
+    // Whether the requester can edit the deploy settings
+    const isOwner = hasWorkspacePermission(role, "edit");
 
     return NextResponse.json({
       allowedOrigins,
@@ -43,6 +39,11 @@ export async function GET(
       isOwner,
     });
   } catch (err) {
+    if (err instanceof KbAccessError)
+      return NextResponse.json(
+        { error: err.message, code: err.code },
+        { status: err.statusCode },
+      );
     console.error("deploy-config GET error:", err);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
@@ -53,26 +54,14 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const user = await auth();
-    if (!user?.user?.id)
-      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
-
     const { id: kbId } = await params;
+    const { kb } = await requireKbAccess(await auth(), kbId, "deploy");
+
     const body = await req.json().catch(() => ({}));
     const { allowedOrigins = [] } = body as {
       allowedOrigins?: string[];
     };
 
-    // Validate KB exists and is owned by user
-    const kb = await prisma.knowledgeBase.findUnique({
-      where: { id: kbId },
-      select: { id: true, userId: true, metadata: true },
-    });
-    if (!kb)
-      return NextResponse.json({ error: "KB not found" }, { status: 404 });
-    if (kb.userId !== user.user.id)
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-
     // Validate allowedOrigins items are valid origins (scheme+host)
     const normalizedOrigins: string[] = [];
     for (const o of Array.isArray(allowedOrigins) ? allowedOrigins : []) {
@@ -109,6 +98,11 @@ export async function POST(
       isPublic: false,
     });
   } catch (err) {
+    if (err instanceof KbAccessError)
+      return NextResponse.json(
+        { error: err.message, code: err.code },
+        { status: err.statusCode },
+      );
     console.error("deploy-config POST error:", err);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
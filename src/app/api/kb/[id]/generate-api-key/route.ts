@@ -1,61 +1,67 @@
 // src/app/api/kb/[id]/generate-api-key/route.ts
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
-import crypto from "crypto";
+import { issueKbApiKey, KbApiKeyError } from "@/lib/kb/kbApiKeys";
+import { checkEntitlement } from "@/lib/subscription/checkUsageLimits";
+import { KbAccessError, requireKbAccess } from "@/lib/workspaces/kbAccess";
 import { NextResponse } from "next/server";
 
 /**
- * POST -> generate/regenerate API key for KB
- * - only owner can call
- * - stores SHA256 hash in metadata.apiKeyHash
+ * POST -> create an additional API key for KB
+ * - only workspace owners and admins can call
+ * - optional JSON body: { label?, expiresAt? (ISO date) }
+ * - existing keys stay valid; revoke or rotate them from the deploy page
  * - returns plaintext apiKey once in response
  */
 
-function sha256Hex(input: string) {
-  return crypto.createHash("sha256").update(input, "utf8").digest("hex");
-}
-
 export async function POST(
   req: Request,
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const user = await auth();
-    if (!user?.user?.id)
-      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
-
     const { id: kbId } = await params;
+    const { kb } = await requireKbAccess(await auth(), kbId, "manage_keys");
 
-    const kb = await prisma.knowledgeBase.findUnique({
-      where: { id: kbId },
-      select: { id: true, userId: true, metadata: true },
-    });
-    if (!kb)
-      return NextResponse.json({ error: "KB not found" }, { status: 404 });
-    if (kb.userId !== user.user.id)
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    // The workspace owner's plan decides
+    const entitlement = await checkEntitlement(kb.userId, "apiAccess");
+    if (!entitlement.allowed)
+      return NextResponse.json(
+        { error: entitlement.reason, requiresUpgrade: true },
+        { status: 403 },
+      );
 
-    // Generate secure random key (hex)
-    const apiKey = crypto.randomBytes(32).toString("hex");
-    const hashed = sha256Hex(apiKey);
-
-    const existingMetadata =
-      (kb.metadata as Record<string, unknown> | null) ?? {};
-
-    const newMetadata = {
-      ...existingMetadata,
-      apiKeyHash: hashed,
-      apiKeyCreatedAt: new Date().toISOString(),
+    const body = (await req.json().catch(() => ({}))) as {
+      label?: unknown;
+      expiresAt?: unknown;
     };
+    const expiresAt =
+      typeof body.expiresAt === "string" ? new Date(body.expiresAt) : null;
+    if (expiresAt && !(expiresAt.getTime() > Date.now()))
+      return NextResponse.json(
+        { error: "expiresAt must be a future date" },
+        { status: 400 },
+      );
 
-    await prisma.knowledgeBase.update({
-      where: { id: kbId },
-      data: { metadata: newMetadata },
+    const created = await issueKbApiKey(kb, {
+      label: typeof body.label === "string" ? body.label : "API key",
+      expiresAt,
     });
 
     // Return the plaintext key once
-    return NextResponse.json({ success: true, apiKey });
+    return NextResponse.json({
+      success: true,
+      apiKey: created.key,
+      id: created.id,
+      prefix: created.prefix,
+      expiresAt: created.expiresAt,
+    });
   } catch (err) {
+    if (err instanceof KbAccessError)
+      return NextResponse.json(
+        { error: err.message, code: err.code },
+        { status: err.statusCode },
+      );
+    if (err instanceof KbApiKeyError)
+      return NextResponse.json({ error: err.message }, { status: 400 });
     console.error("generate-api-key error:", err);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
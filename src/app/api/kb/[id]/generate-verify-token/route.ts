@@ -2,6 +2,7 @@
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { KbAccessError, requireKbAccess } from "@/lib/workspaces/kbAccess";
 import crypto from "crypto";
 import { NextResponse } from "next/server";
 
@@ -22,24 +23,10 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> },
 ) {
   try {
-    const user = await auth();
-    if (!user?.user?.id) {
-      return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
-    }
-
     const { id: kbId } = await params;
 
-    // ensure KB exists and belongs to caller
-    const kb = await prisma.knowledgeBase.findUnique({
-      where: { id: kbId },
-      select: { id: true, userId: true, metadata: true },
-    });
-    if (!kb) {
-      return NextResponse.json({ error: "KB not found" }, { status: 404 });
-    }
-    if (kb.userId !== user.user.id) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
+    // ensure KB exists and the caller manages its workspace
+    const { kb } = await requireKbAccess(await auth(), kbId, "manage_keys");
 
     // SAFE body parsing: handle empty body or invalid JSON gracefully
     let body: GenerateBody = {};
@@ -99,13 +86,13 @@ export async function POST(
     const newTokenMap: Record<string, string> = { ...existingTokenMap };
 
     for (const integrationId of integrationIds) {
-      // verify that the integration belongs to this user
+      // verify that the integration belongs to the KB's workspace
       const integ = await prisma.integration.findUnique({
         where: { id: integrationId },
         select: { id: true, userId: true },
       });
 
-      if (!integ || integ.userId !== user.user.id) {
+      if (!integ || integ.userId !== kb.userId) {
         // skip invalid integration ids (don't fail whole batch)
         console.warn(
           "generate-verify-token: skipping invalid or unauthorized integrationId",
@@ -150,6 +137,11 @@ export async function POST(
 
     return NextResponse.json({ success: true, tokens });
   } catch (err) {
+    if (err instanceof KbAccessError)
+      return NextResponse.json(
+        { error: err.message, code: err.code },
+        { status: err.statusCode },
+      );
     console.error("generate-verify-token error:", err);
     return NextResponse.json({ error: "internal_error" }, { status: 500 });
   }
@@ -0,0 +1,80 @@
+import { prisma } from "@/lib/prisma";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
+import { fetchHubspotLeads } from "@/services/crm/hubspot";
+import type { Lead } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    integration: { findFirst: vi.fn() },
+    lead: { findFirst: vi.fn(), update: vi.fn(), create: vi.fn() },
+  },
+}));
+vi.mock("@/lib/workspaces/workspaceAccess", () => ({
+  getWorkspaceContext: vi.fn(),
+}));
+vi.mock("@/services/crm/hubspot", () => ({ fetchHubspotLeads: vi.fn() }));
+vi.mock("@/services/crm/salesforce", () => ({ fetchSalesforceLeads: vi.fn() }));
+vi.mock("@/services/crm/googleSheets", () => ({
+  fetchGoogleSheetLeads: vi.fn(),
+}));
+
+const OWNER_ID = "owner-1";
+const EARLIER = { status: "NEW", at: "2026-01-01T00:00:00.000Z", source: null };
+
+function crmLead(fields: Partial<Lead>) {
+  return {
+    name: "Dana",
+    email: "dana@example.com",
+    phone: null,
+    status: "NEW",
+    source: "hubspot",
+    ...fields,
+  } as Lead;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getWorkspaceContext).mockResolvedValue({
+    ownerId: OWNER_ID,
+    role: "OWNER",
+  } as never);
+  vi.mocked(prisma.integration.findFirst).mockResolvedValue({
+    type: "HUBSPOT",
+  } as never);
+  vi.mocked(prisma.lead.findFirst).mockResolvedValue({
+    id: "lead-1",
+    status: "NEW",
+    statusHistory: [EARLIER],
+  } as never);
+});
+
+describe("GET /api/leads/sync", () => {
+  it("moves an existing lead to the CRM's status and records the change", async () => {
+    vi.mocked(fetchHubspotLeads).mockResolvedValue([
+      crmLead({ status: "QUALIFIED" }),
+    ]);
+
+    const res = await GET();
+    expect(res.status).toBe(200);
+
+    const { data } = vi.mocked(prisma.lead.update).mock.calls[0][0];
+    expect(data.status).toBe("QUALIFIED");
+    expect(data.statusHistory).toEqual([
+      EARLIER,
+      { status: "QUALIFIED", at: expect.any(String), source: "hubspot" },
+    ]);
+  });
+
+  it("leaves the status and its history alone when it did not change", async () => {
+    vi.mocked(fetchHubspotLeads).mockResolvedValue([crmLead({})]);
+
+    await GET();
+
+    const { data } = vi.mocked(prisma.lead.update).mock.calls[0][0];
+    expect(data).not.toHaveProperty("status");
+    expect(data).not.toHaveProperty("statusHistory");
+    expect(data).not.toHaveProperty("channel");
+  });
+});
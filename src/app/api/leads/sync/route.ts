@@ -1,6 +1,8 @@
 // /app/api/leads/sync/route.ts
-import { auth } from "@/lib/auth";
+import { appendStatusHistory } from "@/lib/leads/upsertSenderLead";
 import { prisma } from "@/lib/prisma";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import { fetchGoogleSheetLeads } from "@/services/crm/googleSheets";
 import { fetchHubspotLeads } from "@/services/crm/hubspot";
 import { fetchSalesforceLeads } from "@/services/crm/salesforce";
@@ -8,11 +10,14 @@ import { Lead } from "@prisma/client";
 import { NextResponse } from "next/server";
 
 export async function GET() {
-  const session = await auth();
-  if (!session?.user.id)
+  const workspace = await getWorkspaceContext();
+  if (!workspace)
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (!hasWorkspacePermission(workspace.role, "edit"))
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
 
-  const userId = session.user.id;
+  // Leads and the CRM integration belong to the workspace owner
+  const userId = workspace.ownerId;
 
   // Get the single CRM integration
   const integration = await prisma.integration.findFirst({
@@ -43,20 +48,52 @@ export async function GET() {
     }
 
     for (const lead of leads) {
-      const existing = await prisma.lead.findFirst({
-        where: {
-          email: lead.email,
-          userId,
-        },
-      });
+      // A CRM row without an email would otherwise match any lead without one
+      const existing = lead.email
+        ? await prisma.lead.findFirst({
+            where: {
+              email: lead.email,
+              userId,
+            },
+            select: { id: true, status: true, statusHistory: true },
+          })
+        : null;
 
       if (existing) {
+        // Contact details and status come from the CRM; the messaging
+        // context (channel, senderId, conversation) stays as captured here
+        const statusChanged = lead.status && lead.status !== existing.status;
         await prisma.lead.update({
           where: { id: existing.id },
-          data: { ...lead, userId },
+          data: {
+            ...(lead.name && { name: lead.name }),
+            ...(lead.email && { email: lead.email }),
+            ...(lead.phone && { phone: lead.phone }),
+            ...(lead.source && { source: lead.source }),
+            ...(statusChanged && {
+              status: lead.status,
+              statusHistory: appendStatusHistory(
+                existing.statusHistory,
+                existing.status,
+                lead.status,
+                lead.source,
+              ),
+            }),
+          },
         });
       } else {
-        await prisma.lead.create({ data: { ...lead, userId } });
+        await prisma.lead.create({
+          data: {
+            ...lead,
+            userId,
+            statusHistory: appendStatusHistory(
+              [],
+              lead.status,
+              lead.status,
+              lead.source,
+            ),
+          },
+        });
       }
     }
 
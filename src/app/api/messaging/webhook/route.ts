@@ -6,127 +6,36 @@ import crypto from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 
 // Import AI services
-import { Channel, logInteraction } from "@/lib/analytics/logInteraction";
-import { createEmbeddings } from "@/lib/embedding-service";
-import { CacheService, checkRateLimit, createHash } from "@/lib/upstash";
-import { checkUsageLimits } from "@/lib/subscription/checkUsageLimits";
+import { Channel } from "@/lib/analytics/logInteraction";
+import { answerQuestion } from "@/lib/answer/answerQuestion";
+import {
+  handoffMessage,
+  isHandoffRequest,
+  resolveHandoffSettings,
+  startHandoff,
+} from "@/lib/conversations/handoff";
+import {
+  appendConversationMessage,
+  appendConversationTurn,
+  HistoryTurn,
+} from "@/lib/conversations/persistConversation";
+import {
+  loadSenderMemory,
+  resolveMemorySettings,
+} from "@/lib/conversations/senderMemory";
+import { upsertSenderLead } from "@/lib/leads/upsertSenderLead";
+import { fetchSenderProfileName } from "@/lib/messaging/profile";
+import { MessagingRoute, sendChannelMessage } from "@/lib/messaging/send";
+import { checkRateLimit } from "@/lib/upstash";
+import {
+  checkEntitlement,
+  checkUsageLimits,
+} from "@/lib/subscription/checkUsageLimits";
+import { usageLimitMessage } from "@/lib/subscription/limitMessage";
+import { isEntitlementChannel } from "@/lib/subscription/planEntitlements";
+import { estimateTokens } from "@/lib/usage/metering";
 
 const APP_SECRET = process.env.FACEBOOK_CLIENT_SECRET || undefined;
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const OPENAI_MODEL = process.env.CHAT_MODEL || "gpt-4o-mini";
-
-// Helper to estimate minutes from text
-function estimateMinutesFromText(text?: string | null, wpm = 200) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean).length;
-  if (words === 0) return 0;
-  return Math.max(1, Math.ceil(words / wpm));
-}
-
-// WhatsApp/Facebook (Messenger & Instagram) sending functions
-async function sendWhatsAppMessage(
-  phoneNumberId: string,
-  to: string,
-  message: string,
-  accessToken: string,
-) {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v16.0/${phoneNumberId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messaging_product: "whatsapp",
-          to: to,
-          type: "text",
-          text: { body: message },
-        }),
-      },
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("WhatsApp API error:", errorData);
-    }
-
-    return response.ok;
-  } catch (error) {
-    console.error("Failed to send WhatsApp message:", error);
-    return false;
-  }
-}
-
-async function sendMessengerMessage(
-  pageId: string,
-  recipientId: string,
-  message: string,
-  pageAccessToken: string,
-) {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v16.0/${pageId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${pageAccessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          recipient: { id: recipientId },
-          message: { text: message },
-        }),
-      },
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("Messenger API error:", errorData);
-    }
-
-    return response.ok;
-  } catch (error) {
-    console.error("Failed to send Messenger message:", error);
-    return false;
-  }
-}
-
-async function sendInstagramMessage(
-  instagramAccountId: string,
-  recipientId: string,
-  message: string,
-  pageAccessToken: string,
-) {
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v16.0/${instagramAccountId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${pageAccessToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          recipient: { id: recipientId },
-          message: { text: message },
-        }),
-      },
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("Instagram API error:", errorData);
-    }
-
-    return response.ok;
-  } catch (error) {
-    console.error("Failed to send Instagram message:", error);
-    return false;
-  }
-}
 
 // AI Response Generation with Caching and Subscription Control
 async function generateAIResponse(
@@ -135,84 +44,19 @@ async function generateAIResponse(
   userId: string,
   botId: string,
   channel: Channel = "whatsapp",
+  history: HistoryTurn[] = [],
+  provider?: string,
 ): Promise<{
   response: string;
   sources: any[];
   cached?: boolean;
   usageLimitExceeded?: boolean;
+  isFallback?: boolean;
 }> {
-  const cache = CacheService.getInstance();
-
   try {
-    // ========== SUBSCRIPTION & USAGE LIMIT CHECK ==========
-    const estimatedMinutes = estimateMinutesFromText(message);
-    const usageCheck = await checkUsageLimits(userId, estimatedMinutes);
-
-    if (!usageCheck.allowed) {
-      console.warn(
-        `Usage limit exceeded for user ${userId}: ${usageCheck.reason}`,
-      );
-
-      // Return a user-friendly message indicating limit reached
-      const limitMessage = usageCheck.requiresUpgrade
-        ? "You've reached your plan's usage limit. Please upgrade your subscription to continue using the service."
-        : "You've reached your monthly usage limit. Your limit will reset at the start of your next billing cycle.";
-
-      return {
-        response: limitMessage,
-        sources: [],
-        usageLimitExceeded: true,
-      };
-    }
-    // ========== END SUBSCRIPTION CHECK ==========
-
-    // Check message-level cache first
-    const messageHash = createHash(message);
-    const cachedResponse = await cache.getChatResponse(kbId, messageHash);
-
-    if (cachedResponse) {
-      console.log(`Cache hit for message in KB ${kbId}`);
-
-      // Still log the interaction even for cached responses
-      const fallbackRegex =
-        /\b(i (do not|don't) know|cannot find|no information|sorry,|unable to)/i;
-      const isFallback =
-        !cachedResponse.sources?.length ||
-        fallbackRegex.test(cachedResponse.text);
-      const isCorrect =
-        (cachedResponse.sources?.length ?? 0) > 0 &&
-        cachedResponse.text.length > 10 &&
-        !isFallback;
-
-      await logInteraction({
-        userId: userId,
-        botId: botId,
-        channel: channel,
-        interactions: 1,
-        minutes: estimatedMinutes,
-        isCorrect,
-        isNegative: !isCorrect,
-        isFallback,
-        meta: {
-          messageType: "auto_reply",
-          retrievedCount: cachedResponse.sources?.length ?? 0,
-          cached: true,
-          originalMessage: message,
-          responseLength: cachedResponse.text.length,
-        },
-      });
-
-      return {
-        response: cachedResponse.text,
-        sources: cachedResponse.sources || [],
-        cached: true,
-      };
-    }
-
-    // Load knowledge base
     const kb = await prisma.knowledgeBase.findUnique({
       where: { id: kbId },
-      select: { id: true, title: true, metadata: true, userId: true },
+      select: { id: true, metadata: true },
     });
 
     if (!kb) {
@@ -223,153 +67,55 @@ async function generateAIResponse(
       };
     }
 
-    const metadata = (kb.metadata as Record<string, unknown>) ?? {};
-
-    // Try to get cached embedding first
-    const cachedEmbedding = await cache.getEmbedding(message);
-    let queryVec: number[] | undefined = undefined;
-
-    if (Array.isArray(cachedEmbedding) && cachedEmbedding.length > 0) {
-      queryVec = cachedEmbedding as number[];
-    } else {
-      // Create new embedding and cache it
-      const embeddings = await createEmbeddings([message]);
-      queryVec = embeddings[0];
-      if (queryVec) {
-        await cache.setEmbedding(message, queryVec);
-      }
-    }
-
-    let retrieved: Array<{ text: string; similarity: number; metadata: any }> =
-      [];
-
-    if (queryVec) {
-      const { default: upstashVector } = await import("@/lib/upstash-vector");
-
-      const results = await upstashVector.query(queryVec, {
-        topK: 3,
-        includeMetadata: true,
-        includeVectors: false,
-        filter: `kbId = '${kbId.replace(/'/g, "\\'")}'`,
-      });
-
-      retrieved = (results ?? []).map((result: any) => {
-        const md = result.metadata as Record<string, unknown> | undefined;
-        const text = (md?.text as string) ?? "";
+    // A downgraded plan may no longer include a connected channel
+    if (provider && isEntitlementChannel(provider)) {
+      const entitlement = await checkEntitlement(userId, provider);
+      if (!entitlement.allowed) {
+        console.warn(
+          `Channel not in plan for user ${userId}: ${entitlement.reason}`,
+        );
         return {
-          text,
-          similarity: result.score ?? 0,
-          metadata: md ?? {},
+          response: usageLimitMessage(kb.metadata, message),
+          sources: [],
+          usageLimitExceeded: true,
         };
-      });
+      }
     }
 
-    // Build context from retrieved chunks
-    const sourceBlocks = retrieved.map((r, i) => {
-      const srcMeta = r.metadata ?? {};
-      const label = srcMeta.filename || srcMeta.sourceUrl || `source-${i + 1}`;
-      return `SOURCE ${i + 1} (${label}, score=${(r.similarity || 0).toFixed(3)}):\n${r.text}`;
+    // ========== SUBSCRIPTION & USAGE LIMIT CHECK ==========
+    const usageCheck = await checkUsageLimits(userId, {
+      tokens: estimateTokens(message),
     });
 
-    const personality = (metadata?.personality as string) || "";
-    const charLimit =
-      channel === "whatsapp" || channel === "facebook" ? 300 : 500;
-
-    const systemInstruction =
-      `You are a knowledgeable assistant with direct access to our platform's knowledge base.
-
-CRITICAL INSTRUCTIONS:
-1. Answer questions directly using the information from the SOURCE blocks provided below
-2. DO NOT redirect users with phrases like "you can see it in our platform" or "check [HERE]"
-3. Extract and present the actual information from the sources in your response
-4. Be specific and detailed when answering - the sources contain the information users need
-5. Only say you don't have information if the sources genuinely don't contain relevant details
-6. Synthesize information from multiple sources when appropriate
-7. Present information naturally as if you're explaining it directly, not as if you're reading from a document
-
-MESSAGING-SPECIFIC GUIDELINES:
-- Keep responses under ${charLimit} characters when possible
-- Use a conversational, friendly tone suitable for ${channel === "whatsapp" ? "WhatsApp" : channel === "facebook" ? "Messenger/Instagram DMs" : "messaging"}
-- Break long information into digestible chunks
-- Use simple language and avoid overly formal tone
-
-${personality ? `Additional guidance: ${personality}` : ""}`.trim();
-
-    const retrievalText = sourceBlocks.length
-      ? `\n\nRetrieved information from knowledge base:\n\n${sourceBlocks.join("\n\n---\n\n")}\n\n`
-      : "\n\nNo specific information was retrieved from the knowledge base for this query.\n\n";
-
-    const userBlock = `Current question:\nUser: ${message.trim()}\n\nProvide a direct, informative answer using the retrieved information above:\nAssistant:`;
-
-    const fullPrompt = `${systemInstruction}\n\n${retrievalText}${userBlock}`;
-
-    const OpenAI = (await import("openai")).default;
-    const openai = new OpenAI({ apiKey: OPENAI_API_KEY });
-
-    const completion = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content: systemInstruction + "\n\n" + retrievalText,
-        },
-        {
-          role: "user",
-          content: message.trim(),
-        },
-      ],
-      max_tokens: 300,
-      temperature: 0.1,
-    });
+    if (!usageCheck.allowed) {
+      console.warn(
+        `Usage limit exceeded for user ${userId}: ${usageCheck.reason}`,
+      );
 
-    const assistantText =
-      completion.choices[0]?.message?.content?.trim() ||
-      "I'm sorry, I couldn't process your message right now.";
-
-    // Cache the full response with sources
-    const responseData = {
-      text: assistantText,
-      sources: retrieved.map((r, i) => ({
-        index: i + 1,
-        similarity: r.similarity,
-        metadata: r.metadata,
-      })),
-    };
+      // The customer gets the KB's fallback, never the owner's billing status
+      return {
+        response: usageLimitMessage(kb.metadata, message),
+        sources: [],
+        usageLimitExceeded: true,
+      };
+    }
+    // ========== END SUBSCRIPTION CHECK ==========
 
-    await cache.setChatResponse(kbId, messageHash, responseData);
-
-    // Log interaction
-    const fallbackRegex =
-      /\b(i (do not|don't) know|cannot find|no information|sorry,|unable to)/i;
-    const isFallback = !retrieved.length || fallbackRegex.test(assistantText);
-    const isCorrect =
-      retrieved.length > 0 && assistantText.length > 10 && !isFallback;
-
-    const chatMinutes = estimateMinutesFromText(fullPrompt, 200);
-
-    await logInteraction({
-      userId: userId,
-      botId: botId,
-      channel: channel,
-      interactions: 1,
-      minutes: chatMinutes,
-      isCorrect,
-      isNegative: !isCorrect,
-      isFallback,
-      meta: {
-        messageType: "auto_reply",
-        retrievedCount: retrieved.length,
-        promptSize: fullPrompt.length,
-        originalMessage: message,
-        responseLength: assistantText.length,
-        cached: false,
+    const answer = await answerQuestion(
+      { id: kb.id, userId, botId, metadata: kb.metadata },
+      message.trim(),
+      {
+        channel,
+        history,
+        logMeta: { messageType: "auto_reply", originalMessage: message },
       },
-    });
+    );
 
     return {
-      response: assistantText,
-      sources: responseData.sources,
-      cached: false,
+      response: answer.text,
+      sources: answer.sources,
+      cached: answer.cached,
+      isFallback: answer.isFallback,
     };
   } catch (error) {
     console.error("AI response generation failed:", error);
@@ -596,15 +342,21 @@ export async function POST(req: NextRequest) {
       for (const entry of entries) {
         const msgs =
           entry?.changes?.[0]?.value?.messages ?? entry?.messages ?? [];
+        const contacts = entry?.changes?.[0]?.value?.contacts ?? [];
         if (Array.isArray(msgs)) {
           for (const m of msgs) {
             if (m?.text?.body || m?.message) {
+              const contact = Array.isArray(contacts)
+                ? (contacts.find((c: any) => c?.wa_id === m?.from) ??
+                  contacts[0])
+                : null;
               return {
                 text: m?.text?.body || m?.message || "",
                 senderId: m?.from || m?.sender?.id || "",
                 messageId: m?.id || "",
                 timestamp: m?.timestamp || Date.now(),
                 platform: "whatsapp",
+                profileName: (contact?.profile?.name as string) || null,
               };
             }
           }
@@ -618,6 +370,7 @@ export async function POST(req: NextRequest) {
             messageId: messaging.message.mid || "",
             timestamp: messaging.timestamp || Date.now(),
             platform: "messenger",
+            profileName: null,
           };
         }
 
@@ -633,6 +386,7 @@ export async function POST(req: NextRequest) {
                   messageId: igMsg.id || "",
                   timestamp: igMsg.timestamp || Date.now(),
                   platform: "instagram",
+                  profileName: null,
                 };
               }
             }
@@ -759,6 +513,7 @@ export async function POST(req: NextRequest) {
 
     let kbId: string | null = null;
     let botId: string | null = null;
+    let kbMetadata: unknown = null;
     let channel: Channel = "whatsapp";
 
     if (found) {
@@ -773,13 +528,15 @@ export async function POST(req: NextRequest) {
       if (kbId) {
         const kb = await prisma.knowledgeBase.findUnique({
           where: { id: kbId },
-          select: { bot: { select: { id: true } } },
+          select: { metadata: true, bot: { select: { id: true } } },
         });
         botId = kb?.bot?.id || null;
+        kbMetadata = kb?.metadata ?? null;
       }
     }
 
     // Generate AI response with caching and subscription control
+    let activeConversationId: string | null = null;
     if (
       kbId &&
       botId &&
@@ -788,106 +545,175 @@ export async function POST(req: NextRequest) {
       found
     ) {
       try {
-        const { response, cached, usageLimitExceeded } =
-          await generateAIResponse(
-            kbId,
-            messageDetails.text,
-            found.userId,
-            botId,
-            channel,
-          );
-
         const integ = await prisma.integration.findUnique({
           where: { id: found.integrationId },
           select: { credentials: true },
         });
         const creds = (integ?.credentials as Record<string, unknown>) || {};
 
-        let messageSent = false;
-
-        if (
-          found.provider === "whatsapp" &&
-          phoneId &&
-          messageDetails.senderId
-        ) {
-          const accessToken = creds.access_token as string;
-          if (accessToken) {
-            messageSent = await sendWhatsAppMessage(
-              phoneId,
-              messageDetails.senderId,
-              response,
-              accessToken,
-            );
-          }
-        } else if (
-          found.provider === "messenger" &&
-          pageId &&
-          messageDetails.senderId
-        ) {
-          const pageAccessToken = creds.page_access_token as string;
-          if (pageAccessToken) {
-            messageSent = await sendMessengerMessage(
-              pageId,
-              messageDetails.senderId,
-              response,
-              pageAccessToken,
+        const route: MessagingRoute = {
+          provider: found.provider,
+          platformId: String(found.platformId),
+        };
+        const senderId = messageDetails.senderId;
+        const text = messageDetails.text;
+        const handoff = resolveHandoffSettings(kbMetadata);
+        const conversationMeta = {
+          integrationId: found.integrationId,
+          provider: found.provider,
+          platformId: route.platformId,
+        };
+
+        const { conversation, history } = senderId
+          ? await loadSenderMemory(
+              { userId: found.userId, kbId, channel, visitorId: senderId },
+              resolveMemorySettings(kbMetadata),
+            )
+          : { conversation: null, history: [] };
+
+        activeConversationId = conversation?.id ?? null;
+
+        if (conversation?.status === "handoff") {
+          // A human has taken over: store the message for the agent, don't reply
+          await appendConversationMessage({
+            conversationId: conversation.id,
+            sender: "user",
+            content: text,
+            meta: { messageId: messageDetails.messageId },
+          });
+          console.log(
+            `Auto-reply paused for ${found.provider} sender ${senderId} (handoff)`,
+          );
+        } else if (isHandoffRequest(text, handoff)) {
+          const reply = handoffMessage(handoff, text);
+          const messageSent = senderId
+            ? await sendChannelMessage(route, senderId, reply, creds)
+            : false;
+
+          activeConversationId = await appendConversationTurn({
+            conversationId: conversation?.id,
+            kbId,
+            userId: found.userId,
+            botId,
+            channel,
+            visitorId: senderId || null,
+            userMessage: text,
+            botMessage: reply,
+            meta: { handoff: "requested", messageSent },
+            conversationMeta,
+          });
+          await startHandoff({
+            conversationId: activeConversationId,
+            reason: "requested",
+            lastMessage: text,
+          });
+        } else {
+          const { response, sources, cached, usageLimitExceeded, isFallback } =
+            await generateAIResponse(
+              kbId,
+              text,
+              found.userId,
+              botId,
+              channel,
+              history,
+              found.provider,
             );
-          }
-        } else if (
-          found.provider === "instagram" &&
-          instagramId &&
-          messageDetails.senderId
-        ) {
-          const pageAccessToken = creds.page_access_token as string;
-          if (pageAccessToken) {
-            messageSent = await sendInstagramMessage(
-              instagramId,
-              messageDetails.senderId,
-              response,
-              pageAccessToken,
+
+          const handOffNow =
+            !!isFallback &&
+            !usageLimitExceeded &&
+            handoff.enabled &&
+            handoff.onFallback;
+          const reply = handOffNow
+            ? `${response}\n\n${handoffMessage(handoff, text)}`
+            : response;
+
+          const messageSent = senderId
+            ? await sendChannelMessage(route, senderId, reply, creds)
+            : false;
+
+          if (messageSent) {
+            console.log(
+              `Auto-reply sent via ${found.provider} to ${senderId} (cached: ${cached}, limit exceeded: ${usageLimitExceeded || false})`,
             );
           }
-        }
 
-        if (messageSent) {
-          console.log(
-            `Auto-reply sent via ${found.provider} to ${messageDetails.senderId} (cached: ${cached}, limit exceeded: ${usageLimitExceeded || false})`,
-          );
+          activeConversationId = await appendConversationTurn({
+            conversationId: conversation?.id,
+            kbId,
+            userId: found.userId,
+            botId,
+            channel,
+            visitorId: senderId || null,
+            userMessage: text,
+            botMessage: reply,
+            sources,
+            isFallback: !!isFallback,
+            meta: { cached: !!cached, messageSent },
+            conversationMeta,
+          });
+
+          if (handOffNow) {
+            await startHandoff({
+              conversationId: activeConversationId,
+              reason: "fallback",
+              lastMessage: text,
+            });
+          }
         }
       } catch (error) {
         console.error("Failed to generate or send AI response:", error);
       }
     }
 
-    // Persist lead
+    // Persist lead (one per sender, not per message)
     try {
       if (found && kbId && messageDetails) {
-        const leadSource = `${found.provider}_messaging_webhook`;
+        const senderId = messageDetails.senderId;
 
-        await prisma.lead.create({
-          data: {
+        if (senderId) {
+          const route: MessagingRoute = {
+            provider: found.provider,
+            platformId: String(found.platformId),
+          };
+
+          await upsertSenderLead({
             userId: found.userId,
-            name: "Inbound message",
-            email: null,
-            phone: messageDetails.senderId || undefined,
-            status: "NEW",
-            source: leadSource,
+            channel: found.channel,
+            senderId,
+            source: `${found.provider}_messaging_webhook`,
             capturedBy: kbId,
+            name: messageDetails.profileName,
+            phone: found.provider === "whatsapp" ? senderId : null,
+            resolveName: async () => {
+              const integ = await prisma.integration.findUnique({
+                where: { id: found.integrationId },
+                select: { credentials: true },
+              });
+              return fetchSenderProfileName(
+                route,
+                senderId,
+                (integ?.credentials as Record<string, unknown>) || {},
+              );
+            },
             meta: {
-              payload,
-              text: messageDetails.text,
-              autoReplySent: true,
-              messageDetails,
               platform: found.provider,
-              channel: found.channel,
               integrationId: found.integrationId,
-            } as unknown as Prisma.InputJsonValue,
-          },
-        });
+              kbId,
+              conversationId: activeConversationId,
+              lastMessageId: messageDetails.messageId,
+              lastMessage: messageDetails.text.slice(0, 500),
+            },
+          });
 
-        console.log(
-          `Lead created for ${found.provider} message from ${messageDetails.senderId}`,
-        );
+          console.log(
+            `Lead updated for ${found.provider} message from ${senderId}`,
+          );
+        } else {
+          console.warn(
+            `No sender id on ${found.provider} message; lead not recorded`,
+          );
+        }
       } else {
         await prisma.auditLog.create({
           data: {
@@ -1,5 +1,17 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // src/app/api/process-crawl/route.ts
+import {
+  beginCrawlUrl,
+  CrawlJobScope,
+  markCrawlUrl,
+  trackCrawlUrls,
+} from "@/lib/kb/crawlJobs";
+import { applyQueryParamMode, isInCrawlScope } from "@/lib/kb/crawlScope";
+import {
+  applyRefreshedContent,
+  contentHash,
+  removeRefreshedDocument,
+} from "@/lib/kb/refreshKnowledgeBase";
 import { prisma } from "@/lib/prisma";
 import { Readability } from "@mozilla/readability";
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
@@ -79,6 +91,8 @@ interface RequestBody {
   webUrl: string;
   userId: string;
   depth?: Depth;
+  refresh?: boolean; // re-check a known page instead of discovering new ones
+  jobId?: string; // CrawlJob tracking this page, if any
 }
 
 // Configuration optimized for Vercel
@@ -123,6 +137,9 @@ const MAX_LINKS_PER_DEPTH: Record<Depth, number> = {
   0: 0,
 };
 
+// Links followed per page when the crawl has a page budget to stop it
+const MAX_LINKS_PER_PAGE = 50;
+
 function canonicalizeUrl(raw: string): string {
   try {
     const url = new URL(raw);
@@ -1169,6 +1186,7 @@ class RobustWebCrawler {
     html: string,
     baseUrl: string,
     maxLinks: number = 20,
+    scope?: CrawlJobScope | null,
   ): string[] {
     try {
       const $ = load(html);
@@ -1183,7 +1201,12 @@ class RobustWebCrawler {
           const fullUrl = new URL(href, baseUrl).toString();
           const parsedUrl = new URL(fullUrl);
 
-          if (parsedUrl.origin !== origin) return;
+          if (
+            scope
+              ? !isInCrawlScope(fullUrl, scope.rootUrl, scope.settings)
+              : parsedUrl.origin !== origin
+          )
+            return;
 
           if (
             parsedUrl.pathname.match(
@@ -1210,7 +1233,11 @@ class RobustWebCrawler {
           if (parsedUrl.searchParams.toString().length > 200) return;
 
           const canonicalUrl = canonicalizeUrl(fullUrl);
-          links.add(canonicalUrl);
+          links.add(
+            scope
+              ? applyQueryParamMode(canonicalUrl, scope.settings.queryParams)
+              : canonicalUrl,
+          );
 
           if (links.size >= maxLinks) return false;
         } catch {
@@ -1296,6 +1323,8 @@ async function saveDocumentIfNew(
               wordCount: newWordCount,
               updatedAt: new Date().toISOString(),
             },
+            contentHash: contentHash(content),
+            checkedAt: new Date(),
           },
         });
         console.log(`Updated existing document: ${canonicalUrl}`);
@@ -1316,6 +1345,8 @@ async function saveDocumentIfNew(
             crawledAt: new Date().toISOString(),
             originalUrl: url !== canonicalUrl ? url : undefined,
           },
+          contentHash: contentHash(content),
+          checkedAt: new Date(),
         },
       });
 
@@ -1345,7 +1376,14 @@ async function saveDocumentIfNew(
 
 async function handler(req: Request): Promise<Response> {
   const payload = await req.json();
-  const { kbId, webUrl, userId, depth = 0 }: RequestBody = payload;
+  const {
+    kbId,
+    webUrl,
+    userId,
+    depth = 0,
+    refresh = false,
+    jobId,
+  }: RequestBody = payload;
 
   if (!kbId || !webUrl || !userId) {
     return new Response(
@@ -1371,6 +1409,19 @@ async function handler(req: Request): Promise<Response> {
   const crawler = new RobustWebCrawler(crawlerConfig);
 
   try {
+    if (refresh) {
+      return await processRefresh(kbId, webUrl, userId, crawler);
+    }
+
+    const scope = jobId ? await beginCrawlUrl(jobId, webUrl) : null;
+    if (jobId && !scope) {
+      console.log(`[Handler] Crawl ${jobId} was cancelled; skipping ${webUrl}`);
+      return new Response(
+        JSON.stringify({ success: false, error: "cancelled", url: webUrl }),
+        { status: 200 },
+      );
+    }
+
     console.log(
       `[Handler] Processing ${webUrl} (RSC: ${isLikelyRSCSite}, depth: ${depth})`,
     );
@@ -1385,6 +1436,13 @@ async function handler(req: Request): Promise<Response> {
         contentPreview: extracted?.content?.substring(0, 150),
       });
 
+      if (jobId) {
+        await markCrawlUrl(jobId, webUrl, {
+          status: "NO_CONTENT",
+          error: `Only ${extracted?.wordCount ?? 0} words extracted`,
+        });
+      }
+
       return new Response(
         JSON.stringify({
           success: false,
@@ -1409,12 +1467,24 @@ async function handler(req: Request): Promise<Response> {
       depth,
       crawler,
       extracted.html,
+      jobId,
+      scope,
     );
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
     console.error(`[Handler] Error for ${webUrl}:`, errorMessage);
 
+    if (jobId) {
+      await markCrawlUrl(jobId, webUrl, {
+        status:
+          errorMessage === "Blocked by robots.txt"
+            ? "ROBOTS_BLOCKED"
+            : "FAILED",
+        error: errorMessage,
+      }).catch((err) => console.error("[Handler] Tracking failed:", err));
+    }
+
     return new Response(
       JSON.stringify({
         success: false,
@@ -1429,6 +1499,98 @@ async function handler(req: Request): Promise<Response> {
   }
 }
 
+// Status of a plain GET, or null when the site can't be reached at all
+async function fetchPageStatus(url: string): Promise<number | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+  try {
+    const res = await fetch(url, {
+      redirect: "follow",
+      signal: controller.signal,
+      headers: { "User-Agent": USER_AGENTS.bot },
+    });
+    await res.body?.cancel();
+    return res.status;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Scheduled or manual refresh of one known page: pages that are gone are
+ * removed, changed pages are re-embedded, unchanged ones just marked as
+ * checked. A page that fails to extract is left as it was.
+ */
+async function processRefresh(
+  kbId: string,
+  webUrl: string,
+  userId: string,
+  crawler: RobustWebCrawler,
+): Promise<Response> {
+  const doc = await prisma.document.findFirst({
+    where: { kbId, sourceUrl: canonicalizeUrl(webUrl) },
+    select: {
+      id: true,
+      kbId: true,
+      sourceUrl: true,
+      content: true,
+      contentHash: true,
+      metadata: true,
+    },
+  });
+  if (!doc) {
+    return new Response(
+      JSON.stringify({ success: false, error: "document_not_found" }),
+      { status: 200 },
+    );
+  }
+
+  const status = await fetchPageStatus(webUrl);
+  if (status === 404 || status === 410) {
+    await removeRefreshedDocument(doc);
+    console.log(`[Refresh] Removed ${webUrl} (HTTP ${status})`);
+    return new Response(
+      JSON.stringify({ success: true, refresh: "removed", url: webUrl }),
+      { status: 200 },
+    );
+  }
+
+  const extracted = await crawler.crawl(webUrl);
+  if (!extracted || !isValidExtraction(extracted, webUrl)) {
+    await prisma.document.update({
+      where: { id: doc.id },
+      data: { checkedAt: new Date() },
+    });
+    console.warn(`[Refresh] No meaningful content from ${webUrl}; kept`);
+    return new Response(
+      JSON.stringify({ success: false, error: "no_content", url: webUrl }),
+      { status: 200 },
+    );
+  }
+
+  const outcome = await applyRefreshedContent(doc, extracted);
+
+  if (outcome === "changed") {
+    try {
+      await qstash.publishJSON({
+        url: `${process.env.BASE_URL}/api/process-embeddings`,
+        body: { kbId, documentId: doc.id, userId },
+        delay: 5,
+      });
+    } catch (error) {
+      console.error("[Refresh] Failed to queue re-embedding:", error);
+    }
+  }
+
+  console.log(`[Refresh] ${webUrl}: ${outcome}`);
+  return new Response(
+    JSON.stringify({ success: true, refresh: outcome, url: webUrl }),
+    { status: 200 },
+  );
+}
+
 function isValidExtraction(extracted: ExtractionResult, url: string): boolean {
   if (!extracted || extracted.wordCount < 15) return false;
 
@@ -1484,23 +1646,36 @@ async function processSuccessfulExtraction(
   depth: Depth,
   crawler: RobustWebCrawler,
   html?: string,
+  jobId?: string,
+  scope?: CrawlJobScope | null,
 ) {
   const { title, content, wordCount, extractionMethod } = extracted;
 
-  const savedDocument = await saveDocumentIfNew(
-    kbId,
-    webUrl,
-    title,
-    content,
-    wordCount,
-  );
+  // The start page is always crawled for its links, but only kept when the
+  // include/exclude paths allow it
+  const keepPage =
+    !scope || isInCrawlScope(webUrl, scope.rootUrl, scope.settings);
+
+  const savedDocument = keepPage
+    ? await saveDocumentIfNew(kbId, webUrl, title, content, wordCount)
+    : null;
+
+  if (jobId) {
+    await markCrawlUrl(
+      jobId,
+      webUrl,
+      keepPage
+        ? { status: "FETCHED", documentId: savedDocument?.id }
+        : { status: "OUT_OF_SCOPE" },
+    );
+  }
 
   // Queue embedding processing
   try {
     if (savedDocument?.id) {
       await qstash.publishJSON({
         url: `${process.env.BASE_URL}/api/process-embeddings`,
-        body: { kbId, documentId: savedDocument.id, userId },
+        body: { kbId, documentId: savedDocument.id, userId, jobId },
         delay: 5,
       });
     }
@@ -1515,21 +1690,37 @@ async function processSuccessfulExtraction(
   // Discover and crawl additional links if depth > 0
   if (depth > 0 && html) {
     try {
-      const discoveredLinks = crawler.extractLinksFromHtml(html, webUrl);
+      const maxLinksForDepth =
+        scope?.maxPages != null
+          ? MAX_LINKS_PER_PAGE
+          : getMaxLinksForDepth(depth);
+      const discoveredLinks = crawler.extractLinksFromHtml(
+        html,
+        webUrl,
+        maxLinksForDepth,
+        scope,
+      );
       console.log(
         `[Handler] Discovered ${discoveredLinks.length} links from ${webUrl}`,
       );
 
-      const maxLinksForDepth = getMaxLinksForDepth(depth);
       const linksToProcess = discoveredLinks.slice(0, maxLinksForDepth);
 
       // Batch check for existing URLs
       const existingUrls = await getExistingUrls(kbId, linksToProcess);
-      const newLinks = linksToProcess.filter(
+      const unseenLinks = linksToProcess.filter(
         (link) => !existingUrls.has(canonicalizeUrl(link)),
       );
+      // within a job, a page linked from several others is queued once
+      const newLinks = jobId
+        ? await trackCrawlUrls(
+            jobId,
+            unseenLinks.map((link) => ({ url: link, depth: depth - 1 })),
+            scope?.maxPages,
+          )
+        : unseenLinks;
 
-      skippedExisting = linksToProcess.length - newLinks.length;
+      skippedExisting = linksToProcess.length - unseenLinks.length;
       console.log(
         `[Handler] Processing ${newLinks.length} new links, skipping ${skippedExisting} existing`,
       );
@@ -1549,6 +1740,7 @@ async function processSuccessfulExtraction(
                 webUrl: link,
                 userId,
                 depth: (depth - 1) as Depth,
+                jobId,
               },
               delay: Math.floor(overallIndex / 3) * 10 + 30,
             });
@@ -1559,6 +1751,12 @@ async function processSuccessfulExtraction(
               error,
             );
             failedLinks.push(link);
+            if (jobId) {
+              await markCrawlUrl(jobId, link, {
+                status: "FAILED",
+                error: "Could not be queued",
+              });
+            }
           }
         });
 
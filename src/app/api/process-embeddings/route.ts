@@ -2,6 +2,7 @@ export const runtime = "nodejs";
 
 import { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
 import { processDocumentEmbeddings } from "@/lib/embedding-service";
+import { markCrawlDocumentEmbedded } from "@/lib/kb/crawlJobs";
 import { notifyUserProcessingDone } from "@/lib/notifier";
 import { prisma } from "@/lib/prisma";
 import { Client as QStashClient } from "@upstash/qstash";
@@ -26,7 +27,7 @@ async function shouldSendCompletionNotification(
 async function handler(req: Request) {
   try {
     const payload = await req.json();
-    const { kbId, documentId, userId, webUrl } = payload;
+    const { kbId, documentId, userId, webUrl, jobId } = payload;
     const attempts = (payload.attempts ?? 0) as number;
 
     if (!kbId || !userId) {
@@ -122,6 +123,8 @@ async function handler(req: Request) {
 
         processedDocuments = 1;
         createdEmbeddings = embeddingsAfter - embeddingsBefore;
+
+        if (jobId) await markCrawlDocumentEmbedded(jobId, documentId);
       } else if (webUrl) {
         // Process document by webUrl (for crawled pages)
         console.log(`Processing embeddings for document with URL: ${webUrl}`);
@@ -371,6 +374,14 @@ async function handler(req: Request) {
     } catch (error) {
       console.error(`Embedding processing failed for KB ${kbId}:`, error);
 
+      if (jobId && documentId) {
+        await markCrawlDocumentEmbedded(
+          jobId,
+          documentId,
+          error instanceof Error ? error.message : "Unknown error",
+        ).catch((err) => console.error("Failed to update crawl job:", err));
+      }
+
       return new Response(
         JSON.stringify({
           success: false,
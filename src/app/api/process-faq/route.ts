@@ -1,6 +1,7 @@
 export const runtime = "nodejs";
 
 import { prisma } from "@/lib/prisma";
+import { invalidateKeywordIndex } from "@/search/keyword-search";
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
 import { Client as QStashClient } from "@upstash/qstash";
 import { verifySignatureAppRouter } from "@upstash/qstash/nextjs";
@@ -152,6 +153,7 @@ async function cleanupOldFaqDocuments(kbId: string, currentFaqCount: number) {
         },
       });
 
+      await invalidateKeywordIndex(kbId);
       console.log(`Cleaned up ${toDelete.length} old FAQ documents`);
     }
   } catch (error) {
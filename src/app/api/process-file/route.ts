@@ -1,6 +1,15 @@
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
+import {
+  ExtractionResult,
+  extractTextFromCsv,
+  extractTextFromEpub,
+  extractTextFromHtml,
+  extractTextFromPlainText,
+  extractTextFromPresentation,
+  extractTextFromSpreadsheet,
+} from "@/lib/files/extractors";
 import { prisma } from "@/lib/prisma";
 import {
   InputJsonValue,
@@ -24,11 +33,82 @@ const FILE_CONFIG = {
       ".docx",
       ".doc",
     ],
+    spreadsheet: [
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      ".xlsx",
+    ],
+    csv: ["text/csv", ".csv"],
+    presentation: [
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      ".pptx",
+    ],
+    text: [
+      "text/plain",
+      "text/markdown",
+      "text/x-markdown",
+      ".txt",
+      ".md",
+      ".markdown",
+    ],
+    html: ["text/html", ".html", ".htm"],
+    epub: ["application/epub+zip", ".epub"],
   },
   timeoutMs: 60_000, // 1 minute timeout for processing
   retryAttempts: 3,
 } as const;
 
+type SupportedFileType = keyof typeof FILE_CONFIG.supportedTypes;
+
+// Extractor, label stored as `extractionMethod`, and canonical MIME type
+const EXTRACTORS: Record<
+  SupportedFileType,
+  {
+    method: string;
+    mimeType: string;
+    extract: (buffer: Buffer) => Promise<ExtractionResult> | ExtractionResult;
+  }
+> = {
+  pdf: {
+    method: "pdf2json",
+    mimeType: "application/pdf",
+    extract: (buffer) => extractTextFromPDF(buffer),
+  },
+  word: {
+    method: "mammoth",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extract: (buffer) => extractTextFromWord(buffer),
+  },
+  spreadsheet: {
+    method: "xlsx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extract: extractTextFromSpreadsheet,
+  },
+  csv: { method: "csv", mimeType: "text/csv", extract: extractTextFromCsv },
+  presentation: {
+    method: "pptx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    extract: extractTextFromPresentation,
+  },
+  text: {
+    method: "plaintext",
+    mimeType: "text/plain",
+    extract: extractTextFromPlainText,
+  },
+  html: {
+    method: "cheerio",
+    mimeType: "text/html",
+    extract: extractTextFromHtml,
+  },
+  epub: {
+    method: "epub",
+    mimeType: "application/epub+zip",
+    extract: extractTextFromEpub,
+  },
+};
+
 interface FileMetadata {
   originalFilename: string;
   mimeType: string;
@@ -45,26 +125,26 @@ interface FileMetadata {
 function determineFileType(
   mimeType?: string,
   filename?: string,
-): "pdf" | "word" | "unknown" {
+): SupportedFileType | "unknown" {
   const mime = (mimeType || "").toLowerCase();
   const name = (filename || "").toLowerCase();
 
-  // PDF
-  if (
-    FILE_CONFIG.supportedTypes.pdf.some(
-      (t) => mime.includes(t) || name.endsWith(t),
-    )
-  ) {
-    return "pdf";
-  }
+  const types = Object.entries(FILE_CONFIG.supportedTypes) as [
+    SupportedFileType,
+    readonly string[],
+  ][];
 
-  // Word
-  if (
-    FILE_CONFIG.supportedTypes.word.some(
-      (t) => mime.includes(t) || name.endsWith(t),
-    )
-  ) {
-    return "word";
+  // The extension wins: browsers often send text/plain or an empty type
+  // for .md and .csv files
+  for (const [type, patterns] of types) {
+    if (patterns.some((t) => t.startsWith(".") && name.endsWith(t))) {
+      return type;
+    }
+  }
+  for (const [type, patterns] of types) {
+    if (patterns.some((t) => !t.startsWith(".") && mime.includes(t))) {
+      return type;
+    }
   }
 
   return "unknown";
@@ -129,17 +209,25 @@ async function fetchFileWithRetry(
 }
 
 /**
- * Fix Arabic text encoding issues from PDF extraction
- * Handles reversed and garbled RTL text
+ * Fix Arabic text encoding issues
+ * Presentation forms are folded back to regular letters and stray bidi
+ * controls dropped for every format; segments are only reversed for
+ * PDFs, which often store RTL text in visual order
  */
-function fixArabicText(text: string): string {
+function fixArabicText(text: string, { reversed = false } = {}): string {
   // Arabic Unicode range: \u0600-\u06FF (Arabic) and \u0750-\u077F (Arabic Supplement)
   const arabicRegex = /[\u0600-\u06FF\u0750-\u077F]+/g;
 
-  return text.replace(arabicRegex, (match) => {
-    // Reverse the Arabic text segment (PDFs often store it reversed)
-    return match.split("").reverse().join("");
-  });
+  let fixed = reversed
+    ? text.replace(arabicRegex, (match) => match.split("").reverse().join(""))
+    : text;
+
+  // Arabic Presentation Forms-A and -B
+  fixed = fixed.replace(/[\uFB50-\uFDFF\uFE70-\uFEFC]+/g, (match) =>
+    match.normalize("NFKC"),
+  );
+
+  return fixed.replace(/[\u200E\u200F\u202A-\u202E\u2066-\u2069]/g, "");
 }
 
 // Extract text from PDF using pdf2json
@@ -182,9 +270,6 @@ async function extractTextFromPDF(
               }).join("\n") || "";
           }
 
-          // Fix Arabic text encoding issues
-          text = fixArabicText(text);
-
           const pageCount = pdfData?.Pages?.length || 0;
 
           console.log("[PDF Debug] Extracted text length:", text.length);
@@ -248,46 +333,32 @@ async function extractTextFromWord(buffer: Buffer) {
 /** Process file buffer and return text + metadata */
 async function processFileContent(
   buffer: Buffer,
-  fileType: "pdf" | "word",
+  fileType: SupportedFileType,
   filename?: string,
 ) {
   const start = Date.now();
-  let extractionMethod = "unknown";
-  let extractionResult: {
-    text: string;
-    pageCount?: number;
-    errors?: string[];
-  } = { text: "" };
-
-  if (fileType === "pdf") {
-    extractionMethod = "pdf2json";
-    extractionResult = await extractTextFromPDF(buffer);
-  } else if (fileType === "word") {
-    extractionMethod = "mammoth";
-    extractionResult = await extractTextFromWord(buffer);
-  } else {
-    throw new Error("Unsupported file type for processing");
-  }
+  const extractor = EXTRACTORS[fileType];
+  if (!extractor) throw new Error("Unsupported file type for processing");
+
+  const extractionResult = await extractor.extract(buffer);
+  const text = fixArabicText(extractionResult.text, {
+    reversed: fileType === "pdf",
+  });
 
   const processingTimeMs = Date.now() - start;
-  const wordCount = extractionResult.text
-    ? extractionResult.text.split(/\s+/).filter(Boolean).length
-    : 0;
+  const wordCount = text ? text.split(/\s+/).filter(Boolean).length : 0;
 
   return {
-    text: extractionResult.text,
+    text,
     metadata: {
       originalFilename: filename || "Unknown",
-      mimeType:
-        fileType === "pdf"
-          ? "application/pdf"
-          : "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      mimeType: extractor.mimeType,
       fileSize: buffer.length,
       processedAt: new Date().toISOString(),
       processingTimeMs,
       wordCount,
       pageCount: extractionResult.pageCount,
-      extractionMethod,
+      extractionMethod: extractor.method,
       errors: extractionResult.errors,
     } as FileMetadata,
   };
@@ -397,7 +468,7 @@ async function handler(req: Request) {
         JSON.stringify({
           success: false,
           error: "unsupported_file_type",
-          supportedTypes: ["pdf", "word"],
+          supportedTypes: Object.keys(FILE_CONFIG.supportedTypes),
         }),
         { status: 400 },
       );
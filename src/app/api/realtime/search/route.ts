@@ -1,12 +1,12 @@
 // src/app/api/realtime/search/route.ts
-import { createEmbeddings } from "@/lib/embedding-service";
-import { prisma } from "@/lib/prisma";
 import {
-  checkUsageLimits,
-  getOverageRate,
-} from "@/lib/subscription/checkUsageLimits";
-import upstashVector from "@/lib/upstash-vector";
-import { upstashSearchSimilar } from "@/search/upstash-search";
+  formatSources,
+  retrieveSources,
+  sourceLabel,
+} from "@/lib/answer/retrieval";
+import { prisma } from "@/lib/prisma";
+import { checkUsageLimits } from "@/lib/subscription/checkUsageLimits";
+import { usageLimitMessage } from "@/lib/subscription/limitMessage";
 import { NextResponse } from "next/server";
 
 export const runtime = "nodejs";
@@ -93,13 +93,6 @@ function getDemoResults(query: string, topK: number) {
     .slice(0, topK);
 }
 
-function estimateMinutesFromText(text?: string | null, wpm = 200) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean).length;
-  if (words === 0) return 0;
-  return Math.max(1, Math.ceil(words / wpm));
-}
-
 export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => ({}));
@@ -181,36 +174,22 @@ export async function POST(req: Request) {
     }
 
     // ========== SUBSCRIPTION & USAGE LIMIT CHECK ==========
-    // Estimate minutes from the query and check usage for the KB owner.
+    // The call itself is billed by connected time; searches only stop once
+    // the KB owner is out of minutes.
     try {
-      const estimatedMinutes = estimateMinutesFromText(query);
-      const usageCheck = await checkUsageLimits(kb.userId, estimatedMinutes);
+      const usageCheck = await checkUsageLimits(kb.userId);
 
       if (!usageCheck.allowed) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const responseBody: any = {
-          error: "usage_limit_exceeded",
-          message: usageCheck.reason,
-          requiresUpgrade: usageCheck.requiresUpgrade,
-          planName: usageCheck.planName,
-        };
-
-        if (usageCheck.remainingMinutes !== undefined) {
-          responseBody.usage = {
-            remaining: usageCheck.remainingMinutes,
-            total: usageCheck.totalMinutes,
-            used: usageCheck.usedMinutes,
-          };
-        }
-
-        if (usageCheck.planName) {
-          const overageRate = getOverageRate(usageCheck.planName);
-          if (overageRate > 0) {
-            responseBody.overageRate = overageRate;
-          }
-        }
-
-        return NextResponse.json(responseBody, { status: 402 });
+        console.warn(
+          `Usage limit exceeded for user ${kb.userId}: ${usageCheck.reason}`,
+        );
+        return NextResponse.json(
+          {
+            error: "usage_limit_exceeded",
+            message: usageLimitMessage(kb.metadata, query),
+          },
+          { status: 402 },
+        );
       }
     } catch (err) {
       console.warn("Usage check failed:", err);
@@ -218,80 +197,24 @@ export async function POST(req: Request) {
     }
     // ========== END SUBSCRIPTION CHECK ==========
 
-    // Perform retrieval
-    let retrieved: Array<{
-      text: string;
-      similarity: number;
-      metadata: ChunkMetadata;
-    }> = [];
-
-    try {
-      // First try vector search
-      const embeddings = await createEmbeddings([query]);
-      const queryVec = embeddings[0];
-
-      if (queryVec) {
-        const results = await upstashVector.query(queryVec, {
-          topK: searchTopK,
-          includeMetadata: true,
-          includeVectors: false,
-          filter: `kbId = '${kbId.replace(/'/g, "\\'")}'`,
-        });
-
-        retrieved = (results ?? []).map((result) => {
-          const md = result.metadata as Record<string, unknown> | undefined;
-          const text = (md?.text as string) ?? "";
-          const metadata: ChunkMetadata = {
-            documentId: (md?.documentId as string) ?? "",
-            filename: (md?.filename as string) ?? "",
-            sourceUrl: (md?.sourceUrl as string) ?? "",
-            chunkIndex: Number(md?.chunkIndex ?? 0),
-            totalChunks: Number(md?.totalChunks ?? 1),
-            startOffset: Number(md?.startOffset ?? 0),
-            endOffset: Number(md?.endOffset ?? 0),
-          };
-          return {
-            text,
-            similarity: result.score ?? 0,
-            metadata,
-          };
-        });
-      } else {
-        // Fallback to text search
-        retrieved = await upstashSearchSimilar(kbId, query, searchTopK);
-      }
-    } catch (err) {
-      console.error("KB search failed:", err);
-      // Fallback to upstash search
-      try {
-        retrieved = await upstashSearchSimilar(kbId, query, searchTopK);
-      } catch (fallbackErr) {
-        console.error("Fallback search also failed:", fallbackErr);
-        retrieved = [];
-      }
-    }
+    // Same retrieval the chat, voice and messaging answers are grounded on
+    const retrieved = await retrieveSources(kbId, query, {
+      topK: searchTopK,
+      metadata: kb.metadata,
+    });
 
     // Format results for consumption
-    const sources = retrieved.map((r, i) => {
-      const srcMeta = r.metadata ?? {};
-      const label = srcMeta.filename || srcMeta.sourceUrl || `source-${i + 1}`;
-      return {
-        index: i + 1,
-        label,
-        text: r.text,
-        similarity: r.similarity,
-        metadata: srcMeta,
-      };
-    });
+    const sources = retrieved.map((r, i) => ({
+      index: i + 1,
+      label: sourceLabel(r, i),
+      text: r.text,
+      similarity: r.similarity,
+      metadata: r.metadata,
+    }));
 
     // Create a context string for the AI
-    const contextText = sources.length
-      ? sources
-          .map(
-            (s, i) =>
-              `SOURCE ${i + 1} (${s.label}, relevance: ${(s.similarity * 100).toFixed(1)}%):\n${s.text}`,
-          )
-          .join("\n\n---\n\n")
+    const contextText = retrieved.length
+      ? formatSources(retrieved).join("\n\n---\n\n")
       : "No relevant information found in the knowledge base for this query.";
 
     const responseData = {
@@ -2,22 +2,17 @@
 import { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
 import { prisma } from "@/lib/prisma";
 import {
+  checkEntitlement,
   checkUsageLimits,
-  getOverageRate,
 } from "@/lib/subscription/checkUsageLimits";
+import { usageLimitMessage } from "@/lib/subscription/limitMessage";
+import { trackRealtimeSession } from "@/lib/usage/realtimeSessions";
 import { NextResponse } from "next/server";
 
 export const runtime = "nodejs";
 
 const DEMO_KB_ID = process.env.DEMO_KB_ID ?? null;
 
-function estimateMinutesFromText(text?: string | null, wpm = 200) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean).length;
-  if (words === 0) return 0;
-  return Math.max(1, Math.ceil(words / wpm));
-}
-
 export async function POST(req: Request) {
   try {
     const body: {
@@ -164,6 +159,15 @@ ${demoKbData.metadata?.personality || ""}`.trim(),
       );
     }
 
+    // Realtime usage is billed to the KB's bot
+    const botId = kb.bot?.id;
+    if (!botId) {
+      return NextResponse.json(
+        { error: "Knowledge base has no bot" },
+        { status: 409 },
+      );
+    }
+
     const metadata = kb.metadata as KbMetadata;
     const personality = (metadata?.personality as string) ?? "";
     const kbTitle = kb.title || "Knowledge Base";
@@ -189,38 +193,37 @@ Keep responses brief and natural for voice conversation. Aim for 2-3 sentences u
 
     // ========== SUBSCRIPTION & USAGE LIMIT CHECK ==========
     try {
-      // Estimate minutes based on the instruction length (represents expected response verbosity)
-      const estimatedMinutes = Math.max(
-        1,
-        estimateMinutesFromText(kbInstructions),
-      );
-      const usageCheck = await checkUsageLimits(kb.userId, estimatedMinutes);
+      const voiceCheck = await checkEntitlement(kb.userId, "voice");
+      if (!voiceCheck.allowed) {
+        console.warn(
+          `Voice not in plan for user ${kb.userId}: ${voiceCheck.reason}`,
+        );
+        return NextResponse.json(
+          {
+            error: "voice_not_included",
+            message: usageLimitMessage(metadata),
+          },
+          { status: 403 },
+        );
+      }
+
+      // The call is billed by connected time when it ends; require at least
+      // a minute of talk time up front
+      const usageCheck = await checkUsageLimits(kb.userId, {
+        voiceMinutes: 1,
+      });
 
       if (!usageCheck.allowed) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const responseBody: any = {
-          error: "usage_limit_exceeded",
-          message: usageCheck.reason,
-          requiresUpgrade: usageCheck.requiresUpgrade,
-          planName: usageCheck.planName,
-        };
-
-        if (usageCheck.remainingMinutes !== undefined) {
-          responseBody.usage = {
-            remaining: usageCheck.remainingMinutes,
-            total: usageCheck.totalMinutes,
-            used: usageCheck.usedMinutes,
-          };
-        }
-
-        if (usageCheck.planName) {
-          const overageRate = getOverageRate(usageCheck.planName);
-          if (overageRate > 0) {
-            responseBody.overageRate = overageRate;
-          }
-        }
-
-        return NextResponse.json(responseBody, { status: 402 });
+        console.warn(
+          `Usage limit exceeded for user ${kb.userId}: ${usageCheck.reason}`,
+        );
+        return NextResponse.json(
+          {
+            error: "usage_limit_exceeded",
+            message: usageLimitMessage(metadata),
+          },
+          { status: 402 },
+        );
       }
     } catch (err) {
       console.warn("Usage check failed (session route):", err);
@@ -290,15 +293,35 @@ Keep responses brief and natural for voice conversation. Aim for 2-3 sentences u
 
     const session = await res.json();
 
+    // Billed on disconnect via /api/realtime/session/usage; a call we can't
+    // meter never gets its key
+    let usageToken: string;
+    try {
+      if (!session?.id) throw new Error("Realtime session has no id");
+      const expiresAt = Number(session.client_secret?.expires_at);
+      usageToken = await trackRealtimeSession(
+        session.id,
+        { userId: kb.userId, botId, kbId },
+        expiresAt ? expiresAt * 1000 : null,
+      );
+    } catch (err) {
+      console.error("Failed to track realtime session:", err);
+      return NextResponse.json(
+        { error: "session_tracking_failed" },
+        { status: 503 },
+      );
+    }
+
     return NextResponse.json({
       ...session,
+      usageToken,
       isDemo: false,
       kbContext: {
         kbId,
         title: kbTitle,
         personality,
         userId: kb.userId,
-        botId: kb.bot?.id,
+        botId,
       },
     });
   } catch (err) {
@@ -0,0 +1,55 @@
+// src/app/api/realtime/session/usage/route.ts
+import {
+  billRealtimeSession,
+  endRealtimeSession,
+  markRealtimeConnected,
+} from "@/lib/usage/realtimeSessions";
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+/**
+ * Realtime calls are billed by connected time. The widget reports
+ * `connect` once its WebRTC call is up and `disconnect` when it hangs up
+ * (also via `navigator.sendBeacon` on page hide); both timestamps are taken
+ * here, so the client never supplies a duration; without a `connect` the
+ * call is billed from when its key was issued, and a disconnect before the
+ * key expires is billed up to its expiry. Reports carry the usage
+ * token issued with the session, so nobody else can end someone's call.
+ */
+export async function POST(req: Request) {
+  const body: { sessionId?: string; usageToken?: string; event?: string } =
+    await req.json().catch(() => ({}));
+  const { sessionId, usageToken, event } = body;
+
+  if (
+    !sessionId ||
+    !usageToken ||
+    (event !== "connect" && event !== "disconnect")
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "sessionId, usageToken and event (connect | disconnect) are required",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (event === "connect") {
+      const session = await markRealtimeConnected(sessionId, usageToken);
+      return NextResponse.json({ ok: Boolean(session) });
+    }
+
+    const ended = await endRealtimeSession(sessionId, usageToken);
+    if (!ended) return NextResponse.json({ ok: false });
+
+    await billRealtimeSession(sessionId, ended);
+
+    return NextResponse.json({ ok: true, seconds: ended.seconds });
+  } catch (err) {
+    console.error("Realtime usage route error:", err);
+    return NextResponse.json({ error: "internal_error" }, { status: 500 });
+  }
+}
@@ -1,3 +1,19 @@
+import {
+  completeCrawlJobIfDone,
+  createCrawlJob,
+  markCrawlUrl,
+  trackCrawlUrls,
+} from "@/lib/kb/crawlJobs";
+import {
+  applyQueryParamMode,
+  isInCrawlScope,
+  resolveCrawlSettings,
+} from "@/lib/kb/crawlScope";
+import { prisma } from "@/lib/prisma";
+import {
+  checkCrawlPageLimit,
+  checkEntitlement,
+} from "@/lib/subscription/checkUsageLimits";
 import { Client as QStashClient } from "@upstash/qstash";
 import { XMLParser } from "fast-xml-parser";
 import { NextResponse } from "next/server";
@@ -18,7 +34,10 @@ function validateUrl(url: string): boolean {
   }
 }
 
-async function fetchSitemap(origin: string): Promise<string[]> {
+async function fetchSitemap(
+  origin: string,
+  inScope: (url: string) => boolean,
+): Promise<string[]> {
   const sitemapUrls = [
     "/sitemap.xml",
     "/sitemap_index.xml",
@@ -68,7 +87,8 @@ async function fetchSitemap(origin: string): Promise<string[]> {
           if (
             entry.loc &&
             typeof entry.loc === "string" &&
-            validateUrl(entry.loc)
+            validateUrl(entry.loc) &&
+            inScope(entry.loc)
           ) {
             urls.push(entry.loc);
           }
@@ -113,7 +133,11 @@ async function fetchSitemap(origin: string): Promise<string[]> {
                   : [childObj.urlset.url];
 
                 for (const childEntry of childEntries) {
-                  if (childEntry.loc && validateUrl(childEntry.loc)) {
+                  if (
+                    childEntry.loc &&
+                    validateUrl(childEntry.loc) &&
+                    inScope(childEntry.loc)
+                  ) {
                     childUrls.push(childEntry.loc);
                   }
                 }
@@ -153,7 +177,7 @@ async function fetchSitemap(origin: string): Promise<string[]> {
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { kbId, url, userId, maxDepth = 2 } = body;
+    const { kbId, url, userId } = body;
 
     // Validation
     if (!kbId || !url || !userId) {
@@ -170,37 +194,94 @@ export async function POST(req: Request) {
       );
     }
 
-    if (maxDepth < 0 || maxDepth > 5) {
+    const kb = await prisma.knowledgeBase.findFirst({
+      where: { id: kbId, userId },
+      select: { metadata: true },
+    });
+    if (!kb) {
       return NextResponse.json(
-        { error: "maxDepth must be between 0 and 5" },
-        { status: 400 },
+        { error: "Knowledge base not found" },
+        { status: 404 },
       );
     }
 
+    const settings = resolveCrawlSettings(
+      (kb.metadata as Record<string, unknown> | null)?.crawl,
+    );
+    // Always the KB's own (already clamped) depth; the body can't raise it
+    const maxDepth = settings.maxDepth;
+
+    const pageLimit = await checkCrawlPageLimit(userId);
+    if (!pageLimit.allowed) {
+      console.warn(`Crawl for KB ${kbId} blocked: ${pageLimit.reason}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "crawl_limit_reached",
+          details: pageLimit.reason,
+        },
+        { status: 402 },
+      );
+    }
+
+    const kbPages = await checkEntitlement(userId, "pages");
+    if (!kbPages.allowed) {
+      console.warn(`Crawl for KB ${kbId} blocked: ${kbPages.reason}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "crawl_limit_reached",
+          details: kbPages.reason,
+        },
+        { status: 402 },
+      );
+    }
+
+    // The KB's own setting, the plan's per-KB cap and what's left this month
+    const maxPages = Math.min(
+      settings.maxPages,
+      ...[pageLimit.remaining, kbPages.limit].filter(
+        (n): n is number => n !== undefined && n >= 0,
+      ),
+    );
+
     const origin = new URL(url).origin;
-    console.log(`Starting crawl for ${origin} with maxDepth ${maxDepth}`);
+    console.log(
+      `Starting crawl for ${origin} with maxDepth ${maxDepth}, maxPages ${maxPages}`,
+    );
+
+    const job = await createCrawlJob({
+      kbId,
+      userId,
+      rootUrl: url,
+      maxDepth,
+      maxPages,
+      settings,
+    });
 
     let enqueuedUrls = 0;
     let discoveredUrls = 0;
 
     // 1) Try sitemap.xml for quick discovery
     try {
-      const sitemapUrls = await fetchSitemap(origin);
+      const sitemapUrls = await fetchSitemap(origin, (loc) =>
+        isInCrawlScope(loc, url, settings),
+      );
       discoveredUrls = sitemapUrls.length;
 
       if (sitemapUrls.length > 0) {
         console.log(`Discovered ${sitemapUrls.length} URLs from sitemap`);
 
-        // Filter URLs to same origin and limit to avoid overwhelming the queue
-        const validUrls = sitemapUrls
-          .filter((sitemapUrl) => {
-            try {
-              return new URL(sitemapUrl).origin === origin;
-            } catch {
-              return false;
-            }
-          })
-          .slice(0, 100); // Limit to first 100 URLs
+        // Sitemaps often list the same page twice; tracking drops repeats
+        // and stops at the page budget
+        const validUrls = await trackCrawlUrls(
+          job.id,
+          sitemapUrls.map((loc) => ({
+            url: applyQueryParamMode(loc, settings.queryParams),
+            depth: maxDepth,
+          })),
+          maxPages,
+        );
 
         // Enqueue each sitemap URL with staggered delays to avoid spikes
         const enqueuePromises = validUrls.map(async (loc, index) => {
@@ -213,6 +294,7 @@ export async function POST(req: Request) {
                 webUrl: loc,
                 userId,
                 depth: maxDepth,
+                jobId: job.id,
               },
               delay: Math.floor(index / 10) * 2 + 15,
             });
@@ -240,6 +322,10 @@ export async function POST(req: Request) {
             }
           } catch (error) {
             console.error(`Failed to enqueue ${loc}:`, error);
+            await markCrawlUrl(job.id, loc, {
+              status: "FAILED",
+              error: "Could not be queued",
+            });
           }
         });
 
@@ -256,12 +342,14 @@ export async function POST(req: Request) {
         }
 
         console.log(`Successfully enqueued ${enqueuedUrls} URLs from sitemap`);
+        if (validUrls.length === 0) await completeCrawlJobIfDone(job.id);
 
         return NextResponse.json({
           success: true,
           discovered: discoveredUrls,
           enqueued: enqueuedUrls,
           method: "sitemap",
+          jobId: job.id,
         });
       }
     } catch (error) {
@@ -273,6 +361,7 @@ export async function POST(req: Request) {
     console.log("No sitemap found, falling back to root URL crawling");
 
     try {
+      await trackCrawlUrls(job.id, [{ url, depth: maxDepth }]);
       await qstash.publishJSON({
         url: `${process.env.BASE_URL}/api/process-crawl`,
         body: {
@@ -280,6 +369,7 @@ export async function POST(req: Request) {
           webUrl: url,
           userId,
           depth: maxDepth,
+          jobId: job.id,
         },
       });
       enqueuedUrls = 1;
@@ -303,6 +393,10 @@ export async function POST(req: Request) {
       }
     } catch (error) {
       console.error("Failed to enqueue root URL:", error);
+      await markCrawlUrl(job.id, url, {
+        status: "FAILED",
+        error: "Could not be queued",
+      });
       return NextResponse.json(
         {
           success: false,
@@ -320,6 +414,7 @@ export async function POST(req: Request) {
       discovered: 1,
       enqueued: enqueuedUrls,
       method: "fallback",
+      jobId: job.id,
     });
   } catch (error) {
     console.error("Start crawl error:", error);
@@ -0,0 +1,59 @@
+// app/api/stripe/portal/route.ts
+import { auth } from "@/lib/auth";
+import { SupportedLang } from "@/lib/dictionaries";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import Stripe from "stripe";
+
+export const runtime = "nodejs";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-07-30.basil",
+});
+
+type Body = {
+  lang: SupportedLang;
+};
+
+/**
+ * Opens a Stripe customer portal session where the user can cancel, update
+ * their card and download invoices. Returns to the billing settings page.
+ */
+export async function POST(req: Request) {
+  try {
+    const { lang } = (await req.json()) as Body;
+
+    if (!lang) {
+      return NextResponse.json({ error: "Missing lang" }, { status: 400 });
+    }
+
+    const session = await auth();
+    const userId = session?.user.id;
+
+    if (!userId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { stripeCustomerId: true },
+    });
+
+    if (!user?.stripeCustomerId) {
+      return NextResponse.json(
+        { error: "No billing account found" },
+        { status: 404 },
+      );
+    }
+
+    const portalSession = await stripe.billingPortal.sessions.create({
+      customer: user.stripeCustomerId,
+      return_url: `${process.env.BASE_URL}/${lang}/dashboard/settings/billing`,
+    });
+
+    return NextResponse.json({ url: portalSession.url });
+  } catch (err) {
+    console.error("Stripe portal session error", err);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
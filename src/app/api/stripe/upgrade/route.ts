@@ -2,6 +2,7 @@
 import { auth } from "@/lib/auth";
 import { SupportedLang } from "@/lib/dictionaries";
 import { prisma } from "@/lib/prisma";
+import { ensureOverageItem, findPlanItem } from "@/lib/stripe/overage";
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
 
@@ -125,7 +126,7 @@ export async function POST(req: Request) {
       );
     }
 
-    const subscriptionItemId = subscription.items.data[0].id;
+    const subscriptionItemId = findPlanItem(subscription)!.id;
     const newPriceId = targetPlan.stripePriceId;
 
     // Perform the subscription update (swap price on the existing subscription)
@@ -140,6 +141,15 @@ export async function POST(req: Request) {
       expand: ["latest_invoice", "items.data.price"],
     });
 
+    // Opted-in overage follows the plan to its own metered price
+    if (user.overageEnabled && targetPlan.stripeOveragePriceId) {
+      try {
+        await ensureOverageItem(updated.id, targetPlan.stripeOveragePriceId);
+      } catch (err) {
+        console.log("[UPGRADE_OVERAGE_ERROR]", err);
+      }
+    }
+
     const latestInvoice = updated.latest_invoice as Stripe.Invoice | undefined;
 
     // Check if payment is required
@@ -9,30 +9,34 @@ import {
   recordInvocationMetrics,
   startInvocation,
 } from "@/lib/monitoring/vercelMetrics";
+import {
+  getSpeechProvider,
+  isLlmProviderConfigured,
+  LlmError,
+  SPEECH_PROVIDER,
+  TTS_MODEL,
+} from "@/lib/llm";
+import { verifyKbApiKey } from "@/lib/kb/kbApiKeys";
 import { prisma } from "@/lib/prisma";
+import {
+  estimateSpeechSeconds,
+  mp3DurationSeconds,
+  voiceMinutes,
+} from "@/lib/usage/metering";
 import crypto from "crypto";
 import { jwtVerify } from "jose";
 import { NextRequest, NextResponse } from "next/server";
-import {
-  checkUsageLimits,
-  getOverageRate,
-} from "@/lib/subscription/checkUsageLimits";
+import { checkUsageLimits } from "@/lib/subscription/checkUsageLimits";
+import { usageLimitMessage } from "@/lib/subscription/limitMessage";
 
 const DEMO_KB_ID = process.env.DEMO_KB_ID ?? null;
 
 const VALID_VOICES = ["alloy", "echo", "fable", "onyx", "nova", "shimmer"];
 
-/** helper to create sha256 buffer (timing-safe compare) */
-function sha256Buffer(input: string) {
-  return crypto.createHash("sha256").update(input, "utf8").digest();
-}
-
-/** estimate minutes from text (used for billing/analytics) */
-function estimateMinutesFromText(text?: string | null, wpm = 150) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean).length;
-  if (words === 0) return 0;
-  return Math.max(1, Math.ceil(words / wpm));
+/** seconds of speech in a cached `data:audio/mp3;base64,...` URL */
+function dataUrlDurationSeconds(audioUrl: string) {
+  const base64 = audioUrl.slice(audioUrl.indexOf(",") + 1);
+  return mp3DurationSeconds(Buffer.from(base64, "base64"));
 }
 
 export async function POST(request: NextRequest) {
@@ -44,7 +48,6 @@ export async function POST(request: NextRequest) {
   const { createHash } = upstash;
   const { CacheService, checkRateLimit, getUserIdentifier } = upstash;
 
-  const OPENAI_KEY = process.env.OPENAI_API_KEY || "";
   const JWT_SECRET = process.env.WIDGET_JWT_SECRET || "";
 
   // lazy-init cache
@@ -83,9 +86,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // ensure OpenAI key exists
-    if (!OPENAI_KEY) {
-      console.error("OPENAI_API_KEY not configured");
+    // ensure the speech provider is configured
+    if (!isLlmProviderConfigured(SPEECH_PROVIDER)) {
+      console.error("Speech provider not configured");
       return NextResponse.json(
         { error: "Service configuration error" },
         { status: 500 },
@@ -202,11 +205,6 @@ export async function POST(request: NextRequest) {
         }
       } else {
         // no widget token: require API key for private KBs
-        const storedHash =
-          typeof metadata.apiKeyHash === "string"
-            ? metadata.apiKeyHash
-            : undefined;
-
         if (!authHeader) {
           return NextResponse.json(
             { error: "Unauthorized (missing API key or widget token)" },
@@ -214,60 +212,40 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        if (storedHash) {
-          const incomingBuf = sha256Buffer(authHeader);
-          const storedBuf = Buffer.from(storedHash, "hex");
-          if (
-            incomingBuf.length !== storedBuf.length ||
-            !crypto.timingSafeEqual(incomingBuf, storedBuf)
-          ) {
-            return NextResponse.json(
-              { error: "Unauthorized (invalid API key)" },
-              { status: 401 },
-            );
-          }
-        } else {
+        const keyCheck = await verifyKbApiKey(kbData, authHeader, request);
+        if (keyCheck === "not_configured") {
           return NextResponse.json(
             { error: "Knowledge base is private; API key required" },
             { status: 401 },
           );
         }
+        if (keyCheck === "invalid") {
+          return NextResponse.json(
+            { error: "Unauthorized (invalid API key)" },
+            { status: 401 },
+          );
+        }
       }
     }
 
     // ---------- SUBSCRIPTION & USAGE CHECK ----------
     try {
       if (!isDemoKb) {
-        const estimatedMinutes = estimateMinutesFromText(text);
-        const usageCheck = await checkUsageLimits(
-          kbData.userId,
-          estimatedMinutes,
-        );
+        const usageCheck = await checkUsageLimits(kbData.userId, {
+          voiceMinutes: estimateSpeechSeconds(text) / 60,
+        });
 
         if (!usageCheck.allowed) {
-          const responseBody: any = {
-            error: "usage_limit_exceeded",
-            message: usageCheck.reason,
-            requiresUpgrade: usageCheck.requiresUpgrade,
-            planName: usageCheck.planName,
-          };
-
-          if (usageCheck.remainingMinutes !== undefined) {
-            responseBody.usage = {
-              remaining: usageCheck.remainingMinutes,
-              total: usageCheck.totalMinutes,
-              used: usageCheck.usedMinutes,
-            };
-          }
-
-          if (usageCheck.planName) {
-            const overageRate = getOverageRate(usageCheck.planName);
-            if (overageRate > 0) {
-              responseBody.overageRate = overageRate;
-            }
-          }
-
-          return NextResponse.json(responseBody, { status: 402 });
+          console.warn(
+            `Usage limit exceeded for user ${kbData.userId}: ${usageCheck.reason}`,
+          );
+          return NextResponse.json(
+            {
+              error: "usage_limit_exceeded",
+              message: usageLimitMessage(metadata, text),
+            },
+            { status: 402 },
+          );
         }
       }
     } catch (err) {
@@ -285,7 +263,9 @@ export async function POST(request: NextRequest) {
       // Record analytics for cached response
       if (kbId && kbData) {
         const eventId = crypto.randomUUID();
-        const minutes = estimateMinutesFromText(text);
+        // cached audio is still played to the caller, so it's still billed
+        const usage = { audioOutputSeconds: dataUrlDurationSeconds(cached) };
+        const minutes = voiceMinutes(usage);
         const userIdentifier = isDemoKb
           ? "demo-user"
           : getUserIdentifier(request, widgetPayload);
@@ -296,7 +276,7 @@ export async function POST(request: NextRequest) {
             botId: kbData.botId!,
             channel: "voice",
             interactions: 1,
-            minutes,
+            usage,
             isCorrect: true,
             isNegative: false,
             isFallback: false,
@@ -377,40 +357,31 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Generate TTS via OpenAI (audio/speech endpoint)
+    // Generate TTS via the configured speech provider
     let ttsMs = 0;
     const ttsStart = Date.now();
 
-    const ttsResp = await fetch("https://api.openai.com/v1/audio/speech", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini-tts",
-        input: text.trim(),
+    let audioBuffer: ArrayBuffer;
+    try {
+      audioBuffer = await getSpeechProvider().speak({
+        text: text.trim(),
         voice,
-        response_format: "mp3",
+        model: TTS_MODEL,
         speed,
-      }),
-    });
-
-    ttsMs = Date.now() - ttsStart;
-
-    if (!ttsResp.ok) {
-      const txt = await ttsResp.text().catch(() => "");
-      console.error("TTS API error:", ttsResp.status, txt);
+      });
+    } catch (err) {
+      const status = err instanceof LlmError ? err.statusCode : undefined;
+      console.error("TTS API error:", status, err);
 
-      if (ttsResp.status === 429) {
+      if (status === 429) {
         return NextResponse.json(
           { error: "TTS service rate limit exceeded. Please try again later." },
           { status: 429 },
         );
       }
-      if (ttsResp.status === 401) {
+      if (status === 401) {
         return NextResponse.json(
-          { error: "OpenAI API authentication failed" },
+          { error: "Speech provider authentication failed" },
           { status: 502 },
         );
       }
@@ -419,7 +390,7 @@ export async function POST(request: NextRequest) {
         {
           error: "Failed to generate speech",
           details:
-            ttsResp.status === 413
+            status === 413
               ? "Text too long"
               : "Service temporarily unavailable",
         },
@@ -427,7 +398,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const audioBuffer = await ttsResp.arrayBuffer();
+    ttsMs = Date.now() - ttsStart;
+
     if (!audioBuffer || audioBuffer.byteLength === 0) {
       return NextResponse.json(
         { error: "Empty audio response" },
@@ -449,7 +421,8 @@ export async function POST(request: NextRequest) {
     // Analytics: log interaction + upsert usage row
     if (kbId && kbData) {
       const eventId = crypto.randomUUID();
-      const minutes = estimateMinutesFromText(text);
+      const usage = { audioOutputSeconds: mp3DurationSeconds(audioBuffer) };
+      const minutes = voiceMinutes(usage);
       const userIdentifier = isDemoKb
         ? "demo-user"
         : getUserIdentifier(request, widgetPayload);
@@ -460,7 +433,7 @@ export async function POST(request: NextRequest) {
           botId: kbData.botId!,
           channel: "voice",
           interactions: 1,
-          minutes,
+          usage,
           isCorrect: true,
           isNegative: false,
           isFallback: false,
@@ -1,104 +1,76 @@
-import { prisma } from "@/lib/prisma";
-import admin from "firebase-admin";
+import { auth } from "@/lib/auth";
+import {
+  checkUploadEntitlements,
+  storeUploadedFile,
+  validateUpload,
+} from "@/lib/files/uploads";
+import { KbAccessError, requireKbAccess } from "@/lib/workspaces/kbAccess";
+import { hasWorkspacePermission } from "@/lib/workspaces/roles";
+import { getWorkspaceContext } from "@/lib/workspaces/workspaceAccess";
 import { NextResponse } from "next/server";
-import { v4 as uuidv4 } from "uuid";
-
-// --- Firebase Admin Initialization ---
-if (!admin.apps.length) {
-  if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
-    const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
-    admin.initializeApp({
-      credential: admin.credential.cert(serviceAccount),
-      storageBucket: process.env.FIREBASE_STORAGE_BUCKET,
-    });
-  } else {
-    admin.initializeApp({
-      storageBucket: process.env.FIREBASE_STORAGE_BUCKET,
-    });
-  }
-}
-
-const bucket = admin.storage().bucket();
-
-// --- Config ---
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
-const ALLOWED_TYPES = [
-  "application/pdf",
-  "application/msword",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-  "image/png",
-  "image/jpeg",
-  "image/jpg",
-];
 
 export async function POST(req: Request) {
   try {
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
-    const userId = formData.get("userId") as string | null; // 👈 receive userId from client
     const rawKbId = String(formData.get("kbId") ?? "").trim(); // 👈 receive kbId from client
     const isHex24 = /^[0-9a-fA-F]{24}$/.test(rawKbId);
     const kbIdForDb = isHex24 ? rawKbId : null;
 
-    if (!file || !userId) {
-      return NextResponse.json(
-        { error: "Missing file or userId" },
-        { status: 400 },
-      );
+    if (!file) {
+      return NextResponse.json({ error: "Missing file" }, { status: 400 });
     }
 
-    // --- Validate file size ---
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: "File too large. Max size is 10MB." },
-        { status: 400 },
-      );
+    // --- Owner: the KB's, or the active workspace's for a KB being created ---
+    let userId: string;
+    if (kbIdForDb) {
+      const { kb } = await requireKbAccess(await auth(), kbIdForDb, "update");
+      userId = kb.userId;
+    } else {
+      const workspace = await getWorkspaceContext();
+      if (!workspace) {
+        return NextResponse.json({ error: "Unauthenticated" }, { status: 401 });
+      }
+      if (!hasWorkspacePermission(workspace.role, "edit")) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      userId = workspace.ownerId;
     }
 
-    // --- Validate file type ---
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        { error: `Unsupported file type: ${file.type}` },
-        { status: 400 },
-      );
+    const rejection = validateUpload(file);
+    if (rejection) {
+      return NextResponse.json({ error: rejection }, { status: 400 });
     }
 
-    // --- Prepare file for upload ---
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const fileName = `${Date.now()}-${uuidv4()}-${file.name}`;
-    const destinationPath = `uploads/${fileName}`;
-    const fileRef = bucket.file(destinationPath);
-
-    // --- Upload to Firebase ---
-    await fileRef.save(buffer, {
-      metadata: { contentType: file.type },
-      resumable: false,
-    });
-
-    // --- Signed URL ---
-    const [signedUrl] = await fileRef.getSignedUrl({
-      action: "read",
-      expires: Date.now() + 7 * 24 * 60 * 60 * 1000,
-    });
-
-    // --- Save in Mongo (Prisma) ---
-    const uploadedFile = await prisma.uploadedFile.create({
-      data: {
+    // --- Plan limits for the KB (new KBs are checked when created) ---
+    if (kbIdForDb) {
+      const entitlement = await checkUploadEntitlements(
         userId,
-        kbId: kbIdForDb,
-        filename: fileName,
-        fileType: file.type,
-        size: file.size,
-        url: signedUrl,
-        meta: {
-          originalName: file.name,
-          storagePath: destinationPath,
-        },
-      },
+        kbIdForDb,
+        file.size,
+      );
+      if (entitlement) {
+        return NextResponse.json(
+          { error: entitlement.reason, requiresUpgrade: true },
+          { status: 403 },
+        );
+      }
+    }
+
+    const uploadedFile = await storeUploadedFile({
+      file,
+      userId,
+      kbId: kbIdForDb,
     });
 
     return NextResponse.json(uploadedFile);
   } catch (error) {
+    if (error instanceof KbAccessError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode },
+      );
+    }
     console.error("[API /upload] Upload error:", error);
 
     return NextResponse.json(
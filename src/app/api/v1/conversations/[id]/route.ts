@@ -0,0 +1,32 @@
+// src/app/api/v1/conversations/[id]/route.ts
+import { prisma } from "@/lib/prisma";
+import { ApiError, apiRoute } from "@/lib/publicApi/handler";
+import {
+  serializeConversation,
+  serializeMessage,
+} from "@/lib/publicApi/serializers";
+import { NextResponse } from "next/server";
+
+/** GET -> one conversation with all its messages, oldest first. */
+export const GET = apiRoute<{ id: string }>(
+  "conversations:read",
+  async (_req, { ownerId }, { id }) => {
+    const conversation = /^[a-f0-9]{24}$/i.test(id)
+      ? await prisma.conversation.findFirst({
+          where: { id, userId: ownerId },
+          include: {
+            messages: { orderBy: { createdAt: "asc" } },
+            _count: { select: { messages: true } },
+          },
+        })
+      : null;
+    if (!conversation) {
+      throw new ApiError("not_found", "Conversation not found");
+    }
+
+    return NextResponse.json({
+      ...serializeConversation(conversation),
+      messages: conversation.messages.map(serializeMessage),
+    });
+  },
+);
@@ -0,0 +1,33 @@
+// src/app/api/v1/conversations/route.ts
+import { prisma } from "@/lib/prisma";
+import {
+  apiRoute,
+  pageArgs,
+  parseQuery,
+  toPage,
+} from "@/lib/publicApi/handler";
+import { serializeConversation } from "@/lib/publicApi/serializers";
+import { listConversationsQuerySchema } from "@/lib/schemas/publicApi";
+import { NextResponse } from "next/server";
+
+/**
+ * GET -> the account's conversations, newest first, without messages; fetch
+ * `/conversations/{id}` to export one.
+ */
+export const GET = apiRoute("conversations:read", async (req, { ownerId }) => {
+  const query = parseQuery(req, listConversationsQuerySchema);
+
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      userId: ownerId,
+      ...(query.kbId && { kbId: query.kbId }),
+      ...(query.channel && { channel: query.channel }),
+    },
+    include: { _count: { select: { messages: true } } },
+    ...pageArgs(query),
+  });
+
+  return NextResponse.json(
+    toPage(conversations, query.limit, serializeConversation),
+  );
+});
@@ -0,0 +1,92 @@
+// src/app/api/v1/knowledge-bases/[id]/documents/route.ts
+import type { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
+import {
+  checkUploadEntitlements,
+  storeUploadedFile,
+  validateUpload,
+} from "@/lib/files/uploads";
+import { enqueueKbProcessing } from "@/lib/kb/enqueueKbProcessing";
+import { prisma } from "@/lib/prisma";
+import {
+  ApiError,
+  apiRoute,
+  findApiKnowledgeBase,
+  pageArgs,
+  parseQuery,
+  toPage,
+} from "@/lib/publicApi/handler";
+import { serializeDocument } from "@/lib/publicApi/serializers";
+import { paginationQuerySchema } from "@/lib/schemas/publicApi";
+import { NextResponse } from "next/server";
+
+/** GET -> documents uploaded to a knowledge base, newest first. */
+export const GET = apiRoute<{ id: string }>(
+  "kb:read",
+  async (req, ctx, { id }) => {
+    const query = parseQuery(req, paginationQuerySchema);
+    const kb = await findApiKnowledgeBase(ctx, id);
+
+    const files = await prisma.uploadedFile.findMany({
+      where: { kbId: kb.id },
+      ...pageArgs(query),
+    });
+
+    return NextResponse.json(toPage(files, query.limit, serializeDocument));
+  },
+);
+
+/**
+ * POST (multipart/form-data, `file`) -> upload a document to a knowledge
+ * base and queue its extraction. Same types and size limit as the dashboard.
+ */
+export const POST = apiRoute<{ id: string }>(
+  "kb:write",
+  async (req, ctx, { id }) => {
+    const kb = await findApiKnowledgeBase(ctx, id);
+
+    const formData = await req.formData().catch(() => null);
+    const file = formData?.get("file");
+    if (!(file instanceof File)) {
+      throw new ApiError(
+        "invalid_request",
+        "Send the document as multipart/form-data in a `file` field",
+      );
+    }
+
+    const rejection = validateUpload(file);
+    if (rejection) throw new ApiError("invalid_request", rejection);
+
+    const entitlement = await checkUploadEntitlements(
+      kb.userId,
+      kb.id,
+      file.size,
+    );
+    if (entitlement) {
+      throw new ApiError(
+        "limit_reached",
+        entitlement.reason ?? "Plan limit reached",
+      );
+    }
+
+    const uploaded = await storeUploadedFile({
+      file,
+      userId: kb.userId,
+      kbId: kb.id,
+    });
+
+    // Listed on the KB like files added in the dashboard
+    const metadata = (kb.metadata as KbMetadata | null) ?? null;
+    const updated = await prisma.knowledgeBase.update({
+      where: { id: kb.id },
+      data: {
+        metadata: {
+          ...metadata,
+          files: [...(metadata?.files ?? []), uploaded.url],
+        },
+      },
+    });
+    await enqueueKbProcessing(updated, { files: [uploaded.url] });
+
+    return NextResponse.json(serializeDocument(uploaded), { status: 201 });
+  },
+);
@@ -0,0 +1,38 @@
+// src/app/api/v1/knowledge-bases/[id]/faq/route.ts
+import type { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
+import { enqueueKbProcessing } from "@/lib/kb/enqueueKbProcessing";
+import { prisma } from "@/lib/prisma";
+import {
+  apiRoute,
+  findApiKnowledgeBase,
+  parseJsonBody,
+} from "@/lib/publicApi/handler";
+import { serializeKnowledgeBase } from "@/lib/publicApi/serializers";
+import { addFaqSchema } from "@/lib/schemas/publicApi";
+import { NextResponse } from "next/server";
+
+/**
+ * POST -> append FAQ entries to a knowledge base. Only the new entries are
+ * embedded; they're answerable once processing finishes.
+ */
+export const POST = apiRoute<{ id: string }>(
+  "kb:write",
+  async (req, ctx, { id }) => {
+    const { items } = await parseJsonBody(req, addFaqSchema);
+    const kb = await findApiKnowledgeBase(ctx, id);
+
+    const metadata = (kb.metadata as KbMetadata | null) ?? null;
+    const updated = await prisma.knowledgeBase.update({
+      where: { id: kb.id },
+      data: {
+        metadata: {
+          ...metadata,
+          faq: [...(metadata?.faq ?? []), ...items],
+        },
+      },
+    });
+    await enqueueKbProcessing(updated, { faq: items });
+
+    return NextResponse.json(serializeKnowledgeBase(updated), { status: 201 });
+  },
+);
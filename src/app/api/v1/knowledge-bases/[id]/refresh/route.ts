@@ -0,0 +1,39 @@
+// src/app/api/v1/knowledge-bases/[id]/refresh/route.ts
+import {
+  enqueueKbRefresh,
+  MIN_MANUAL_REFRESH_INTERVAL_MS,
+} from "@/lib/kb/refreshKnowledgeBase";
+import {
+  ApiError,
+  apiRoute,
+  findApiKnowledgeBase,
+} from "@/lib/publicApi/handler";
+import { NextResponse } from "next/server";
+
+/** POST -> re-crawl every web page of a knowledge base now. */
+export const POST = apiRoute<{ id: string }>(
+  "kb:write",
+  async (_req, ctx, { id }) => {
+    const kb = await findApiKnowledgeBase(ctx, id);
+
+    if (
+      kb.lastRefreshAt &&
+      Date.now() - kb.lastRefreshAt.getTime() < MIN_MANUAL_REFRESH_INTERVAL_MS
+    ) {
+      throw new ApiError(
+        "conflict",
+        "A refresh is already running. Try again in a few minutes",
+      );
+    }
+
+    const queued = await enqueueKbRefresh(kb.id);
+    if (queued === 0) {
+      throw new ApiError(
+        "invalid_request",
+        "This knowledge base has no web pages",
+      );
+    }
+
+    return NextResponse.json({ queued }, { status: 202 });
+  },
+);
@@ -0,0 +1,13 @@
+// src/app/api/v1/knowledge-bases/[id]/route.ts
+import { apiRoute, findApiKnowledgeBase } from "@/lib/publicApi/handler";
+import { serializeKnowledgeBase } from "@/lib/publicApi/serializers";
+import { NextResponse } from "next/server";
+
+/** GET -> one knowledge base. */
+export const GET = apiRoute<{ id: string }>(
+  "kb:read",
+  async (_req, ctx, { id }) => {
+    const kb = await findApiKnowledgeBase(ctx, id);
+    return NextResponse.json(serializeKnowledgeBase(kb));
+  },
+);
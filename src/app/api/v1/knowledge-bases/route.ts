@@ -0,0 +1,59 @@
+// src/app/api/v1/knowledge-bases/route.ts
+import {
+  assertAgentLimit,
+  createKnowledgeBase,
+} from "@/lib/kb/createKnowledgeBase";
+import { enqueueKbProcessing } from "@/lib/kb/enqueueKbProcessing";
+import { prisma } from "@/lib/prisma";
+import {
+  ApiError,
+  apiRoute,
+  pageArgs,
+  parseJsonBody,
+  parseQuery,
+  toPage,
+} from "@/lib/publicApi/handler";
+import { serializeKnowledgeBase } from "@/lib/publicApi/serializers";
+import {
+  createKnowledgeBaseSchema,
+  paginationQuerySchema,
+} from "@/lib/schemas/publicApi";
+import { NextResponse } from "next/server";
+
+/** GET -> the account's knowledge bases, newest first. */
+export const GET = apiRoute("kb:read", async (req, { ownerId }) => {
+  const query = parseQuery(req, paginationQuerySchema);
+
+  const kbs = await prisma.knowledgeBase.findMany({
+    where: { userId: ownerId },
+    ...pageArgs(query),
+  });
+
+  return NextResponse.json(toPage(kbs, query.limit, serializeKnowledgeBase));
+});
+
+/**
+ * POST -> create a knowledge base and its bot, then start crawling `url` and
+ * embedding `faq`. Documents are added afterwards via `/documents`.
+ */
+export const POST = apiRoute("kb:write", async (req, { ownerId }) => {
+  const body = await parseJsonBody(req, createKnowledgeBaseSchema);
+
+  try {
+    await assertAgentLimit(ownerId);
+  } catch (err) {
+    throw new ApiError(
+      "limit_reached",
+      err instanceof Error ? err.message : "Agent limit reached",
+    );
+  }
+
+  const { kb } = await createKnowledgeBase(ownerId, {
+    ...body,
+    url: body.url ?? null,
+    allowedOrigins: body.allowedOrigins.map((o) => new URL(o).origin),
+  });
+  await enqueueKbProcessing(kb);
+
+  return NextResponse.json(serializeKnowledgeBase(kb), { status: 201 });
+});
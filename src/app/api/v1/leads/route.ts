@@ -0,0 +1,26 @@
+// src/app/api/v1/leads/route.ts
+import { prisma } from "@/lib/prisma";
+import {
+  apiRoute,
+  pageArgs,
+  parseQuery,
+  toPage,
+} from "@/lib/publicApi/handler";
+import { serializeLead } from "@/lib/publicApi/serializers";
+import { listLeadsQuerySchema } from "@/lib/schemas/publicApi";
+import { NextResponse } from "next/server";
+
+/** GET -> the account's leads from every channel, newest first. */
+export const GET = apiRoute("leads:read", async (req, { ownerId }) => {
+  const query = parseQuery(req, listLeadsQuerySchema);
+
+  const leads = await prisma.lead.findMany({
+    where: {
+      userId: ownerId,
+      ...(query.status && { status: query.status }),
+    },
+    ...pageArgs(query),
+  });
+
+  return NextResponse.json(toPage(leads, query.limit, serializeLead));
+});
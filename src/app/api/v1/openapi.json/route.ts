@@ -0,0 +1,10 @@
+// src/app/api/v1/openapi.json/route.ts
+import { buildOpenApiDocument } from "@/lib/publicApi/openapi";
+import { NextResponse } from "next/server";
+
+/** GET -> the OpenAPI document of /api/v1. Public, so tools can import it. */
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(process.env.BASE_URL ?? ""), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -1,18 +1,30 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
-import { logInteraction } from "@/lib/analytics/logInteraction";
+import { Answer, answerQuestion } from "@/lib/answer/answerQuestion";
+import {
+  appendConversationMessage,
+  appendConversationTurn,
+  findConversation,
+  loadConversationHistory,
+} from "@/lib/conversations/persistConversation";
+import { verifyKbApiKey } from "@/lib/kb/kbApiKeys";
 import {
   recordInvocationMetrics,
   startInvocation,
 } from "@/lib/monitoring/vercelMetrics";
+import { getSpeechProvider, TRANSCRIBE_MODEL, TTS_MODEL } from "@/lib/llm";
 import { prisma } from "@/lib/prisma";
-import crypto from "crypto";
+import {
+  estimateSpeechSeconds,
+  mp3DurationSeconds,
+} from "@/lib/usage/metering";
 import { jwtVerify } from "jose";
 import { NextRequest, NextResponse } from "next/server";
 import {
+  checkEntitlement,
   checkUsageLimits,
-  getOverageRate,
 } from "@/lib/subscription/checkUsageLimits";
+import { usageLimitMessage } from "@/lib/subscription/limitMessage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,32 +32,19 @@ export const maxDuration = 30; // seconds - serverless slot
 
 // Helpers (safe at top-level)
 async function dynamicImports() {
-  const [upstashModule, embeddingModule, upstashVectorModule] =
-    await Promise.all([
-      import("@/lib/upstash"),
-      import("@/lib/embedding-service"),
-      import("@/lib/upstash-vector"),
-    ]);
+  const upstashModule = await import("@/lib/upstash");
 
   const { CacheService, checkRateLimit, createHash, getUserIdentifier } =
     upstashModule as any;
-  const createEmbeddings = (embeddingModule as any).createEmbeddings;
-  const upstashVector = (upstashVectorModule as any).default;
 
   return {
     CacheService,
     checkRateLimit,
     createHash,
     getUserIdentifier,
-    createEmbeddings,
-    upstashVector,
   };
 }
 
-function sha256Buffer(input: string) {
-  return crypto.createHash("sha256").update(input, "utf8").digest();
-}
-
 /** convert Data URL to Uint8Array */
 function dataUrlToUint8Array(dataUrl: string): Uint8Array | null {
   try {
@@ -59,26 +58,13 @@ function dataUrlToUint8Array(dataUrl: string): Uint8Array | null {
   }
 }
 
-function estimateMinutesFromText(text?: string | null, wpm = 150) {
-  if (!text) return 0;
-  const words = text.trim().split(/\s+/).filter(Boolean).length;
-  if (words === 0) return 0;
-  return Math.max(1, Math.ceil(words / wpm));
-}
-
 const MAX_AUDIO_BYTES = 25 * 1024 * 1024; // 25MB
 const DEMO_KB_ID = process.env.DEMO_KB_ID ?? null;
 
 export async function POST(request: NextRequest) {
   // dynamic imports (lazy)
-  const {
-    CacheService,
-    checkRateLimit,
-    createHash,
-    getUserIdentifier,
-    createEmbeddings,
-    upstashVector,
-  } = await dynamicImports();
+  const { CacheService, checkRateLimit, createHash, getUserIdentifier } =
+    await dynamicImports();
 
   const requestPath = new URL(request.url).pathname;
   const invCtx = startInvocation();
@@ -87,9 +73,7 @@ export async function POST(request: NextRequest) {
   const cache = CacheService.getInstance();
 
   // envs (read at request-time so build doesn't evaluate them)
-  const OPENAI_KEY = process.env.OPENAI_API_KEY;
   const WIDGET_JWT_SECRET = process.env.WIDGET_JWT_SECRET || "";
-  if (!OPENAI_KEY) console.warn("OPENAI_API_KEY not set - voice will fail.");
   if (!WIDGET_JWT_SECRET)
     console.warn(
       "WIDGET_JWT_SECRET not set - widget tokens won't be validated.",
@@ -100,7 +84,11 @@ export async function POST(request: NextRequest) {
       /^Bearer\s+/,
       "",
     );
-    let widgetPayload: { kbId?: string; origin?: string } | null = null;
+    let widgetPayload: {
+      kbId?: string;
+      origin?: string;
+      visitorId?: string;
+    } | null = null;
     if (authHeader && WIDGET_JWT_SECRET) {
       try {
         const secretKey = new TextEncoder().encode(WIDGET_JWT_SECRET);
@@ -108,6 +96,7 @@ export async function POST(request: NextRequest) {
         widgetPayload = {
           kbId: payload.kbId as string | undefined,
           origin: payload.origin as string | undefined,
+          visitorId: payload.visitorId as string | undefined,
         };
       } catch {
         widgetPayload = null;
@@ -247,11 +236,6 @@ export async function POST(request: NextRequest) {
         );
       }
     } else {
-      const storedHash =
-        typeof metadata.apiKeyHash === "string"
-          ? metadata.apiKeyHash
-          : undefined;
-
       if (!authHeader) {
         return NextResponse.json(
           { error: "Unauthorized (missing API key or widget token)" },
@@ -259,114 +243,115 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      if (storedHash) {
-        const incomingBuf = sha256Buffer(authHeader);
-        const storedBuf = Buffer.from(storedHash, "hex");
-        if (
-          incomingBuf.length !== storedBuf.length ||
-          !crypto.timingSafeEqual(incomingBuf, storedBuf)
-        ) {
-          return NextResponse.json(
-            { error: "Unauthorized (invalid API key)" },
-            { status: 401 },
-          );
-        }
-      } else {
+      const keyCheck = await verifyKbApiKey(
+        { id: kbData.id, metadata },
+        authHeader,
+        request,
+      );
+      if (keyCheck === "not_configured") {
         return NextResponse.json(
           { error: "Knowledge base is private; API key required" },
           { status: 401 },
         );
       }
+      if (keyCheck === "invalid") {
+        return NextResponse.json(
+          { error: "Unauthorized (invalid API key)" },
+          { status: 401 },
+        );
+      }
     }
 
     // Transcript (client-supplied or transcribe)
     let transcript = transcriptFromClient ?? null;
     let audioHash: string | null = null;
     let transcriptWasCached = false;
+    let audioInputSeconds = 0;
 
     if (!transcript && audioBuffer) {
       audioHash = createHash(Buffer.from(audioBuffer).toString("base64"));
       const cachedTranscript = await cache.getTranscription(audioHash);
       transcriptWasCached = Boolean(cachedTranscript);
-      transcript = cachedTranscript ?? null;
+      transcript = cachedTranscript?.text ?? null;
+      audioInputSeconds = cachedTranscript?.durationSeconds ?? 0;
 
       if (!transcript) {
-        // transcribe with OpenAI Whisper
-        const formData = new FormData();
-        const file = new Blob([Buffer.from(audioBuffer)], {
-          type: "audio/webm",
-        });
-        formData.append("file", file, "audio.webm");
-        formData.append("model", "whisper-1");
-        formData.append("language", "auto");
-        formData.append("response_format", "verbose_json");
-
-        const resp = await fetch(
-          "https://api.openai.com/v1/audio/transcriptions",
-          {
-            method: "POST",
-            headers: { Authorization: `Bearer ${OPENAI_KEY}` },
-            body: formData as any,
-          },
-        );
-
-        if (!resp.ok) {
-          const txt = await resp.text().catch(() => "");
-          console.error("Whisper transcription failed:", resp.status, txt);
+        try {
+          const result = await getSpeechProvider().transcribe({
+            audio: audioBuffer,
+            filename: "audio.webm",
+            mimeType: "audio/webm",
+            model: TRANSCRIBE_MODEL,
+          });
+          transcript = result.text;
+          audioInputSeconds = result.durationSeconds ?? 0;
+        } catch (err) {
+          console.error("Transcription failed:", err);
           return NextResponse.json(
             { error: "Transcription failed" },
             { status: 502 },
           );
         }
 
-        const json = await resp.json();
-        transcript = (json?.text || "").trim();
         if (!transcript)
           return NextResponse.json(
             { error: "No speech detected" },
             { status: 400 },
           );
 
-        if (audioHash) await cache.setTranscription(audioHash, transcript);
+        if (audioHash) {
+          await cache.setTranscription(audioHash, {
+            text: transcript,
+            durationSeconds: audioInputSeconds || null,
+          });
+        }
       }
+
+      // providers that don't report a duration: bill the speaking time
+      if (!audioInputSeconds) {
+        audioInputSeconds = estimateSpeechSeconds(transcript);
+      }
+    }
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: "Missing audio or text" },
+        { status: 400 },
+      );
     }
 
     // ---------- SUBSCRIPTION & USAGE CHECK ----------
     try {
       if (!isDemoKb) {
-        const estimatedMinutes = Math.max(
-          1,
-          estimateMinutesFromText(transcript),
-        );
-        const usageCheck = await checkUsageLimits(
-          kbData.userId,
-          estimatedMinutes,
-        );
-
-        if (!usageCheck.allowed) {
-          const responseBody: any = {
-            error: "usage_limit_exceeded",
-            message: usageCheck.reason,
-            requiresUpgrade: usageCheck.requiresUpgrade,
-            planName: usageCheck.planName,
-          };
-
-          if (usageCheck.remainingMinutes !== undefined) {
-            responseBody.usage = {
-              remaining: usageCheck.remainingMinutes,
-              total: usageCheck.totalMinutes,
-              used: usageCheck.usedMinutes,
-            };
-          }
+        const voiceCheck = await checkEntitlement(kbData.userId, "voice");
+        if (!voiceCheck.allowed) {
+          console.warn(
+            `Voice not in plan for user ${kbData.userId}: ${voiceCheck.reason}`,
+          );
+          return NextResponse.json(
+            {
+              error: "voice_not_included",
+              message: usageLimitMessage(metadata, transcript),
+            },
+            { status: 403 },
+          );
+        }
 
-          if (usageCheck.planName) {
-            const overageRate = getOverageRate(usageCheck.planName);
-            if (overageRate > 0) {
-              responseBody.overageRate = overageRate;
-            }
-          }
+        const usageCheck = await checkUsageLimits(kbData.userId, {
+          voiceMinutes: audioInputSeconds / 60,
+        });
 
-          return NextResponse.json(responseBody, { status: 402 });
+        if (!usageCheck.allowed) {
+          console.warn(
+            `Usage limit exceeded for user ${kbData.userId}: ${usageCheck.reason}`,
+          );
+          return NextResponse.json(
+            {
+              error: "usage_limit_exceeded",
+              message: usageLimitMessage(metadata, transcript),
+            },
+            { status: 402 },
+          );
         }
       }
     } catch (err) {
@@ -375,318 +360,142 @@ export async function POST(request: NextRequest) {
     }
     // ---------- END SUBSCRIPTION & USAGE CHECK ----------
 
-    const isArabic = /[\u0600-\u06FF]/.test(transcript ?? "");
-    const llmModel = process.env.CHAT_MODEL || "gpt-4o-mini";
-
-    // ===== KB grounding (embedding + retrieval) =====
-    let retrieved: Array<{ text: string; similarity: number; metadata: any }> =
-      [];
-    let retrievedCount = 0;
-    try {
-      if (transcript && transcript.trim().length > 0) {
-        const cachedEmbedding = await cache.getEmbedding(transcript);
-        let queryVec: number[] | undefined;
-        if (Array.isArray(cachedEmbedding) && cachedEmbedding.length > 0) {
-          queryVec = cachedEmbedding as number[];
-        } else {
-          const embs = await createEmbeddings([transcript]);
-          queryVec = embs[0];
-          if (queryVec) await cache.setEmbedding(transcript, queryVec);
-        }
-
-        if (queryVec) {
-          const topK = Number(process.env.VOICE_RETRIEVAL_TOPK ?? 5);
-          const results = await upstashVector.query(queryVec, {
-            topK,
-            includeMetadata: true,
-            includeVectors: false,
-            filter: `kbId = '${kbId.replace(/'/g, "\\'")}'`,
-          });
-
-          retrieved = (results ?? []).map((r: any) => {
-            const md = r.metadata as Record<string, unknown> | undefined;
-            return {
-              text: (md?.text as string) ?? "",
-              similarity: r.score ?? 0,
-              metadata: {
-                documentId: (md?.documentId as string) ?? "",
-                filename: (md?.filename as string) ?? "",
-                sourceUrl: (md?.sourceUrl as string) ?? "",
-                chunkIndex: Number(md?.chunkIndex ?? 0),
-                totalChunks: Number(md?.totalChunks ?? 1),
-                startOffset: Number(md?.startOffset ?? 0),
-                endOffset: Number(md?.endOffset ?? 0),
-              },
-            };
-          });
-
-          retrievedCount = retrieved.length;
-        }
-      }
-    } catch (e) {
-      console.warn("Voice KB retrieval failed, continuing without KB:", e);
-      retrieved = [];
-      retrievedCount = 0;
-    }
-
-    const sourceBlocks = retrieved.map((r, i) => {
-      const srcMeta = r.metadata ?? {};
-      const label = srcMeta.filename || srcMeta.sourceUrl || `source-${i + 1}`;
-      return `SOURCE ${i + 1} (${label}, score=${(r.similarity || 0).toFixed(3)}):\n${r.text}`;
+    // Turns are stored like /api/chat's, per widget visitor; prior turns
+    // come from the stored conversation, never from the client
+    const visitorId: string =
+      widgetPayload?.visitorId ?? (isDemoKb ? "demo-user" : userIdentifier);
+    const existingConversation = await findConversation({
+      conversationId,
+      kbId,
+      userId: kbData.userId,
+      visitorId,
     });
-
-    const personality = (metadata?.personality as string) ?? "";
-
-    // Build retrieval text with clearer labeling
-    const retrievalText = sourceBlocks.length
-      ? `\n\nRetrieved information from knowledge base:\n\n${sourceBlocks.join("\n\n---\n\n")}\n\n`
-      : "\n\nNo specific information was retrieved from the knowledge base for this query. Provide a helpful general response or politely explain you don't have that information.\n\n";
-
-    // Build improved system instruction based on language
-    const baseSystemInstruction = isArabic
-      ? `أنت مساعد صوتي ذكي لديه وصول مباشر إلى قاعدة معرفة المنصة.
-
-تعليمات مهمة:
-1. أجب على الأسئلة مباشرة باستخدام المعلومات من المصادر المقدمة أدناه
-2. لا تخبر المستخدمين "يمكنك التحقق من المنصة" أو تحيلهم إلى مكان آخر
-3. استخرج وقدم المعلومات الفعلية من المصادر في إجاباتك
-4. كن محادثاً وطبيعياً ومختصراً - هذه محادثة صوتية
-5. قل فقط أنه ليس لديك معلومات إذا لم تحتوي المصادر على تفاصيل ذات صلة
-6. قدم المعلومات بشكل طبيعي كما لو كنت تشرحها مباشرة لشخص ما
-
-${personality || ""}`
-      : `You are a knowledgeable voice assistant with direct access to the platform's knowledge base.
-
-CRITICAL INSTRUCTIONS:
-1. Answer questions directly using information from the SOURCE blocks provided below
-2. DO NOT redirect users with phrases like "you can check the platform" or refer them elsewhere
-3. Extract and present the actual information from the sources in your responses
-4. Be conversational, natural, and concise - this is a voice conversation
-5. Only say you don't have information if the sources genuinely don't contain relevant details
-6. Synthesize information from multiple sources when appropriate
-7. Present information naturally as if explaining it directly to someone
-
-${personality || ""}
-
-Keep responses brief and natural for voice. Aim for 2-3 sentences unless more detail is requested.`;
-
-    const finalSystemInstruction =
-      `${baseSystemInstruction}${retrievalText}`.trim();
-
-    // Build LLM input with clearer structure
-    const llmInput = isArabic
-      ? `${finalSystemInstruction}\n\nالسؤال الحالي:\nالمستخدم: ${transcript}\n\nقدم إجابة مباشرة ومفيدة باستخدام المعلومات المسترجعة أعلاه:\nالمساعد:`
-      : `${finalSystemInstruction}\n\nCurrent question:\nUser: ${transcript}\n\nProvide a direct, informative answer using the retrieved information above:\nAssistant:`;
-
-    // LLM caching based on llmInput
-    const responseHash = createHash(llmInput);
-    let reply = await cache.get(`llm_response:${responseHash}`);
-
-    let llmMs = 0;
-
-    if (!reply) {
-      // --------- Measure LLM response time ---------
-      const llmStart = Date.now();
-      const llmResp = await fetch("https://api.openai.com/v1/responses", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${OPENAI_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: llmModel,
-          input: llmInput,
-          max_output_tokens: 800,
-          temperature: 0.2,
-        }),
+    if (conversationId && !existingConversation) {
+      return NextResponse.json(
+        { error: "Conversation not found" },
+        { status: 404 },
+      );
+    }
+    const history = existingConversation
+      ? await loadConversationHistory(existingConversation.id)
+      : [];
+    let activeConversationId: string | null = existingConversation?.id ?? null;
+
+    // An agent has the conversation: store the message, the bot stays quiet
+    if (existingConversation?.status === "handoff") {
+      await appendConversationMessage({
+        conversationId: existingConversation.id,
+        sender: "user",
+        content: transcript,
+      });
+      return NextResponse.json({
+        text: transcript,
+        reply: "",
+        audio: null,
+        conversationId: existingConversation.id,
+        handoff: true,
+        handoffSince: existingConversation.handoffAt?.toISOString() ?? null,
       });
-      llmMs = Date.now() - llmStart; // <--- store elapsed ms
-      // ---------------------------------------------
-
-      if (!llmResp.ok) {
-        const txt = await llmResp.text().catch(() => "");
-        console.error("LLM call failed:", llmResp.status, txt);
-        return NextResponse.json(
-          { error: "Failed to generate response" },
-          { status: 502 },
-        );
-      }
-
-      const llmJson = await llmResp.json();
-      if (Array.isArray(llmJson.output)) {
-        reply = llmJson.output
-          .map((o: any) =>
-            (o?.content || [])
-              .map((c: any) => (typeof c?.text === "string" ? c.text : ""))
-              .join(" "),
-          )
-          .join(" ")
-          .trim();
-      } else if (typeof llmJson.output_text === "string") {
-        reply = llmJson.output_text;
-      } else {
-        reply =
-          String(llmJson?.output?.[0]?.content?.[0]?.text ?? "") ||
-          String(llmJson?.choices?.[0]?.message?.content ?? "");
-      }
-      reply = reply || "I couldn't generate a response.";
-
-      await cache.set(`llm_response:${responseHash}`, reply, 1800);
     }
 
-    // TTS generation with caching
-    let audioDataUrl: string | null = null;
+    const isArabic = /[\u0600-\u06FF]/.test(transcript);
     const voice = isArabic ? voiceName || "nova" : voiceName || "alloy";
-    const ttsHash = createHash(`${reply}:${voice}`);
-    audioDataUrl = await cache.getTtsAudio(ttsHash, voice);
 
-    if (!audioDataUrl) {
+    // TTS generation with caching; returns whether the audio was cached and
+    // how many seconds of speech the caller gets
+    let audioDataUrl: string | null = null;
+    const speak = async (reply: string) => {
+      const ttsHash = createHash(`${reply}:${voice}`);
+      audioDataUrl = await cache.getTtsAudio(ttsHash, voice);
+      if (audioDataUrl) {
+        const bytes = dataUrlToUint8Array(audioDataUrl);
+        return { cached: true, seconds: bytes ? mp3DurationSeconds(bytes) : 0 };
+      }
+
       try {
-        const ttsResp = await fetch("https://api.openai.com/v1/audio/speech", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${OPENAI_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini-tts",
-            input: reply,
-            voice: voice,
-            response_format: "mp3",
-            speed: 1.0,
-          }),
+        const ab = await getSpeechProvider().speak({
+          text: reply,
+          voice,
+          model: TTS_MODEL,
         });
-
-        if (ttsResp.ok) {
-          const ab = await ttsResp.arrayBuffer();
-          const b64 = Buffer.from(ab).toString("base64");
-          audioDataUrl = `data:audio/mp3;base64,${b64}`;
-          await cache.setTtsAudio(ttsHash, voice, audioDataUrl);
-        } else {
-          const txt = await ttsResp.text().catch(() => "");
-          console.warn(
-            "TTS failed, continuing without audio:",
-            ttsResp.status,
-            txt,
-          );
-        }
+        const b64 = Buffer.from(ab).toString("base64");
+        audioDataUrl = `data:audio/mp3;base64,${b64}`;
+        await cache.setTtsAudio(ttsHash, voice, audioDataUrl);
+        return { cached: false, seconds: mp3DurationSeconds(ab) };
       } catch (ttsErr) {
         console.warn("TTS request error - continuing without audio:", ttsErr);
       }
-    }
-
-    const finalConversationId =
-      conversationId ??
-      `voice_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
-
-    // cached flags
-    const transcriptCachedFlag = transcriptWasCached;
-    const llmResponseCachedFlag = Boolean(
-      await cache.get(`llm_response:${responseHash}`),
-    );
-    const ttsAudioCachedFlag = Boolean(await cache.getTtsAudio(ttsHash, voice));
-    const overallCached =
-      transcriptCachedFlag && llmResponseCachedFlag && ttsAudioCachedFlag;
-
-    const minutes = estimateMinutesFromText(transcript, 150);
-
-    // ---------------------------
-    // Usage logging (new flow)
-    // ---------------------------
-    const eventId = crypto.randomUUID();
-
-    // Heuristic correctness detection
-    const fallbackRegex =
-      /\b(i (do not|don't) know|cannot find|no information|sorry,|unable to)/i;
-    const isFallback = !retrieved.length || fallbackRegex.test(reply);
-    const isCorrect = retrieved.length > 0 && reply.length > 20 && !isFallback;
-    const isNegative = !isCorrect;
+      return { cached: false, seconds: 0 };
+    };
 
+    let answer: Answer;
     try {
-      // 1) update aggregatedUsage and create minimal usage audit row (via helper)
-      await logInteraction({
-        userId: kbData.userId,
-        botId: kbData.botId!,
-        channel: "voice",
-        interactions: 1,
-        minutes,
-        isCorrect,
-        isNegative,
-        isFallback,
-        eventId,
-        meta: {
-          responseTimeMs: llmMs,
-          requestPath,
-          userIdentifier,
-          promptSize: transcript ? transcript.length : 0,
-          retrievedCount,
+      answer = await answerQuestion(
+        {
+          id: kbData.id,
+          userId: kbData.userId,
+          botId: kbData.botId,
+          metadata,
         },
-      });
-    } catch (err) {
-      console.warn("logInteraction failed (voice):", err);
-    }
-
-    // 2) upsert the usage row to ensure the richer meta is persisted
-    try {
-      await prisma.usage.upsert({
-        where: { eventId },
-        create: {
-          eventId,
-          userId: kbData.userId ?? null,
-          botId: kbData.botId ?? null,
-          date: new Date(),
-          interactions: 1,
-          minutes,
-          meta: {
-            kbId,
-            conversationId: finalConversationId,
-            cached: overallCached,
-            promptSize: transcript ? transcript.length : 0,
-            retrievedCount,
-            transcriptLength: transcript?.length ?? 0,
-            replyLength: reply.length,
-            correctness: { isCorrect, isNegative, isFallback },
-            cachedFlags: {
-              transcript: transcriptCachedFlag,
-              llmResponse: llmResponseCachedFlag,
-              ttsAudio: ttsAudioCachedFlag,
-            },
-            responseTimeMs: llmMs,
+        transcript,
+        {
+          channel: "voice",
+          history,
+          usage: { audioInputSeconds },
+          logMeta: {
             requestPath,
-            userIdentifier,
-            createdAt: new Date().toISOString(),
+            userIdentifier: visitorId,
+            transcriptLength: transcript.length,
           },
-        },
-        update: {
-          date: new Date(),
-          meta: {
-            set: {
-              kbId,
-              conversationId: finalConversationId,
-              cached: overallCached,
-              promptSize: transcript ? transcript.length : 0,
-              retrievedCount,
-              transcriptLength: transcript?.length ?? 0,
-              replyLength: reply.length,
-              cachedFlags: {
-                transcript: transcriptCachedFlag,
-                llmResponse: llmResponseCachedFlag,
-                ttsAudio: ttsAudioCachedFlag,
+          // Speak and persist the turn before usage is logged so the row has
+          // every cache flag and the conversation id
+          onAnswer: async (answer) => {
+            const tts = await speak(answer.text);
+            const llmCached = answer.llmMs === 0;
+            activeConversationId = await appendConversationTurn({
+              conversationId: activeConversationId,
+              kbId: kbData.id,
+              userId: kbData.userId,
+              botId: kbData.botId,
+              channel: "voice",
+              visitorId,
+              userMessage: transcript,
+              botMessage: answer.text,
+              sources: answer.sources,
+              isFallback: answer.isFallback,
+              meta: {
+                eventId: answer.eventId,
+                cached: answer.cached,
+                responseTimeMs: answer.llmMs,
               },
-              responseTimeMs: llmMs,
-              requestPath,
-              userIdentifier,
-              lastSeenAt: new Date().toISOString(),
-            },
+            });
+            return {
+              usage: { audioOutputSeconds: tts.seconds },
+              meta: {
+                conversationId: activeConversationId,
+                replyLength: answer.text.length,
+                cached: transcriptWasCached && llmCached && tts.cached,
+                cachedFlags: {
+                  transcript: transcriptWasCached,
+                  llmResponse: llmCached,
+                  ttsAudio: tts.cached,
+                },
+              },
+            };
           },
         },
-      });
+      );
     } catch (err) {
-      console.warn("usage upsert failed (voice):", err);
+      console.error("LLM call failed:", err);
+      return NextResponse.json(
+        { error: "Failed to generate response" },
+        { status: 502 },
+      );
     }
+    const reply = answer.text;
 
     void recordInvocationMetrics(await invCtx, {
-      llmResponseMs: llmMs,
+      llmResponseMs: answer.llmMs,
       userId: kbData?.userId,
       botId: kbData?.botId,
       tag: "voice",
@@ -696,9 +505,8 @@ Keep responses brief and natural for voice. Aim for 2-3 sentences unless more de
       text: transcript,
       reply,
       audio: audioDataUrl,
-      conversationId: finalConversationId,
+      conversationId: activeConversationId,
       source: "llm",
-      history: [],
       language: isArabic ? "ar" : "en",
       rateLimit: {
         remaining: rateLimit.remaining,
@@ -1,8 +1,20 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // app/api/stripe/webhook/route.ts
+import {
+  notifyPaymentFailed,
+  notifyRefundIssued,
+  notifyTrialEnding,
+} from "@/lib/notifier";
 import { prisma } from "@/lib/prisma";
+import {
+  invoiceOverageCents,
+  invoicePlanPeriod,
+  invoiceSubscriptionId,
+  reconcileOverageInvoice,
+  reportPeriodOverage,
+} from "@/lib/stripe/overage";
 import { resolvePlanIdFromStripeSubscription } from "@/lib/stripe/resolvePlanFromStripe";
-import { SubscriptionStatus } from "@prisma/client";
+import { PaymentStatus, SubscriptionStatus } from "@prisma/client";
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
 
@@ -33,6 +45,74 @@ async function markEventProcessed(eventId: string) {
   });
 }
 
+function billingLink(lang = "en") {
+  return `${process.env.BASE_URL}/${lang}/dashboard/settings/billing`;
+}
+
+async function findInvoiceUser(invoice: Stripe.Invoice) {
+  const stripeCustomerId =
+    typeof invoice.customer === "string" ? invoice.customer : null;
+  let user = null;
+  if (invoice.metadata?.userId) {
+    user = await prisma.user.findUnique({
+      where: { id: invoice.metadata.userId },
+    });
+  }
+  if (!user && stripeCustomerId) {
+    user = await prisma.user.findFirst({ where: { stripeCustomerId } });
+  }
+  return user;
+}
+
+/** One Payment row per invoice, carrying the links the billing page shows. */
+async function upsertInvoicePayment(
+  userId: string,
+  invoice: Stripe.Invoice,
+  data: {
+    amount: number;
+    status: PaymentStatus;
+    meta: Record<string, unknown>;
+  },
+) {
+  const meta = {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.number,
+    currency: invoice.currency,
+    hostedInvoiceUrl: invoice.hosted_invoice_url,
+    invoicePdf: invoice.invoice_pdf,
+    ...data.meta,
+  };
+
+  await prisma.payment.upsert({
+    where: { providerPaymentId: invoice.id },
+    update: { amount: data.amount, status: data.status, meta },
+    create: {
+      userId,
+      amount: data.amount,
+      currency: invoice.currency ?? "usd",
+      provider: "stripe",
+      providerPaymentId: invoice.id,
+      status: data.status,
+      meta,
+    },
+  });
+}
+
+/** True once the invoice is paid, per Stripe or our own Payment row. */
+async function isInvoiceSettled(invoice: Stripe.Invoice) {
+  if (invoice.status === "paid") return true;
+  if (!invoice.id) return false;
+
+  const payment = await prisma.payment.findUnique({
+    where: { providerPaymentId: invoice.id },
+    select: { status: true },
+  });
+  return (
+    payment?.status === PaymentStatus.SUCCEEDED ||
+    payment?.status === PaymentStatus.REFUNDED
+  );
+}
+
 function mapStripeStatusToPrisma(status?: string) {
   if (!status) return "TRIALING";
   const s = status.toLowerCase();
@@ -155,22 +235,10 @@ export async function POST(req: Request) {
         );
 
         const { currentPeriodStart, currentPeriodEnd } =
-          subscription.latest_invoice &&
+          (subscription.latest_invoice &&
           typeof subscription.latest_invoice !== "string"
-            ? (() => {
-                const invoice = subscription.latest_invoice as Stripe.Invoice;
-                if (invoice.lines?.data?.[0]?.period) {
-                  const p = invoice.lines.data[0].period;
-                  return {
-                    currentPeriodStart: p.start
-                      ? new Date(p.start * 1000)
-                      : null,
-                    currentPeriodEnd: p.end ? new Date(p.end * 1000) : null,
-                  };
-                }
-                return { currentPeriodStart: null, currentPeriodEnd: null };
-              })()
-            : extractSubscriptionPeriod(subscription);
+            ? await invoicePlanPeriod(subscription.latest_invoice)
+            : null) ?? extractSubscriptionPeriod(subscription);
 
         const stripeCustomerId =
           typeof session.customer === "string" ? session.customer : null;
@@ -232,72 +300,85 @@ export async function POST(req: Request) {
         break;
       }
 
-      case "invoice.paid": {
+      case "invoice.created": {
+        // A cycle invoice opens at period end: report that period's overage
+        // before Stripe finalizes it
         const invoice = event.data.object as Stripe.Invoice;
-        if (invoice.id) {
-          const existing = await prisma.payment.findFirst({
-            where: { providerPaymentId: invoice.id },
-          });
-          if (existing) {
-            console.log(`Payment for invoice ${invoice.id} already recorded`);
-            break;
-          }
-        }
-
+        const subscriptionId = invoiceSubscriptionId(invoice);
         const stripeCustomerId =
           typeof invoice.customer === "string" ? invoice.customer : null;
-        let user = null;
-        if (invoice.metadata?.userId) {
-          user = await prisma.user.findUnique({
-            where: { id: invoice.metadata.userId },
-          });
+
+        if (
+          invoice.billing_reason !== "subscription_cycle" ||
+          !invoice.id ||
+          !subscriptionId ||
+          !stripeCustomerId
+        ) {
+          break;
         }
-        if (!user && stripeCustomerId) {
-          user = await prisma.user.findFirst({ where: { stripeCustomerId } });
+
+        const sub = await prisma.subscription.findUnique({
+          where: { stripeSubscriptionId: subscriptionId },
+          select: { userId: true },
+        });
+        if (!sub) {
+          console.warn("No subscription found for invoice.created", invoice.id);
+          break;
         }
+
+        const report = await reportPeriodOverage({
+          userId: sub.userId,
+          stripeCustomerId,
+          stripeSubscriptionId: subscriptionId,
+          invoiceId: invoice.id,
+          periodStart: new Date(invoice.period_start * 1000),
+          periodEnd: new Date(invoice.period_end * 1000),
+        });
+        if (report) {
+          console.log(
+            `Reported ${report.minutes} overage minutes for ${subscriptionId}`,
+          );
+        }
+        break;
+      }
+
+      case "invoice.paid": {
+        const invoice = event.data.object as Stripe.Invoice;
+        await reconcileOverageInvoice(invoice, "PAID");
+
+        const user = await findInvoiceUser(invoice);
         if (!user) {
           console.warn("No user found for invoice.paid", invoice.id, {
-            stripeCustomerId,
+            customer: invoice.customer,
             metadata: invoice.metadata,
           });
           break;
         }
 
         const amount = (invoice.amount_paid || 0) / 100;
-        const subscriptionId = (invoice as any).subscription || null;
-
-        await prisma.payment.create({
-          data: {
-            userId: user.id,
-            amount,
-            currency: invoice.currency ?? "usd",
-            provider: "stripe",
-            providerPaymentId: invoice.id,
-            status: invoice.status === "paid" ? "SUCCEEDED" : "PENDING",
-            meta: {
-              invoiceId: invoice.id,
-              amountPaid: invoice.amount_paid,
-              currency: invoice.currency,
-              subscriptionId,
-            },
+        const subscriptionId = invoiceSubscriptionId(invoice);
+        const overageCents = await invoiceOverageCents(invoice);
+
+        // Upsert: a paid retry settles the row its failed attempt created
+        await upsertInvoicePayment(user.id, invoice, {
+          amount,
+          status: invoice.status === "paid" ? "SUCCEEDED" : "PENDING",
+          meta: {
+            amountPaid: invoice.amount_paid,
+            subscriptionId,
+            overageAmount: overageCents / 100,
           },
         });
 
         if (subscriptionId) {
-          let currentPeriodStart: Date | null = null;
-          let currentPeriodEnd: Date | null = null;
-          if (invoice.lines?.data?.[0]?.period) {
-            const p = invoice.lines.data[0].period;
-            currentPeriodStart = p.start ? new Date(p.start * 1000) : null;
-            currentPeriodEnd = p.end ? new Date(p.end * 1000) : null;
-          }
+          // From the plan line: the metered overage line is a period behind
+          const period = await invoicePlanPeriod(invoice);
 
           await prisma.subscription.updateMany({
             where: { stripeSubscriptionId: subscriptionId },
             data: {
               status: invoice.status === "paid" ? "ACTIVE" : "PAST_DUE",
-              currentPeriodStart,
-              currentPeriodEnd,
+              ...period,
               updatedAt: new Date(),
             },
           });
@@ -446,18 +527,18 @@ export async function POST(req: Request) {
       }
 
       case "invoice.payment_failed": {
+        // Sent once per failed attempt; the Payment row is kept per invoice
         const invoice = event.data.object as Stripe.Invoice;
-        const subscriptionId = (invoice as any).subscription || null;
-        const stripeCustomerId =
-          typeof invoice.customer === "string" ? invoice.customer : null;
 
-        let user = null;
-        if (invoice.metadata?.userId)
-          user = await prisma.user.findUnique({
-            where: { id: invoice.metadata.userId },
-          });
-        if (!user && stripeCustomerId)
-          user = await prisma.user.findFirst({ where: { stripeCustomerId } });
+        // Events arrive in any order: a failure delivered after the invoice
+        // was paid (or refunded) must not reopen it
+        if (await isInvoiceSettled(invoice)) {
+          console.log(`Ignoring late payment failure for ${invoice.id}`);
+          break;
+        }
+
+        const subscriptionId = invoiceSubscriptionId(invoice);
+        await reconcileOverageInvoice(invoice, "FAILED");
 
         if (subscriptionId) {
           await prisma.subscription.updateMany({
@@ -466,25 +547,106 @@ export async function POST(req: Request) {
           });
         }
 
-        if (user) {
-          await prisma.payment.create({
-            data: {
-              userId: user.id,
-              amount: (invoice.amount_due || 0) / 100,
-              currency: invoice.currency ?? "usd",
-              provider: "stripe",
-              providerPaymentId: invoice.id,
-              status: "FAILED",
-              meta: {
-                invoiceId: invoice.id,
-                amountDue: invoice.amount_due,
-                currency: invoice.currency,
-                subscriptionId,
-                failureReason: "Payment failed",
-              },
+        const user = await findInvoiceUser(invoice);
+        if (!user) break;
+
+        await upsertInvoicePayment(user.id, invoice, {
+          amount: (invoice.amount_due || 0) / 100,
+          status: "FAILED",
+          meta: {
+            amountDue: invoice.amount_due,
+            subscriptionId,
+            overageAmount: (await invoiceOverageCents(invoice)) / 100,
+            attemptCount: invoice.attempt_count,
+            failureReason: "Payment failed",
+          },
+        });
+
+        await notifyPaymentFailed(user.id, {
+          amount: (invoice.amount_due || 0) / 100,
+          currency: invoice.currency ?? "usd",
+          invoiceUrl: invoice.hosted_invoice_url,
+          billingLink: billingLink(),
+          nextAttempt: invoice.next_payment_attempt
+            ? new Date(invoice.next_payment_attempt * 1000)
+            : null,
+        });
+        break;
+      }
+
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge;
+        const paymentIntent =
+          typeof charge.payment_intent === "string"
+            ? charge.payment_intent
+            : charge.payment_intent?.id;
+        if (!paymentIntent) break;
+
+        // Charges no longer carry their invoice; look it up via the payment
+        const invoicePayments = await stripe.invoicePayments.list({
+          payment: { type: "payment_intent", payment_intent: paymentIntent },
+          limit: 1,
+        });
+        const linked = invoicePayments.data[0]?.invoice;
+        const invoiceId = typeof linked === "string" ? linked : linked?.id;
+        if (!invoiceId) {
+          console.warn("charge.refunded without an invoice", charge.id);
+          break;
+        }
+
+        const payment = await prisma.payment.findUnique({
+          where: { providerPaymentId: invoiceId },
+        });
+        if (!payment) {
+          console.warn("No payment recorded for refunded invoice", invoiceId);
+          break;
+        }
+
+        const full = charge.refunded; // false for partial refunds
+        await prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: full ? "REFUNDED" : payment.status,
+            meta: {
+              ...((payment.meta as Record<string, unknown>) ?? {}),
+              amountRefunded: charge.amount_refunded,
+              refundedAt: new Date().toISOString(),
             },
-          });
+          },
+        });
+
+        await notifyRefundIssued(payment.userId, {
+          amount: charge.amount_refunded / 100,
+          currency: charge.currency,
+          full,
+          billingLink: billingLink(),
+        });
+        break;
+      }
+
+      case "customer.subscription.trial_will_end": {
+        // Stripe sends this three days before the trial ends
+        const subscription = event.data.object as Stripe.Subscription;
+        if (!subscription.trial_end) break;
+
+        const local = await prisma.subscription.findUnique({
+          where: { stripeSubscriptionId: subscription.id },
+          select: { userId: true, plan: { select: { titleEn: true } } },
+        });
+        if (!local) {
+          console.warn(
+            "No subscription found for trial_will_end",
+            subscription.id,
+          );
+          break;
         }
+
+        await notifyTrialEnding(local.userId, {
+          trialEnd: new Date(subscription.trial_end * 1000),
+          planTitle: local.plan.titleEn,
+          hasPaymentMethod: Boolean(subscription.default_payment_method),
+          billingLink: billingLink(),
+        });
         break;
       }
 
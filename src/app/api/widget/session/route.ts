@@ -1,21 +1,21 @@
 // src/app/api/widget/session/route.ts
 import { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
+import { verifyKbApiKey } from "@/lib/kb/kbApiKeys";
 import { prisma } from "@/lib/prisma";
+import { getPlanEntitlements } from "@/lib/subscription/checkUsageLimits";
 import crypto from "crypto";
 import { SignJWT } from "jose";
 import { NextResponse } from "next/server";
 
 const TOKEN_EXP_SECONDS = Number(process.env.WIDGET_TOKEN_EXP ?? 300); // 5 minutes
 const WIDGET_JWT_SECRET = process.env.WIDGET_JWT_SECRET;
+const VISITOR_ID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 if (!WIDGET_JWT_SECRET) {
   throw new Error("WIDGET_JWT_SECRET is not defined in your environment");
 }
 
-function sha256Hex(input: string) {
-  return crypto.createHash("sha256").update(input, "utf8").digest("hex");
-}
-
 function corsHeaders(origin?: string) {
   return {
     "Access-Control-Allow-Origin": origin ?? "*",
@@ -35,7 +35,7 @@ export async function POST(req: Request) {
   const origin = req.headers.get("origin") ?? "*";
 
   try {
-    const { kbId } = await req.json();
+    const { kbId, visitorId: requestedVisitorId } = await req.json();
 
     if (!kbId) {
       return NextResponse.json({ error: "Missing kbId" }, { status: 400 });
@@ -61,21 +61,22 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "KB not found" }, { status: 404 });
     }
 
-    const metadata = kb.metadata as KbMetadata & { apiKeyHash?: string };
+    const metadata = kb.metadata as KbMetadata;
 
     // Method 1: API Key Authentication (Preferred for production)
     if (apiKey) {
-      const apiKeyHash = metadata?.apiKeyHash;
-      if (!apiKeyHash) {
+      const keyCheck = await verifyKbApiKey(kb, apiKey, req);
+      if (keyCheck === "not_configured") {
         return NextResponse.json(
           { error: "API key not configured for this knowledge base" },
           { status: 400 },
         );
       }
-
-      const providedKeyHash = sha256Hex(apiKey);
-      if (providedKeyHash !== apiKeyHash) {
-        return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+      if (keyCheck === "invalid") {
+        return NextResponse.json(
+          { error: "Invalid or expired API key" },
+          { status: 401 },
+        );
       }
 
       // API key is valid - skip origin validation for API key auth
@@ -105,6 +106,13 @@ export async function POST(req: Request) {
       console.log(`Widget: Origin authenticated for kbId: ${kbId}`);
     }
 
+    // The widget keeps the id it was given; anything else gets a new one
+    const visitorId =
+      typeof requestedVisitorId === "string" &&
+      VISITOR_ID_RE.test(requestedVisitorId)
+        ? requestedVisitorId
+        : crypto.randomUUID();
+
     // Generate JWT token
     const secretKey = new TextEncoder().encode(WIDGET_JWT_SECRET);
     const expUnix = Math.floor(Date.now() / 1000) + TOKEN_EXP_SECONDS;
@@ -112,6 +120,7 @@ export async function POST(req: Request) {
     const tokenPayload = {
       kbId,
       origin: requestOrigin,
+      visitorId,
       auth_method: apiKey ? "api_key" : "origin",
       iat: Math.floor(Date.now() / 1000),
     };
@@ -121,11 +130,16 @@ export async function POST(req: Request) {
       .setExpirationTime(expUnix)
       .sign(secretKey);
 
+    // The widget hides what the owner's plan doesn't include
+    const plan = await getPlanEntitlements(kb.userId);
+
     const safeMetadata = {
       primaryColor: metadata?.primaryColor,
       accentColor: metadata?.accentColor,
       voice: metadata?.voice,
       language: metadata?.language,
+      voiceEnabled: plan?.entitlements.voice ?? false,
+      showBranding: !plan?.entitlements.removeBranding,
     };
 
     return NextResponse.json(
@@ -133,6 +147,7 @@ export async function POST(req: Request) {
         token,
         expires_in: TOKEN_EXP_SECONDS,
         metadata: safeMetadata,
+        visitorId,
         auth_method: apiKey ? "api_key" : "origin",
       },
       { headers: corsHeaders(origin) },
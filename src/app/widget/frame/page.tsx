@@ -7,6 +7,7 @@ import Spinner from "@/components/shared/Spinner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { SupportedLang } from "@/lib/dictionaries";
+import { readEventStream } from "@/lib/sse";
 import { cn } from "@/lib/utils";
 import {
   Loader,
@@ -18,6 +19,8 @@ import {
   PhoneOff,
   Play,
   Send,
+  ThumbsDown,
+  ThumbsUp,
   Trash2,
   Volume2,
   VolumeX,
@@ -32,19 +35,51 @@ type Msg = {
   createdAt: string;
   isPlaying?: boolean;
   isVoice?: boolean;
+  eventId?: string; // usage event of a bot answer, used for feedback
+  feedback?: "up" | "down";
+  fromAgent?: boolean; // written by a human agent during handoff
 };
 
+// Plan-dependent flags added by /api/widget/session
+type WidgetMetadata = KbMetadata & {
+  voiceEnabled?: boolean;
+  showBranding?: boolean;
+};
+
+const HANDOFF_POLL_MS = 5000;
+
+type MeteredSession = { sessionId: string; usageToken: string };
+
+/** Ends server-side metering of a realtime call; survives page unload. */
+function reportRealtimeDisconnect(metered: MeteredSession) {
+  const body = JSON.stringify({ ...metered, event: "disconnect" });
+  const sent = navigator.sendBeacon?.(
+    "/api/realtime/session/usage",
+    new Blob([body], { type: "application/json" }),
+  );
+  if (!sent) {
+    fetch("/api/realtime/session/usage", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+    }).catch(() => {});
+  }
+}
+
 export default function WidgetFrame() {
   // Session state from parent
   const [sessionToken, setSessionToken] = useState<string | null>(null);
   const [kbId, setKbId] = useState<string | null>(null);
-  const [metadata, setMetadata] = useState<KbMetadata | null>(null);
+  const [metadata, setMetadata] = useState<WidgetMetadata | null>(null);
 
   // Chat state
   const [messages, setMessages] = useState<Msg[]>([]);
   const [textInput, setTextInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [conversationId, setConversationId] = useState<string | null>(null);
+  // ISO cursor for agent-message polling; null while the bot is answering
+  const [handoffSince, setHandoffSince] = useState<string | null>(null);
 
   // Voice UI state
   const [recording, setRecording] = useState(false); // indicates call active
@@ -79,6 +114,8 @@ export default function WidgetFrame() {
   const audioElRef = useRef<HTMLAudioElement | null>(null);
 
   const ephemeralSessionRef = useRef<any | null>(null);
+  // realtime session currently billed by connected time
+  const meteredSessionRef = useRef<MeteredSession | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
@@ -89,6 +126,7 @@ export default function WidgetFrame() {
   const accentColor = metadata?.accentColor || "#8B5CF6"; // purple-500
   const voiceName = metadata?.voice || "alloy";
   const language = metadata?.language as SupportedLang;
+  const voiceEnabled = metadata?.voiceEnabled !== false;
 
   // Helper: convert hex to rgba
   const hexToRgba = (hex: string, alpha = 1) => {
@@ -245,6 +283,17 @@ export default function WidgetFrame() {
     };
   }, [recording]);
 
+  // Report the hang-up when the page goes away mid-call
+  useEffect(() => {
+    const onPageHide = () => {
+      const metered = meteredSessionRef.current;
+      meteredSessionRef.current = null;
+      if (metered) reportRealtimeDisconnect(metered);
+    };
+    window.addEventListener("pagehide", onPageHide);
+    return () => window.removeEventListener("pagehide", onPageHide);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -308,6 +357,49 @@ export default function WidgetFrame() {
     );
   }, []);
 
+  // ------------------ Human handoff ------------------
+  // While an agent has the conversation, poll for their replies until the
+  // dashboard hands it back to the bot.
+  useEffect(() => {
+    if (!handoffSince || !kbId || !conversationId || !sessionToken) return;
+
+    let cancelled = false;
+    let after = handoffSince;
+
+    const poll = async () => {
+      try {
+        const params = new URLSearchParams({ kbId, conversationId, after });
+        const res = await fetch(`/api/chat/messages?${params}`, {
+          headers: { Authorization: `Bearer ${sessionToken}` },
+        });
+        if (!res.ok || cancelled) return;
+
+        const data = await res.json();
+        for (const m of data.messages ?? []) {
+          pushMessage({
+            id: `a-${m.id}`,
+            role: "bot",
+            text: m.content,
+            createdAt: m.createdAt,
+            isVoice: false,
+            fromAgent: true,
+          });
+        }
+        if (data.now) after = data.now;
+        if (data.status !== "handoff") setHandoffSince(null);
+      } catch (err) {
+        console.warn("Widget: handoff poll failed", err);
+      }
+    };
+
+    poll();
+    const timer = window.setInterval(poll, HANDOFF_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [handoffSince, kbId, conversationId, sessionToken, pushMessage]);
+
   // ------------------ Text chat ------------------
   const sendTextMessage = async () => {
     const message = textInput.trim();
@@ -336,45 +428,112 @@ export default function WidgetFrame() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "text/event-stream",
           ...(sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
         },
         body: JSON.stringify({
           kbId,
           message,
           conversationId,
-          history: messages.slice(-6).map((msg) => ({
-            role: msg.role === "user" ? "user" : "assistant",
-            text: msg.text,
-          })),
+          stream: true,
         }),
       });
 
+      // Out of quota: the KB's own "unavailable" message comes back as JSON
+      if (response.status === 402) {
+        const body = await response.json().catch(() => null);
+        if (body?.message) {
+          pushMessage({
+            id: `b-${Date.now()}`,
+            role: "bot",
+            text: body.message,
+            createdAt: new Date().toISOString(),
+            isVoice: false,
+          });
+          return;
+        }
+      }
+
+      // The conversation isn't this visitor's (e.g. a new visitor id); the
+      // next message starts a fresh one
+      if (response.status === 404 && conversationId) {
+        setConversationId(null);
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
 
-      const data = await response.json();
+      const botMsgId = `b-${Date.now()}`;
+      let streamed = "";
+      let data: any = null;
+      let streamError = null as string | null;
+
+      const contentType = response.headers.get("content-type") || "";
+      if (contentType.includes("text/event-stream")) {
+        // Render tokens as they arrive; `done` carries the same JSON body
+        // the non-streaming response returns.
+        await readEventStream(response, (event, payload: any) => {
+          if (event === "delta" && payload?.text) {
+            if (!streamed) {
+              setIsTyping(false);
+              pushMessage({
+                id: botMsgId,
+                role: "bot",
+                text: payload.text,
+                createdAt: new Date().toISOString(),
+                isVoice: false,
+              });
+            }
+            streamed += payload.text;
+            updateMessage(botMsgId, { text: streamed });
+          } else if (event === "done") {
+            data = payload;
+          } else if (event === "error") {
+            streamError = payload?.error || "stream_error";
+          }
+        });
+      } else {
+        data = await response.json();
+      }
+
+      if (streamError && !streamed) {
+        throw new Error(streamError);
+      }
+
+      if (data?.conversationId && !conversationId) {
+        setConversationId(data.conversationId);
+      }
+
+      if (data?.handoff) {
+        setHandoffSince(
+          (prev) => prev ?? data.handoffSince ?? new Date().toISOString(),
+        );
+        // The bot stays quiet while an agent has the conversation
+        if (!(data.text ?? streamed).trim()) return;
+      }
+
       const reply =
-        data.text?.trim() ||
+        (data?.text ?? streamed).trim() ||
         (language === "en"
           ? "I couldn't generate a response."
           : "لم أتمكن من إنشاء رد.");
 
-      if (data.conversationId && !conversationId) {
-        setConversationId(data.conversationId);
+      if (streamed) {
+        updateMessage(botMsgId, { text: reply, eventId: data?.eventId });
+      } else {
+        pushMessage({
+          id: botMsgId,
+          role: "bot",
+          text: reply,
+          createdAt: new Date().toISOString(),
+          isVoice: false,
+          eventId: data?.eventId,
+        });
       }
 
-      const botMsg: Msg = {
-        id: `b-${Date.now()}`,
-        role: "bot",
-        text: reply,
-        createdAt: new Date().toISOString(),
-        isVoice: false,
-      };
-      pushMessage(botMsg);
-
       if (audioEnabled && mode === "voice") {
-        generateTTS(reply, botMsg.id);
+        generateTTS(reply, botMsgId);
       }
     } catch (error) {
       console.error("Text chat error:", error);
@@ -394,6 +553,34 @@ export default function WidgetFrame() {
     }
   };
 
+  // ------------------ Feedback ------------------
+  const sendFeedback = async (msg: Msg, rating: "up" | "down") => {
+    if (!msg.eventId || !kbId || !sessionToken || msg.feedback === rating) {
+      return;
+    }
+
+    const previous = msg.feedback;
+    updateMessage(msg.id, { feedback: rating });
+
+    try {
+      const response = await fetch("/api/chat/feedback", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({ kbId, eventId: msg.eventId, rating }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Feedback error:", error);
+      updateMessage(msg.id, { feedback: previous });
+    }
+  };
+
   const generateTTS = async (text: string, messageId: string) => {
     try {
       const response = await fetch("/api/tts", {
@@ -468,6 +655,7 @@ export default function WidgetFrame() {
     stopCall();
     setMessages([]);
     setConversationId(null);
+    setHandoffSince(null);
   };
 
   const formatTime = (seconds: number) => {
@@ -584,6 +772,16 @@ export default function WidgetFrame() {
     return json;
   };
 
+  // Connected time is measured server-side between these two events
+  const reportRealtimeConnect = (metered: MeteredSession) => {
+    meteredSessionRef.current = metered;
+    fetch("/api/realtime/session/usage", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...metered, event: "connect" }),
+    }).catch((err) => console.warn("Failed to report call start:", err));
+  };
+
   // Wait for ICE gathering to finish (or timeout)
   function waitForIceGatheringComplete(
     pc: RTCPeerConnection,
@@ -1166,6 +1364,12 @@ export default function WidgetFrame() {
 
       console.log("Received SDP answer, setting remote description...");
       await pc.setRemoteDescription({ type: "answer", sdp: answerSdp });
+      if (session.id && session.usageToken) {
+        reportRealtimeConnect({
+          sessionId: session.id,
+          usageToken: session.usageToken,
+        });
+      }
 
       // Mark as recording
       setRecording(true);
@@ -1214,6 +1418,10 @@ export default function WidgetFrame() {
 
   // Stop call and cleanup
   const stopCall = () => {
+    if (meteredSessionRef.current) {
+      reportRealtimeDisconnect(meteredSessionRef.current);
+      meteredSessionRef.current = null;
+    }
     setRecording(false);
     setAudioLevel(0);
     setUserSpeaking(false);
@@ -1403,33 +1611,35 @@ export default function WidgetFrame() {
         </div>
 
         <div className="flex items-center gap-2">
-          <div className="flex rounded-lg bg-gray-200 p-1 dark:bg-gray-700">
-            <Button
-              variant={mode === "text" ? "default" : "ghost"}
-              size="sm"
-              onClick={() => {
-                if (isInCall) stopCall();
-                setMode("text");
-              }}
-              disabled={!isReady}
-              className={`h-7 px-3 text-xs text-white transition-all duration-300 ease-out hover:text-white! ${mode === "text" ? "bg-[var(--primary)]" : "hover:bg-transparent!"}`}
-              style={{ "--primary": primaryColor } as React.CSSProperties}
-            >
-              {language === "en" ? "Text" : "نص"}
-            </Button>
-            <Button
-              variant={mode === "voice" ? "default" : "ghost"}
-              size="sm"
-              onClick={() => {
-                if (permission !== false) setMode("voice");
-              }}
-              disabled={permission === false || !isReady}
-              className={`h-7 px-3 text-xs text-white transition-all duration-300 hover:text-white! ${mode === "voice" ? "bg-[var(--primary)]" : "hover:bg-transparent!"}`}
-              style={{ "--primary": primaryColor } as React.CSSProperties}
-            >
-              {language === "en" ? "Voice" : "صوتي"}
-            </Button>
-          </div>
+          {voiceEnabled && (
+            <div className="flex rounded-lg bg-gray-200 p-1 dark:bg-gray-700">
+              <Button
+                variant={mode === "text" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => {
+                  if (isInCall) stopCall();
+                  setMode("text");
+                }}
+                disabled={!isReady}
+                className={`h-7 px-3 text-xs text-white transition-all duration-300 ease-out hover:text-white! ${mode === "text" ? "bg-[var(--primary)]" : "hover:bg-transparent!"}`}
+                style={{ "--primary": primaryColor } as React.CSSProperties}
+              >
+                {language === "en" ? "Text" : "نص"}
+              </Button>
+              <Button
+                variant={mode === "voice" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => {
+                  if (permission !== false) setMode("voice");
+                }}
+                disabled={permission === false || !isReady}
+                className={`h-7 px-3 text-xs text-white transition-all duration-300 hover:text-white! ${mode === "voice" ? "bg-[var(--primary)]" : "hover:bg-transparent!"}`}
+                style={{ "--primary": primaryColor } as React.CSSProperties}
+              >
+                {language === "en" ? "Voice" : "صوتي"}
+              </Button>
+            </div>
+          )}
 
           <Button
             variant="ghost"
@@ -1674,6 +1884,11 @@ export default function WidgetFrame() {
                       : {}
                   }
                 >
+                  {msg.fromAgent && (
+                    <div className="text-muted-foreground mb-1 text-[10px] font-medium">
+                      {language === "en" ? "Team member" : "أحد أعضاء الفريق"}
+                    </div>
+                  )}
                   <div className="whitespace-pre-wrap">{msg.text}</div>
 
                   {msg.isVoice && (
@@ -1733,6 +1948,39 @@ export default function WidgetFrame() {
                     hour: "2-digit",
                     minute: "2-digit",
                   })}
+
+                  {msg.role === "bot" && msg.eventId && sessionToken && (
+                    <span className="ml-2 inline-flex items-center gap-1 align-middle">
+                      <button
+                        type="button"
+                        onClick={() => sendFeedback(msg, "up")}
+                        aria-label={
+                          language === "en" ? "Helpful" : "إجابة مفيدة"
+                        }
+                        aria-pressed={msg.feedback === "up"}
+                        className={cn(
+                          "rounded p-0.5 transition-colors hover:text-green-600",
+                          msg.feedback === "up" && "text-green-600",
+                        )}
+                      >
+                        <ThumbsUp className="h-3 w-3" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => sendFeedback(msg, "down")}
+                        aria-label={
+                          language === "en" ? "Not helpful" : "إجابة غير مفيدة"
+                        }
+                        aria-pressed={msg.feedback === "down"}
+                        className={cn(
+                          "rounded p-0.5 transition-colors hover:text-red-600",
+                          msg.feedback === "down" && "text-red-600",
+                        )}
+                      >
+                        <ThumbsDown className="h-3 w-3" />
+                      </button>
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -1941,6 +2189,20 @@ export default function WidgetFrame() {
             </div>
           </>
         )}
+
+        {metadata?.showBranding && (
+          <p className="text-muted-foreground mt-2 text-center text-[10px]">
+            {language === "en" ? "Powered by " : "مدعوم من "}
+            <a
+              href="/"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium hover:underline"
+            >
+              {language === "en" ? "Aoun" : "عون"}
+            </a>
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -28,6 +29,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { updatePlan } from "@/lib/actions/plan";
 import type { SupportedLang } from "@/lib/dictionaries";
 import { planSchema, type PlanFormValues } from "@/lib/schemas/plan";
+import {
+  ENTITLEMENT_CHANNELS,
+  resolvePlanEntitlements,
+} from "@/lib/subscription/planEntitlements";
 import { zodResolver } from "@hookform/resolvers/zod";
 import type { Plan, PlanName } from "@prisma/client";
 import { Pencil, X } from "lucide-react";
@@ -67,7 +72,10 @@ export default function EditPlanDialog({
       priceAmount: null,
       interval: "month",
       minutesPerMonth: 0,
+      tokensPerMonth: null,
+      crawlPagesPerMonth: null,
       agents: 0,
+      entitlements: resolvePlanEntitlements(null, "FREE"),
       featuresEn: [],
       featuresAr: [],
       popular: false,
@@ -95,7 +103,10 @@ export default function EditPlanDialog({
         priceAmount: plan.priceAmount ? plan.priceAmount / 100 : null,
         interval: plan.interval ?? "month",
         minutesPerMonth: plan.minutesPerMonth ?? 0,
+        tokensPerMonth: plan.tokensPerMonth ?? null,
+        crawlPagesPerMonth: plan.crawlPagesPerMonth ?? null,
         agents: plan.agents ?? 0,
+        entitlements: resolvePlanEntitlements(plan.entitlements, plan.name),
         featuresEn: plan.featuresEn ?? [],
         featuresAr: plan.featuresAr ?? [],
         popular: plan.popular ?? false,
@@ -420,6 +431,69 @@ export default function EditPlanDialog({
               )}
             />
 
+            {/* tokensPerMonth */}
+            <FormField
+              control={form.control}
+              name="tokensPerMonth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t.fields_tokens_per_month ?? "LLM tokens per month"}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        setValue(
+                          "tokensPerMonth",
+                          e.target.value === "" ? null : Number(e.target.value),
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <p className="text-muted-foreground text-xs">
+                    {t.fields_tokens_per_month_hint}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* crawlPagesPerMonth */}
+            <FormField
+              control={form.control}
+              name="crawlPagesPerMonth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {t.fields_crawl_pages_per_month ??
+                      "Crawled pages per month"}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        setValue(
+                          "crawlPagesPerMonth",
+                          e.target.value === "" ? null : Number(e.target.value),
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <p className="text-muted-foreground text-xs">
+                    {t.fields_crawl_pages_per_month_hint}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* agents */}
             <FormField
               control={form.control}
@@ -446,6 +520,195 @@ export default function EditPlanDialog({
               )}
             />
 
+            {/* entitlements */}
+            <div className="space-y-4 rounded-md border p-3">
+              <div>
+                <p className="text-sm font-medium">
+                  {t.fields_entitlements ?? "Entitlements"}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  {t.fields_entitlements_hint}
+                </p>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="entitlements.channels"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t.fields_channels ?? "Channels"}</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {ENTITLEMENT_CHANNELS.map((channel) => (
+                        <label
+                          key={channel}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value.includes(channel)}
+                            onCheckedChange={(v) =>
+                              field.onChange(
+                                v === true
+                                  ? [...field.value, channel]
+                                  : field.value.filter((c) => c !== channel),
+                              )
+                            }
+                          />
+                          {t[`channel_${channel}`] ?? channel}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="entitlements.voice"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>
+                      {t.fields_voice ?? "Voice conversations"}
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="entitlements.maxDocumentsPerKb"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t.fields_max_documents_per_kb ??
+                        "Files per knowledge base"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          setValue(
+                            "entitlements.maxDocumentsPerKb",
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                          )
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="entitlements.maxPagesPerKb"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t.fields_max_pages_per_kb ??
+                        "Crawled pages per knowledge base"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          setValue(
+                            "entitlements.maxPagesPerKb",
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                          )
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="entitlements.maxStorageMbPerKb"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      {t.fields_max_storage_mb_per_kb ??
+                        "Storage per knowledge base (MB)"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          setValue(
+                            "entitlements.maxStorageMbPerKb",
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                          )
+                        }
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <p className="text-muted-foreground text-xs">
+                {t.fields_limits_hint}
+              </p>
+
+              <FormField
+                control={form.control}
+                name="entitlements.removeBranding"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>
+                      {t.fields_remove_branding ?? "Remove widget branding"}
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="entitlements.apiAccess"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(v === true)}
+                      />
+                    </FormControl>
+                    <FormLabel>{t.fields_api_access ?? "API access"}</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+
             {/* features list */}
             <FormItem>
               <FormLabel>{t.fields_features ?? "Features"}</FormLabel>
@@ -0,0 +1,265 @@
+"use client";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import { createApiKey, revokeApiKey } from "@/lib/actions/apiKeys";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { API_KEY_SCOPES, ApiKeyScope } from "@/lib/publicApi/scopes";
+import { cn } from "@/lib/utils";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import toast from "react-hot-toast";
+import Swal from "sweetalert2";
+
+export type ApiKeyRow = {
+  id: string;
+  label: string;
+  prefix: string;
+  scopes: string[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+interface ApiKeysClientProps {
+  lang: SupportedLang;
+  dict: Dictionary;
+  apiKeys: ApiKeyRow[];
+  hasApiAccess: boolean;
+}
+
+const ApiKeysClient = ({
+  lang,
+  dict,
+  apiKeys,
+  hasApiAccess,
+}: ApiKeysClientProps) => {
+  const t = dict.dashboard_api_keys;
+  const router = useRouter();
+
+  const [label, setLabel] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["kb:read"]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const scopeLabels: Record<ApiKeyScope, string> = {
+    "kb:read": t.scope_kb_read,
+    "kb:write": t.scope_kb_write,
+    "leads:read": t.scope_leads_read,
+    "conversations:read": t.scope_conversations_read,
+  };
+  const formatDate = (date: Date) => new Date(date).toLocaleDateString(lang);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) =>
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope),
+    );
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      try {
+        const key = await createApiKey({ label, scopes, lang });
+        setCreatedKey(key);
+        setLabel("");
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to create API key:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success(t.copied);
+  };
+
+  const handleRevoke = async (apiKey: ApiKeyRow) => {
+    const result = await Swal.fire({
+      text: t.revoke_confirm.replace("{label}", apiKey.label),
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: t.revoke,
+      cancelButtonText: t.cancel,
+      focusCancel: true,
+      reverseButtons: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+    });
+    if (!result.isConfirmed) return;
+
+    startTransition(async () => {
+      try {
+        await revokeApiKey(apiKey.id, lang);
+        toast.success(t.revoked);
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to revoke API key:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  return (
+    <div className={cn("space-y-6", lang === "ar" && "rtl:text-right")}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.title}</CardTitle>
+          <CardDescription>{t.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!hasApiAccess && (
+            <Alert>
+              <AlertDescription>{t.plan_required}</AlertDescription>
+            </Alert>
+          )}
+          <a
+            href="/api/v1/openapi.json"
+            target="_blank"
+            rel="noreferrer"
+            className="text-primary text-sm underline-offset-4 hover:underline"
+          >
+            {t.docs}
+          </a>
+        </CardContent>
+      </Card>
+
+      {createdKey && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle>{t.created_title}</CardTitle>
+            <CardDescription>{t.created_desc}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              readOnly
+              dir="ltr"
+              value={createdKey}
+              className="font-mono"
+            />
+            <Button variant="outline" onClick={handleCopy}>
+              {t.copy}
+            </Button>
+          </CardContent>
+          <CardFooter>
+            <Button onClick={() => setCreatedKey(null)}>{t.done}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.create_title}</CardTitle>
+          <CardDescription>{t.create_desc}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-md space-y-2">
+            <Label htmlFor="api-key-label">{t.label}</Label>
+            <Input
+              id="api-key-label"
+              value={label}
+              maxLength={60}
+              placeholder={t.label_placeholder}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t.scopes}</Label>
+            {API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(v) => toggleScope(scope, v === true)}
+                />
+                <code className="text-xs">{scope}</code>
+                <span className="text-muted-foreground">
+                  {scopeLabels[scope]}
+                </span>
+              </label>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button
+            onClick={handleCreate}
+            disabled={
+              isPending || !hasApiAccess || !label.trim() || !scopes.length
+            }
+          >
+            {t.create}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.keys_title}</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {apiKeys.length === 0 ? (
+            <p className="text-muted-foreground text-sm">{t.no_keys}</p>
+          ) : (
+            apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex flex-wrap items-center justify-between gap-3 py-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="truncate text-sm font-medium">
+                    {apiKey.label}{" "}
+                    <code className="text-muted-foreground text-xs" dir="ltr">
+                      {apiKey.prefix}…
+                    </code>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-muted-foreground text-xs">
+                    {t.created_on.replace(
+                      "{date}",
+                      formatDate(apiKey.createdAt),
+                    )}{" "}
+                    ·{" "}
+                    {apiKey.lastUsedAt
+                      ? t.last_used.replace(
+                          "{date}",
+                          formatDate(apiKey.lastUsedAt),
+                        )
+                      : t.never_used}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => handleRevoke(apiKey)}
+                >
+                  {t.revoke}
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ApiKeysClient;
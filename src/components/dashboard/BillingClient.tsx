@@ -0,0 +1,231 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import type { BillingInvoice, BillingOverview } from "@/lib/actions/billing";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { cn } from "@/lib/utils";
+import { useState } from "react";
+import toast from "react-hot-toast";
+
+interface BillingClientProps {
+  overview: BillingOverview;
+  dict: Dictionary;
+  lang: SupportedLang;
+}
+
+const formatMoney = (amount: number, currency: string, locale: string) => {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currency.toUpperCase(),
+    }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency.toUpperCase()}`;
+  }
+};
+
+const statusVariant = (status: BillingInvoice["status"]) => {
+  switch (status) {
+    case "SUCCEEDED":
+      return "default" as const;
+    case "FAILED":
+      return "destructive" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+const BillingClient = ({ overview, dict, lang }: BillingClientProps) => {
+  const t = dict.dashboard_billing;
+  const isRTL = lang === "ar";
+  const locale = isRTL ? "ar" : "en-US";
+
+  const [opening, setOpening] = useState(false);
+
+  const openPortal = async () => {
+    setOpening(true);
+    try {
+      const response = await fetch("/api/stripe/portal", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lang }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.url) {
+        throw new Error(data.error || t.portal_failed);
+      }
+      window.location.href = data.url;
+    } catch (error: unknown) {
+      console.error("Failed to open billing portal:", error);
+      toast.error(error instanceof Error ? error.message : t.portal_failed);
+      setOpening(false);
+    }
+  };
+
+  const statusLabel: Record<BillingInvoice["status"], string> = {
+    SUCCEEDED: t.status_paid,
+    PENDING: t.status_pending,
+    FAILED: t.status_failed,
+    REFUNDED: t.status_refunded,
+  };
+
+  const planTitle = overview.plan
+    ? isRTL
+      ? overview.plan.titleAr
+      : overview.plan.titleEn
+    : t.no_plan;
+
+  return (
+    <div className={cn("space-y-6", isRTL && "rtl:text-right")}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.title}</CardTitle>
+          <CardDescription>{t.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div>
+              <p className="text-muted-foreground text-xs">{t.current_plan}</p>
+              <p className="font-medium">{planTitle}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground text-xs">{t.status}</p>
+              <p className="font-medium">{overview.status ?? "---"}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground text-xs">
+                {overview.cancelAtPeriodEnd ? t.cancels_on : t.renews_on}
+              </p>
+              <p className="font-medium">
+                {overview.currentPeriodEnd
+                  ? new Date(overview.currentPeriodEnd).toLocaleDateString(
+                      locale,
+                    )
+                  : "---"}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Button
+              onClick={openPortal}
+              disabled={opening || !overview.hasCustomer}
+            >
+              {t.manage_billing}
+            </Button>
+            <p className="text-muted-foreground text-xs">
+              {overview.hasCustomer ? t.manage_billing_hint : t.no_customer}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.invoices_title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {overview.invoices.length === 0 ? (
+            <p className="text-muted-foreground text-sm">{t.no_invoices}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={isRTL ? "rtl:text-right" : ""}>
+                    {t.date}
+                  </TableHead>
+                  <TableHead className={isRTL ? "rtl:text-right" : ""}>
+                    {t.invoice}
+                  </TableHead>
+                  <TableHead className={isRTL ? "rtl:text-right" : ""}>
+                    {t.amount}
+                  </TableHead>
+                  <TableHead className={isRTL ? "rtl:text-right" : ""}>
+                    {t.status}
+                  </TableHead>
+                  <TableHead className={isRTL ? "rtl:text-right" : ""} />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.invoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className={isRTL ? "rtl:text-right" : ""}>
+                      {new Date(invoice.createdAt).toLocaleDateString(locale)}
+                    </TableCell>
+                    <TableCell className={isRTL ? "rtl:text-right" : ""}>
+                      {invoice.number ?? "---"}
+                    </TableCell>
+                    <TableCell className={isRTL ? "rtl:text-right" : ""}>
+                      {formatMoney(invoice.amount, invoice.currency, locale)}
+                      {invoice.amountRefunded > 0 &&
+                        invoice.status !== "REFUNDED" && (
+                          <span className="text-muted-foreground ms-1 text-xs">
+                            (
+                            {t.refunded_amount.replace(
+                              "{amount}",
+                              formatMoney(
+                                invoice.amountRefunded,
+                                invoice.currency,
+                                locale,
+                              ),
+                            )}
+                            )
+                          </span>
+                        )}
+                    </TableCell>
+                    <TableCell className={isRTL ? "rtl:text-right" : ""}>
+                      <Badge variant={statusVariant(invoice.status)}>
+                        {statusLabel[invoice.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="space-x-3 rtl:space-x-reverse">
+                      {invoice.hostedInvoiceUrl && (
+                        <a
+                          href={invoice.hostedInvoiceUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary text-sm underline"
+                        >
+                          {invoice.status === "FAILED" ? t.pay_now : t.view}
+                        </a>
+                      )}
+                      {invoice.invoicePdf && (
+                        <a
+                          href={invoice.invoicePdf}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary text-sm underline"
+                        >
+                          {t.download_pdf}
+                        </a>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BillingClient;
@@ -0,0 +1,627 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import {
+  ConversationFilters,
+  ConversationSummary,
+  getConversationTranscript,
+  getConversations,
+  sendAgentReply,
+  setConversationHandoff,
+  TranscriptMessage,
+} from "@/lib/actions/conversations";
+import type { Channel } from "@/lib/analytics/logInteraction";
+import type { ConversationStatus } from "@/lib/conversations/handoff";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { cn } from "@/lib/utils";
+import {
+  Bot,
+  FileText,
+  Headset,
+  Loader,
+  Search,
+  Send,
+  User,
+} from "lucide-react";
+import { useEffect, useState, useTransition } from "react";
+import toast from "react-hot-toast";
+
+type ConversationsClientProps = {
+  lang: SupportedLang;
+  dict: Dictionary;
+  bots: { id: string; name: string }[];
+  initialConversations: ConversationSummary[];
+  initialCursor: string | null;
+  initialSelectedId?: string | null;
+};
+
+type SourceRef = {
+  index?: number;
+  similarity?: number;
+  meta?: { filename?: string; sourceUrl?: string };
+  metadata?: { filename?: string; sourceUrl?: string };
+};
+
+const CHANNELS: Channel[] = ["website", "whatsapp", "facebook", "voice"];
+
+const ALL = "all";
+
+const emptyFilters: ConversationFilters = {
+  botId: null,
+  channel: null,
+  query: "",
+  from: null,
+  to: null,
+  fallback: "all",
+  status: null,
+};
+
+const ConversationsClient = ({
+  lang,
+  dict,
+  bots,
+  initialConversations,
+  initialCursor,
+  initialSelectedId = null,
+}: ConversationsClientProps) => {
+  const t: Record<string, string> = dict.dashboard_conversations;
+  const locale = lang === "ar" ? "ar" : "en-US";
+  const isRtl = lang === "ar";
+
+  const [filters, setFilters] = useState<ConversationFilters>(emptyFilters);
+  const [conversations, setConversations] =
+    useState<ConversationSummary[]>(initialConversations);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialCursor);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptMessage[]>([]);
+  const [isLoadingList, startListTransition] = useTransition();
+  const [isLoadingTranscript, startTranscriptTransition] = useTransition();
+  const [reply, setReply] = useState("");
+  const [isUpdatingHandoff, startHandoffTransition] = useTransition();
+  const [isSendingReply, startReplyTransition] = useTransition();
+
+  const selected = conversations.find((c) => c.id === selectedId) ?? null;
+
+  const channelLabel = (channel: string) => t[`channel_${channel}`] ?? channel;
+
+  const formatDate = (value: Date | string) =>
+    new Date(value).toLocaleString(locale);
+
+  function runSearch(nextFilters: ConversationFilters, append = false) {
+    startListTransition(async () => {
+      try {
+        const res = await getConversations(nextFilters);
+        setConversations((prev) =>
+          append ? [...prev, ...res.conversations] : res.conversations,
+        );
+        setNextCursor(res.nextCursor);
+      } catch (err) {
+        console.error(err);
+        toast.error(t.load_error);
+      }
+    });
+  }
+
+  function openConversation(id: string) {
+    setSelectedId(id);
+    setReply("");
+    startTranscriptTransition(async () => {
+      try {
+        setTranscript(await getConversationTranscript(id));
+      } catch (err) {
+        console.error(err);
+        setTranscript([]);
+        toast.error(t.transcript_error);
+      }
+    });
+  }
+
+  // Deep link from the handoff email (?id=...)
+  useEffect(() => {
+    if (initialSelectedId) openConversation(initialSelectedId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialSelectedId]);
+
+  function updateStatus(id: string, status: ConversationStatus) {
+    setConversations((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, status } : c)),
+    );
+  }
+
+  function toggleHandoff(enabled: boolean) {
+    if (!selectedId) return;
+    const id = selectedId;
+    startHandoffTransition(async () => {
+      try {
+        const res = await setConversationHandoff(id, enabled);
+        updateStatus(id, res.status);
+        toast.success(enabled ? t.handoff_started : t.handoff_ended);
+      } catch (err) {
+        console.error(err);
+        toast.error(t.handoff_error);
+      }
+    });
+  }
+
+  function handleReply(e: React.FormEvent) {
+    e.preventDefault();
+    const text = reply.trim();
+    if (!selectedId || !text) return;
+    const id = selectedId;
+    startReplyTransition(async () => {
+      try {
+        const message = await sendAgentReply(id, text);
+        setTranscript((prev) => [...prev, message]);
+        updateStatus(id, "handoff");
+        setReply("");
+      } catch (err) {
+        console.error(err);
+        toast.error(err instanceof Error ? err.message : t.reply_error);
+      }
+    });
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSelectedId(null);
+    setTranscript([]);
+    runSearch({ ...filters, cursor: null });
+  }
+
+  function handleReset() {
+    setFilters(emptyFilters);
+    setSelectedId(null);
+    setTranscript([]);
+    runSearch(emptyFilters);
+  }
+
+  function sourceLabel(source: SourceRef, i: number) {
+    const meta = source.meta ?? source.metadata ?? {};
+    return meta.filename || meta.sourceUrl || `source-${source.index ?? i + 1}`;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold">{t.title}</h1>
+        <p className="text-muted-foreground text-sm">{t.description}</p>
+      </div>
+
+      <Card className={cn("w-full", isRtl && "rtl:text-right")}>
+        <CardContent>
+          <form
+            onSubmit={handleSubmit}
+            className="grid gap-4 md:grid-cols-2 xl:grid-cols-6"
+          >
+            <div className="space-y-2 xl:col-span-2">
+              <Label htmlFor="conversation-search">{t.search}</Label>
+              <Input
+                id="conversation-search"
+                value={filters.query ?? ""}
+                placeholder={t.search_placeholder}
+                onChange={(e) =>
+                  setFilters((f) => ({ ...f, query: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.filter_bot}</Label>
+              <Select
+                dir={isRtl ? "rtl" : "ltr"}
+                value={filters.botId ?? ALL}
+                onValueChange={(v) =>
+                  setFilters((f) => ({ ...f, botId: v === ALL ? null : v }))
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t.all_bots}</SelectItem>
+                  {bots.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.filter_channel}</Label>
+              <Select
+                dir={isRtl ? "rtl" : "ltr"}
+                value={filters.channel ?? ALL}
+                onValueChange={(v) =>
+                  setFilters((f) => ({
+                    ...f,
+                    channel: v === ALL ? null : (v as Channel),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t.all_channels}</SelectItem>
+                  {CHANNELS.map((c) => (
+                    <SelectItem key={c} value={c}>
+                      {channelLabel(c)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 xl:col-span-2">
+              <Label>{t.filter_fallback}</Label>
+              <Select
+                dir={isRtl ? "rtl" : "ltr"}
+                value={filters.fallback ?? "all"}
+                onValueChange={(v) =>
+                  setFilters((f) => ({
+                    ...f,
+                    fallback: v as ConversationFilters["fallback"],
+                  }))
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t.fallback_all}</SelectItem>
+                  <SelectItem value="with_fallback">
+                    {t.fallback_with}
+                  </SelectItem>
+                  <SelectItem value="without_fallback">
+                    {t.fallback_without}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.filter_status}</Label>
+              <Select
+                dir={isRtl ? "rtl" : "ltr"}
+                value={filters.status ?? ALL}
+                onValueChange={(v) =>
+                  setFilters((f) => ({
+                    ...f,
+                    status: v === ALL ? null : (v as ConversationStatus),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>{t.all_statuses}</SelectItem>
+                  <SelectItem value="bot">{t.status_bot}</SelectItem>
+                  <SelectItem value="handoff">{t.status_handoff}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="conversation-from">{t.filter_from}</Label>
+              <Input
+                id="conversation-from"
+                type="date"
+                value={filters.from ?? ""}
+                onChange={(e) =>
+                  setFilters((f) => ({ ...f, from: e.target.value || null }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="conversation-to">{t.filter_to}</Label>
+              <Input
+                id="conversation-to"
+                type="date"
+                value={filters.to ?? ""}
+                onChange={(e) =>
+                  setFilters((f) => ({ ...f, to: e.target.value || null }))
+                }
+              />
+            </div>
+
+            <div className="flex items-end gap-2 xl:col-span-3">
+              <Button type="submit" disabled={isLoadingList} className="gap-2">
+                {isLoadingList ? (
+                  <Loader className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Search className="h-4 w-4" />
+                )}
+                {t.search}
+              </Button>
+              <Button type="button" variant="outline" onClick={handleReset}>
+                {t.reset}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-[380px_1fr]">
+        <Card className={cn(isRtl && "rtl:text-right")}>
+          <CardHeader>
+            <CardTitle>{t.list_title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-[560px]">
+              {conversations.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center text-sm">
+                  {t.empty}
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {conversations.map((c) => (
+                    <li key={c.id}>
+                      <button
+                        type="button"
+                        onClick={() => openConversation(c.id)}
+                        className={cn(
+                          "hover:bg-muted w-full rounded-lg border p-3 text-start transition-colors",
+                          selectedId === c.id && "border-primary bg-muted",
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate font-medium">
+                            {c.title || t.untitled}
+                          </span>
+                          <Badge variant="outline">
+                            {channelLabel(c.channel)}
+                          </Badge>
+                        </div>
+                        {c.lastMessage && (
+                          <p className="text-muted-foreground mt-1 line-clamp-2 text-xs">
+                            {c.lastMessage}
+                          </p>
+                        )}
+                        <div className="text-muted-foreground mt-2 flex flex-wrap items-center gap-2 text-xs">
+                          {c.botName && <span>{c.botName}</span>}
+                          <span>
+                            {c.messageCount} {t.messages}
+                          </span>
+                          {c.fallbackCount > 0 && (
+                            <Badge variant="destructive">
+                              {c.fallbackCount} {t.fallbacks}
+                            </Badge>
+                          )}
+                          {c.status === "handoff" && (
+                            <Badge>{t.status_handoff}</Badge>
+                          )}
+                          <span className="ms-auto">
+                            {formatDate(c.updatedAt)}
+                          </span>
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {nextCursor && (
+                <div className="flex justify-center pt-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isLoadingList}
+                    onClick={() =>
+                      runSearch({ ...filters, cursor: nextCursor }, true)
+                    }
+                  >
+                    {t.load_more}
+                  </Button>
+                </div>
+              )}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        <Card className={cn(isRtl && "rtl:text-right")}>
+          <CardHeader>
+            <CardTitle>
+              {selected ? selected.title || t.untitled : t.transcript_title}
+            </CardTitle>
+            {selected && (
+              <p className="text-muted-foreground text-xs">
+                {channelLabel(selected.channel)}
+                {selected.botName ? ` · ${selected.botName}` : ""}
+                {selected.visitorId
+                  ? ` · ${t.visitor}: ${selected.visitorId}`
+                  : ""}
+              </p>
+            )}
+            {selected && selected.channel !== "voice" && (
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <Badge
+                  variant={
+                    selected.status === "handoff" ? "default" : "secondary"
+                  }
+                >
+                  {selected.status === "handoff"
+                    ? t.status_handoff
+                    : t.status_bot}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ms-auto gap-2"
+                  disabled={isUpdatingHandoff}
+                  onClick={() => toggleHandoff(selected.status !== "handoff")}
+                >
+                  {isUpdatingHandoff ? (
+                    <Loader className="h-4 w-4 animate-spin" />
+                  ) : selected.status === "handoff" ? (
+                    <Bot className="h-4 w-4" />
+                  ) : (
+                    <Headset className="h-4 w-4" />
+                  )}
+                  {selected.status === "handoff" ? t.hand_back : t.take_over}
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!selectedId ? (
+              <p className="text-muted-foreground py-16 text-center text-sm">
+                {t.select_conversation}
+              </p>
+            ) : isLoadingTranscript ? (
+              <div className="flex justify-center py-16">
+                <Loader className="text-muted-foreground h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <ScrollArea className="h-[560px]">
+                <div className="space-y-4 pe-3">
+                  {transcript.map((m) => {
+                    const isBot = m.sender === "bot";
+                    const isAgent = m.sender === "agent";
+                    const meta = (m.meta ?? {}) as {
+                      isFallback?: boolean;
+                      cached?: boolean;
+                    };
+                    const sources = Array.isArray(m.sources)
+                      ? (m.sources as SourceRef[])
+                      : [];
+
+                    return (
+                      <div
+                        key={m.id}
+                        className={cn(
+                          "flex gap-3",
+                          !isBot && !isAgent && "flex-row-reverse",
+                        )}
+                      >
+                        <div className="bg-muted flex h-8 w-8 shrink-0 items-center justify-center rounded-full">
+                          {isBot ? (
+                            <Bot className="h-4 w-4" />
+                          ) : isAgent ? (
+                            <Headset className="h-4 w-4" />
+                          ) : (
+                            <User className="h-4 w-4" />
+                          )}
+                        </div>
+                        <div
+                          className={cn(
+                            "max-w-[80%] space-y-2 rounded-lg p-3 text-sm",
+                            isBot
+                              ? "bg-muted"
+                              : isAgent
+                                ? "border"
+                                : "bg-primary/10",
+                          )}
+                        >
+                          <div className="text-muted-foreground flex items-center gap-2 text-xs">
+                            <span className="font-medium">
+                              {isBot ? t.bot : isAgent ? t.human : t.user}
+                            </span>
+                            <span>{formatDate(m.createdAt)}</span>
+                            {meta.isFallback && (
+                              <Badge variant="destructive">
+                                {t.fallback_badge}
+                              </Badge>
+                            )}
+                            {meta.cached && (
+                              <Badge variant="secondary">
+                                {t.cached_badge}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="whitespace-pre-wrap">{m.content}</p>
+
+                          {isBot && (
+                            <div className="border-t pt-2">
+                              <p className="text-muted-foreground mb-1 text-xs font-medium">
+                                {t.sources}
+                              </p>
+                              {sources.length === 0 ? (
+                                <p className="text-muted-foreground text-xs">
+                                  {t.no_sources}
+                                </p>
+                              ) : (
+                                <ul className="space-y-1">
+                                  {sources.map((s, i) => (
+                                    <li
+                                      key={i}
+                                      className="flex items-center gap-2 text-xs"
+                                    >
+                                      <FileText className="h-3 w-3 shrink-0" />
+                                      <span className="truncate">
+                                        {sourceLabel(s, i)}
+                                      </span>
+                                      {typeof s.similarity === "number" && (
+                                        <span className="text-muted-foreground ms-auto">
+                                          {(s.similarity * 100).toFixed(1)}%
+                                        </span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+
+            {selected && selected.channel !== "voice" && (
+              <form onSubmit={handleReply} className="mt-4 space-y-2">
+                {selected.status === "handoff" && (
+                  <p className="text-muted-foreground text-xs">
+                    {t.handoff_notice}
+                  </p>
+                )}
+                <div className="flex items-end gap-2">
+                  <Textarea
+                    value={reply}
+                    rows={2}
+                    maxLength={4000}
+                    placeholder={t.reply_placeholder}
+                    onChange={(e) => setReply(e.target.value)}
+                  />
+                  <Button
+                    type="submit"
+                    className="gap-2"
+                    disabled={isSendingReply || !reply.trim()}
+                  >
+                    {isSendingReply ? (
+                      <Loader className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4" />
+                    )}
+                    {t.send_reply}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationsClient;
@@ -0,0 +1,220 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import { cancelCrawl, retryFailedCrawl } from "@/lib/actions/dashboard";
+import type { SupportedLang } from "@/lib/dictionaries";
+import type { CrawlJobProgress } from "@/lib/kb/crawlJobs";
+import { cn } from "@/lib/utils";
+import { CrawlUrlStatus } from "@prisma/client";
+import { Activity } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useRef, useState, useTransition } from "react";
+import toast from "react-hot-toast";
+
+const POLL_INTERVAL_MS = 5000;
+
+const URL_STATUSES = Object.values(CrawlUrlStatus);
+
+const urlStatusVariant = (status: CrawlUrlStatus) => {
+  switch (status) {
+    case "EMBEDDED":
+      return "default" as const;
+    case "FAILED":
+      return "destructive" as const;
+    case "QUEUED":
+    case "FETCHED":
+      return "secondary" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+interface CrawlProgressCardProps {
+  kbId: string;
+  dict: Dictionary;
+  lang: SupportedLang;
+}
+
+const CrawlProgressCard = ({ kbId, dict, lang }: CrawlProgressCardProps) => {
+  const t = dict.dashboard_knowledge_base;
+  const locale = lang === "ar" ? "ar" : "en-US";
+  const router = useRouter();
+
+  const [job, setJob] = useState<CrawlJobProgress | null>(null);
+  const [isActing, startActing] = useTransition();
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/kb/${kbId}/crawl-jobs`, {
+        cache: "no-store",
+      });
+      if (!res.ok) return;
+      const data = (await res.json()) as { job: CrawlJobProgress | null };
+      setJob(data.job);
+    } catch (error) {
+      console.error("Failed to load crawl progress:", error);
+    }
+  }, [kbId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const isRunning = job?.status === "RUNNING";
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const id = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [isRunning, load]);
+
+  // Pick up the new documents once a crawl we watched is over
+  const wasRunning = useRef(false);
+  useEffect(() => {
+    if (wasRunning.current && !isRunning) router.refresh();
+    wasRunning.current = isRunning;
+  }, [isRunning, router]);
+
+  if (!job) return null;
+
+  const pending = job.counts.QUEUED + job.counts.FETCHED;
+  const done = job.total - pending;
+  const percent = job.total ? Math.round((done / job.total) * 100) : 0;
+
+  const statusLabel: Record<CrawlUrlStatus, string> = {
+    QUEUED: t.crawl_url_queued,
+    FETCHED: t.crawl_url_fetched,
+    EMBEDDED: t.crawl_url_embedded,
+    ROBOTS_BLOCKED: t.crawl_url_robots_blocked,
+    NO_CONTENT: t.crawl_url_no_content,
+    OUT_OF_SCOPE: t.crawl_url_out_of_scope,
+    FAILED: t.crawl_url_failed,
+    CANCELLED: t.crawl_url_cancelled,
+  };
+
+  const jobStatusLabel: Record<CrawlJobProgress["status"], string> = {
+    RUNNING: t.crawl_running,
+    COMPLETED: t.crawl_completed,
+    CANCELLED: t.crawl_cancelled,
+  };
+
+  const handleCancel = () => {
+    startActing(async () => {
+      try {
+        await cancelCrawl(kbId, job.id);
+        toast.success(t.crawl_cancel_success);
+        await load();
+      } catch (error: unknown) {
+        console.error("Failed to cancel crawl:", error);
+        toast.error(
+          error instanceof Error ? error.message : t.crawl_cancel_failed,
+        );
+      }
+    });
+  };
+
+  const handleRetry = () => {
+    startActing(async () => {
+      try {
+        const queued = await retryFailedCrawl(kbId, job.id);
+        toast.success(t.crawl_retry_success.replace("{count}", String(queued)));
+        await load();
+      } catch (error: unknown) {
+        console.error("Failed to retry crawl:", error);
+        toast.error(
+          error instanceof Error ? error.message : t.crawl_retry_failed,
+        );
+      }
+    });
+  };
+
+  return (
+    <Card className={cn(lang === "ar" && "rtl:text-right")}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="text-primary h-5 w-5" /> {t.crawl_title}
+          <Badge variant={isRunning ? "default" : "secondary"}>
+            {jobStatusLabel[job.status]}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          <span dir="ltr">{job.rootUrl}</span> ·{" "}
+          {new Date(job.createdAt).toLocaleString(locale)}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Progress value={percent} className="h-2" />
+          <p className="text-muted-foreground text-xs">
+            {t.crawl_progress
+              .replace("{done}", String(done))
+              .replace("{total}", String(job.total))}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {URL_STATUSES.filter((s) => job.counts[s] > 0).map((s) => (
+            <Badge key={s} variant={urlStatusVariant(s)}>
+              {statusLabel[s]}: {job.counts[s]}
+            </Badge>
+          ))}
+        </div>
+
+        {job.urls.length > 0 && (
+          <ScrollArea className="h-64 rounded-md border">
+            <ul className="divide-y text-sm">
+              {job.urls.map((u) => (
+                <li key={u.url} className="flex items-center gap-2 p-2">
+                  <Badge variant={urlStatusVariant(u.status)}>
+                    {statusLabel[u.status]}
+                  </Badge>
+                  <div className="min-w-0">
+                    <div className="truncate" dir="ltr">
+                      {u.url}
+                    </div>
+                    {u.error && (
+                      <div className="text-destructive truncate text-xs">
+                        {u.error}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {isRunning && (
+            <Button
+              variant="destructive"
+              onClick={handleCancel}
+              disabled={isActing}
+            >
+              {t.crawl_cancel}
+            </Button>
+          )}
+          {job.counts.FAILED > 0 && (
+            <Button variant="outline" onClick={handleRetry} disabled={isActing}>
+              {t.crawl_retry}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CrawlProgressCard;
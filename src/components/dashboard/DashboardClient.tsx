@@ -1,5 +1,7 @@
 "use client";
 
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
 import {
   Card,
   CardContent,
@@ -11,6 +13,7 @@ import { Progress } from "@/components/ui/progress";
 import { Dictionary } from "@/contexts/dictionary-context";
 import { SupportedLang } from "@/lib/dictionaries";
 import { cn, cssVar } from "@/lib/utils";
+import Link from "next/link";
 import {
   Activity,
   AlertTriangle,
@@ -40,6 +43,15 @@ export type UserUsage = {
   planName?: string;
   minutesUsed: number;
   monthlyQuota: number;
+  tokensUsed?: number;
+  tokenQuota?: number | null;
+  overage?: {
+    minutes: number;
+    costCents: number;
+    projectedCostCents: number;
+    capCents: number;
+  };
+  usageAlert?: { threshold: number; percent: number };
   responseAccuracy?: string | number;
   interactionsSeries?: SeriesPoint[];
   channelCounts?: {
@@ -50,6 +62,8 @@ export type UserUsage = {
   };
 };
 
+const formatUsd = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
 const DashboardClient = ({
   usage,
   lang,
@@ -92,8 +106,39 @@ const DashboardClient = ({
       : 0;
   const showUsageWarning = usagePercentage >= 80;
 
+  const usageAlert = usage.usageAlert;
+
   return (
     <div className="space-y-6">
+      {usageAlert && (
+        <Alert
+          variant={usageAlert.percent >= 100 ? "destructive" : "default"}
+          className={cn(isRTL && "rtl:text-right")}
+        >
+          <AlertTriangle />
+          <AlertTitle>
+            {t.usage_alert_title.replace(
+              "{percent}",
+              String(usageAlert.percent),
+            )}
+          </AlertTitle>
+          <AlertDescription>
+            <p>
+              {usageAlert.percent >= 100
+                ? usage.overage
+                  ? t.usage_alert_overage
+                  : t.usage_alert_exhausted
+                : t.usage_alert_desc}
+            </p>
+            <Button asChild size="sm" variant="outline" className="mt-2">
+              <Link href={`/${lang}/dashboard/settings/billing`}>
+                {t.usage_alert_action}
+              </Link>
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Top stats */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {/* Total interactions */}
@@ -149,6 +194,22 @@ const DashboardClient = ({
               className="mt-4 h-2"
             />
 
+            <p className="text-muted-foreground mt-2 text-xs">
+              {(usage.tokensUsed ?? 0).toLocaleString()}
+              {usage.tokenQuota != null &&
+                ` / ${usage.tokenQuota.toLocaleString()}`}{" "}
+              {t.tokens}
+            </p>
+
+            {usage.overage && (
+              <p className="text-muted-foreground mt-1 text-xs">
+                {t.overage_projected}:{" "}
+                {formatUsd(usage.overage.projectedCostCents)} (
+                {formatUsd(usage.overage.costCents)} {t.overage_so_far},{" "}
+                {t.overage_cap} {formatUsd(usage.overage.capCents)})
+              </p>
+            )}
+
             {showUsageWarning && (
               <p className="text-destructive mt-1 flex items-center gap-1 text-xs">
                 <AlertTriangle className="h-3 w-3" /> {t.usage_warning}
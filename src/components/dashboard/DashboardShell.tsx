@@ -1,5 +1,6 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { getDictionary, SupportedLang } from "@/lib/dictionaries";
+import type { WorkspaceRole } from "@prisma/client";
 import { User } from "next-auth";
 import React from "react";
 import { LanguageSwitcher } from "../shared/LanguageSwitcher";
@@ -9,11 +10,15 @@ interface DashboardShellProps {
   children: React.ReactNode;
   user: User;
   lang: SupportedLang;
+  workspace: { id: string; name: string; role: WorkspaceRole };
+  workspaces: { id: string; name: string; role: WorkspaceRole }[];
 }
 const DashboardShell = async ({
   children,
   user,
   lang,
+  workspace,
+  workspaces,
 }: DashboardShellProps) => {
   const isRtl = lang === "ar";
   const dict = await getDictionary(lang);
@@ -23,7 +28,13 @@ const DashboardShell = async ({
       <div className="bg-background flex min-h-screen w-full min-w-0">
         {/* Sidebar */}
         <div className={isRtl ? "rtl" : ""}>
-          <DashboardSidebar lang={lang} dict={dict} user={user} />
+          <DashboardSidebar
+            lang={lang}
+            dict={dict}
+            user={user}
+            workspace={workspace}
+            workspaces={workspaces}
+          />
         </div>
 
         {/* Main area */}
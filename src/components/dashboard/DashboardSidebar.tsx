@@ -2,6 +2,13 @@
 
 import { Avatar, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import {
   Sidebar,
@@ -16,8 +23,14 @@ import {
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
 import { Dictionary } from "@/contexts/dictionary-context";
+import { switchWorkspace } from "@/lib/actions/workspace";
 import { SupportedLang } from "@/lib/dictionaries";
 import { cn } from "@/lib/utils";
+import {
+  hasWorkspacePermission,
+  WorkspacePermission,
+} from "@/lib/workspaces/roles";
+import type { WorkspaceRole } from "@prisma/client";
 import {
   BarChartBig,
   Bot,
@@ -27,45 +40,116 @@ import {
   LayoutDashboard,
   Link2,
   LogOut,
+  MessagesSquare,
   Settings,
   Users,
 } from "lucide-react";
 import { User } from "next-auth";
 import { signOut } from "next-auth/react";
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { Icons } from "../shared/Icons";
 import Image from "next/image";
+import { useTransition } from "react";
+import toast from "react-hot-toast";
+
+type SidebarWorkspace = { id: string; name: string; role: WorkspaceRole };
 
 export default function DashboardSidebar({
   lang,
   user,
   dict,
+  workspace,
+  workspaces,
 }: {
   lang: SupportedLang;
   user: User;
   dict: Dictionary;
+  workspace: SidebarWorkspace;
+  workspaces: SidebarWorkspace[];
 }) {
   const pathname = usePathname();
+  const router = useRouter();
+  const [isSwitching, startSwitching] = useTransition();
 
   const t = dict.dashboard_layout;
   const isRtl = lang === "ar";
 
-  const menu = [
-    { href: "/dashboard", icon: LayoutDashboard, label: t.dashboard },
-    { href: "/dashboard/leads", icon: Users, label: t.leads },
-    { href: "/dashboard/setup", icon: Bot, label: t.bot_setup },
+  const menu: {
+    href: string;
+    icon: typeof LayoutDashboard;
+    label: string;
+    permission: WorkspacePermission;
+  }[] = [
+    {
+      href: "/dashboard",
+      icon: LayoutDashboard,
+      label: t.dashboard,
+      permission: "view",
+    },
+    {
+      href: "/dashboard/leads",
+      icon: Users,
+      label: t.leads,
+      permission: "view",
+    },
+    {
+      href: "/dashboard/conversations",
+      icon: MessagesSquare,
+      label: t.conversations,
+      permission: "conversations",
+    },
+    {
+      href: "/dashboard/setup",
+      icon: Bot,
+      label: t.bot_setup,
+      permission: "edit",
+    },
     {
       href: "/dashboard/knowledge-base",
       icon: FileText,
       label: t.knowledge_base,
+      permission: "view",
+    },
+    {
+      href: "/dashboard/deploy",
+      icon: Code,
+      label: t.deploy,
+      permission: "view",
+    },
+    {
+      href: "/dashboard/integrations",
+      icon: Link2,
+      label: t.integrations,
+      permission: "view",
+    },
+    {
+      href: "/dashboard/reports",
+      icon: BarChartBig,
+      label: t.reports,
+      permission: "view",
+    },
+    {
+      href: "/dashboard/settings",
+      icon: Settings,
+      label: t.settings,
+      permission: "conversations",
     },
-    { href: "/dashboard/deploy", icon: Code, label: t.deploy },
-    { href: "/dashboard/integrations", icon: Link2, label: t.integrations },
-    { href: "/dashboard/reports", icon: BarChartBig, label: t.reports },
-    { href: "/dashboard/settings", icon: Settings, label: t.settings },
   ];
 
+  const handleSwitch = (workspaceId: string) => {
+    startSwitching(async () => {
+      try {
+        await switchWorkspace(workspaceId);
+        router.push(`/${lang}/dashboard`);
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to switch workspace:", error);
+        toast.error(t.switch_failed);
+      }
+    });
+  };
+
   const isActive = (href: string) => {
     const full = `/${lang}${href}`;
     if (href === "/dashboard") return pathname === full;
@@ -90,31 +174,59 @@ export default function DashboardSidebar({
           </Link>
         </SidebarHeader>
 
+        {workspaces.length > 1 && (
+          <SidebarGroup dir={isRtl ? "rtl" : "ltr"}>
+            <SidebarGroupLabel>{t.workspace}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <Select
+                value={workspace.id}
+                disabled={isSwitching}
+                onValueChange={handleSwitch}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>
+                      {w.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         <ScrollArea className="h-[calc(100vh-220px)]">
           <SidebarGroup>
             <SidebarGroupLabel />
             <SidebarGroupContent>
               <SidebarMenu>
-                {menu.map((m) => {
-                  const Icon = m.icon;
-                  return (
-                    <SidebarMenuItem key={m.href}>
-                      <SidebarMenuButton
-                        asChild
-                        isActive={isActive(m.href)}
-                        className={isRtl ? "flex-row-reverse" : ""}
-                      >
-                        <Link
-                          href={`/${lang}${m.href}`}
-                          className="flex items-center gap-3"
+                {menu
+                  .filter((m) =>
+                    hasWorkspacePermission(workspace.role, m.permission),
+                  )
+                  .map((m) => {
+                    const Icon = m.icon;
+                    return (
+                      <SidebarMenuItem key={m.href}>
+                        <SidebarMenuButton
+                          asChild
+                          isActive={isActive(m.href)}
+                          className={isRtl ? "flex-row-reverse" : ""}
                         >
-                          <Icon className="h-4 w-4" />
-                          <span>{m.label}</span>
-                        </Link>
-                      </SidebarMenuButton>
-                    </SidebarMenuItem>
-                  );
-                })}
+                          <Link
+                            href={`/${lang}${m.href}`}
+                            className="flex items-center gap-3"
+                          >
+                            <Icon className="h-4 w-4" />
+                            <span>{m.label}</span>
+                          </Link>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    );
+                  })}
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
@@ -1,6 +1,9 @@
 "use client";
 
 import { IntegrationItem } from "@/app/[lang]/(dashboard)/dashboard/deploy/[kbId]/page";
+import KbApiKeysPanel, {
+  KbApiKeyRow,
+} from "@/components/dashboard/KbApiKeysPanel";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import {
@@ -67,6 +70,7 @@ type DeployClientProps = {
   dict: Dictionary;
   kbId?: string | null;
   integrations: IntegrationItem[];
+  apiKeys: KbApiKeyRow[] | null; // null when the viewer can't manage keys
 };
 
 const DeployClient = ({
@@ -74,6 +78,7 @@ const DeployClient = ({
   dict,
   kbId,
   integrations,
+  apiKeys,
 }: DeployClientProps) => {
   const t = dict.dashboard_deploy;
   const dir = lang === "ar" ? "rtl" : "ltr";
@@ -95,10 +100,6 @@ const DeployClient = ({
     string[]
   >([]);
 
-  // generated API key (plaintext shown only after generation)
-  const [generatedApiKey, setGeneratedApiKey] = useState<string | null>(null);
-  const [genLoading, setGenLoading] = useState(false);
-
   useEffect(() => {
     if (typeof window === "undefined") return;
     const origin = window.location.origin;
@@ -195,7 +196,7 @@ const DeployClient = ({
         ? JSON.stringify(body)
         : undefined;
       const options: RequestInit = { method: "POST" };
-      
+
       if (payload) {
         options.headers = { "Content-Type": "application/json" };
         options.body = payload;
@@ -277,35 +278,6 @@ const DeployClient = ({
     }
   }
 
-  // generate/regenerate API key
-  async function generateApiKey() {
-    if (!kbId) {
-      toast.error(t.kb_not_available ?? "KB not available");
-      return;
-    }
-    setGenLoading(true);
-    setGeneratedApiKey(null);
-    try {
-      const resp = await fetch(`/api/kb/${kbId}/generate-api-key`, {
-        method: "POST",
-      });
-      const json = await resp.json();
-      if (resp.ok && json?.apiKey) {
-        setGeneratedApiKey(json.apiKey);
-        toast.success(t.api_key_generated ?? "API key generated — copy it now");
-      } else {
-        toast.error(
-          json?.error ?? t.failed_generate_key ?? "Failed to generate key",
-        );
-      }
-    } catch (err) {
-      console.error("generateApiKey error:", err);
-      toast.error(t.failed_generate_key ?? "Failed to generate key");
-    } finally {
-      setGenLoading(false);
-    }
-  }
-
   // open preview (owner-only preview)
   function openPreview() {
     if (!kbId) {
@@ -630,37 +602,14 @@ const DeployClient = ({
                   label={t.embed_code}
                 />
 
-                <Alert>
-                  <AlertTitle>{t.api_key_title}</AlertTitle>
-                  <AlertDescription>
-                    {t.api_key_desc}
-
-                    <div className="mt-2 flex items-center gap-2">
-                      <Button onClick={generateApiKey} disabled={genLoading}>
-                        {genLoading ? t.generating : t.generate_api_key}
-                      </Button>
-
-                      {generatedApiKey && (
-                        <div className="bg-muted flex items-center gap-2 rounded p-2 font-mono text-sm">
-                          <span className="select-all">{generatedApiKey}</span>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() =>
-                              copyToClipboard(generatedApiKey, t.api_key)
-                            }
-                          >
-                            <Clipboard className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-
-                    <p className="text-muted-foreground mt-2 text-xs">
-                      {t.api_key_warning}
-                    </p>
-                  </AlertDescription>
-                </Alert>
+                {kbId && apiKeys && (
+                  <KbApiKeysPanel
+                    lang={lang}
+                    dict={dict}
+                    kbId={kbId}
+                    apiKeys={apiKeys}
+                  />
+                )}
 
                 <div>
                   <h4 className="font-semibold">{t.instructions_title}</h4>
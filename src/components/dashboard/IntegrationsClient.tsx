@@ -100,6 +100,16 @@ const MessagingCard = ({ provider, t, connectedApp }: MessagingCardProps) => {
       const res = await fetch(
         `/api/integrations/oauth/${provider}?type=messaging&lang=${lang}`,
       );
+      if (res.status === 403) {
+        const { error } = await res.json().catch(() => ({}));
+        toast.error(
+          error === "role_not_allowed"
+            ? t.role_not_allowed
+            : t.channel_not_in_plan,
+        );
+        setIsLoading(false);
+        return;
+      }
       if (!res.ok) throw new Error("Could not get auth url");
       const { url } = await res.json();
       router.push(url);
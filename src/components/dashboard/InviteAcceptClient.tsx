@@ -0,0 +1,106 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import { acceptWorkspaceInvitation } from "@/lib/actions/workspace";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { cn } from "@/lib/utils";
+import type { WorkspaceRole } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import toast from "react-hot-toast";
+
+interface InviteAcceptClientProps {
+  lang: SupportedLang;
+  dict: Dictionary;
+  token: string;
+  invitation: {
+    email: string;
+    role: WorkspaceRole;
+    workspaceName: string;
+    inviterName: string | null;
+  } | null;
+  userEmail: string;
+}
+
+const InviteAcceptClient = ({
+  lang,
+  dict,
+  token,
+  invitation,
+  userEmail,
+}: InviteAcceptClientProps) => {
+  const t = dict.dashboard_team;
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const roleLabels: Record<WorkspaceRole, string> = {
+    OWNER: t.role_owner,
+    ADMIN: t.role_admin,
+    EDITOR: t.role_editor,
+    VIEWER: t.role_viewer,
+    AGENT: t.role_agent,
+  };
+
+  const handleAccept = () => {
+    if (!invitation) return;
+    startTransition(async () => {
+      try {
+        await acceptWorkspaceInvitation(token);
+        toast.success(
+          t.accepted.replace("{workspace}", invitation.workspaceName),
+        );
+        router.push(`/${lang}/dashboard`);
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to accept invitation:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const wrongEmail = !!invitation && invitation.email !== userEmail;
+
+  return (
+    <Card className={cn("mx-auto max-w-lg", lang === "ar" && "rtl:text-right")}>
+      <CardHeader>
+        <CardTitle>{t.invitation_title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {!invitation ? (
+          <p className="text-muted-foreground">{t.invitation_invalid}</p>
+        ) : (
+          <>
+            <p>
+              {t.invitation_body
+                .replace("{inviter}", invitation.inviterName ?? "")
+                .replace("{workspace}", invitation.workspaceName)
+                .replace("{role}", roleLabels[invitation.role])}
+            </p>
+            {wrongEmail && (
+              <p className="text-destructive">
+                {t.invitation_wrong_email.replace("{email}", invitation.email)}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+      {invitation && !wrongEmail && (
+        <CardFooter>
+          <Button onClick={handleAccept} disabled={isPending}>
+            {t.accept}
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+};
+
+export default InviteAcceptClient;
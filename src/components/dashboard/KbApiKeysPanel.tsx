@@ -0,0 +1,273 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import {
+  createKbApiKey,
+  revokeKbApiKey,
+  rotateKbApiKey,
+} from "@/lib/actions/kbApiKeys";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { Clipboard } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import toast from "react-hot-toast";
+import Swal from "sweetalert2";
+
+export type KbApiKeyRow = {
+  id: string;
+  label: string;
+  prefix: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+};
+
+const NEVER = "never";
+const EXPIRY_DAYS = ["30", "90", "365"];
+
+interface KbApiKeysPanelProps {
+  lang: SupportedLang;
+  dict: Dictionary;
+  kbId: string;
+  apiKeys: KbApiKeyRow[];
+}
+
+const KbApiKeysPanel = ({ lang, dict, kbId, apiKeys }: KbApiKeysPanelProps) => {
+  const t = dict.dashboard_kb_api_keys;
+  const router = useRouter();
+
+  const [label, setLabel] = useState("");
+  const [expiry, setExpiry] = useState(NEVER);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleString(lang, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  const isExpired = (apiKey: KbApiKeyRow) =>
+    apiKey.expiresAt !== null && new Date(apiKey.expiresAt) <= new Date();
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      try {
+        const key = await createKbApiKey({
+          kbId,
+          label,
+          expiresInDays: expiry === NEVER ? null : Number(expiry),
+          lang,
+        });
+        setNewKey(key);
+        setLabel("");
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to create API key:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const handleRotate = async (apiKey: KbApiKeyRow) => {
+    const result = await Swal.fire({
+      text: t.rotate_confirm.replace("{label}", apiKey.label),
+      icon: "question",
+      showCancelButton: true,
+      confirmButtonText: t.rotate,
+      cancelButtonText: t.cancel,
+      reverseButtons: true,
+    });
+    if (!result.isConfirmed) return;
+
+    startTransition(async () => {
+      try {
+        const { key, previousExpiresAt } = await rotateKbApiKey(
+          apiKey.id,
+          lang,
+        );
+        setNewKey(key);
+        toast.success(
+          t.rotated.replace("{date}", formatDate(previousExpiresAt)),
+        );
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to rotate API key:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const handleRevoke = async (apiKey: KbApiKeyRow) => {
+    const result = await Swal.fire({
+      text: t.revoke_confirm.replace("{label}", apiKey.label),
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: t.revoke,
+      cancelButtonText: t.cancel,
+      focusCancel: true,
+      reverseButtons: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+    });
+    if (!result.isConfirmed) return;
+
+    startTransition(async () => {
+      try {
+        await revokeKbApiKey(apiKey.id, lang);
+        toast.success(t.revoked);
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to revoke API key:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success(t.copied);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div>
+        <h4 className="font-semibold">{t.title}</h4>
+        <p className="text-muted-foreground text-sm">{t.description}</p>
+      </div>
+
+      {newKey && (
+        <div className="border-primary space-y-2 rounded-lg border p-3">
+          <p className="text-sm font-medium">{t.new_key_title}</p>
+          <div className="flex gap-2">
+            <Input readOnly dir="ltr" value={newKey} className="font-mono" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleCopy}
+              aria-label={t.copy}
+            >
+              <Clipboard className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-muted-foreground text-xs">{t.new_key_desc}</p>
+          <Button size="sm" onClick={() => setNewKey(null)}>
+            {t.done}
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="min-w-48 flex-1 space-y-2">
+          <Label htmlFor="kb-api-key-label">{t.label}</Label>
+          <Input
+            id="kb-api-key-label"
+            value={label}
+            maxLength={60}
+            placeholder={t.label_placeholder}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+        </div>
+        <div className="w-40 space-y-2">
+          <Label>{t.expiry}</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEVER}>{t.expiry_never}</SelectItem>
+              {EXPIRY_DAYS.map((days) => (
+                <SelectItem key={days} value={days}>
+                  {t.expiry_days.replace("{days}", days)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleCreate} disabled={isPending || !label.trim()}>
+          {t.create}
+        </Button>
+      </div>
+
+      <div className="divide-y">
+        {apiKeys.length === 0 ? (
+          <p className="text-muted-foreground text-sm">{t.no_keys}</p>
+        ) : (
+          apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className="flex flex-wrap items-center justify-between gap-3 py-3"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="truncate text-sm font-medium">
+                  {apiKey.label}{" "}
+                  {apiKey.prefix && (
+                    <code className="text-muted-foreground text-xs" dir="ltr">
+                      {apiKey.prefix}…
+                    </code>
+                  )}{" "}
+                  {isExpired(apiKey) && (
+                    <Badge variant="secondary">{t.expired}</Badge>
+                  )}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  {t.created_on.replace("{date}", formatDate(apiKey.createdAt))}
+                  {apiKey.expiresAt && !isExpired(apiKey) && (
+                    <>
+                      {" · "}
+                      {t.expires_on.replace(
+                        "{date}",
+                        formatDate(apiKey.expiresAt),
+                      )}
+                    </>
+                  )}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  {apiKey.lastUsedAt
+                    ? t.last_used
+                        .replace("{date}", formatDate(apiKey.lastUsedAt))
+                        .replace("{ip}", apiKey.lastUsedIp ?? t.unknown_ip)
+                    : t.never_used}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {!isExpired(apiKey) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => handleRotate(apiKey)}
+                  >
+                    {t.rotate}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => handleRevoke(apiKey)}
+                >
+                  {t.revoke}
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KbApiKeysPanel;
@@ -1,7 +1,9 @@
 "use client";
 
+import CrawlProgressCard from "@/components/dashboard/CrawlProgressCard";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Card,
   CardContent,
@@ -9,28 +11,71 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
 import { Dictionary } from "@/contexts/dictionary-context";
-import { deleteKb } from "@/lib/actions/dashboard";
+import {
+  deleteKb,
+  refreshKnowledgeBaseNow,
+  updateHandoffSettings,
+  updateLeadCaptureSettings,
+  updateLimitMessage,
+  updateLlmSettings,
+  updateMemorySettings,
+  updateRefreshSchedule,
+  updateRetrievalSettings,
+} from "@/lib/actions/dashboard";
 import { SupportedLang } from "@/lib/dictionaries";
-import { Document, Embedding, KnowledgeBase } from "@prisma/client";
+import type { CrawlSettings } from "@/lib/kb/crawlScope";
+import type {
+  LeadCaptureSettings,
+  LeadCaptureTrigger,
+  LeadField,
+} from "@/lib/leads/leadCapture";
+import { LLM_PROVIDER_IDS, LlmProviderId } from "@/lib/llm/types";
+import {
+  Document,
+  Embedding,
+  KnowledgeBase,
+  PageChange,
+  RefreshSchedule,
+} from "@prisma/client";
 import {
+  Bot,
   Clipboard,
   FileText,
+  Headset,
   HelpCircle,
+  Hourglass,
+  History,
+  RefreshCw,
+  SlidersHorizontal,
   Sprout,
   Terminal,
+  UserPlus,
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useState, useTransition } from "react";
 import toast from "react-hot-toast";
 import Swal from "sweetalert2";
 
 type initialKb = KnowledgeBase & {
   documents: Document[];
   embeddings: Embedding[];
+  pageChanges?: PageChange[]; // most recent first
 };
 
+const REFRESH_SCHEDULES = Object.values(RefreshSchedule);
+
 export type KbMetadata = {
   personality?: string | null;
   voice?: string | null;
@@ -41,8 +86,22 @@ export type KbMetadata = {
   files?: string[] | null;
   allowedOrigins?: string[];
   language: SupportedLang;
+  retrieval?: { vectorWeight?: number; keywordWeight?: number } | null;
+  memory?: { windowSize?: number; ttlMinutes?: number } | null;
+  llm?: { provider?: LlmProviderId | null; model?: string | null } | null;
+  leadCapture?: Partial<LeadCaptureSettings> | null;
+  handoff?: {
+    enabled?: boolean;
+    onFallback?: boolean;
+    phrases?: string[];
+    message?: string | null;
+  } | null;
+  limitMessage?: string | null;
+  crawl?: Partial<CrawlSettings> | null;
 } | null;
 
+const LEAD_FIELDS: LeadField[] = ["name", "email", "phone"];
+
 type KnowledgeBaseClientProps = {
   initialKb: initialKb;
   lang: SupportedLang;
@@ -69,7 +128,82 @@ const KnowledgeBaseClient = ({
   const sourceUrl = metadata?.url ?? null;
   const files = Array.isArray(metadata?.files) ? metadata.files : [];
 
+  const [vectorWeight, setVectorWeight] = useState(
+    String(metadata?.retrieval?.vectorWeight ?? 1),
+  );
+  const [keywordWeight, setKeywordWeight] = useState(
+    String(metadata?.retrieval?.keywordWeight ?? 1),
+  );
+  const [isSavingRetrieval, startSavingRetrieval] = useTransition();
+
+  const [llmProvider, setLlmProvider] = useState<LlmProviderId | "default">(
+    metadata?.llm?.provider ?? "default",
+  );
+  const [llmModel, setLlmModel] = useState(metadata?.llm?.model ?? "");
+  const [isSavingLlm, startSavingLlm] = useTransition();
+
+  const [memoryWindow, setMemoryWindow] = useState(
+    String(metadata?.memory?.windowSize ?? 12),
+  );
+  const [memoryTtlHours, setMemoryTtlHours] = useState(
+    String((metadata?.memory?.ttlMinutes ?? 24 * 60) / 60),
+  );
+  const [isSavingMemory, startSavingMemory] = useTransition();
+
+  const [handoffEnabled, setHandoffEnabled] = useState(
+    metadata?.handoff?.enabled === true,
+  );
+  const [handoffOnFallback, setHandoffOnFallback] = useState(
+    metadata?.handoff?.onFallback === true,
+  );
+  const [handoffPhrases, setHandoffPhrases] = useState(
+    (metadata?.handoff?.phrases ?? []).join("\n"),
+  );
+  const [handoffMessage, setHandoffMessage] = useState(
+    metadata?.handoff?.message ?? "",
+  );
+  const [isSavingHandoff, startSavingHandoff] = useTransition();
+
+  const [limitMessage, setLimitMessage] = useState(
+    metadata?.limitMessage ?? "",
+  );
+  const [isSavingLimit, startSavingLimit] = useTransition();
+
+  const [refreshSchedule, setRefreshSchedule] = useState<RefreshSchedule>(
+    kb?.refreshSchedule ?? RefreshSchedule.MANUAL,
+  );
+  const [isSavingRefresh, startSavingRefresh] = useTransition();
+
+  const savedCapture = metadata?.leadCapture;
+  const [captureEnabled, setCaptureEnabled] = useState(
+    savedCapture?.enabled === true,
+  );
+  const [captureFields, setCaptureFields] = useState(
+    () =>
+      Object.fromEntries(
+        LEAD_FIELDS.map((key) => {
+          const field = savedCapture?.fields?.find((f) => f.key === key);
+          return [
+            key,
+            { enabled: !!field, required: field?.required === true },
+          ];
+        }),
+      ) as Record<LeadField, { enabled: boolean; required: boolean }>,
+  );
+  const [captureTrigger, setCaptureTrigger] = useState<LeadCaptureTrigger>(
+    savedCapture?.trigger ?? "after_messages",
+  );
+  const [captureAfter, setCaptureAfter] = useState(
+    String(savedCapture?.afterMessages ?? 2),
+  );
+  const [captureKeywords, setCaptureKeywords] = useState(
+    (savedCapture?.intentKeywords ?? []).join("\n"),
+  );
+  const [isSavingCapture, startSavingCapture] = useTransition();
+
   const documents = kb?.documents ?? [];
+  const hasWebPages = documents.some((d) => d.sourceUrl);
+  const pageChanges = kb?.pageChanges ?? [];
   const embeddings = kb?.embeddings ?? [];
 
   const safeJson = {
@@ -115,6 +249,170 @@ const KnowledgeBaseClient = ({
     }
   };
 
+  const handleSaveRetrieval = () => {
+    if (!kb) return;
+
+    startSavingRetrieval(async () => {
+      try {
+        const updated = await updateRetrievalSettings(kb.id, {
+          vectorWeight: Number(vectorWeight),
+          keywordWeight: Number(keywordWeight),
+        });
+        setKb({ ...kb, metadata: updated.metadata });
+        toast.success(t.retrieval_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save retrieval settings:", error);
+        toast.error(
+          error instanceof Error ? error.message : t.retrieval_failed,
+        );
+      }
+    });
+  };
+
+  const handleSaveLlm = () => {
+    if (!kb) return;
+
+    startSavingLlm(async () => {
+      try {
+        const updated = await updateLlmSettings(kb.id, {
+          provider: llmProvider === "default" ? null : llmProvider,
+          model: llmModel,
+        });
+        setKb({ ...kb, metadata: updated.metadata });
+        toast.success(t.llm_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save LLM settings:", error);
+        toast.error(error instanceof Error ? error.message : t.llm_failed);
+      }
+    });
+  };
+
+  const handleSaveMemory = () => {
+    if (!kb) return;
+
+    startSavingMemory(async () => {
+      try {
+        const updated = await updateMemorySettings(kb.id, {
+          windowSize: Number(memoryWindow),
+          ttlMinutes: Math.round(Number(memoryTtlHours) * 60),
+        });
+        setKb({ ...kb, metadata: updated.metadata });
+        toast.success(t.memory_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save memory settings:", error);
+        toast.error(error instanceof Error ? error.message : t.memory_failed);
+      }
+    });
+  };
+
+  const updateCaptureField = (
+    key: LeadField,
+    patch: Partial<{ enabled: boolean; required: boolean }>,
+  ) => {
+    setCaptureFields((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], ...patch },
+    }));
+  };
+
+  const handleSaveCapture = () => {
+    if (!kb) return;
+
+    startSavingCapture(async () => {
+      try {
+        const updated = await updateLeadCaptureSettings(kb.id, {
+          enabled: captureEnabled,
+          fields: LEAD_FIELDS.filter((key) => captureFields[key].enabled).map(
+            (key) => ({ key, required: captureFields[key].required }),
+          ),
+          trigger: captureTrigger,
+          afterMessages: Number(captureAfter),
+          intentKeywords: captureKeywords.split("\n"),
+        });
+        setKb({ ...kb, metadata: updated.metadata });
+        toast.success(t.lead_capture_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save lead capture settings:", error);
+        toast.error(
+          error instanceof Error ? error.message : t.lead_capture_failed,
+        );
+      }
+    });
+  };
+
+  const handleSaveHandoff = () => {
+    if (!kb) return;
+
+    startSavingHandoff(async () => {
+      try {
+        const updated = await updateHandoffSettings(kb.id, {
+          enabled: handoffEnabled,
+          onFallback: handoffOnFallback,
+          phrases: handoffPhrases.split("\n"),
+          message: handoffMessage,
+        });
+        setKb({ ...kb, metadata: updated.metadata });
+        toast.success(t.handoff_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save handoff settings:", error);
+        toast.error(error instanceof Error ? error.message : t.handoff_failed);
+      }
+    });
+  };
+
+  const handleSaveLimitMessage = () => {
+    if (!kb) return;
+
+    startSavingLimit(async () => {
+      try {
+        const updated = await updateLimitMessage(kb.id, limitMessage);
+        setKb({ ...kb, metadata: updated.metadata });
+        toast.success(t.limit_message_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save unavailable message:", error);
+        toast.error(
+          error instanceof Error ? error.message : t.limit_message_failed,
+        );
+      }
+    });
+  };
+
+  const handleSaveRefreshSchedule = () => {
+    if (!kb) return;
+
+    startSavingRefresh(async () => {
+      try {
+        const updated = await updateRefreshSchedule(kb.id, refreshSchedule);
+        setKb({
+          ...kb,
+          refreshSchedule: updated.refreshSchedule,
+          nextRefreshAt: updated.nextRefreshAt,
+        });
+        toast.success(t.refresh_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save refresh schedule:", error);
+        toast.error(error instanceof Error ? error.message : t.refresh_failed);
+      }
+    });
+  };
+
+  const handleRefreshNow = () => {
+    if (!kb) return;
+
+    startSavingRefresh(async () => {
+      try {
+        const queued = await refreshKnowledgeBaseNow(kb.id);
+        toast.success(t.refresh_started.replace("{count}", String(queued)));
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to start refresh:", error);
+        toast.error(
+          error instanceof Error ? error.message : t.refresh_start_failed,
+        );
+      }
+    });
+  };
+
   const handleDelete = async () => {
     if (!kb) return;
 
@@ -292,6 +590,354 @@ const KnowledgeBaseClient = ({
           </CardContent>
         </Card>
 
+        <Card className={isRtl ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="text-primary h-5 w-5" />{" "}
+              {t.retrieval_title}
+            </CardTitle>
+            <CardDescription>{t.retrieval_desc}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vector-weight">{t.vector_weight_label}</Label>
+                <Input
+                  id="vector-weight"
+                  type="number"
+                  min={0}
+                  max={5}
+                  step={0.1}
+                  className="w-32"
+                  value={vectorWeight}
+                  onChange={(e) => setVectorWeight(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="keyword-weight">{t.keyword_weight_label}</Label>
+                <Input
+                  id="keyword-weight"
+                  type="number"
+                  min={0}
+                  max={5}
+                  step={0.1}
+                  className="w-32"
+                  value={keywordWeight}
+                  onChange={(e) => setKeywordWeight(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={handleSaveRetrieval}
+                disabled={isSavingRetrieval}
+              >
+                {t.retrieval_save}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={isRtl ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="text-primary h-5 w-5" /> {t.llm_title}
+            </CardTitle>
+            <CardDescription>{t.llm_desc}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>{t.llm_provider_label}</Label>
+                <Select
+                  dir={isRtl ? "rtl" : "ltr"}
+                  value={llmProvider}
+                  onValueChange={(v) =>
+                    setLlmProvider(v as LlmProviderId | "default")
+                  }
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">
+                      {t.llm_provider_default}
+                    </SelectItem>
+                    {LLM_PROVIDER_IDS.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {t[`llm_provider_${id}`]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-model">{t.llm_model_label}</Label>
+                <Input
+                  id="llm-model"
+                  className="w-64"
+                  dir="ltr"
+                  placeholder={t.llm_model_placeholder}
+                  value={llmModel}
+                  onChange={(e) => setLlmModel(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSaveLlm} disabled={isSavingLlm}>
+                {t.llm_save}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={isRtl ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="text-primary h-5 w-5" /> {t.memory_title}
+            </CardTitle>
+            <CardDescription>{t.memory_desc}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="memory-window">{t.memory_window_label}</Label>
+                <Input
+                  id="memory-window"
+                  type="number"
+                  min={0}
+                  max={40}
+                  step={1}
+                  className="w-32"
+                  value={memoryWindow}
+                  onChange={(e) => setMemoryWindow(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="memory-ttl">{t.memory_ttl_label}</Label>
+                <Input
+                  id="memory-ttl"
+                  type="number"
+                  min={0.1}
+                  max={720}
+                  step={0.5}
+                  className="w-32"
+                  value={memoryTtlHours}
+                  onChange={(e) => setMemoryTtlHours(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSaveMemory} disabled={isSavingMemory}>
+                {t.memory_save}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={isRtl ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="text-primary h-5 w-5" />{" "}
+              {t.lead_capture_title}
+            </CardTitle>
+            <CardDescription>{t.lead_capture_desc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="capture-enabled"
+                checked={captureEnabled}
+                onCheckedChange={(v) => setCaptureEnabled(v === true)}
+              />
+              <Label htmlFor="capture-enabled">
+                {t.lead_capture_enabled_label}
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t.lead_capture_fields_label}</Label>
+              {LEAD_FIELDS.map((key) => (
+                <div key={key} className="flex flex-wrap items-center gap-6">
+                  <div className="flex w-32 items-center gap-2">
+                    <Checkbox
+                      id={`capture-${key}`}
+                      checked={captureFields[key].enabled}
+                      disabled={!captureEnabled}
+                      onCheckedChange={(v) =>
+                        updateCaptureField(key, { enabled: v === true })
+                      }
+                    />
+                    <Label htmlFor={`capture-${key}`}>
+                      {t[`lead_capture_field_${key}`]}
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`capture-${key}-required`}
+                      checked={captureFields[key].required}
+                      disabled={!captureEnabled || !captureFields[key].enabled}
+                      onCheckedChange={(v) =>
+                        updateCaptureField(key, { required: v === true })
+                      }
+                    />
+                    <Label htmlFor={`capture-${key}-required`}>
+                      {t.lead_capture_required}
+                    </Label>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>{t.lead_capture_trigger_label}</Label>
+                <Select
+                  dir={isRtl ? "rtl" : "ltr"}
+                  value={captureTrigger}
+                  disabled={!captureEnabled}
+                  onValueChange={(v) =>
+                    setCaptureTrigger(v as LeadCaptureTrigger)
+                  }
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="before_chat">
+                      {t.lead_capture_trigger_before_chat}
+                    </SelectItem>
+                    <SelectItem value="after_messages">
+                      {t.lead_capture_trigger_after_messages}
+                    </SelectItem>
+                    <SelectItem value="on_intent">
+                      {t.lead_capture_trigger_on_intent}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {captureTrigger === "after_messages" && (
+                <div className="space-y-2">
+                  <Label htmlFor="capture-after">
+                    {t.lead_capture_after_label}
+                  </Label>
+                  <Input
+                    id="capture-after"
+                    type="number"
+                    min={1}
+                    max={10}
+                    step={1}
+                    className="w-32"
+                    disabled={!captureEnabled}
+                    value={captureAfter}
+                    onChange={(e) => setCaptureAfter(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            {captureTrigger === "on_intent" && (
+              <div className="space-y-2">
+                <Label htmlFor="capture-keywords">
+                  {t.lead_capture_keywords_label}
+                </Label>
+                <Textarea
+                  id="capture-keywords"
+                  rows={3}
+                  disabled={!captureEnabled}
+                  placeholder={t.lead_capture_keywords_placeholder}
+                  value={captureKeywords}
+                  onChange={(e) => setCaptureKeywords(e.target.value)}
+                />
+              </div>
+            )}
+
+            <Button onClick={handleSaveCapture} disabled={isSavingCapture}>
+              {t.lead_capture_save}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className={isRtl ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Headset className="text-primary h-5 w-5" /> {t.handoff_title}
+            </CardTitle>
+            <CardDescription>{t.handoff_desc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="handoff-enabled"
+                checked={handoffEnabled}
+                onCheckedChange={(v) => setHandoffEnabled(v === true)}
+              />
+              <Label htmlFor="handoff-enabled">{t.handoff_enabled_label}</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="handoff-fallback"
+                checked={handoffOnFallback}
+                disabled={!handoffEnabled}
+                onCheckedChange={(v) => setHandoffOnFallback(v === true)}
+              />
+              <Label htmlFor="handoff-fallback">
+                {t.handoff_fallback_label}
+              </Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="handoff-phrases">{t.handoff_phrases_label}</Label>
+              <Textarea
+                id="handoff-phrases"
+                rows={3}
+                disabled={!handoffEnabled}
+                placeholder={t.handoff_phrases_placeholder}
+                value={handoffPhrases}
+                onChange={(e) => setHandoffPhrases(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="handoff-message">{t.handoff_message_label}</Label>
+              <Textarea
+                id="handoff-message"
+                rows={2}
+                maxLength={1000}
+                disabled={!handoffEnabled}
+                placeholder={t.handoff_message_placeholder}
+                value={handoffMessage}
+                onChange={(e) => setHandoffMessage(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSaveHandoff} disabled={isSavingHandoff}>
+              {t.handoff_save}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className={isRtl ? "rtl:text-right" : ""}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="text-primary h-5 w-5" />{" "}
+              {t.limit_message_title}
+            </CardTitle>
+            <CardDescription>{t.limit_message_desc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="limit-message">{t.limit_message_label}</Label>
+              <Textarea
+                id="limit-message"
+                rows={2}
+                maxLength={1000}
+                placeholder={t.limit_message_placeholder}
+                value={limitMessage}
+                onChange={(e) => setLimitMessage(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSaveLimitMessage} disabled={isSavingLimit}>
+              {t.limit_message_save}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {sourceUrl && (
+          <CrawlProgressCard kbId={kb.id} dict={dict} lang={lang} />
+        )}
+
         <Card className={isRtl ? "rtl:text-right" : ""}>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -299,7 +945,63 @@ const KnowledgeBaseClient = ({
             </CardTitle>
             <CardDescription>{t.documents_desc}</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            {hasWebPages && (
+              <div className="space-y-2 rounded-md border p-3">
+                <Label>{t.refresh_schedule_label}</Label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    dir={isRtl ? "rtl" : "ltr"}
+                    value={refreshSchedule}
+                    onValueChange={(v) =>
+                      setRefreshSchedule(v as RefreshSchedule)
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REFRESH_SCHEDULES.map((schedule) => (
+                        <SelectItem key={schedule} value={schedule}>
+                          {
+                            t[
+                              `refresh_schedule_${schedule.toLowerCase() as Lowercase<RefreshSchedule>}`
+                            ]
+                          }
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleSaveRefreshSchedule}
+                    disabled={isSavingRefresh}
+                  >
+                    {t.refresh_save}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleRefreshNow}
+                    disabled={isSavingRefresh}
+                  >
+                    <RefreshCw className="h-4 w-4" /> {t.refresh_now}
+                  </Button>
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  {t.refresh_last}:{" "}
+                  {kb.lastRefreshAt
+                    ? new Date(kb.lastRefreshAt).toLocaleString(locale)
+                    : "—"}
+                  {kb.nextRefreshAt && (
+                    <>
+                      {" · "}
+                      {t.refresh_next}:{" "}
+                      {new Date(kb.nextRefreshAt).toLocaleString(locale)}
+                    </>
+                  )}
+                </p>
+              </div>
+            )}
+
             {documents.length === 0 ? (
               <div className="text-muted-foreground text-sm">
                 {t.no_documents}
@@ -333,15 +1035,66 @@ const KnowledgeBaseClient = ({
                       </div>
                     </div>
 
-                    <div className="text-muted-foreground text-xs">
-                      {d.createdAt
-                        ? new Date(d.createdAt).toLocaleString(locale)
-                        : "—"}
+                    <div className="text-muted-foreground shrink-0 text-xs">
+                      <div>
+                        {d.createdAt
+                          ? new Date(d.createdAt).toLocaleString(locale)
+                          : "—"}
+                      </div>
+                      {d.checkedAt && (
+                        <div>
+                          {t.page_checked}:{" "}
+                          {new Date(d.checkedAt).toLocaleString(locale)}
+                        </div>
+                      )}
+                      {d.changedAt && (
+                        <div>
+                          {t.page_changed}:{" "}
+                          {new Date(d.changedAt).toLocaleString(locale)}
+                        </div>
+                      )}
                     </div>
                   </li>
                 ))}
               </ul>
             )}
+
+            {pageChanges.length > 0 && (
+              <div className="space-y-2">
+                <div className="font-medium">{t.page_changes_title}</div>
+                <ul className="space-y-1 text-sm">
+                  {pageChanges.map((c) => (
+                    <li key={c.id} className="flex items-center gap-2">
+                      <span
+                        className={
+                          c.type === "REMOVED"
+                            ? "text-destructive shrink-0"
+                            : "text-primary shrink-0"
+                        }
+                      >
+                        {c.type === "REMOVED"
+                          ? t.page_change_removed
+                          : t.page_change_changed}
+                      </span>
+                      <span className="truncate" dir="ltr">
+                        {c.sourceUrl}
+                      </span>
+                      {typeof c.wordDelta === "number" && (
+                        <span className="text-muted-foreground shrink-0 text-xs">
+                          {t.page_change_words.replace(
+                            "{delta}",
+                            `${c.wordDelta > 0 ? "+" : ""}${c.wordDelta}`,
+                          )}
+                        </span>
+                      )}
+                      <span className="text-muted-foreground ms-auto shrink-0 text-xs">
+                        {new Date(c.createdAt).toLocaleString(locale)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -61,6 +61,30 @@ export function columns({ t, locale }: ColumnsProps): ColumnDef<Lead>[] {
       header: t.th_source,
       cell: ({ row }) => row.getValue("source") ?? "—",
     },
+    {
+      accessorKey: "lastSeenAt",
+      header: ({ column }) => (
+        <Button variant="ghost" onClick={() => column.toggleSorting()}>
+          {t.th_last_seen}
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        </Button>
+      ),
+      cell: ({ row }) => {
+        const raw = row.original.lastSeenAt;
+        const date = raw ? new Date(raw) : null;
+        if (!date || isNaN(date.getTime())) return "—";
+        return (
+          <div className="text-sm">
+            {date.toLocaleString(locale)}
+            {row.original.messageCount > 0 && (
+              <div className="text-muted-foreground text-xs">
+                {row.original.messageCount} {t.messages}
+              </div>
+            )}
+          </div>
+        );
+      },
+    },
     {
       accessorKey: "createdAt",
       header: ({ column }) => (
@@ -0,0 +1,106 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import { OverageSettings, updateOverageSettings } from "@/lib/actions/billing";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { cn } from "@/lib/utils";
+import { useState, useTransition } from "react";
+import toast from "react-hot-toast";
+
+interface OverageSettingsCardProps {
+  initial: OverageSettings;
+  dict: Dictionary;
+  lang: SupportedLang;
+}
+
+const OverageSettingsCard = ({
+  initial,
+  dict,
+  lang,
+}: OverageSettingsCardProps) => {
+  const t = dict.dashboard_settings;
+
+  const [settings, setSettings] = useState(initial);
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [capUsd, setCapUsd] = useState(String(initial.capCents / 100));
+  const [isSaving, startSaving] = useTransition();
+
+  const handleSave = () => {
+    startSaving(async () => {
+      try {
+        const updated = await updateOverageSettings({
+          enabled,
+          capCents: Math.round(Number(capUsd) * 100),
+          lang,
+        });
+        setSettings(updated);
+        toast.success(t.overage_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save overage settings:", error);
+        toast.error(error instanceof Error ? error.message : t.overage_failed);
+      }
+    });
+  };
+
+  return (
+    <Card className={cn(lang === "ar" && "rtl:text-right")}>
+      <CardHeader>
+        <CardTitle>{t.overage_title}</CardTitle>
+        <CardDescription>
+          {settings.available
+            ? t.overage_desc.replace(
+                "{rate}",
+                `$${settings.ratePerMinute.toFixed(2)}`,
+              )
+            : t.overage_unavailable}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="overage-enabled"
+            checked={enabled}
+            disabled={!settings.available && !enabled}
+            onCheckedChange={(v) => setEnabled(v === true)}
+          />
+          <Label htmlFor="overage-enabled">{t.overage_enabled_label}</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="overage-cap">{t.overage_cap_label}</Label>
+          <Input
+            id="overage-cap"
+            type="number"
+            min={1}
+            step="1"
+            value={capUsd}
+            disabled={!enabled}
+            onChange={(e) => setCapUsd(e.target.value)}
+          />
+          <p className="text-muted-foreground text-xs">{t.overage_cap_help}</p>
+        </div>
+      </CardContent>
+
+      <CardFooter>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {t.overage_save}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default OverageSettingsCard;
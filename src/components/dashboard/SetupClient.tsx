@@ -17,6 +17,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
@@ -28,6 +29,12 @@ import {
 } from "@/lib/actions/dashboard";
 import { qstash } from "@/lib/actions/qstash";
 import { SupportedLang } from "@/lib/dictionaries";
+import {
+  CRAWL_QUERY_PARAM_MODES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  resolveCrawlSettings,
+} from "@/lib/kb/crawlScope";
 import { SetupFormValues, setupSchema } from "@/lib/schemas/dashboard";
 import { cn } from "@/lib/utils";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -113,6 +120,7 @@ const SetupClient = ({
       ],
       files: metadata?.files || [],
       allowedOrigins: metadata?.allowedOrigins || [],
+      crawl: resolveCrawlSettings(metadata?.crawl),
     },
   });
 
@@ -145,6 +153,7 @@ const SetupClient = ({
     "faq",
     "files",
     "allowedOrigins",
+    "crawl",
   ]);
 
   // helper to get the "baseline" values from initialKb (or defaults)
@@ -163,6 +172,7 @@ const SetupClient = ({
       faq: meta?.faq ?? [{ question: "", answer: "" }],
       files: meta?.files ?? [],
       allowedOrigins: meta?.allowedOrigins ?? [],
+      crawl: resolveCrawlSettings(meta?.crawl),
     };
   };
 
@@ -179,6 +189,7 @@ const SetupClient = ({
       faq: form.getValues("faq") ?? [{ question: "", answer: "" }],
       files: form.getValues("files") ?? [],
       allowedOrigins: form.getValues("allowedOrigins") ?? [],
+      crawl: resolveCrawlSettings(form.getValues("crawl")),
     };
 
     const initial = getInitialSnapshot();
@@ -288,7 +299,11 @@ const SetupClient = ({
         if (!res.ok) {
           const err = await res.json().catch(() => ({}));
           console.error("Upload API error", err);
-          toast.error(t.upload_failed.replace("{{fileName}}", file.name));
+          toast.error(
+            res.status === 403 && err.error
+              ? err.error // plan limit reached
+              : t.upload_failed.replace("{{fileName}}", file.name),
+          );
           continue;
         }
 
@@ -370,6 +385,7 @@ const SetupClient = ({
       files: values.files || [],
       allowedOrigins: values.allowedOrigins || [],
       language: values.agentLanguage as SupportedLang,
+      crawl: resolveCrawlSettings(values.crawl),
     };
 
     try {
@@ -403,8 +419,12 @@ const SetupClient = ({
         metadata.faq,
         (initialKb?.metadata as KbMetadata)?.faq,
       );
+      const unchangedCrawl = isEqual(
+        metadata.crawl,
+        resolveCrawlSettings((initialKb?.metadata as KbMetadata)?.crawl),
+      );
 
-      if (unchangedUrl && unchangedFiles && unchangedFaq) {
+      if (unchangedUrl && unchangedFiles && unchangedFaq && unchangedCrawl) {
         if (res?.kb) {
           const kbMeta = (res.kb.metadata as KbMetadata) || ({} as KbMetadata);
 
@@ -420,6 +440,7 @@ const SetupClient = ({
             faq: kbMeta?.faq ?? [{ question: "", answer: "" }],
             files: kbMeta?.files ?? [],
             allowedOrigins: kbMeta?.allowedOrigins ?? [],
+            crawl: resolveCrawlSettings(kbMeta?.crawl),
           };
 
           reset(newDefaults);
@@ -490,6 +511,7 @@ const SetupClient = ({
           faq: kbMeta?.faq ?? [{ question: "", answer: "" }],
           files: kbMeta?.files ?? [],
           allowedOrigins: kbMeta?.allowedOrigins ?? [],
+          crawl: resolveCrawlSettings(kbMeta?.crawl),
         };
 
         reset(newDefaults);
@@ -697,6 +719,170 @@ const SetupClient = ({
                       )}
                     />
 
+                    <div className="space-y-4 rounded-md border p-4">
+                      <div>
+                        <div className="font-medium">{t.crawl_settings}</div>
+                        <p className="text-muted-foreground text-xs">
+                          {t.crawl_settings_desc}
+                        </p>
+                      </div>
+
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <FormField
+                          control={control}
+                          name="crawl.includePaths"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t.crawl_include_paths}</FormLabel>
+                              <FormControl>
+                                <Textarea
+                                  dir="ltr"
+                                  rows={3}
+                                  placeholder="/docs/**"
+                                  value={field.value.join("\n")}
+                                  onChange={(e) =>
+                                    field.onChange(e.target.value.split("\n"))
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={control}
+                          name="crawl.excludePaths"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t.crawl_exclude_paths}</FormLabel>
+                              <FormControl>
+                                <Textarea
+                                  dir="ltr"
+                                  rows={3}
+                                  placeholder="/blog/**"
+                                  value={field.value.join("\n")}
+                                  onChange={(e) =>
+                                    field.onChange(e.target.value.split("\n"))
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <p className="text-muted-foreground text-xs">
+                        {t.crawl_paths_help}
+                      </p>
+
+                      <div className="grid gap-4 md:grid-cols-3">
+                        <FormField
+                          control={control}
+                          name="crawl.maxPages"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t.crawl_max_pages}</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  max={MAX_CRAWL_PAGES}
+                                  value={field.value}
+                                  onChange={(e) =>
+                                    field.onChange(Number(e.target.value))
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={control}
+                          name="crawl.maxDepth"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t.crawl_max_depth}</FormLabel>
+                              <Select
+                                dir={dir}
+                                value={String(field.value)}
+                                onValueChange={(v) => field.onChange(Number(v))}
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="w-full">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {Array.from(
+                                    { length: MAX_CRAWL_DEPTH + 1 },
+                                    (_, depth) => (
+                                      <SelectItem
+                                        key={depth}
+                                        value={String(depth)}
+                                      >
+                                        {depth}
+                                      </SelectItem>
+                                    ),
+                                  )}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={control}
+                          name="crawl.queryParams"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t.crawl_query_params}</FormLabel>
+                              <Select
+                                dir={dir}
+                                value={field.value}
+                                onValueChange={field.onChange}
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="w-full">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {CRAWL_QUERY_PARAM_MODES.map((mode) => (
+                                    <SelectItem key={mode} value={mode}>
+                                      {t[`crawl_query_params_${mode}`]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <FormField
+                        control={control}
+                        name="crawl.includeSubdomains"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(v) =>
+                                  field.onChange(v === true)
+                                }
+                              />
+                            </FormControl>
+                            <FormLabel>{t.crawl_include_subdomains}</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={control}
                       name="allowedOrigins"
@@ -784,7 +970,7 @@ const SetupClient = ({
 
                     <Input
                       type="file"
-                      accept=".pdf,.docx,.doc"
+                      accept=".pdf,.docx,.doc,.xlsx,.csv,.pptx,.txt,.md,.html,.htm,.epub"
                       multiple
                       onChange={handleFileChange}
                       className="cursor-pointer"
@@ -0,0 +1,390 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import {
+  inviteWorkspaceMember,
+  leaveWorkspace,
+  removeWorkspaceMember,
+  renameWorkspace,
+  revokeWorkspaceInvitation,
+  updateWorkspaceMemberRole,
+} from "@/lib/actions/workspace";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { cn } from "@/lib/utils";
+import {
+  ASSIGNABLE_WORKSPACE_ROLES,
+  AssignableWorkspaceRole,
+} from "@/lib/workspaces/roles";
+import type { WorkspaceRole } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import toast from "react-hot-toast";
+import Swal from "sweetalert2";
+
+export type TeamMember = {
+  id: string;
+  userId: string;
+  name: string | null;
+  email: string;
+  role: WorkspaceRole;
+};
+
+export type TeamInvitation = {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: Date;
+};
+
+interface TeamClientProps {
+  lang: SupportedLang;
+  dict: Dictionary;
+  workspace: { id: string; name: string; role: WorkspaceRole };
+  currentUserId: string;
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+  canManage: boolean;
+}
+
+const TeamClient = ({
+  lang,
+  dict,
+  workspace,
+  currentUserId,
+  members,
+  invitations,
+  canManage,
+}: TeamClientProps) => {
+  const t = dict.dashboard_team;
+  const router = useRouter();
+  const isOwner = workspace.role === "OWNER";
+
+  const [name, setName] = useState(workspace.name);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] =
+    useState<AssignableWorkspaceRole>("EDITOR");
+  const [isPending, startTransition] = useTransition();
+
+  const roleLabels: Record<WorkspaceRole, string> = {
+    OWNER: t.role_owner,
+    ADMIN: t.role_admin,
+    EDITOR: t.role_editor,
+    VIEWER: t.role_viewer,
+    AGENT: t.role_agent,
+  };
+  const roleHints: Record<AssignableWorkspaceRole, string> = {
+    ADMIN: t.role_admin_desc,
+    EDITOR: t.role_editor_desc,
+    VIEWER: t.role_viewer_desc,
+    AGENT: t.role_agent_desc,
+  };
+  // Only the owner can hand out or take away admin rights
+  const assignableRoles = ASSIGNABLE_WORKSPACE_ROLES.filter(
+    (role) => isOwner || role !== "ADMIN",
+  );
+
+  const run = (action: () => Promise<unknown>, success: string) => {
+    startTransition(async () => {
+      try {
+        await action();
+        toast.success(success);
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Team action failed:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const confirm = async (text: string, confirmButtonText: string) => {
+    const result = await Swal.fire({
+      text,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText,
+      cancelButtonText: t.cancel,
+      focusCancel: true,
+      reverseButtons: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+    });
+    return result.isConfirmed;
+  };
+
+  const handleInvite = () => {
+    const address = email.trim();
+    run(
+      async () => {
+        await inviteWorkspaceMember({ email: address, role: inviteRole, lang });
+        setEmail("");
+      },
+      t.invited.replace("{email}", address),
+    );
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    const ok = await confirm(
+      t.remove_confirm.replace("{name}", member.name || member.email),
+      t.remove,
+    );
+    if (ok) run(() => removeWorkspaceMember(member.id, lang), t.removed);
+  };
+
+  const handleLeave = async () => {
+    const ok = await confirm(
+      t.leave_confirm.replace("{workspace}", workspace.name),
+      t.leave,
+    );
+    if (!ok) return;
+
+    startTransition(async () => {
+      try {
+        await leaveWorkspace(workspace.id);
+        router.push(`/${lang}/dashboard`);
+        router.refresh();
+      } catch (error: unknown) {
+        console.error("Failed to leave workspace:", error);
+        toast.error(error instanceof Error ? error.message : t.action_failed);
+      }
+    });
+  };
+
+  const canChange = (member: TeamMember) =>
+    canManage &&
+    member.userId !== currentUserId &&
+    member.role !== "OWNER" &&
+    (isOwner || member.role !== "ADMIN");
+
+  return (
+    <div className={cn("space-y-6", lang === "ar" && "rtl:text-right")}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.title}</CardTitle>
+          <CardDescription>{t.description}</CardDescription>
+        </CardHeader>
+        {canManage && (
+          <CardContent className="space-y-2">
+            <Label htmlFor="workspace-name">{t.workspace_name}</Label>
+            <div className="flex max-w-md gap-2">
+              <Input
+                id="workspace-name"
+                value={name}
+                maxLength={60}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                disabled={isPending || !name.trim() || name === workspace.name}
+                onClick={() =>
+                  run(() => renameWorkspace(name, lang), t.renamed)
+                }
+              >
+                {t.rename}
+              </Button>
+            </div>
+          </CardContent>
+        )}
+        {!isOwner && (
+          <CardFooter>
+            <Button
+              variant="destructive"
+              disabled={isPending}
+              onClick={handleLeave}
+            >
+              {t.leave}
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t.members_title}</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex flex-wrap items-center justify-between gap-3 py-3"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">
+                  {member.name || member.email}{" "}
+                  {member.userId === currentUserId && (
+                    <span className="text-muted-foreground">{t.you}</span>
+                  )}
+                </p>
+                <p className="text-muted-foreground truncate text-xs">
+                  {member.email}
+                </p>
+              </div>
+
+              {canChange(member) ? (
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={member.role}
+                    disabled={isPending}
+                    onValueChange={(role) =>
+                      run(
+                        () =>
+                          updateWorkspaceMemberRole(
+                            member.id,
+                            role as AssignableWorkspaceRole,
+                            lang,
+                          ),
+                        t.role_updated,
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => handleRemove(member)}
+                  >
+                    {t.remove}
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant="secondary">{roleLabels[member.role]}</Badge>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t.invite_title}</CardTitle>
+            <CardDescription>{t.invite_desc}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-[1fr_12rem]">
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">{t.email}</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  dir="ltr"
+                  placeholder={t.email_placeholder}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t.role}</Label>
+                <Select
+                  value={inviteRole}
+                  onValueChange={(role) =>
+                    setInviteRole(role as AssignableWorkspaceRole)
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {roleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              {roleHints[inviteRole]}
+            </p>
+          </CardContent>
+          <CardFooter>
+            <Button
+              onClick={handleInvite}
+              disabled={isPending || !email.trim()}
+            >
+              {t.invite}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t.pending_title}</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {invitations.length === 0 ? (
+              <p className="text-muted-foreground text-sm">{t.no_pending}</p>
+            ) : (
+              invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex flex-wrap items-center justify-between gap-3 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {invitation.email}
+                    </p>
+                    <p className="text-muted-foreground text-xs">
+                      {roleLabels[invitation.role]} ·{" "}
+                      {t.expires_on.replace(
+                        "{date}",
+                        new Date(invitation.expiresAt).toLocaleDateString(lang),
+                      )}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() =>
+                      run(
+                        () => revokeWorkspaceInvitation(invitation.id, lang),
+                        t.revoked,
+                      )
+                    }
+                  >
+                    {t.revoke}
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TeamClient;
@@ -0,0 +1,102 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { Dictionary } from "@/contexts/dictionary-context";
+import {
+  updateUsageAlertSettings,
+  UsageAlertSettings,
+} from "@/lib/actions/billing";
+import type { SupportedLang } from "@/lib/dictionaries";
+import { cn } from "@/lib/utils";
+import { useState, useTransition } from "react";
+import toast from "react-hot-toast";
+
+interface UsageAlertsCardProps {
+  initial: UsageAlertSettings;
+  dict: Dictionary;
+  lang: SupportedLang;
+}
+
+const UsageAlertsCard = ({ initial, dict, lang }: UsageAlertsCardProps) => {
+  const t = dict.dashboard_billing;
+
+  const [enabled, setEnabled] = useState(initial.enabled);
+  const [thresholds, setThresholds] = useState(initial.thresholds);
+  const [isSaving, startSaving] = useTransition();
+
+  const toggleThreshold = (value: number, checked: boolean) => {
+    setThresholds((prev) =>
+      checked ? [...prev, value] : prev.filter((t) => t !== value),
+    );
+  };
+
+  const handleSave = () => {
+    startSaving(async () => {
+      try {
+        const updated = await updateUsageAlertSettings({
+          enabled,
+          thresholds,
+          lang,
+        });
+        setThresholds(updated.thresholds);
+        toast.success(t.alerts_saved);
+      } catch (error: unknown) {
+        console.error("Failed to save usage alerts:", error);
+        toast.error(error instanceof Error ? error.message : t.alerts_failed);
+      }
+    });
+  };
+
+  return (
+    <Card className={cn(lang === "ar" && "rtl:text-right")}>
+      <CardHeader>
+        <CardTitle>{t.alerts_title}</CardTitle>
+        <CardDescription>{t.alerts_desc}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="usage-alerts-enabled"
+            checked={enabled}
+            onCheckedChange={(v) => setEnabled(v === true)}
+          />
+          <Label htmlFor="usage-alerts-enabled">{t.alerts_enabled_label}</Label>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {initial.options.map((value) => (
+            <div key={value} className="flex items-center gap-2">
+              <Checkbox
+                id={`usage-alert-${value}`}
+                checked={thresholds.includes(value)}
+                disabled={!enabled}
+                onCheckedChange={(v) => toggleThreshold(value, v === true)}
+              />
+              <Label htmlFor={`usage-alert-${value}`}>{value}%</Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-muted-foreground text-xs">{t.alerts_help}</p>
+      </CardContent>
+
+      <CardFooter>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {t.alerts_save}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default UsageAlertsCard;
@@ -245,10 +245,6 @@ export default function VoiceChatWidget({
           kbId: DEMO_KB_ID,
           message,
           conversationId,
-          history: messages.slice(-6).map((msg) => ({
-            role: msg.role === "user" ? "user" : "assistant",
-            text: msg.text,
-          })),
           isDemo: true,
         }),
       });
@@ -0,0 +1,70 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { SupportedLang } from "../dictionaries";
+import { prisma } from "../prisma";
+import { generateApiKey } from "../publicApi/apiKeys";
+import { ApiKeyScope, isApiKeyScope } from "../publicApi/scopes";
+import { checkEntitlement } from "../subscription/checkUsageLimits";
+import { requireWorkspacePermission } from "../workspaces/workspaceAccess";
+
+const MAX_ACTIVE_API_KEYS = 20;
+const MAX_LABEL_LENGTH = 60;
+
+/**
+ * Creates a public API key for the active workspace. Returns the plaintext
+ * key; only its hash is stored, so it can't be shown again.
+ */
+export async function createApiKey(params: {
+  label: string;
+  scopes: ApiKeyScope[];
+  lang: SupportedLang;
+}) {
+  const workspace = await requireWorkspacePermission("manage");
+
+  const label = params.label.trim();
+  if (!label) throw new Error("Give the key a name");
+  if (label.length > MAX_LABEL_LENGTH) throw new Error("Key name is too long");
+
+  const scopes = [...new Set(params.scopes)];
+  if (scopes.length === 0) throw new Error("Select at least one scope");
+  if (!scopes.every(isApiKeyScope)) throw new Error("Invalid scope");
+
+  // The workspace owner's plan decides
+  const entitlement = await checkEntitlement(workspace.ownerId, "apiAccess");
+  if (!entitlement.allowed) throw new Error(entitlement.reason);
+
+  const active = await prisma.apiKey.count({
+    where: { userId: workspace.ownerId, kbId: null, revokedAt: null },
+  });
+  if (active >= MAX_ACTIVE_API_KEYS) {
+    throw new Error(
+      `You can have up to ${MAX_ACTIVE_API_KEYS} active keys; revoke one first`,
+    );
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  await prisma.apiKey.create({
+    data: { userId: workspace.ownerId, label, prefix, keyHash, scopes },
+  });
+
+  revalidatePath(`/${params.lang}/dashboard/settings/api-keys`);
+  return key;
+}
+
+export async function revokeApiKey(keyId: string, lang: SupportedLang) {
+  const workspace = await requireWorkspacePermission("manage");
+
+  const { count } = await prisma.apiKey.updateMany({
+    where: {
+      id: keyId,
+      userId: workspace.ownerId,
+      kbId: null,
+      revokedAt: null,
+    },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) throw new Error("API key not found");
+
+  revalidatePath(`/${lang}/dashboard/settings/api-keys`);
+}
@@ -0,0 +1,274 @@
+"use server";
+
+import { PaymentStatus, SubscriptionStatus } from "@prisma/client";
+import { revalidatePath } from "next/cache";
+import { auth } from "../auth";
+import { SupportedLang } from "../dictionaries";
+import { prisma } from "../prisma";
+import { ensureOverageItem } from "../stripe/overage";
+import {
+  DEFAULT_OVERAGE_CAP_CENTS,
+  getOverageRate,
+} from "../subscription/checkUsageLimits";
+import { resolveAlertThresholds, USAGE_ALERT_OPTIONS } from "../usage/alerts";
+
+export type OverageSettings = {
+  available: boolean; // the current plan can bill overage
+  enabled: boolean;
+  capCents: number;
+  ratePerMinute: number; // USD
+};
+
+export type BillingInvoice = {
+  id: string;
+  number: string | null;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  amountRefunded: number; // in the invoice currency, not cents
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+  createdAt: string;
+};
+
+export type BillingOverview = {
+  hasCustomer: boolean; // the Stripe portal needs a customer to open
+  plan: { titleEn: string; titleAr: string } | null;
+  status: SubscriptionStatus | null;
+  currentPeriodEnd: string | null;
+  cancelAtPeriodEnd: boolean;
+  invoices: BillingInvoice[];
+};
+
+export type UsageAlertSettings = {
+  enabled: boolean;
+  thresholds: number[]; // percent of quota
+  options: number[];
+};
+
+const MIN_CAP_CENTS = 100;
+const MAX_CAP_CENTS = 1_000_000;
+
+async function getActiveSubscription(userId: string) {
+  return prisma.subscription.findFirst({
+    where: {
+      userId,
+      status: {
+        in: [
+          SubscriptionStatus.ACTIVE,
+          SubscriptionStatus.TRIALING,
+          SubscriptionStatus.PAST_DUE,
+        ],
+      },
+    },
+    include: { plan: true },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function getOverageSettings(): Promise<OverageSettings> {
+  const session = await auth();
+  if (!session?.user.id) throw new Error("Not authenticated");
+
+  const [user, subscription] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { overageEnabled: true, overageCapCents: true },
+    }),
+    getActiveSubscription(session.user.id),
+  ]);
+
+  const plan = subscription?.plan;
+  const ratePerMinute = plan ? getOverageRate(plan.name) : 0;
+
+  return {
+    available: Boolean(
+      plan?.stripeOveragePriceId &&
+        subscription?.stripeSubscriptionId &&
+        ratePerMinute > 0,
+    ),
+    enabled: Boolean(user?.overageEnabled),
+    capCents: user?.overageCapCents ?? DEFAULT_OVERAGE_CAP_CENTS,
+    ratePerMinute,
+  };
+}
+
+/**
+ * Opts in to (or out of) usage past the plan's minutes. Enabling attaches
+ * the plan's metered overage price to the Stripe subscription; disabling
+ * keeps it and records when the opt-in ended, so overage used before then
+ * is still billed at the end of the period.
+ */
+export async function updateOverageSettings(params: {
+  enabled: boolean;
+  capCents: number;
+  lang: SupportedLang;
+}) {
+  const session = await auth();
+  if (!session?.user.id) throw new Error("Not authenticated");
+
+  const capCents = Math.round(params.capCents);
+  if (
+    !Number.isFinite(capCents) ||
+    capCents < MIN_CAP_CENTS ||
+    capCents > MAX_CAP_CENTS
+  ) {
+    throw new Error("Invalid spending cap");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      overageEnabled: true,
+      overageEnabledAt: true,
+      overageDisabledAt: true,
+    },
+  });
+  const now = new Date();
+  let optIn: { overageEnabledAt?: Date; overageDisabledAt?: Date | null } = {};
+
+  if (params.enabled) {
+    const subscription = await getActiveSubscription(session.user.id);
+    const overagePriceId = subscription?.plan.stripeOveragePriceId;
+    if (
+      !subscription?.stripeSubscriptionId ||
+      !overagePriceId ||
+      getOverageRate(subscription.plan.name) <= 0
+    ) {
+      throw new Error("Overage billing is not available on your plan");
+    }
+    await ensureOverageItem(subscription.stripeSubscriptionId, overagePriceId);
+
+    if (!user?.overageEnabled) {
+      // Opting back in within the same period continues the earlier opt-in,
+      // so the overage used before the gap is not dropped from the bill
+      const periodStart = subscription.currentPeriodStart;
+      const resumeFrom =
+        user?.overageDisabledAt &&
+        periodStart &&
+        user.overageDisabledAt >= periodStart
+          ? user.overageEnabledAt
+          : null;
+      optIn = {
+        overageEnabledAt: resumeFrom ?? now,
+        overageDisabledAt: null,
+      };
+    }
+  } else if (user?.overageEnabled) {
+    optIn = { overageDisabledAt: now };
+  }
+
+  await prisma.user.update({
+    where: { id: session.user.id },
+    data: {
+      overageEnabled: params.enabled,
+      overageCapCents: capCents,
+      ...optIn,
+    },
+  });
+
+  revalidatePath(`/${params.lang}/dashboard`);
+  revalidatePath(`/${params.lang}/dashboard/settings`);
+  revalidatePath(`/${params.lang}/dashboard/settings/billing`);
+
+  return getOverageSettings();
+}
+
+export async function getBillingOverview(): Promise<BillingOverview> {
+  const session = await auth();
+  if (!session?.user.id) throw new Error("Not authenticated");
+
+  const [user, subscription, payments] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { stripeCustomerId: true },
+    }),
+    getActiveSubscription(session.user.id),
+    prisma.payment.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    }),
+  ]);
+
+  return {
+    hasCustomer: Boolean(user?.stripeCustomerId),
+    plan: subscription
+      ? {
+          titleEn: subscription.plan.titleEn,
+          titleAr: subscription.plan.titleAr,
+        }
+      : null,
+    status: subscription?.status ?? null,
+    currentPeriodEnd: subscription?.currentPeriodEnd?.toISOString() ?? null,
+    cancelAtPeriodEnd: subscription?.cancelAtPeriodEnd ?? false,
+    invoices: payments.map((p) => {
+      const meta = (p.meta ?? {}) as Record<string, unknown>;
+      const str = (v: unknown) => (typeof v === "string" ? v : null);
+      return {
+        id: p.id,
+        number: str(meta.invoiceNumber),
+        amount: p.amount,
+        currency: p.currency,
+        status: p.status,
+        amountRefunded:
+          typeof meta.amountRefunded === "number"
+            ? meta.amountRefunded / 100
+            : 0,
+        hostedInvoiceUrl: str(meta.hostedInvoiceUrl),
+        invoicePdf: str(meta.invoicePdf),
+        createdAt: p.createdAt.toISOString(),
+      };
+    }),
+  };
+}
+
+export async function getUsageAlertSettings(): Promise<UsageAlertSettings> {
+  const session = await auth();
+  if (!session?.user.id) throw new Error("Not authenticated");
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { usageAlertsEnabled: true, usageAlertThresholds: true },
+  });
+
+  return {
+    enabled: user?.usageAlertsEnabled !== false,
+    thresholds: resolveAlertThresholds({ ...user, usageAlertsEnabled: true }),
+    options: USAGE_ALERT_OPTIONS,
+  };
+}
+
+/**
+ * Saves which quota percentages email the account owner. Alerts go out in
+ * the language of the dashboard the settings were saved from.
+ */
+export async function updateUsageAlertSettings(params: {
+  enabled: boolean;
+  thresholds: number[];
+  lang: SupportedLang;
+}) {
+  const session = await auth();
+  if (!session?.user.id) throw new Error("Not authenticated");
+
+  const thresholds = [...new Set(params.thresholds)].filter((t) =>
+    USAGE_ALERT_OPTIONS.includes(t),
+  );
+  if (params.enabled && thresholds.length === 0) {
+    throw new Error("Select at least one alert threshold");
+  }
+
+  await prisma.user.update({
+    where: { id: session.user.id },
+    data: {
+      usageAlertsEnabled: params.enabled,
+      usageAlertThresholds: thresholds.sort((a, b) => a - b),
+      usageAlertLanguage: params.lang,
+    },
+  });
+
+  revalidatePath(`/${params.lang}/dashboard`);
+  revalidatePath(`/${params.lang}/dashboard/settings/billing`);
+
+  return getUsageAlertSettings();
+}
@@ -0,0 +1,266 @@
+"use server";
+
+import { Prisma } from "@prisma/client";
+import type { Channel } from "../analytics/logInteraction";
+import {
+  ConversationStatus,
+  endHandoff,
+  startHandoff,
+} from "../conversations/handoff";
+import { appendConversationMessage } from "../conversations/persistConversation";
+import { sendChannelMessage } from "../messaging/send";
+import { prisma } from "../prisma";
+import { requireWorkspacePermission } from "../workspaces/workspaceAccess";
+
+export type ConversationFilters = {
+  botId?: string | null;
+  channel?: Channel | null;
+  query?: string | null;
+  from?: string | null; // YYYY-MM-DD
+  to?: string | null; // YYYY-MM-DD
+  fallback?: "all" | "with_fallback" | "without_fallback";
+  status?: ConversationStatus | null;
+  cursor?: string | null;
+};
+
+export type ConversationSummary = {
+  id: string;
+  title: string | null;
+  channel: string;
+  botId: string | null;
+  botName: string | null;
+  visitorId: string | null;
+  status: ConversationStatus;
+  handoffAt: Date | null;
+  messageCount: number;
+  fallbackCount: number;
+  lastMessage: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type TranscriptMessage = {
+  id: string;
+  sender: string;
+  content: string;
+  sources: unknown;
+  meta: unknown;
+  createdAt: Date;
+};
+
+const PAGE_SIZE = 30;
+
+function buildWhere(userId: string, filters: ConversationFilters) {
+  const where: Prisma.ConversationWhereInput = { userId };
+
+  if (filters.botId) where.botId = filters.botId;
+  if (filters.channel) where.channel = filters.channel;
+  if (filters.status) where.status = filters.status;
+
+  if (filters.from || filters.to) {
+    where.updatedAt = {
+      ...(filters.from && { gte: new Date(`${filters.from}T00:00:00.000Z`) }),
+      ...(filters.to && { lte: new Date(`${filters.to}T23:59:59.999Z`) }),
+    };
+  }
+
+  if (filters.fallback === "with_fallback") {
+    where.fallbackCount = { gt: 0 };
+  } else if (filters.fallback === "without_fallback") {
+    where.fallbackCount = 0;
+  }
+
+  const query = filters.query?.trim();
+  if (query) {
+    where.OR = [
+      { title: { contains: query, mode: "insensitive" } },
+      { visitorId: { contains: query, mode: "insensitive" } },
+      {
+        messages: {
+          some: { content: { contains: query, mode: "insensitive" } },
+        },
+      },
+    ];
+  }
+
+  return where;
+}
+
+export async function getConversations(filters: ConversationFilters = {}) {
+  const { ownerId } = await requireWorkspacePermission("conversations");
+
+  const rows = await prisma.conversation.findMany({
+    where: buildWhere(ownerId, filters),
+    orderBy: { updatedAt: "desc" },
+    take: PAGE_SIZE + 1,
+    ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+    select: {
+      id: true,
+      title: true,
+      channel: true,
+      botId: true,
+      visitorId: true,
+      status: true,
+      handoffAt: true,
+      fallbackCount: true,
+      createdAt: true,
+      updatedAt: true,
+      _count: { select: { messages: true } },
+      messages: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { content: true },
+      },
+    },
+  });
+
+  const hasMore = rows.length > PAGE_SIZE;
+  const page = hasMore ? rows.slice(0, PAGE_SIZE) : rows;
+
+  const botIds = [
+    ...new Set(page.map((r) => r.botId).filter((id): id is string => !!id)),
+  ];
+  const bots = botIds.length
+    ? await prisma.bot.findMany({
+        where: { id: { in: botIds }, userId: ownerId },
+        select: { id: true, name: true },
+      })
+    : [];
+  const botNames = new Map(bots.map((b) => [b.id, b.name]));
+
+  const conversations: ConversationSummary[] = page.map((r) => ({
+    id: r.id,
+    title: r.title,
+    channel: r.channel,
+    botId: r.botId,
+    botName: r.botId ? (botNames.get(r.botId) ?? null) : null,
+    visitorId: r.visitorId,
+    status: r.status as ConversationStatus,
+    handoffAt: r.handoffAt,
+    messageCount: r._count.messages,
+    fallbackCount: r.fallbackCount,
+    lastMessage: r.messages[0]?.content ?? null,
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  }));
+
+  return {
+    conversations,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+export async function getConversationTranscript(conversationId: string) {
+  const { ownerId } = await requireWorkspacePermission("conversations");
+
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, userId: ownerId },
+    select: { id: true },
+  });
+  if (!conversation) throw new Error("Conversation not found");
+
+  const messages: TranscriptMessage[] = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      sender: true,
+      content: true,
+      sources: true,
+      meta: true,
+      createdAt: true,
+    },
+  });
+
+  return messages;
+}
+
+async function getOwnedConversation(conversationId: string) {
+  const { ownerId } = await requireWorkspacePermission("reply");
+
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: conversationId, userId: ownerId },
+    select: {
+      id: true,
+      userId: true,
+      channel: true,
+      visitorId: true,
+      meta: true,
+    },
+  });
+  if (!conversation) throw new Error("Conversation not found");
+
+  return conversation;
+}
+
+/** Takes a conversation over from the bot, or hands it back. */
+export async function setConversationHandoff(
+  conversationId: string,
+  enabled: boolean,
+) {
+  const conversation = await getOwnedConversation(conversationId);
+
+  if (enabled) {
+    await startHandoff({ conversationId: conversation.id, reason: "agent" });
+  } else {
+    await endHandoff(conversation.id);
+  }
+
+  return { status: (enabled ? "handoff" : "bot") as ConversationStatus };
+}
+
+/**
+ * Sends a reply written in the dashboard. Messaging conversations are
+ * delivered through the integration they came in on; website replies are
+ * stored and picked up by the widget's polling. Replying also pauses the bot.
+ */
+export async function sendAgentReply(conversationId: string, text: string) {
+  const content = text.trim();
+  if (!content) throw new Error("Message is empty");
+  if (content.length > 4000) throw new Error("Message is too long");
+
+  const conversation = await getOwnedConversation(conversationId);
+  const meta = (conversation.meta ?? {}) as {
+    integrationId?: string;
+    provider?: string;
+    platformId?: string;
+  };
+
+  if (conversation.channel !== "website") {
+    if (!meta.integrationId || !meta.provider || !meta.platformId) {
+      throw new Error("This conversation can't be replied to");
+    }
+    if (!conversation.visitorId) throw new Error("Recipient unknown");
+
+    const integration = await prisma.integration.findFirst({
+      where: { id: meta.integrationId, userId: conversation.userId },
+      select: { credentials: true },
+    });
+    if (!integration) throw new Error("Integration not found");
+
+    const sent = await sendChannelMessage(
+      { provider: meta.provider, platformId: meta.platformId },
+      conversation.visitorId,
+      content,
+      (integration.credentials as Record<string, unknown>) ?? {},
+    );
+    if (!sent) throw new Error("Failed to deliver message");
+  }
+
+  await startHandoff({ conversationId: conversation.id, reason: "agent" });
+
+  const message = await appendConversationMessage({
+    conversationId: conversation.id,
+    sender: "agent",
+    content,
+  });
+
+  return {
+    id: message.id,
+    sender: message.sender,
+    content: message.content,
+    sources: message.sources,
+    meta: message.meta,
+    createdAt: message.createdAt,
+  } satisfies TranscriptMessage;
+}
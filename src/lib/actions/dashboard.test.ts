@@ -0,0 +1,152 @@
+import type { WorkspaceRole } from "@prisma/client";
+import nodeConsole from "console";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auth } from "../auth";
+import { cancelCrawlJob, retryFailedCrawlUrls } from "../kb/crawlJobs";
+import { purgeKnowledgeBase } from "../kb/purgeKnowledgeBase";
+import { enqueueKbRefresh } from "../kb/refreshKnowledgeBase";
+import { prisma } from "../prisma";
+import { getWorkspaceRole } from "../workspaces/workspaceAccess";
+import {
+  cancelCrawl,
+  deleteKb,
+  refreshKnowledgeBaseNow,
+  retryFailedCrawl,
+  updateHandoffSettings,
+  updateLeadCaptureSettings,
+  updateLimitMessage,
+  updateLlmSettings,
+  updateMemorySettings,
+  updateRefreshSchedule,
+  updateRetrievalSettings,
+} from "./dashboard";
+
+vi.mock("../auth", () => ({ auth: vi.fn() }));
+vi.mock("../prisma", () => ({
+  prisma: {
+    knowledgeBase: { findUnique: vi.fn(), update: vi.fn() },
+    auditLog: { create: vi.fn() },
+    crawlJob: { findFirst: vi.fn() },
+  },
+}));
+vi.mock("next/headers", () => ({ headers: async () => new Headers() }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("../workspaces/workspaceAccess", () => ({
+  getWorkspaceRole: vi.fn(),
+  requireWorkspacePermission: vi.fn(),
+}));
+vi.mock("../kb/purgeKnowledgeBase", () => ({ purgeKnowledgeBase: vi.fn() }));
+vi.mock("../kb/refreshKnowledgeBase", () => ({
+  enqueueKbRefresh: vi.fn(),
+  MIN_MANUAL_REFRESH_INTERVAL_MS: 0,
+  nextRefreshAt: vi.fn(),
+}));
+vi.mock("../kb/crawlJobs", () => ({
+  cancelCrawlJob: vi.fn(),
+  retryFailedCrawlUrls: vi.fn(),
+}));
+vi.mock("../kb/createKnowledgeBase", () => ({
+  assertAgentLimit: vi.fn(),
+  createKnowledgeBase: vi.fn(),
+}));
+vi.mock("../deleteFilesFromFirebase", () => ({
+  deleteFilesFromFirebase: vi.fn(),
+}));
+vi.mock("../subscription/checkUsageLimits", () => ({
+  checkEntitlement: vi.fn(),
+}));
+
+const KB_ID = "64b7f0c2a1b2c3d4e5f60718";
+const JOB_ID = "64b7f0c2a1b2c3d4e5f60719";
+
+// Each action called on KB_ID with arguments it would otherwise accept
+const actions = {
+  updateRetrievalSettings: () =>
+    updateRetrievalSettings(KB_ID, { vectorWeight: 1, keywordWeight: 1 }),
+  updateMemorySettings: () =>
+    updateMemorySettings(KB_ID, { windowSize: 10, ttlMinutes: 60 }),
+  updateLeadCaptureSettings: () =>
+    updateLeadCaptureSettings(KB_ID, {
+      enabled: false,
+      afterMessages: 1,
+      fields: [],
+    } as never),
+  updateLimitMessage: () => updateLimitMessage(KB_ID, "Come back later"),
+  updateRefreshSchedule: () => updateRefreshSchedule(KB_ID, "DAILY"),
+  updateHandoffSettings: () =>
+    updateHandoffSettings(KB_ID, {
+      enabled: true,
+      onFallback: false,
+      phrases: [],
+      message: "",
+    }),
+  updateLlmSettings: () =>
+    updateLlmSettings(KB_ID, { provider: null, model: "" }),
+  refreshKnowledgeBaseNow: () => refreshKnowledgeBaseNow(KB_ID),
+  cancelCrawl: () => cancelCrawl(KB_ID, JOB_ID),
+  retryFailedCrawl: () => retryFailedCrawl(KB_ID, JOB_ID),
+  deleteKb: () => deleteKb(KB_ID),
+};
+const actionNames = Object.keys(actions) as (keyof typeof actions)[];
+
+function signIn(userId: string, role: WorkspaceRole | null) {
+  vi.mocked(auth as unknown as () => Promise<unknown>).mockResolvedValue({
+    user: { id: userId, role: "USER" },
+  });
+  vi.mocked(getWorkspaceRole).mockResolvedValue(role);
+}
+
+function expectNoChanges() {
+  expect(prisma.knowledgeBase.update).not.toHaveBeenCalled();
+  expect(prisma.crawlJob.findFirst).not.toHaveBeenCalled();
+  expect(purgeKnowledgeBase).not.toHaveBeenCalled();
+  expect(enqueueKbRefresh).not.toHaveBeenCalled();
+  expect(cancelCrawlJob).not.toHaveBeenCalled();
+  expect(retryFailedCrawlUrls).not.toHaveBeenCalled();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  // dashboard.ts logs through the "console" module, not the global
+  vi.spyOn(nodeConsole, "error").mockImplementation(() => {});
+  vi.mocked(prisma.knowledgeBase.findUnique).mockResolvedValue({
+    id: KB_ID,
+    userId: "owner-1",
+    title: "Support",
+    metadata: {},
+    lastRefreshAt: null,
+  } as never);
+});
+
+describe("KB server actions", () => {
+  it.each(actionNames)(
+    "%s rejects callers from other workspaces",
+    async (name) => {
+      signIn("stranger", null);
+
+      await expect(actions[name]()).rejects.toThrow("Knowledge Base not found");
+      expectNoChanges();
+    },
+  );
+
+  it.each(actionNames)("%s is forbidden to viewers", async (name) => {
+    signIn("viewer", "VIEWER");
+
+    await expect(actions[name]()).rejects.toThrow(
+      "Your role in this workspace doesn't allow this",
+    );
+    expectNoChanges();
+  });
+
+  it("only lets admins and owners delete a KB", async () => {
+    vi.mocked(purgeKnowledgeBase).mockResolvedValue({ errors: [] } as never);
+
+    signIn("editor", "EDITOR");
+    await expect(deleteKb(KB_ID)).rejects.toThrow();
+    expect(purgeKnowledgeBase).not.toHaveBeenCalled();
+
+    signIn("admin", "ADMIN");
+    await deleteKb(KB_ID);
+    expect(purgeKnowledgeBase).toHaveBeenCalledWith(KB_ID);
+  });
+});
@@ -1,16 +1,44 @@
 "use server";
 
 import { Dictionary } from "@/contexts/dictionary-context";
+import { RefreshSchedule } from "@prisma/client";
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
 import console from "console";
 import { revalidatePath } from "next/cache";
 import z from "zod";
 import { auth } from "../auth";
+import {
+  MAX_MEMORY_TTL_MINUTES,
+  MAX_MEMORY_WINDOW,
+  MemorySettings,
+} from "../conversations/senderMemory";
 import { deleteFilesFromFirebase } from "../deleteFilesFromFirebase";
 import { SupportedLang } from "../dictionaries";
+import { cancelCrawlJob, retryFailedCrawlUrls } from "../kb/crawlJobs";
+import {
+  assertAgentLimit,
+  createKnowledgeBase,
+  CreateKnowledgeBaseParams,
+} from "../kb/createKnowledgeBase";
+import { resolveCrawlSettings } from "../kb/crawlScope";
+import { purgeKnowledgeBase } from "../kb/purgeKnowledgeBase";
+import {
+  enqueueKbRefresh,
+  MIN_MANUAL_REFRESH_INTERVAL_MS,
+  nextRefreshAt,
+} from "../kb/refreshKnowledgeBase";
+import { LeadCaptureSettings, MAX_AFTER_MESSAGES } from "../leads/leadCapture";
+import {
+  isLlmProviderConfigured,
+  LLM_PROVIDER_IDS,
+  LlmProviderId,
+} from "../llm";
 import { prisma } from "../prisma";
 import { settingsSchema } from "../schemas/dashboard";
-import { checkAgentLimit } from "../subscription/checkUsageLimits";
+import { checkEntitlement } from "../subscription/checkUsageLimits";
+import { MAX_LIMIT_MESSAGE_LENGTH } from "../subscription/limitMessage";
+import { requireKbAccess } from "../workspaces/kbAccess";
+import { requireWorkspacePermission } from "../workspaces/workspaceAccess";
 
 interface UpdateSettingsNameParams {
   userId: string;
@@ -23,6 +51,12 @@ export async function updateSettingsName(params: UpdateSettingsNameParams) {
   try {
     const { name, lang, userId, dict } = params;
 
+    // Only your own profile
+    const session = await auth();
+    if (!session?.user?.id || session.user.id !== userId) {
+      return { success: false };
+    }
+
     const parsed = settingsSchema(dict).safeParse({ name });
     if (!parsed.success) {
       return { success: false, errors: z.flattenError(parsed.error) };
@@ -45,103 +79,33 @@ export async function updateSettingsName(params: UpdateSettingsNameParams) {
   }
 }
 
-interface CreateKbParams {
-  title: string;
-  description?: string;
-  personality?: string;
-  voice: string;
-  primaryColor: string;
-  accentColor: string;
-  faq?: { question: string; answer: string }[];
-  url: string | null;
-  files?: string[];
-  allowedOrigins: string[];
-  language: SupportedLang;
+/** The KB's whole file list against the plan's per-KB file and storage limits. */
+async function assertFileEntitlements(userId: string, files?: string[]) {
+  if (!files?.length) return;
+
+  const documents = await checkEntitlement(userId, "documents", {
+    adding: files.length,
+  });
+  if (!documents.allowed) throw new Error(documents.reason);
+
+  const stored = await prisma.uploadedFile.aggregate({
+    where: { userId, url: { in: files } },
+    _sum: { size: true },
+  });
+  const storage = await checkEntitlement(userId, "storage", {
+    adding: stored._sum.size ?? 0,
+  });
+  if (!storage.allowed) throw new Error(storage.reason);
 }
 
-export async function createKb(params: CreateKbParams) {
-  const {
-    title,
-    description,
-    personality,
-    voice,
-    primaryColor,
-    accentColor,
-    faq,
-    url,
-    files,
-    allowedOrigins,
-    language,
-  } = params;
+export async function createKb(params: CreateKnowledgeBaseParams) {
+  const { ownerId } = await requireWorkspacePermission("edit");
 
-  const session = await auth();
-  const userId = session?.user?.id;
-  if (!userId) throw new Error("Not authenticated");
-
-  // Check subscription and agent limit
-  const agentCheck = await checkAgentLimit(userId);
-  if (!agentCheck.allowed) {
-    // Provide detailed error message based on the reason
-    if (agentCheck.requiresUpgrade) {
-      throw new Error(
-        agentCheck.reason ||
-          "Agent limit reached. Please upgrade your plan to create more agents.",
-      );
-    }
-    throw new Error(agentCheck.reason || "Cannot create agent at this time.");
-  }
+  await assertAgentLimit(ownerId);
+  await assertFileEntitlements(ownerId, params.files);
 
   try {
-    const kb = await prisma.knowledgeBase.create({
-      data: {
-        title,
-        description,
-        userId,
-        metadata: {
-          personality,
-          voice,
-          primaryColor,
-          accentColor,
-          faq,
-          url,
-          files,
-          allowedOrigins,
-          language,
-        },
-      },
-    });
-
-    const bot = await prisma.bot.create({
-      data: {
-        name: title,
-        userId,
-        description,
-        status: "DEPLOYED",
-        knowledgeBaseId: kb.id,
-      },
-    });
-
-    const updatedKb = await prisma.knowledgeBase.update({
-      where: { id: kb.id },
-      data: {
-        bot: { connect: { id: bot.id } },
-      },
-    });
-
-    if (files && Array.isArray(files) && files.length > 0) {
-      await prisma.uploadedFile.updateMany({
-        where: {
-          userId,
-          url: { in: files },
-          kbId: null,
-        },
-        data: {
-          kbId: kb.id,
-        },
-      });
-    }
-
-    return { bot, kb: updatedKb };
+    return await createKnowledgeBase(ownerId, params);
   } catch (error) {
     console.error("createKb error:", error);
 
@@ -154,7 +118,10 @@ export async function createKb(params: CreateKbParams) {
   }
 }
 
-export async function updateKb(botId: string, params: CreateKbParams) {
+export async function updateKb(
+  botId: string,
+  params: CreateKnowledgeBaseParams,
+) {
   const {
     title,
     description,
@@ -167,35 +134,34 @@ export async function updateKb(botId: string, params: CreateKbParams) {
     files,
     allowedOrigins,
     language,
+    crawl,
   } = params;
 
   try {
-    const session = await auth();
-    const userId = session?.user?.id;
-    if (!userId) throw new Error("Not authenticated");
-
     const bot = await prisma.bot.findUnique({
-      where: { id: botId, userId },
-      include: { knowledgeBase: true },
+      where: { id: botId },
+      select: { id: true, knowledgeBaseId: true },
     });
+    if (!bot) throw new Error("Bot or Knowledge Base not found");
 
-    if (!bot || !bot.knowledgeBase) {
-      throw new Error("Bot or Knowledge Base not found");
-    }
+    const { kb } = await requireKbAccess(
+      await auth(),
+      bot.knowledgeBaseId,
+      "update",
+    );
 
-    // Verify user owns this bot (already checked in findUnique, but explicit for security)
-    if (bot.userId !== userId) {
-      throw new Error("Unauthorized: You don't own this bot");
-    }
+    await assertFileEntitlements(kb.userId, files);
 
     // Update both in a transaction
     const [updatedKb, updatedBot] = await prisma.$transaction([
       prisma.knowledgeBase.update({
-        where: { id: bot.knowledgeBase.id },
+        where: { id: kb.id },
         data: {
           title,
           description,
           metadata: {
+            // keep settings managed elsewhere (retrieval weights, API key hash)
+            ...((kb.metadata as Record<string, unknown>) ?? {}),
             personality,
             voice,
             primaryColor,
@@ -205,6 +171,7 @@ export async function updateKb(botId: string, params: CreateKbParams) {
             files,
             allowedOrigins,
             language,
+            crawl: resolveCrawlSettings(crawl),
           },
         },
       }),
@@ -230,51 +197,280 @@ export async function updateKb(botId: string, params: CreateKbParams) {
   }
 }
 
-export async function deleteKb(kbId: string) {
-  try {
-    const existingKb = await prisma.knowledgeBase.findUnique({
-      where: { id: kbId },
-    });
-    if (!existingKb) throw new Error("Knowledge Base not found");
+export type RetrievalSettings = {
+  vectorWeight: number;
+  keywordWeight: number;
+};
 
-    const files = await prisma.uploadedFile.findMany({
-      where: { kbId: existingKb.id },
-      select: { meta: true },
-    });
+const MAX_RETRIEVAL_WEIGHT = 5;
 
-    const filesValidation =
-      files && Array.isArray(files) && files.length > 0 ? true : false;
+export async function updateRetrievalSettings(
+  kbId: string,
+  settings: RetrievalSettings,
+) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "update");
 
-    if (filesValidation) {
-      const filePaths = files
-        .map((f) => (f.meta as { storagePath: string })?.storagePath)
-        .filter((p): p is string => Boolean(p)) as string[];
+  const { vectorWeight, keywordWeight } = settings;
+  const valid = (w: number) =>
+    Number.isFinite(w) && w >= 0 && w <= MAX_RETRIEVAL_WEIGHT;
+  if (!valid(vectorWeight) || !valid(keywordWeight)) {
+    throw new Error(`Weights must be between 0 and ${MAX_RETRIEVAL_WEIGHT}`);
+  }
+  if (vectorWeight === 0 && keywordWeight === 0) {
+    throw new Error("At least one weight must be greater than 0");
+  }
 
-      await deleteFilesFromFirebase(filePaths);
-    }
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      metadata: {
+        ...((kb.metadata as Record<string, unknown>) ?? {}),
+        retrieval: { vectorWeight, keywordWeight },
+      },
+    },
+  });
+}
 
-    let deleteTransactions = [];
+export async function updateMemorySettings(
+  kbId: string,
+  settings: MemorySettings,
+) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "update");
+
+  const { windowSize, ttlMinutes } = settings;
+  if (
+    !Number.isInteger(windowSize) ||
+    windowSize < 0 ||
+    windowSize > MAX_MEMORY_WINDOW
+  ) {
+    throw new Error(`Window size must be between 0 and ${MAX_MEMORY_WINDOW}`);
+  }
+  if (
+    !Number.isInteger(ttlMinutes) ||
+    ttlMinutes < 1 ||
+    ttlMinutes > MAX_MEMORY_TTL_MINUTES
+  ) {
+    throw new Error(
+      `Memory TTL must be between 1 and ${MAX_MEMORY_TTL_MINUTES} minutes`,
+    );
+  }
 
-    if (filesValidation) {
-      deleteTransactions = [
-        prisma.bot.deleteMany({ where: { knowledgeBaseId: existingKb.id } }),
-        prisma.document.deleteMany({ where: { kbId: existingKb.id } }),
-        prisma.embedding.deleteMany({ where: { kbId: existingKb.id } }),
-        prisma.uploadedFile.deleteMany({ where: { kbId: existingKb.id } }),
-        prisma.knowledgeBase.delete({ where: { id: existingKb.id } }),
-      ];
-    } else {
-      deleteTransactions = [
-        prisma.bot.deleteMany({ where: { knowledgeBaseId: existingKb.id } }),
-        prisma.document.deleteMany({ where: { kbId: existingKb.id } }),
-        prisma.embedding.deleteMany({ where: { kbId: existingKb.id } }),
-        prisma.knowledgeBase.delete({ where: { id: existingKb.id } }),
-      ];
-    }
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      metadata: {
+        ...((kb.metadata as Record<string, unknown>) ?? {}),
+        memory: { windowSize, ttlMinutes },
+      },
+    },
+  });
+}
 
-    if (deleteTransactions.length > 0) {
-      await prisma.$transaction(deleteTransactions);
+export async function updateLeadCaptureSettings(
+  kbId: string,
+  settings: LeadCaptureSettings,
+) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "update");
+
+  const fields = settings.fields.filter(
+    (f, i, all) =>
+      ["name", "email", "phone"].includes(f.key) &&
+      all.findIndex((g) => g.key === f.key) === i,
+  );
+  if (settings.enabled && fields.length === 0) {
+    throw new Error("Select at least one field to collect");
+  }
+  if (
+    !Number.isInteger(settings.afterMessages) ||
+    settings.afterMessages < 1 ||
+    settings.afterMessages > MAX_AFTER_MESSAGES
+  ) {
+    throw new Error(
+      `Ask after must be between 1 and ${MAX_AFTER_MESSAGES} messages`,
+    );
+  }
+
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      metadata: {
+        ...((kb.metadata as Record<string, unknown>) ?? {}),
+        leadCapture: {
+          enabled: settings.enabled,
+          fields: fields.map((f) => ({ key: f.key, required: f.required })),
+          trigger: settings.trigger,
+          afterMessages: settings.afterMessages,
+          intentKeywords: [
+            ...new Set(settings.intentKeywords.map((k) => k.trim())),
+          ].filter(Boolean),
+        },
+      },
+    },
+  });
+}
+
+export async function updateLimitMessage(kbId: string, message: string) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "update");
+
+  const trimmed = message.trim();
+  if (trimmed.length > MAX_LIMIT_MESSAGE_LENGTH) {
+    throw new Error("Unavailable message is too long");
+  }
+
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      metadata: {
+        ...((kb.metadata as Record<string, unknown>) ?? {}),
+        limitMessage: trimmed || null,
+      },
+    },
+  });
+}
+
+export async function updateRefreshSchedule(
+  kbId: string,
+  schedule: RefreshSchedule,
+) {
+  await requireKbAccess(await auth(), kbId, "update");
+
+  if (!Object.values(RefreshSchedule).includes(schedule)) {
+    throw new Error("Invalid refresh schedule");
+  }
+
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: { refreshSchedule: schedule, nextRefreshAt: nextRefreshAt(schedule) },
+  });
+}
+
+/** Re-checks every crawled page of a KB now; returns the pages queued. */
+export async function refreshKnowledgeBaseNow(kbId: string) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "crawl");
+
+  if (
+    kb.lastRefreshAt &&
+    Date.now() - kb.lastRefreshAt.getTime() < MIN_MANUAL_REFRESH_INTERVAL_MS
+  ) {
+    throw new Error("A refresh is already running. Try again in a few minutes");
+  }
+
+  const queued = await enqueueKbRefresh(kbId);
+  if (queued === 0) throw new Error("This knowledge base has no web pages");
+
+  return queued;
+}
+
+async function findOwnCrawlJob(kbId: string, jobId: string) {
+  await requireKbAccess(await auth(), kbId, "crawl");
+
+  const job = await prisma.crawlJob.findFirst({
+    where: { id: jobId, kbId },
+  });
+  if (!job) throw new Error("Crawl not found");
+  return job;
+}
+
+/** Stops a running crawl; returns the number of queued pages skipped. */
+export async function cancelCrawl(kbId: string, jobId: string) {
+  const job = await findOwnCrawlJob(kbId, jobId);
+  if (job.status !== "RUNNING") throw new Error("This crawl is not running");
+
+  return cancelCrawlJob(job.id);
+}
+
+/** Re-queues a crawl's failed pages; returns the number queued. */
+export async function retryFailedCrawl(kbId: string, jobId: string) {
+  const job = await findOwnCrawlJob(kbId, jobId);
+
+  const queued = await retryFailedCrawlUrls(job);
+  if (queued === 0) throw new Error("No failed pages to retry");
+
+  return queued;
+}
+
+export type HandoffSettingsInput = {
+  enabled: boolean;
+  onFallback: boolean;
+  phrases: string[];
+  message: string;
+};
+
+const MAX_HANDOFF_PHRASES = 20;
+
+export async function updateHandoffSettings(
+  kbId: string,
+  settings: HandoffSettingsInput,
+) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "update");
+
+  const phrases = [
+    ...new Set(settings.phrases.map((p) => p.trim()).filter(Boolean)),
+  ];
+  if (phrases.length > MAX_HANDOFF_PHRASES) {
+    throw new Error(`At most ${MAX_HANDOFF_PHRASES} trigger phrases allowed`);
+  }
+  const message = settings.message.trim();
+  if (message.length > 1000) throw new Error("Handoff message is too long");
+
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      metadata: {
+        ...((kb.metadata as Record<string, unknown>) ?? {}),
+        handoff: {
+          enabled: settings.enabled,
+          onFallback: settings.onFallback,
+          phrases,
+          message: message || null,
+        },
+      },
+    },
+  });
+}
+
+/** `provider: null` falls back to the server default; an empty model to the provider's default. */
+export async function updateLlmSettings(
+  kbId: string,
+  settings: { provider: LlmProviderId | null; model: string },
+) {
+  const { kb } = await requireKbAccess(await auth(), kbId, "update");
+
+  const { provider } = settings;
+  if (provider !== null && !LLM_PROVIDER_IDS.includes(provider)) {
+    throw new Error("Unknown LLM provider");
+  }
+  if (provider && !isLlmProviderConfigured(provider)) {
+    throw new Error(
+      `The ${provider} provider is not configured on this server`,
+    );
+  }
+  const model = settings.model.trim();
+  if (model.length > 100 || /\s/.test(model)) {
+    throw new Error("Invalid model name");
+  }
+
+  return prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      metadata: {
+        ...((kb.metadata as Record<string, unknown>) ?? {}),
+        llm: { provider, model: model || null },
+      },
+    },
+  });
+}
+
+export async function deleteKb(kbId: string) {
+  try {
+    await requireKbAccess(await auth(), kbId, "delete");
+
+    const report = await purgeKnowledgeBase(kbId);
+    if (report.errors.length) {
+      console.warn("deleteKb finished with cleanup errors:", report);
     }
+
+    return report;
   } catch (error) {
     console.error(error);
     throw new Error(
@@ -289,9 +485,18 @@ export async function deleteUploadedFileUrl(url: string) {
   try {
     const file = await prisma.uploadedFile.findFirstOrThrow({
       where: { url },
-      select: { meta: true },
+      select: { userId: true, kbId: true, meta: true },
     });
 
+    // Files saved to a KB follow its access rules; ones for a KB still
+    // being created belong to the workspace they were uploaded in
+    if (file.kbId) {
+      await requireKbAccess(await auth(), file.kbId, "update");
+    } else {
+      const { ownerId } = await requireWorkspacePermission("edit");
+      if (file.userId !== ownerId) throw new Error("File not found");
+    }
+
     const fileMeta = file.meta as { storagePath?: string };
     const filePath = fileMeta?.storagePath;
 
@@ -3,6 +3,12 @@
 
 import { getOverallAccuracy } from "@/lib/analytics/getAccuracy";
 import { prisma } from "@/lib/prisma";
+import {
+  overageCapFor,
+  overageCostCents,
+} from "@/lib/subscription/checkUsageLimits";
+import { quotaPercent, resolveAlertThresholds } from "@/lib/usage/alerts";
+import { planTokenQuota } from "@/lib/usage/metering";
 import { PlanName, SubscriptionStatus } from "@prisma/client";
 
 export type SeriesPoint = { date: string; value: number };
@@ -13,6 +19,10 @@ export type UserUsage = {
   planName?: string;
   minutesUsed: number;
   monthlyQuota: number;
+  tokensUsed: number; // LLM input + output tokens
+  tokenQuota: number | null; // null for admins (unlimited)
+  overage?: OverageProjection; // only when the user opted in
+  usageAlert?: UsageAlertBanner; // highest alert threshold crossed
   responseAccuracy?: number | string;
   interactionsSeries?: SeriesPoint[];
   channelCounts?: {
@@ -25,6 +35,20 @@ export type UserUsage = {
   isMaintenancePlan: boolean;
   requiresUpgrade: boolean;
 };
+export type UsageAlertBanner = {
+  threshold: number;
+  percent: number;
+};
+export type OverageProjection = {
+  minutes: number; // past the quota so far this period
+  costCents: number;
+  projectedCostCents: number; // at the current pace, until period end
+  capCents: number;
+};
+
+// minutes are metered from audio seconds, so show one decimal
+const roundMinutes = (minutes: number) => Math.round(minutes * 10) / 10;
+
 export type channelCounts = {
   website?: number;
   whatsapp?: number;
@@ -42,7 +66,13 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
   // Check if user is admin
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { role: true },
+    select: {
+      role: true,
+      overageEnabled: true,
+      overageCapCents: true,
+      usageAlertsEnabled: true,
+      usageAlertThresholds: true,
+    },
   });
 
   const isAdmin = user?.role === "ADMIN";
@@ -70,6 +100,7 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
         _sum: {
           interactions: true,
           minutes: true,
+          tokens: true,
           website: true,
           whatsapp: true,
           facebook: true,
@@ -108,8 +139,10 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
         botCount,
         botLimit: 999, // Unlimited
         planName: "ADMIN",
-        minutesUsed: adminUsage._sum.minutes ?? 0,
+        minutesUsed: roundMinutes(adminUsage._sum.minutes ?? 0),
         monthlyQuota: -1, // unlimited
+        tokensUsed: adminUsage._sum.tokens ?? 0,
+        tokenQuota: null,
         responseAccuracy:
           accuracy.accuracyFallbackAware ?? accuracy.accuracySimple ?? "—",
         interactionsSeries: Object.entries(seriesMap).map(([date, value]) => ({
@@ -154,6 +187,7 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
         _sum: {
           interactions: true,
           minutes: true,
+          tokens: true,
           website: true,
           whatsapp: true,
           facebook: true,
@@ -192,8 +226,10 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
         botCount,
         botLimit: 999, // Unlimited
         planName: "ADMIN",
-        minutesUsed: adminUsage._sum.minutes ?? 0,
+        minutesUsed: roundMinutes(adminUsage._sum.minutes ?? 0),
         monthlyQuota: -1, // unlimited
+        tokensUsed: adminUsage._sum.tokens ?? 0,
+        tokenQuota: null,
         responseAccuracy:
           accuracy.accuracyFallbackAware ?? accuracy.accuracySimple ?? "—",
         interactionsSeries: Object.entries(seriesMap).map(([date, value]) => ({
@@ -245,6 +281,7 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
       _sum: {
         interactions: true,
         minutes: true,
+        tokens: true,
         website: true,
         whatsapp: true,
         facebook: true,
@@ -253,7 +290,55 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
     });
 
     const totalInteractions = periodSums._sum.interactions ?? 0;
-    const minutesUsed = periodSums._sum.minutes ?? 0;
+    const minutesUsed = roundMinutes(periodSums._sum.minutes ?? 0);
+    const tokensUsed = periodSums._sum.tokens ?? 0;
+    const tokenQuota = subscription?.plan
+      ? planTokenQuota(subscription.plan)
+      : null;
+
+    // Same thresholds the alert emails use
+    let usageAlert: UsageAlertBanner | undefined;
+    if (subscription && planName !== PlanName.ENTERPRISE) {
+      const percent = quotaPercent(
+        { minutes: minutesUsed, tokens: tokensUsed },
+        subscription.plan,
+      );
+      const crossed = resolveAlertThresholds(user).filter((t) => percent >= t);
+      if (crossed.length > 0) {
+        usageAlert = { threshold: Math.max(...crossed), percent };
+      }
+    }
+
+    // Overage so far and where this period's pace will take it (capped)
+    let overage: OverageProjection | undefined;
+    const capCents = subscription?.plan
+      ? overageCapFor(user, subscription.plan)
+      : null;
+    if (subscription && capCents !== null) {
+      const periodEnd =
+        subscription.currentPeriodEnd ??
+        new Date(periodStart.getTime() + 30 * 24 * 60 * 60 * 1000);
+      const elapsed = Math.max(1, now.getTime() - periodStart.getTime());
+      const length = Math.max(
+        elapsed,
+        periodEnd.getTime() - periodStart.getTime(),
+      );
+      const projectedMinutes = minutesUsed * (length / elapsed);
+      const overMinutes = Math.max(0, minutesUsed - monthlyQuota);
+
+      overage = {
+        minutes: roundMinutes(overMinutes),
+        costCents: overageCostCents(overMinutes, subscription.plan.name),
+        projectedCostCents: Math.min(
+          capCents,
+          overageCostCents(
+            projectedMinutes - monthlyQuota,
+            subscription.plan.name,
+          ),
+        ),
+        capCents,
+      };
+    }
 
     const channelCounts = {
       website: periodSums._sum.website ?? 0,
@@ -304,6 +389,10 @@ export async function getUserUsage(userId: string): Promise<UserUsage | null> {
       planName: planName ?? "NONE", // Explicitly show no plan
       minutesUsed,
       monthlyQuota,
+      tokensUsed,
+      tokenQuota,
+      overage,
+      usageAlert,
       responseAccuracy,
       interactionsSeries,
       channelCounts,
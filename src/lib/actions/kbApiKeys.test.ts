@@ -0,0 +1,92 @@
+import type { WorkspaceRole } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auth } from "../auth";
+import { issueKbApiKey, reissueKbApiKey } from "../kb/kbApiKeys";
+import { prisma } from "../prisma";
+import { getWorkspaceRole } from "../workspaces/workspaceAccess";
+import { createKbApiKey, revokeKbApiKey, rotateKbApiKey } from "./kbApiKeys";
+
+vi.mock("../auth", () => ({ auth: vi.fn() }));
+vi.mock("../prisma", () => ({
+  prisma: {
+    knowledgeBase: { findUnique: vi.fn() },
+    auditLog: { create: vi.fn() },
+    apiKey: { findUnique: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+vi.mock("next/headers", () => ({ headers: async () => new Headers() }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("../workspaces/workspaceAccess", () => ({
+  getWorkspaceRole: vi.fn(),
+}));
+vi.mock("../kb/kbApiKeys", () => ({
+  issueKbApiKey: vi.fn(),
+  reissueKbApiKey: vi.fn(),
+}));
+vi.mock("../subscription/checkUsageLimits", () => ({
+  checkEntitlement: vi.fn(async () => ({ allowed: true })),
+}));
+
+const KB_ID = "64b7f0c2a1b2c3d4e5f60718";
+const KEY_ID = "64b7f0c2a1b2c3d4e5f60720";
+
+const actions = {
+  createKbApiKey: () =>
+    createKbApiKey({
+      kbId: KB_ID,
+      label: "Site",
+      expiresInDays: null,
+      lang: "en",
+    }),
+  rotateKbApiKey: () => rotateKbApiKey(KEY_ID, "en"),
+  revokeKbApiKey: () => revokeKbApiKey(KEY_ID, "en"),
+};
+const actionNames = Object.keys(actions) as (keyof typeof actions)[];
+
+function signIn(userId: string, role: WorkspaceRole | null) {
+  vi.mocked(auth as unknown as () => Promise<unknown>).mockResolvedValue({
+    user: { id: userId, role: "USER" },
+  });
+  vi.mocked(getWorkspaceRole).mockResolvedValue(role);
+}
+
+function expectNoKeyChanges() {
+  expect(issueKbApiKey).not.toHaveBeenCalled();
+  expect(reissueKbApiKey).not.toHaveBeenCalled();
+  expect(prisma.apiKey.updateMany).not.toHaveBeenCalled();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(prisma.knowledgeBase.findUnique).mockResolvedValue({
+    id: KB_ID,
+    userId: "owner-1",
+    title: "Support",
+    metadata: {},
+    lastRefreshAt: null,
+  } as never);
+  vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+    kbId: KB_ID,
+  } as never);
+});
+
+describe("KB API key actions", () => {
+  it.each(actionNames)(
+    "%s rejects callers from other workspaces",
+    async (name) => {
+      signIn("stranger", null);
+
+      await expect(actions[name]()).rejects.toThrow("Knowledge Base not found");
+      expectNoKeyChanges();
+    },
+  );
+
+  it.each(actionNames)("%s is forbidden to editors", async (name) => {
+    signIn("editor", "EDITOR");
+
+    await expect(actions[name]()).rejects.toThrow(
+      "Your role in this workspace doesn't allow this",
+    );
+    expectNoKeyChanges();
+  });
+});
@@ -0,0 +1,97 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { auth } from "../auth";
+import { SupportedLang } from "../dictionaries";
+import { issueKbApiKey, reissueKbApiKey } from "../kb/kbApiKeys";
+import { prisma } from "../prisma";
+import { checkEntitlement } from "../subscription/checkUsageLimits";
+import { requireKbAccess } from "../workspaces/kbAccess";
+
+const MAX_EXPIRY_DAYS = 730;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long a rotated key keeps working while sites switch to the new one
+const ROTATION_GRACE_MS = DAY_MS;
+
+/** Resolves the KB a key belongs to and checks the caller may manage it. */
+async function requireKeyAccess(keyId: string) {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { id: keyId },
+    select: { kbId: true },
+  });
+  if (!apiKey?.kbId) throw new Error("API key not found");
+
+  return requireKbAccess(await auth(), apiKey.kbId, "manage_keys");
+}
+
+async function assertApiAccess(ownerId: string) {
+  // The workspace owner's plan decides
+  const entitlement = await checkEntitlement(ownerId, "apiAccess");
+  if (!entitlement.allowed) throw new Error(entitlement.reason);
+}
+
+/**
+ * Adds a key to a knowledge base; existing keys stay valid. Returns the
+ * plaintext key, which can't be shown again.
+ */
+export async function createKbApiKey(params: {
+  kbId: string;
+  label: string;
+  expiresInDays: number | null;
+  lang: SupportedLang;
+}) {
+  const { kb } = await requireKbAccess(
+    await auth(),
+    params.kbId,
+    "manage_keys",
+  );
+  await assertApiAccess(kb.userId);
+
+  const days = params.expiresInDays;
+  if (
+    days !== null &&
+    (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS)
+  ) {
+    throw new Error(`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`);
+  }
+
+  const { key } = await issueKbApiKey(kb, {
+    label: params.label,
+    expiresAt: days === null ? null : new Date(Date.now() + days * DAY_MS),
+  });
+
+  revalidatePath(`/${params.lang}/dashboard/deploy/${kb.id}`);
+  return key;
+}
+
+/**
+ * Replaces a key with a new one; the old key keeps working for a grace
+ * period. Returns the new plaintext key and when the old one stops working.
+ */
+export async function rotateKbApiKey(keyId: string, lang: SupportedLang) {
+  const { kb } = await requireKeyAccess(keyId);
+  await assertApiAccess(kb.userId);
+
+  const { key, previousExpiresAt } = await reissueKbApiKey(
+    kb.id,
+    keyId,
+    ROTATION_GRACE_MS,
+  );
+
+  revalidatePath(`/${lang}/dashboard/deploy/${kb.id}`);
+  return { key, previousExpiresAt };
+}
+
+/** Stops a key from working immediately. */
+export async function revokeKbApiKey(keyId: string, lang: SupportedLang) {
+  const { kb } = await requireKeyAccess(keyId);
+
+  const { count } = await prisma.apiKey.updateMany({
+    where: { id: keyId, kbId: kb.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) throw new Error("API key not found");
+
+  revalidatePath(`/${lang}/dashboard/deploy/${kb.id}`);
+}
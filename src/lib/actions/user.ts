@@ -5,6 +5,7 @@ import { revalidatePath } from "next/cache";
 import z from "zod";
 import { auth } from "../auth";
 import { SupportedLang } from "../dictionaries";
+import { KbPurgeReport, purgeKnowledgeBase } from "../kb/purgeKnowledgeBase";
 import { prisma } from "../prisma";
 import { editUserSchema } from "../schemas/admin";
 
@@ -105,9 +106,21 @@ export async function deleteUser({
     if (!session?.user?.id) throw new Error("Not authenticated");
     if (session.user.role !== "ADMIN") throw new Error("Not authorized");
 
+    // Purge KBs first so vectors, caches and linked data don't outlive the user
+    const kbs = await prisma.knowledgeBase.findMany({
+      where: { userId: id },
+      select: { id: true },
+    });
+    const reports: KbPurgeReport[] = [];
+    for (const kb of kbs) {
+      reports.push(await purgeKnowledgeBase(kb.id));
+    }
+
     await prisma.user.delete({ where: { id } });
 
     revalidatePath(`${lang}/admin/users`);
+
+    return reports;
   } catch (error) {
     console.log(error);
     throw error;
@@ -0,0 +1,277 @@
+"use server";
+
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { auth } from "../auth";
+import { getDictionary, SupportedLang } from "../dictionaries";
+import { notifyWorkspaceInvitation } from "../notifier";
+import { prisma } from "../prisma";
+import {
+  AssignableWorkspaceRole,
+  isAssignableWorkspaceRole,
+} from "../workspaces/roles";
+import {
+  ACTIVE_WORKSPACE_COOKIE,
+  hashInvitationToken,
+  requireWorkspacePermission,
+} from "../workspaces/workspaceAccess";
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_WORKSPACE_NAME_LENGTH = 60;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Makes `workspaceId` the one the dashboard shows; the user must be a member. */
+export async function switchWorkspace(workspaceId: string) {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) throw new Error("Not authenticated");
+
+  const member = await prisma.workspaceMember.findFirst({
+    where: { workspaceId, userId },
+    select: { id: true },
+  });
+  if (!member) throw new Error("Workspace not found");
+
+  (await cookies()).set(ACTIVE_WORKSPACE_COOKIE, workspaceId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+  });
+  revalidatePath("/", "layout");
+}
+
+export async function renameWorkspace(name: string, lang: SupportedLang) {
+  const workspace = await requireWorkspacePermission("manage");
+
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Workspace name is required");
+  if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    throw new Error("Workspace name is too long");
+  }
+
+  await prisma.workspace.update({
+    where: { id: workspace.workspaceId },
+    data: { name: trimmed },
+  });
+  revalidatePath(`/${lang}/dashboard`, "layout");
+}
+
+/**
+ * Emails a link that adds `email` to the active workspace. Inviting the same
+ * address again replaces the pending invitation. Only the owner can invite
+ * admins.
+ */
+export async function inviteWorkspaceMember(params: {
+  email: string;
+  role: AssignableWorkspaceRole;
+  lang: SupportedLang;
+}) {
+  const workspace = await requireWorkspacePermission("manage");
+  const { role, lang } = params;
+
+  const email = params.email.trim().toLowerCase();
+  if (!EMAIL_RE.test(email)) throw new Error("Enter a valid email address");
+  if (!isAssignableWorkspaceRole(role)) throw new Error("Invalid role");
+  if (role === "ADMIN" && workspace.role !== "OWNER") {
+    throw new Error("Only the workspace owner can invite admins");
+  }
+
+  const alreadyMember = await prisma.workspaceMember.findFirst({
+    where: {
+      workspaceId: workspace.workspaceId,
+      user: { is: { email } },
+    },
+    select: { id: true },
+  });
+  if (alreadyMember) throw new Error("This person is already a member");
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+  await prisma.workspaceInvitation.deleteMany({
+    where: { workspaceId: workspace.workspaceId, email, acceptedAt: null },
+  });
+  const invitation = await prisma.workspaceInvitation.create({
+    data: {
+      workspaceId: workspace.workspaceId,
+      email,
+      role,
+      tokenHash: hashInvitationToken(token),
+      invitedById: workspace.userId,
+      expiresAt,
+    },
+    select: { id: true, email: true, role: true, expiresAt: true },
+  });
+
+  const [inviter, dict] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: workspace.userId },
+      select: { name: true, email: true },
+    }),
+    getDictionary(lang),
+  ]);
+  const t = dict.dashboard_team;
+  const roleLabels: Record<AssignableWorkspaceRole, string> = {
+    ADMIN: t.role_admin,
+    EDITOR: t.role_editor,
+    VIEWER: t.role_viewer,
+    AGENT: t.role_agent,
+  };
+  await notifyWorkspaceInvitation(email, {
+    workspaceName: workspace.name,
+    inviterName: inviter?.name || inviter?.email,
+    role: roleLabels[role],
+    link: `${process.env.BASE_URL}/${lang}/dashboard/invite/${token}`,
+    expiresAt,
+    language: lang,
+  });
+
+  revalidatePath(`/${lang}/dashboard/settings/team`);
+  return invitation;
+}
+
+export async function revokeWorkspaceInvitation(
+  invitationId: string,
+  lang: SupportedLang,
+) {
+  const workspace = await requireWorkspacePermission("manage");
+
+  const { count } = await prisma.workspaceInvitation.deleteMany({
+    where: {
+      id: invitationId,
+      workspaceId: workspace.workspaceId,
+      acceptedAt: null,
+    },
+  });
+  if (count === 0) throw new Error("Invitation not found");
+
+  revalidatePath(`/${lang}/dashboard/settings/team`);
+}
+
+async function findManagedMember(memberId: string) {
+  const workspace = await requireWorkspacePermission("manage");
+
+  const member = await prisma.workspaceMember.findFirst({
+    where: { id: memberId, workspaceId: workspace.workspaceId },
+    select: { id: true, userId: true, role: true },
+  });
+  if (!member) throw new Error("Member not found");
+  if (member.role === "OWNER") {
+    throw new Error("The workspace owner can't be changed or removed");
+  }
+  if (member.role === "ADMIN" && workspace.role !== "OWNER") {
+    throw new Error("Only the workspace owner can change admins");
+  }
+
+  return { workspace, member };
+}
+
+export async function updateWorkspaceMemberRole(
+  memberId: string,
+  role: AssignableWorkspaceRole,
+  lang: SupportedLang,
+) {
+  if (!isAssignableWorkspaceRole(role)) throw new Error("Invalid role");
+
+  const { workspace, member } = await findManagedMember(memberId);
+  if (role === "ADMIN" && workspace.role !== "OWNER") {
+    throw new Error("Only the workspace owner can make someone an admin");
+  }
+
+  await prisma.workspaceMember.update({
+    where: { id: member.id },
+    data: { role },
+  });
+  revalidatePath(`/${lang}/dashboard/settings/team`);
+}
+
+export async function removeWorkspaceMember(
+  memberId: string,
+  lang: SupportedLang,
+) {
+  const { member } = await findManagedMember(memberId);
+
+  await prisma.workspaceMember.delete({ where: { id: member.id } });
+  revalidatePath(`/${lang}/dashboard/settings/team`);
+}
+
+/** Leaves a workspace the user was invited to; their own can't be left. */
+export async function leaveWorkspace(workspaceId: string) {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) throw new Error("Not authenticated");
+
+  const member = await prisma.workspaceMember.findFirst({
+    where: { workspaceId, userId },
+    select: { id: true, role: true },
+  });
+  if (!member) throw new Error("Workspace not found");
+  if (member.role === "OWNER") {
+    throw new Error("You can't leave your own workspace");
+  }
+
+  await prisma.workspaceMember.delete({ where: { id: member.id } });
+
+  const cookieStore = await cookies();
+  if (cookieStore.get(ACTIVE_WORKSPACE_COOKIE)?.value === workspaceId) {
+    cookieStore.delete(ACTIVE_WORKSPACE_COOKIE);
+  }
+  revalidatePath("/", "layout");
+}
+
+/**
+ * Joins the workspace of an invitation sent to the signed-in user's email
+ * and makes it the active one. Returns the workspace id.
+ */
+export async function acceptWorkspaceInvitation(token: string) {
+  const session = await auth();
+  const userId = session?.user?.id;
+  const email = session?.user?.email?.toLowerCase();
+  if (!userId || !email) throw new Error("Not authenticated");
+
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    select: {
+      id: true,
+      workspaceId: true,
+      email: true,
+      role: true,
+      expiresAt: true,
+      acceptedAt: true,
+    },
+  });
+  if (!invitation || invitation.acceptedAt) {
+    throw new Error("This invitation is no longer valid");
+  }
+  if (invitation.expiresAt < new Date()) {
+    throw new Error("This invitation has expired");
+  }
+  if (invitation.email !== email) {
+    throw new Error("This invitation was sent to a different email address");
+  }
+
+  await prisma.$transaction([
+    prisma.workspaceMember.upsert({
+      where: {
+        workspaceId_userId: { workspaceId: invitation.workspaceId, userId },
+      },
+      // Someone already in the workspace keeps their role
+      update: {},
+      create: {
+        workspaceId: invitation.workspaceId,
+        userId,
+        role: invitation.role,
+      },
+    }),
+    prisma.workspaceInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() },
+    }),
+  ]);
+
+  await switchWorkspace(invitation.workspaceId);
+  return invitation.workspaceId;
+}
@@ -1,5 +1,11 @@
 // lib/analytics/logInteraction.ts
 import { prisma } from "@/lib/prisma";
+import {
+  totalTokens,
+  UsageDimensions,
+  voiceMinutes,
+  voiceSeconds,
+} from "@/lib/usage/metering";
 import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
 import { randomUUID } from "crypto";
 
@@ -10,7 +16,7 @@ type LogParams = {
   botId: string;
   channel?: Channel;
   interactions?: number; // usually 1
-  minutes?: number; // 0 for text chat, seconds or minutes for calls
+  usage?: UsageDimensions; // measured audio seconds and LLM tokens
   isCorrect?: boolean; // thumbs-up or auto-detected correct
   isNegative?: boolean; // thumbs-down
   isFallback?: boolean; // bot returned fallback / handed off
@@ -28,7 +34,7 @@ export async function logInteraction(params: LogParams) {
     botId,
     channel = "website",
     interactions = 1,
-    minutes = 0,
+    usage = {},
     isCorrect = false,
     isNegative = false,
     isFallback = false,
@@ -37,6 +43,9 @@ export async function logInteraction(params: LogParams) {
   } = params;
 
   const day = new Date().toISOString().slice(0, 10);
+  const minutes = voiceMinutes(usage);
+  const audioSeconds = voiceSeconds(usage);
+  const tokens = totalTokens(usage);
 
   // Merge base metadata with additional meta
   const combinedMeta = {
@@ -66,6 +75,11 @@ export async function logInteraction(params: LogParams) {
         date: new Date(),
         interactions,
         minutes,
+        audioInputSeconds: usage.audioInputSeconds ?? 0,
+        audioOutputSeconds: usage.audioOutputSeconds ?? 0,
+        realtimeSeconds: usage.realtimeSeconds ?? 0,
+        inputTokens: usage.inputTokens ?? 0,
+        outputTokens: usage.outputTokens ?? 0,
         meta: combinedMeta,
       },
     });
@@ -103,6 +117,8 @@ export async function logInteraction(params: LogParams) {
       update: {
         interactions: { increment: interactions },
         minutes: { increment: minutes },
+        audioSeconds: { increment: audioSeconds },
+        tokens: { increment: tokens },
         website: { increment: channel === "website" ? interactions : 0 },
         whatsapp: { increment: channel === "whatsapp" ? interactions : 0 },
         facebook: { increment: channel === "facebook" ? interactions : 0 },
@@ -117,6 +133,8 @@ export async function logInteraction(params: LogParams) {
         day,
         interactions,
         minutes: minutes,
+        audioSeconds,
+        tokens,
         website: channel === "website" ? interactions : 0,
         whatsapp: channel === "whatsapp" ? interactions : 0,
         facebook: channel === "facebook" ? interactions : 0,
@@ -0,0 +1,110 @@
+// lib/analytics/recordFeedback.ts
+import { prisma } from "@/lib/prisma";
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+
+export type FeedbackRating = "up" | "down";
+
+type FeedbackParams = {
+  eventId: string; // Usage.eventId returned with the rated answer
+  kbId: string; // KB the widget token was issued for
+  rating: FeedbackRating;
+  comment?: string | null;
+};
+
+type Verdict = { isCorrect: boolean; isNegative: boolean };
+
+function verdictFor(rating: FeedbackRating): Verdict {
+  return { isCorrect: rating === "up", isNegative: rating === "down" };
+}
+
+/**
+ * Records a thumbs-up / thumbs-down for one answer and moves that answer's
+ * contribution in AggregatedUsage from the auto-detected verdict (or the
+ * previous rating) to the user's rating. Re-sending the same rating is a no-op,
+ * so counters stay correct when the widget retries.
+ */
+export async function recordFeedback(params: FeedbackParams) {
+  const { eventId, kbId, rating } = params;
+  const comment = params.comment?.trim().slice(0, 1000) || null;
+
+  const usage = await prisma.usage.findUnique({
+    where: { eventId },
+    select: { userId: true, botId: true, date: true, meta: true },
+  });
+  const meta = (usage?.meta as Record<string, unknown> | null) ?? {};
+
+  if (!usage?.userId || !usage.botId || meta.kbId !== kbId) {
+    return { ok: false as const, reason: "not_found" };
+  }
+
+  const { userId, botId } = usage;
+  const day = usage.date.toISOString().slice(0, 10);
+
+  let previous = await prisma.feedback.findUnique({ where: { eventId } });
+
+  if (!previous) {
+    try {
+      await prisma.feedback.create({
+        data: {
+          eventId,
+          userId,
+          botId,
+          kbId,
+          conversationId:
+            typeof meta.conversationId === "string"
+              ? meta.conversationId
+              : null,
+          day,
+          rating,
+          comment,
+        },
+      });
+    } catch (err: unknown) {
+      if (!(err instanceof PrismaClientKnownRequestError)) throw err;
+      if (err.code !== "P2002") throw err;
+
+      // Lost a race with a concurrent submission; treat ours as a change
+      previous = await prisma.feedback.findUnique({ where: { eventId } });
+    }
+  }
+
+  if (previous) {
+    await prisma.feedback.update({
+      where: { eventId },
+      data: { rating, ...(comment && { comment }) },
+    });
+
+    if (previous.rating === rating) {
+      return { ok: true as const, reason: "unchanged" };
+    }
+  }
+
+  // What the counters currently hold for this answer
+  const before: Verdict = previous
+    ? verdictFor(previous.rating as FeedbackRating)
+    : {
+        isCorrect: meta.isCorrect === true,
+        isNegative: meta.isNegative === true,
+      };
+  const after = verdictFor(rating);
+
+  const correctDelta = Number(after.isCorrect) - Number(before.isCorrect);
+  const negativeDelta = Number(after.isNegative) - Number(before.isNegative);
+
+  if (correctDelta || negativeDelta) {
+    try {
+      await prisma.aggregatedUsage.updateMany({
+        where: { userId, botId, day },
+        data: {
+          correctResponses: { increment: correctDelta },
+          negativeResponses: { increment: negativeDelta },
+        },
+      });
+    } catch (err) {
+      console.error("Failed to apply feedback to aggregated usage:", err);
+      return { ok: true as const, warning: "aggregated_usage_failed" };
+    }
+  }
+
+  return { ok: true as const };
+}
@@ -0,0 +1,274 @@
+// lib/answer/answerQuestion.ts
+import { Channel, logInteraction } from "@/lib/analytics/logInteraction";
+import { HistoryTurn } from "@/lib/conversations/persistConversation";
+import type { ChunkMetadata } from "@/lib/embedding-service";
+import {
+  GenerateRequest,
+  getLlmProvider,
+  resolveLlmSettings,
+  TokenUsage,
+} from "@/lib/llm";
+import { CacheService, createHash } from "@/lib/upstash";
+import { estimateTokens, UsageDimensions } from "@/lib/usage/metering";
+import crypto from "crypto";
+import {
+  AnswerLanguage,
+  buildAnswerPrompt,
+  channelGuidelines,
+  detectLanguage,
+} from "./prompt";
+import { retrieveSources } from "./retrieval";
+
+export type AnswerKb = {
+  id: string;
+  userId: string;
+  botId?: string | null;
+  metadata: unknown;
+};
+
+export type AnswerSource = {
+  index: number;
+  similarity: number;
+  meta: ChunkMetadata;
+};
+
+export type Answer = {
+  text: string;
+  sources: AnswerSource[];
+  cached: boolean;
+  isFallback: boolean;
+  isCorrect: boolean;
+  language: AnswerLanguage;
+  eventId: string; // usage row id
+  llmMs: number; // 0 when served from cache
+  promptSize: number;
+  usage: UsageDimensions; // tokens are 0 when no generation was needed
+};
+
+export type AnswerHookResult = {
+  meta?: Record<string, unknown>; // added to the usage meta
+  usage?: UsageDimensions; // e.g. seconds of speech synthesized for the answer
+};
+
+export type AnswerContext = {
+  channel: Channel;
+  history?: HistoryTurn[]; // earlier turns, oldest first
+  topK?: number;
+  // streams the answer as it's generated; cached answers arrive in one delta
+  onDelta?: (text: string) => void;
+  // runs once the answer is ready, before usage is logged; what it returns
+  // is logged with the answer (e.g. the conversation the turn was saved to)
+  onAnswer?: (answer: Answer) => Promise<AnswerHookResult | void>;
+  usage?: UsageDimensions; // what the channel measured itself (caller audio)
+  logMeta?: Record<string, unknown>;
+};
+
+export const MAX_TOP_K = Number(process.env.CHAT_MAX_TOP_K ?? 8);
+
+const CHANNEL_DEFAULTS: Record<Channel, { topK: number; maxTokens: number }> = {
+  website: {
+    topK: Number(process.env.CHAT_DEFAULT_TOP_K ?? 5),
+    maxTokens: 800,
+  },
+  whatsapp: { topK: 3, maxTokens: 300 },
+  facebook: { topK: 3, maxTokens: 300 },
+  voice: {
+    topK: Number(process.env.VOICE_RETRIEVAL_TOPK ?? 5),
+    maxTokens: 800,
+  },
+};
+
+const TEMPERATURE = 0.1;
+const PROMPT_CACHE_TTL = 1800; // seconds
+
+const FALLBACK_RE =
+  /\b(i (do not|don't) know|cannot find|no information|sorry,|unable to)/i;
+const MIN_CORRECT_LENGTH = 20;
+
+const EMPTY_ANSWER: Record<AnswerLanguage, string> = {
+  en: "I'm sorry, I couldn't generate a response right now.",
+  ar: "عذراً، لم أتمكن من إنشاء رد الآن.",
+};
+
+/** True when the answer wasn't grounded or reads like "I don't know". */
+export function isFallbackAnswer(text: string, sourceCount: number) {
+  return !sourceCount || FALLBACK_RE.test(text);
+}
+
+/**
+ * The answer pipeline shared by chat, voice and messaging: message cache,
+ * retrieval, prompt building and trimming, generation with the KB's LLM,
+ * fallback detection and usage logging. Channels differ only through
+ * `context` (history, streaming, persistence hook, measured audio).
+ * Tokens are billed only for answers that actually called the LLM.
+ *
+ * Throws when generation fails; retrieval failures just mean no sources.
+ */
+export async function answerQuestion(
+  kb: AnswerKb,
+  question: string,
+  context: AnswerContext,
+): Promise<Answer> {
+  const { channel, onDelta } = context;
+  const history = context.history ?? [];
+  const defaults = CHANNEL_DEFAULTS[channel];
+  const topK = Math.max(
+    1,
+    Math.min(MAX_TOP_K, Number(context.topK) || defaults.topK),
+  );
+  const metadata = (kb.metadata ?? {}) as Record<string, unknown>;
+
+  const cache = CacheService.getInstance();
+  const llm = resolveLlmSettings(metadata);
+  const language = detectLanguage(question);
+
+  // Follow-ups depend on the earlier turns, so only standalone questions
+  // are served from / written to the message cache.
+  const messageHash = history.length
+    ? null
+    : createHash(`${channel}:${llm.provider}:${llm.model}\n${question}`);
+  const cachedResponse = messageHash
+    ? await cache.getChatResponse(kb.id, messageHash)
+    : null;
+
+  let text: string;
+  let sources: AnswerSource[];
+  let llmMs = 0;
+  let promptSize: number;
+  let tokens: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let cached = false;
+
+  if (cachedResponse) {
+    text = cachedResponse.text;
+    sources = cachedResponse.sources ?? [];
+    promptSize = question.length;
+    cached = true;
+    onDelta?.(text);
+  } else {
+    // Search with the previous question too so short follow-ups
+    // ("and how much is it?") still retrieve the right chunks
+    const lastUserTurn = [...history].reverse().find((h) => h.role === "user");
+    const searchText = lastUserTurn
+      ? `${lastUserTurn.text}\n${question}`
+      : question;
+
+    const retrieved = await retrieveSources(kb.id, searchText, {
+      topK,
+      metadata,
+    });
+
+    const prompt = buildAnswerPrompt({
+      language,
+      personality: metadata.personality as string | undefined,
+      guidelines: channelGuidelines(channel, language),
+      sources: retrieved,
+      history,
+      question,
+    });
+    promptSize = prompt.size;
+    sources = retrieved.slice(0, prompt.sourceCount).map((r, i) => ({
+      index: i + 1,
+      similarity: r.similarity,
+      meta: r.metadata,
+    }));
+
+    const request: GenerateRequest = {
+      model: llm.model,
+      system: prompt.system,
+      messages: [{ role: "user", content: prompt.user }],
+      maxTokens: defaults.maxTokens,
+      temperature: TEMPERATURE,
+    };
+    const promptKey = `chat_llm:${createHash(
+      `${llm.provider}:${llm.model}\n${prompt.system}\n${prompt.user}`,
+    )}`;
+
+    text = (await cache.get<string>(promptKey)) ?? "";
+    if (text) {
+      onDelta?.(text);
+    } else {
+      const provider = getLlmProvider(llm.provider);
+      const start = Date.now();
+      let reported: TokenUsage | null = null;
+      if (onDelta) {
+        for await (const chunk of provider.stream(request)) {
+          if (chunk.type === "usage") {
+            reported = chunk.usage;
+            continue;
+          }
+          text += chunk.text;
+          onDelta(chunk.text);
+        }
+        text = text.trim();
+      } else {
+        ({ text, usage: reported } = await provider.generate(request));
+      }
+      llmMs = Date.now() - start;
+      tokens = reported ?? {
+        inputTokens: estimateTokens(prompt.system + prompt.user),
+        outputTokens: estimateTokens(text),
+      };
+
+      if (text) await cache.set(promptKey, text, PROMPT_CACHE_TTL);
+    }
+
+    if (!text) {
+      text = EMPTY_ANSWER[language];
+      onDelta?.(text);
+    } else if (messageHash) {
+      await cache.setChatResponse(kb.id, messageHash, { text, sources });
+    }
+  }
+
+  const isFallback = isFallbackAnswer(text, sources.length);
+  const answer: Answer = {
+    text,
+    sources,
+    cached,
+    isFallback,
+    isCorrect: !isFallback && text.length > MIN_CORRECT_LENGTH,
+    language,
+    eventId: crypto.randomUUID(),
+    llmMs,
+    promptSize,
+    usage: { ...context.usage, ...tokens },
+  };
+
+  let hook: AnswerHookResult = {};
+  try {
+    hook = (await context.onAnswer?.(answer)) ?? {};
+  } catch (err) {
+    console.warn(`answerQuestion: ${channel} answer hook failed:`, err);
+  }
+  answer.usage = { ...answer.usage, ...hook.usage };
+
+  try {
+    await logInteraction({
+      userId: kb.userId,
+      botId: kb.botId!,
+      channel,
+      interactions: 1,
+      usage: answer.usage,
+      isCorrect: answer.isCorrect,
+      isNegative: !answer.isCorrect,
+      isFallback,
+      eventId: answer.eventId,
+      meta: {
+        kbId: kb.id,
+        cached,
+        promptSize,
+        retrievedCount: sources.length,
+        responseTimeMs: llmMs,
+        historyTurns: history.length,
+        llmProvider: llm.provider,
+        llmModel: llm.model,
+        ...context.logMeta,
+        ...hook.meta,
+      },
+    });
+  } catch (err) {
+    console.warn(`answerQuestion: logInteraction failed (${channel}):`, err);
+  }
+
+  return answer;
+}
@@ -0,0 +1,159 @@
+// lib/answer/prompt.ts
+import { Channel } from "@/lib/analytics/logInteraction";
+import { HistoryTurn } from "@/lib/conversations/persistConversation";
+import { formatSources, RetrievedSource } from "./retrieval";
+
+export type AnswerLanguage = "en" | "ar";
+
+// ~4 characters per token
+export const MAX_PROMPT_CHARS =
+  Number(process.env.CHAT_MAX_CONTEXT_TOKENS ?? 3000) * 4;
+
+const COPY = {
+  en: {
+    instructions: `You are a knowledgeable assistant with direct access to our platform's knowledge base.
+
+CRITICAL INSTRUCTIONS:
+1. Answer questions directly using the information from the SOURCE blocks provided below
+2. DO NOT redirect users with phrases like "you can see it in our platform" or "check [HERE]"
+3. Extract and present the actual information from the sources in your response
+4. Be specific and detailed when answering - the sources contain the information users need
+5. Only say you don't have information if the sources genuinely don't contain relevant details
+6. Synthesize information from multiple sources when appropriate
+7. Present information naturally as if you're explaining it directly, not as if you're reading from a document`,
+    personality: "Additional guidance:",
+    retrieved: "Retrieved information from knowledge base:",
+    noSources:
+      "No specific information was retrieved from the knowledge base for this query.",
+    history: "Previous conversation:",
+    user: "User",
+    assistant: "Assistant",
+    question: "Current question:",
+    answer:
+      "Provide a direct, informative answer using the retrieved information above:",
+  },
+  ar: {
+    instructions: `أنت مساعد ذكي لديه وصول مباشر إلى قاعدة معرفة المنصة.
+
+تعليمات مهمة:
+1. أجب على الأسئلة مباشرة باستخدام المعلومات من المصادر المقدمة أدناه
+2. لا تخبر المستخدمين "يمكنك التحقق من المنصة" أو تحيلهم إلى مكان آخر
+3. استخرج وقدم المعلومات الفعلية من المصادر في إجاباتك
+4. كن دقيقاً ومفصلاً في إجاباتك - المصادر تحتوي على المعلومات التي يحتاجها المستخدمون
+5. قل فقط أنه ليس لديك معلومات إذا لم تحتوي المصادر على تفاصيل ذات صلة
+6. اجمع المعلومات من عدة مصادر عند الحاجة
+7. قدم المعلومات بشكل طبيعي كما لو كنت تشرحها مباشرة لشخص ما`,
+    personality: "إرشادات إضافية:",
+    retrieved: "المعلومات المسترجعة من قاعدة المعرفة:",
+    noSources: "لم يتم استرجاع معلومات محددة من قاعدة المعرفة لهذا السؤال.",
+    history: "المحادثة السابقة:",
+    user: "المستخدم",
+    assistant: "المساعد",
+    question: "السؤال الحالي:",
+    answer: "قدم إجابة مباشرة ومفيدة باستخدام المعلومات المسترجعة أعلاه:",
+  },
+};
+
+const MESSAGING_GUIDELINES = {
+  en: (charLimit: number, platform: string) => `MESSAGING-SPECIFIC GUIDELINES:
+- Keep responses under ${charLimit} characters when possible
+- Use a conversational, friendly tone suitable for ${platform}
+- Break long information into digestible chunks
+- Use simple language and avoid overly formal tone`,
+  ar: (charLimit: number, platform: string) => `إرشادات خاصة بالمراسلة:
+- اجعل الردود أقل من ${charLimit} حرف عندما يكون ذلك ممكناً
+- استخدم أسلوباً ودياً ومناسباً للمحادثة على ${platform}
+- قسّم المعلومات الطويلة إلى أجزاء سهلة القراءة
+- استخدم لغة بسيطة وتجنب الأسلوب الرسمي المفرط`,
+};
+
+const VOICE_GUIDELINES = {
+  en: "Be conversational, natural, and concise - this is a voice conversation. Keep responses brief and natural for voice. Aim for 2-3 sentences unless more detail is requested.",
+  ar: "كن محادثاً وطبيعياً ومختصراً - هذه محادثة صوتية. اجعل إجابتك من جملتين إلى ثلاث جمل ما لم يُطلب المزيد من التفاصيل.",
+};
+
+export function detectLanguage(text: string): AnswerLanguage {
+  return /[\u0600-\u06FF]/.test(text) ? "ar" : "en";
+}
+
+/** Channel-specific rules appended to the shared instructions. */
+export function channelGuidelines(
+  channel: Channel,
+  language: AnswerLanguage,
+): string | null {
+  switch (channel) {
+    case "whatsapp":
+      return MESSAGING_GUIDELINES[language](300, "WhatsApp");
+    case "facebook":
+      return MESSAGING_GUIDELINES[language](300, "Messenger/Instagram DMs");
+    case "voice":
+      return VOICE_GUIDELINES[language];
+    default:
+      return null;
+  }
+}
+
+export type AnswerPrompt = {
+  system: string;
+  user: string;
+  sourceCount: number; // sources left after trimming
+  size: number; // characters sent to the model
+};
+
+/**
+ * Builds the system instructions and the user turn (retrieved sources,
+ * earlier turns, question). When the result exceeds `MAX_PROMPT_CHARS` the
+ * lowest-ranked sources are dropped first, then the oldest turns.
+ */
+export function buildAnswerPrompt(params: {
+  language: AnswerLanguage;
+  personality?: string | null;
+  guidelines?: string | null;
+  sources: RetrievedSource[];
+  history: HistoryTurn[];
+  question: string;
+}): AnswerPrompt {
+  const copy = COPY[params.language];
+  const personality = params.personality?.trim();
+
+  const system = [
+    copy.instructions,
+    params.guidelines,
+    personality ? `${copy.personality} ${personality}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const blocks = formatSources(params.sources);
+  let history = params.history;
+
+  const render = () => {
+    const retrieval = blocks.length
+      ? `${copy.retrieved}\n\n${blocks.join("\n\n---\n\n")}\n\n`
+      : `${copy.noSources}\n\n`;
+    const turns = history.length
+      ? `${copy.history}\n${history
+          .map(
+            (h) =>
+              `${h.role === "assistant" ? copy.assistant : copy.user}: ${(h.text ?? "").trim()}`,
+          )
+          .join("\n")}\n\n`
+      : "";
+    return `${retrieval}${turns}${copy.question}\n${copy.user}: ${params.question.trim()}\n\n${copy.answer}\n${copy.assistant}:`;
+  };
+
+  let user = render();
+  while (system.length + user.length > MAX_PROMPT_CHARS) {
+    if (blocks.length) blocks.pop();
+    else if (history.length) history = history.slice(1);
+    else break;
+    user = render();
+  }
+
+  return {
+    system,
+    user,
+    sourceCount: blocks.length,
+    size: system.length + user.length,
+  };
+}
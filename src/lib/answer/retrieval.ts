@@ -0,0 +1,63 @@
+// lib/answer/retrieval.ts
+import { ChunkMetadata, createEmbeddings } from "@/lib/embedding-service";
+import { CacheService } from "@/lib/upstash";
+import {
+  resolveHybridWeights,
+  upstashHybridSearch,
+  upstashSearchSimilar,
+} from "@/search/upstash-search";
+
+export type RetrievedSource = {
+  text: string;
+  similarity: number;
+  metadata: ChunkMetadata;
+};
+
+export function sourceLabel(source: RetrievedSource, index: number) {
+  const { filename, sourceUrl } = source.metadata ?? {};
+  return filename || sourceUrl || `source-${index + 1}`;
+}
+
+/** The `SOURCE n (label, score=…)` blocks every prompt is grounded on. */
+export function formatSources(sources: RetrievedSource[]) {
+  return sources.map(
+    (s, i) =>
+      `SOURCE ${i + 1} (${sourceLabel(s, i)}, score=${(s.similarity || 0).toFixed(3)}):\n${s.text}`,
+  );
+}
+
+/**
+ * Hybrid (vector + BM25) retrieval for a KB using its fusion weights, with
+ * the query embedding cached in Redis. Falls back to plain vector search if
+ * the hybrid search fails and to no sources if that fails too, so callers
+ * can always answer.
+ */
+export async function retrieveSources(
+  kbId: string,
+  query: string,
+  options: { topK: number; metadata: unknown },
+): Promise<RetrievedSource[]> {
+  const cache = CacheService.getInstance();
+
+  try {
+    let queryVector = await cache.getEmbedding(query);
+    if (!Array.isArray(queryVector) || queryVector.length === 0) {
+      queryVector = (await createEmbeddings([query]))[0] ?? null;
+      if (queryVector) await cache.setEmbedding(query, queryVector);
+    }
+
+    return await upstashHybridSearch(kbId, query, {
+      topK: options.topK,
+      queryVector: queryVector ?? undefined,
+      weights: resolveHybridWeights(options.metadata),
+    });
+  } catch (err) {
+    console.error("Hybrid retrieval failed:", err);
+    try {
+      return await upstashSearchSimilar(kbId, query, options.topK);
+    } catch (fallbackErr) {
+      console.error("Fallback vector search also failed:", fallbackErr);
+      return [];
+    }
+  }
+}
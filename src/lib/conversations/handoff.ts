@@ -0,0 +1,149 @@
+// lib/conversations/handoff.ts
+import { SupportedLang } from "@/lib/dictionaries";
+import { notifyUserHandoffRequested } from "@/lib/notifier";
+import { prisma } from "@/lib/prisma";
+
+export type ConversationStatus = "bot" | "handoff";
+
+export type HandoffSettings = {
+  enabled: boolean;
+  onFallback: boolean; // also hand off when the bot can't answer
+  phrases: string[]; // extra trigger phrases on top of the defaults
+  message: string | null; // sent to the customer when a human takes over
+};
+
+export type HandoffReason = "requested" | "fallback" | "agent";
+
+// Only explicit requests; "customer service hours" must not trigger a handoff
+export const DEFAULT_HANDOFF_PHRASES = [
+  "talk to a human",
+  "speak to a human",
+  "talk to a person",
+  "speak to a person",
+  "talk to an agent",
+  "speak to an agent",
+  "talk to a real person",
+  "speak to a real person",
+  "human agent",
+  "live agent",
+  "اكلم موظف",
+  "أكلم موظف",
+  "التحدث مع موظف",
+  "التحدث مع شخص",
+];
+
+const DEFAULT_HANDOFF_MESSAGE: Record<SupportedLang, string> = {
+  en: "I'm connecting you with a member of our team. They'll reply here as soon as possible.",
+  ar: "سأقوم بتحويلك إلى أحد أعضاء فريقنا، وسيتم الرد عليك هنا في أقرب وقت ممكن.",
+};
+
+/** Reads `KnowledgeBase.metadata.handoff`; handoff is off unless enabled. */
+export function resolveHandoffSettings(metadata: unknown): HandoffSettings {
+  const md = (metadata as Record<string, unknown> | null) ?? {};
+  const handoff =
+    md.handoff && typeof md.handoff === "object"
+      ? (md.handoff as Record<string, unknown>)
+      : {};
+
+  return {
+    enabled: handoff.enabled === true,
+    onFallback: handoff.onFallback === true,
+    phrases: Array.isArray(handoff.phrases)
+      ? handoff.phrases.filter(
+          (p: unknown): p is string => typeof p === "string" && !!p.trim(),
+        )
+      : [],
+    message:
+      typeof handoff.message === "string" && handoff.message.trim()
+        ? handoff.message.trim()
+        : null,
+  };
+}
+
+function normalizePhrase(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Whole words only; \b treats Arabic letters as non-word characters
+function phrasePattern(phrase: string) {
+  const escaped = normalizePhrase(phrase).replace(
+    /[.*+?^${}()|[\]\\]/g,
+    "\\$&",
+  );
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "u");
+}
+
+/** True when the customer's message asks for a human. */
+export function isHandoffRequest(text: string, settings: HandoffSettings) {
+  if (!settings.enabled) return false;
+
+  const normalized = normalizePhrase(text);
+  return [...DEFAULT_HANDOFF_PHRASES, ...settings.phrases].some((phrase) =>
+    phrasePattern(phrase).test(normalized),
+  );
+}
+
+export function handoffMessage(
+  settings: HandoffSettings,
+  text: string,
+): string {
+  if (settings.message) return settings.message;
+  return /[\u0600-\u06FF]/.test(text)
+    ? DEFAULT_HANDOFF_MESSAGE.ar
+    : DEFAULT_HANDOFF_MESSAGE.en;
+}
+
+/**
+ * Pauses auto-replies on a conversation and emails the KB owner. Re-flagging
+ * a conversation that is already in handoff does not notify again.
+ */
+export async function startHandoff(params: {
+  conversationId: string;
+  reason: HandoffReason;
+  lastMessage?: string;
+}) {
+  const { conversationId, reason, lastMessage } = params;
+
+  const { count } = await prisma.conversation.updateMany({
+    where: { id: conversationId, status: { not: "handoff" } },
+    data: { status: "handoff", handoffAt: new Date() },
+  });
+  if (!count || reason === "agent") return;
+
+  try {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { userId: true, kbId: true, channel: true, visitorId: true },
+    });
+    if (!conversation) return;
+
+    const kb = conversation.kbId
+      ? await prisma.knowledgeBase.findUnique({
+          where: { id: conversation.kbId },
+          select: { title: true, metadata: true },
+        })
+      : null;
+    const language = ((kb?.metadata as Record<string, unknown> | null)
+      ?.language ?? "en") as SupportedLang;
+
+    await notifyUserHandoffRequested(conversation.userId, {
+      kbTitle: kb?.title,
+      channel: conversation.channel,
+      visitorId: conversation.visitorId,
+      lastMessage,
+      reason,
+      link: `${process.env.BASE_URL}/${language}/dashboard/conversations?id=${conversationId}`,
+      language,
+    });
+  } catch (err) {
+    console.warn("Handoff notification failed:", err);
+  }
+}
+
+/** Hands a conversation back to the bot. */
+export async function endHandoff(conversationId: string) {
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { status: "bot", handoffAt: null },
+  });
+}
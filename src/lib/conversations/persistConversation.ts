@@ -0,0 +1,218 @@
+// lib/conversations/persistConversation.ts
+import { Channel } from "@/lib/analytics/logInteraction";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+
+export type HistoryTurn = { role: "user" | "assistant"; text: string };
+
+type ConversationScope = {
+  conversationId?: string | null;
+  kbId: string;
+  userId: string;
+  visitorId?: string | null; // when set, the conversation must be this visitor's
+};
+
+export type SenderScope = {
+  userId: string;
+  kbId: string;
+  channel: Channel;
+  visitorId: string;
+};
+
+type AppendTurnParams = ConversationScope & {
+  botId?: string | null;
+  channel?: Channel;
+  userMessage: string;
+  botMessage: string;
+  sources?: unknown[];
+  isFallback?: boolean;
+  meta?: Record<string, unknown>;
+  conversationMeta?: Record<string, unknown>; // stored only when creating
+};
+
+type AppendMessageParams = {
+  conversationId: string;
+  sender: "user" | "bot" | "agent";
+  content: string;
+  meta?: Record<string, unknown>;
+};
+
+const OBJECT_ID_RE = /^[a-f0-9]{24}$/i;
+const DEFAULT_HISTORY_LIMIT = 12;
+
+export function isConversationId(id?: string | null): id is string {
+  return typeof id === "string" && OBJECT_ID_RE.test(id);
+}
+
+/**
+ * Returns the stored conversation only if it belongs to the given KB/owner
+ * and, when `visitorId` is given, to that visitor. Client-supplied ids that
+ * don't match return null.
+ */
+export async function findConversation(scope: ConversationScope) {
+  const { conversationId, kbId, userId, visitorId } = scope;
+  if (!isConversationId(conversationId)) return null;
+
+  return prisma.conversation.findFirst({
+    where: {
+      id: conversationId,
+      kbId,
+      userId,
+      ...(visitorId && { visitorId }),
+    },
+    select: {
+      id: true,
+      channel: true,
+      visitorId: true,
+      status: true,
+      handoffAt: true,
+      meta: true,
+    },
+  });
+}
+
+/**
+ * Latest conversation for a messaging sender (WhatsApp number, Messenger /
+ * Instagram scoped id) on a KB, so every inbound message joins one thread.
+ */
+export async function findSenderConversation(scope: SenderScope) {
+  const { userId, kbId, channel, visitorId } = scope;
+
+  return prisma.conversation.findFirst({
+    where: { userId, kbId, channel, visitorId },
+    orderBy: { updatedAt: "desc" },
+    select: {
+      id: true,
+      channel: true,
+      visitorId: true,
+      status: true,
+      handoffAt: true,
+      meta: true,
+      updatedAt: true,
+    },
+  });
+}
+
+/**
+ * Loads the last `limit` turns of a stored conversation (oldest first),
+ * shaped like the `history` the chat prompt builder expects.
+ */
+export async function loadConversationHistory(
+  conversationId: string,
+  limit = DEFAULT_HISTORY_LIMIT,
+): Promise<HistoryTurn[]> {
+  const rows = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: { sender: true, content: true },
+  });
+
+  return rows.reverse().map((m) => ({
+    // agent replies are answers given on the bot's behalf
+    role: m.sender === "user" ? "user" : "assistant",
+    text: m.content,
+  }));
+}
+
+/**
+ * Appends a user message and the bot reply to a conversation, creating the
+ * conversation first when `conversationId` is missing or not owned by the KB
+ * and visitor. Returns the id of the conversation the turn was written to.
+ */
+export async function appendConversationTurn(params: AppendTurnParams) {
+  const {
+    kbId,
+    userId,
+    botId = null,
+    channel = "website",
+    visitorId = null,
+    userMessage,
+    botMessage,
+    sources = [],
+    isFallback = false,
+    meta = {},
+    conversationMeta,
+  } = params;
+
+  const existing = await findConversation(params);
+
+  const conversationId =
+    existing?.id ??
+    (
+      await prisma.conversation.create({
+        data: {
+          userId,
+          kbId,
+          botId,
+          channel,
+          visitorId,
+          title: userMessage.trim().slice(0, 80),
+          ...(conversationMeta && {
+            meta: conversationMeta as Prisma.InputJsonValue,
+          }),
+        },
+        select: { id: true },
+      })
+    ).id;
+
+  const now = Date.now();
+
+  await prisma.$transaction([
+    prisma.message.create({
+      data: {
+        conversationId,
+        sender: "user",
+        content: userMessage,
+        createdAt: new Date(now),
+      },
+    }),
+    prisma.message.create({
+      data: {
+        conversationId,
+        sender: "bot",
+        content: botMessage,
+        sources: sources as Prisma.InputJsonValue,
+        meta: { ...meta, isFallback } as Prisma.InputJsonValue,
+        // keep the reply ordered after the question even within the same ms
+        createdAt: new Date(now + 1),
+      },
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        updatedAt: new Date(now + 1),
+        fallbackCount: { increment: isFallback ? 1 : 0 },
+      },
+    }),
+  ]);
+
+  return conversationId;
+}
+
+/**
+ * Appends a single message (an inbound message while a human has taken over,
+ * or an agent's reply) and bumps the conversation's updatedAt.
+ */
+export async function appendConversationMessage(params: AppendMessageParams) {
+  const { conversationId, sender, content, meta } = params;
+  const now = new Date();
+
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: {
+        conversationId,
+        sender,
+        content,
+        ...(meta && { meta: meta as Prisma.InputJsonValue }),
+        createdAt: now,
+      },
+    }),
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: now },
+    }),
+  ]);
+
+  return message;
+}
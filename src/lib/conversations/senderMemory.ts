@@ -0,0 +1,82 @@
+// lib/conversations/senderMemory.ts
+import {
+  findSenderConversation,
+  HistoryTurn,
+  loadConversationHistory,
+  SenderScope,
+} from "@/lib/conversations/persistConversation";
+
+export type MemorySettings = {
+  windowSize: number; // prior messages fed into the prompt
+  ttlMinutes: number; // inactivity after which a sender starts a new thread
+};
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  windowSize: Number(process.env.MESSAGING_MEMORY_WINDOW ?? 12),
+  ttlMinutes: Number(process.env.MESSAGING_MEMORY_TTL_MINUTES ?? 24 * 60),
+};
+
+export const MAX_MEMORY_WINDOW = 40;
+export const MAX_MEMORY_TTL_MINUTES = 30 * 24 * 60;
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(n)));
+}
+
+/** Reads `KnowledgeBase.metadata.memory`, falling back to the env defaults. */
+export function resolveMemorySettings(metadata: unknown): MemorySettings {
+  const md = (metadata as Record<string, unknown> | null) ?? {};
+  const memory =
+    md.memory && typeof md.memory === "object"
+      ? (md.memory as Record<string, unknown>)
+      : {};
+
+  return {
+    windowSize: clamp(
+      memory.windowSize,
+      0,
+      MAX_MEMORY_WINDOW,
+      DEFAULT_MEMORY_SETTINGS.windowSize,
+    ),
+    ttlMinutes: clamp(
+      memory.ttlMinutes,
+      1,
+      MAX_MEMORY_TTL_MINUTES,
+      DEFAULT_MEMORY_SETTINGS.ttlMinutes,
+    ),
+  };
+}
+
+/**
+ * Rolling context for a messaging sender (channel + sender id). Returns the
+ * sender's current conversation and its last `windowSize` messages, or no
+ * conversation once it has been idle longer than `ttlMinutes` so the next
+ * message opens a fresh thread. Conversations a human has taken over never
+ * expire here; they stay open until handed back.
+ */
+export async function loadSenderMemory(
+  scope: SenderScope,
+  settings: MemorySettings,
+): Promise<{
+  conversation: Awaited<ReturnType<typeof findSenderConversation>>;
+  history: HistoryTurn[];
+}> {
+  const conversation = await findSenderConversation(scope);
+  if (!conversation) return { conversation: null, history: [] };
+
+  const idleMs = Date.now() - conversation.updatedAt.getTime();
+  if (
+    conversation.status !== "handoff" &&
+    idleMs > settings.ttlMinutes * 60_000
+  ) {
+    return { conversation: null, history: [] };
+  }
+
+  const history = settings.windowSize
+    ? await loadConversationHistory(conversation.id, settings.windowSize)
+    : [];
+
+  return { conversation, history };
+}
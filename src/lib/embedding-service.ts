@@ -1,15 +1,12 @@
+import { EMBEDDING_MODEL, getEmbeddingProvider } from "@/lib/llm";
 import { prisma } from "@/lib/prisma";
+import { invalidateKeywordIndex } from "@/search/keyword-search";
 import { Prisma } from "@prisma/client";
-import OpenAI from "openai";
 import upstashVector, { createVector, Vector } from "./upstash-vector";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
-
 // Configuration
 const EMBEDDING_CONFIG = {
-  model: "text-embedding-3-small",
+  model: EMBEDDING_MODEL,
   maxTokensPerChunk: 8000,
   chunkOverlap: 200,
   minChunkSize: 100,
@@ -80,7 +77,7 @@ function chunkText(
 }
 
 /**
- * Create embeddings for text chunks using OpenAI
+ * Create embeddings for text chunks using the configured embedding provider
  */
 export async function createEmbeddings(texts: string[]): Promise<number[][]> {
   if (texts.length === 0) return [];
@@ -90,15 +87,9 @@ export async function createEmbeddings(texts: string[]): Promise<number[][]> {
       `Creating embeddings for ${texts.length} chunks using ${EMBEDDING_CONFIG.model}`,
     );
 
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_CONFIG.model,
-      input: texts,
-      encoding_format: "float",
-    });
-
-    return response.data.map((item) => item.embedding);
+    return await getEmbeddingProvider().embed(texts, EMBEDDING_CONFIG.model);
   } catch (error) {
-    console.error("OpenAI embedding creation failed:", error);
+    console.error("Embedding creation failed:", error);
     throw new Error(
       `Failed to create embeddings: ${error instanceof Error ? error.message : "Unknown error"}`,
     );
@@ -181,6 +172,7 @@ async function saveEmbeddings(
     console.log(
       `Saved ${embeddingData.length} embeddings to Prisma for doc ${documentId}`,
     );
+    await invalidateKeywordIndex(kbId);
   } catch (err) {
     console.error("Failed to save embeddings to database:", err);
     throw err;
@@ -0,0 +1,436 @@
+// lib/files/extractors.ts
+import { load } from "cheerio";
+import JSZip from "jszip";
+
+/** Same shape as the PDF and Word extractors in `api/process-file`. */
+export type ExtractionResult = {
+  text: string;
+  pageCount?: number; // sheets, slides or chapters
+  errors?: string[];
+};
+
+// A huge export shouldn't turn into one giant document
+const MAX_SPREADSHEET_ROWS = 5000;
+
+// Zip bombs: a small upload can inflate far past the upload limit
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+const BLOCK_TAGS =
+  "p, div, section, article, li, tr, h1, h2, h3, h4, h5, h6, blockquote, pre, table, ul, ol, dd, dt";
+
+function tidy(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function failure(format: string, err: unknown): ExtractionResult {
+  console.error(`${format} parsing failed:`, err);
+  return {
+    text: "",
+    errors: [
+      `${format} parsing failed: ${err instanceof Error ? err.message : String(err)}`,
+    ],
+  };
+}
+
+function emptyResult(text: string, format: string, pageCount?: number) {
+  return {
+    text,
+    pageCount,
+    errors: text ? undefined : [`No text content found in ${format}`],
+  };
+}
+
+// ---------- tables (XLSX, CSV) ----------
+
+/**
+ * Rows as "Header: value" lines so each one keeps its meaning once the
+ * document is chunked. The first row is taken as the header row.
+ */
+function rowsToText(rows: string[][], title?: string) {
+  const nonEmpty = rows.filter((r) => r.some((c) => c.trim()));
+  if (nonEmpty.length === 0) return "";
+
+  const lines: string[] = title ? [`## ${title}`] : [];
+  const [header, ...body] = nonEmpty;
+
+  if (body.length === 0) {
+    lines.push(header.filter((c) => c.trim()).join(" | "));
+    return lines.join("\n");
+  }
+
+  for (const row of body) {
+    const cells = row
+      .map((value, i) => {
+        if (!value.trim()) return null;
+        const label = header[i]?.trim() || `Column ${i + 1}`;
+        return `${label}: ${value.trim()}`;
+      })
+      .filter(Boolean);
+    if (cells.length) lines.push(cells.join("; "));
+  }
+  return lines.join("\n");
+}
+
+function truncateRows(rows: string[][], errors: string[], label: string) {
+  if (rows.length <= MAX_SPREADSHEET_ROWS) return rows;
+  errors.push(
+    `${label}: only the first ${MAX_SPREADSHEET_ROWS} of ${rows.length} rows were kept`,
+  );
+  return rows.slice(0, MAX_SPREADSHEET_ROWS);
+}
+
+/** RFC 4180-style parsing; the delimiter is guessed from the first line. */
+function parseCsv(input: string): string[][] {
+  const firstLine = input.split("\n", 1)[0];
+  const delimiter = [",", ";", "\t"]
+    .map((d) => ({ d, n: firstLine.split(d).length }))
+    .sort((a, b) => b.n - a.n)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function extractTextFromCsv(buffer: Buffer): ExtractionResult {
+  try {
+    const errors: string[] = [];
+    const rows = truncateRows(parseCsv(decodeText(buffer)), errors, "CSV");
+    const text = tidy(rowsToText(rows));
+    return {
+      ...emptyResult(text, "CSV"),
+      ...(text && errors.length ? { errors } : {}),
+    };
+  } catch (err) {
+    return failure("CSV", err);
+  }
+}
+
+// "AB12" -> 27
+function columnIndex(ref: string) {
+  const letters = ref.replace(/[^A-Z]/gi, "").toUpperCase();
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function resolveZipPath(baseDir: string, target: string) {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = `${baseDir}/${target}`.split("/");
+  const out: string[] = [];
+  for (const part of parts) {
+    if (part === "..") out.pop();
+    else if (part && part !== ".") out.push(part);
+  }
+  return out.join("/");
+}
+
+/**
+ * Opens an XLSX/PPTX/EPUB container, refusing archives whose entries add up
+ * to more than `MAX_UNCOMPRESSED_BYTES` before anything is inflated.
+ */
+async function loadZip(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  let total = 0;
+  for (const file of Object.values(zip.files)) {
+    // Sizes from the central directory; JSZip doesn't expose them publicly
+    const data = (file as unknown as { _data?: { uncompressedSize?: number } })
+      ._data;
+    total += Number(data?.uncompressedSize) || 0;
+    if (total > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(
+        `Archive expands past ${MAX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB`,
+      );
+    }
+  }
+  return zip;
+}
+
+async function readZipXml(zip: JSZip, path: string) {
+  const file = zip.file(path);
+  return file ? load(await file.async("string"), { xml: true }) : null;
+}
+
+/** XLSX: one section per sheet, each row as "Header: value" pairs. */
+export async function extractTextFromSpreadsheet(
+  buffer: Buffer,
+): Promise<ExtractionResult> {
+  try {
+    const zip = await loadZip(buffer);
+    const workbook = await readZipXml(zip, "xl/workbook.xml");
+    if (!workbook) throw new Error("Not an XLSX workbook");
+
+    const rels = await readZipXml(zip, "xl/_rels/workbook.xml.rels");
+    const targets = new Map<string, string>();
+    rels?.("Relationship").each((_, el) => {
+      targets.set(el.attribs.Id, el.attribs.Target);
+    });
+
+    const shared: string[] = [];
+    const strings = await readZipXml(zip, "xl/sharedStrings.xml");
+    strings?.("si").each((_, si) => {
+      // rPh holds phonetic guides, not cell text
+      shared.push(
+        strings(si)
+          .find("t")
+          .filter((__, t) => strings(t).parents("rPh").length === 0)
+          .map((__, t) => strings(t).text())
+          .get()
+          .join(""),
+      );
+    });
+
+    const errors: string[] = [];
+    const sections: string[] = [];
+    const sheets = workbook("sheet").toArray();
+
+    for (const sheet of sheets) {
+      const name = sheet.attribs.name || "Sheet";
+      const target = targets.get(sheet.attribs["r:id"]);
+      if (!target) continue;
+
+      const $ = await readZipXml(zip, resolveZipPath("xl", target));
+      if (!$) continue;
+
+      const rows: string[][] = [];
+      $("sheetData row").each((_, rowEl) => {
+        const row: string[] = [];
+        $(rowEl)
+          .children("c")
+          .each((__, c) => {
+            const cell = $(c);
+            const type = c.attribs.t;
+            let value = "";
+            if (type === "s") {
+              value = shared[Number(cell.children("v").text())] ?? "";
+            } else if (type === "inlineStr") {
+              value = cell.find("t").text();
+            } else if (type === "b") {
+              value = cell.children("v").text() === "1" ? "TRUE" : "FALSE";
+            } else {
+              value = cell.children("v").text();
+            }
+            const index = c.attribs.r ? columnIndex(c.attribs.r) : row.length;
+            row[index] = value;
+          });
+        rows.push(Array.from(row, (v) => v ?? ""));
+      });
+
+      const text = rowsToText(truncateRows(rows, errors, name), name);
+      if (text) sections.push(text);
+    }
+
+    const text = tidy(sections.join("\n\n"));
+    return {
+      ...emptyResult(text, "spreadsheet", sheets.length),
+      ...(text && errors.length ? { errors } : {}),
+    };
+  } catch (err) {
+    return failure("Spreadsheet", err);
+  }
+}
+
+// ---------- PPTX ----------
+
+// DrawingML paragraphs (<a:p>) under `scope`, one line each
+function drawingParagraphs(
+  $: ReturnType<typeof load>,
+  scope: ReturnType<ReturnType<typeof load>>,
+) {
+  return scope
+    .find("a\\:p")
+    .map((_, p) =>
+      $(p)
+        .find("a\\:t")
+        .map((__, t) => $(t).text())
+        .get()
+        .join(""),
+    )
+    .get()
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/** PPTX: each slide's text in order, followed by its speaker notes. */
+export async function extractTextFromPresentation(
+  buffer: Buffer,
+): Promise<ExtractionResult> {
+  try {
+    const zip = await loadZip(buffer);
+    const slidePaths = Object.keys(zip.files)
+      .map((path) => ({
+        path,
+        n: path.match(/^ppt\/slides\/slide(\d+)\.xml$/),
+      }))
+      .filter((s) => s.n)
+      .sort((a, b) => Number(a.n![1]) - Number(b.n![1]))
+      .map((s) => s.path);
+
+    const sections: string[] = [];
+    for (const [index, path] of slidePaths.entries()) {
+      const slide = await readZipXml(zip, path);
+      if (!slide) continue;
+
+      const lines = [
+        `## Slide ${index + 1}`,
+        ...drawingParagraphs(slide, slide.root()),
+      ];
+
+      const relsPath = path.replace(
+        /slides\/(slide\d+\.xml)$/,
+        "slides/_rels/$1.rels",
+      );
+      const rels = await readZipXml(zip, relsPath);
+      const notesTarget = rels?.("Relationship")
+        .filter((_, el) => /\/notesSlide$/.test(el.attribs.Type ?? ""))
+        .attr("Target");
+
+      if (notesTarget) {
+        const notes = await readZipXml(
+          zip,
+          resolveZipPath("ppt/slides", notesTarget),
+        );
+        // only the body placeholder; the rest is the slide thumbnail and number
+        const noteLines = notes
+          ? drawingParagraphs(
+              notes,
+              notes("p\\:sp").filter(
+                (_, sp) => notes(sp).find('p\\:ph[type="body"]').length > 0,
+              ),
+            )
+          : [];
+        if (noteLines.length) lines.push("Speaker notes:", ...noteLines);
+      }
+
+      if (lines.length > 1) sections.push(lines.join("\n"));
+    }
+
+    return emptyResult(
+      tidy(sections.join("\n\n")),
+      "presentation",
+      slidePaths.length,
+    );
+  } catch (err) {
+    return failure("Presentation", err);
+  }
+}
+
+// ---------- text, HTML, EPUB ----------
+
+function decodeText(buffer: Buffer) {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString("utf16le");
+  }
+  return buffer.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+/** TXT and Markdown are kept as written; Markdown syntax chunks fine. */
+export function extractTextFromPlainText(buffer: Buffer): ExtractionResult {
+  try {
+    return emptyResult(tidy(decodeText(buffer)), "text file");
+  } catch (err) {
+    return failure("Text", err);
+  }
+}
+
+function htmlToText(html: string) {
+  const $ = load(html);
+  $("script, style, noscript, template, svg, nav, header, footer").remove();
+  $("br").replaceWith("\n");
+  $(BLOCK_TAGS).each((_, el) => {
+    $(el).append("\n");
+  });
+  const title = $("title").first().text().trim();
+  const body = $("body").length ? $("body").text() : $.root().text();
+  return { title, text: tidy(body) };
+}
+
+export function extractTextFromHtml(buffer: Buffer): ExtractionResult {
+  try {
+    const { title, text } = htmlToText(decodeText(buffer));
+    const withTitle =
+      title && !text.startsWith(title) ? `# ${title}\n\n${text}` : text;
+    return emptyResult(withTitle, "HTML file");
+  } catch (err) {
+    return failure("HTML", err);
+  }
+}
+
+/** EPUB: chapters in reading (spine) order. */
+export async function extractTextFromEpub(
+  buffer: Buffer,
+): Promise<ExtractionResult> {
+  try {
+    const zip = await loadZip(buffer);
+    const container = await readZipXml(zip, "META-INF/container.xml");
+    const opfPath = container?.("rootfile").attr("full-path");
+    if (!opfPath) throw new Error("Missing EPUB package document");
+
+    const opf = await readZipXml(zip, opfPath);
+    if (!opf) throw new Error("Missing EPUB package document");
+    const opfDir = opfPath.includes("/")
+      ? opfPath.slice(0, opfPath.lastIndexOf("/"))
+      : "";
+
+    const manifest = new Map<string, string>();
+    opf("manifest item").each((_, el) => {
+      manifest.set(el.attribs.id, el.attribs.href);
+    });
+
+    const chapters: string[] = [];
+    const spine = opf("spine itemref").toArray();
+    for (const ref of spine) {
+      const href = manifest.get(ref.attribs.idref);
+      if (!href) continue;
+
+      const file = zip.file(
+        resolveZipPath(opfDir, decodeURIComponent(href.split("#")[0])),
+      );
+      if (!file) continue;
+
+      const { text } = htmlToText(await file.async("string"));
+      if (text) chapters.push(text);
+    }
+
+    return emptyResult(tidy(chapters.join("\n\n")), "EPUB", chapters.length);
+  } catch (err) {
+    return failure("EPUB", err);
+  }
+}
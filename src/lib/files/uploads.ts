@@ -0,0 +1,122 @@
+// lib/files/uploads.ts
+import { prisma } from "@/lib/prisma";
+import { checkEntitlement } from "@/lib/subscription/checkUsageLimits";
+import admin from "firebase-admin";
+import { v4 as uuidv4 } from "uuid";
+
+// --- Firebase Admin Initialization ---
+if (!admin.apps.length) {
+  if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+    const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+    admin.initializeApp({
+      credential: admin.credential.cert(serviceAccount),
+      storageBucket: process.env.FIREBASE_STORAGE_BUCKET,
+    });
+  } else {
+    admin.initializeApp({
+      storageBucket: process.env.FIREBASE_STORAGE_BUCKET,
+    });
+  }
+}
+
+const bucket = admin.storage().bucket();
+
+// --- Config ---
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+const ALLOWED_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/epub+zip",
+  "text/csv",
+  "text/plain",
+  "text/markdown",
+  "text/x-markdown",
+  "text/html",
+  "image/png",
+  "image/jpeg",
+  "image/jpg",
+];
+// Browsers send an empty or generic type for some of these
+const ALLOWED_EXTENSIONS = [".csv", ".md", ".markdown", ".txt", ".epub"];
+
+/** Why `file` can't be uploaded, or null when it can. */
+export function validateUpload(file: File): string | null {
+  if (file.size > MAX_FILE_SIZE) return "File too large. Max size is 10MB.";
+
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  if (
+    !ALLOWED_TYPES.includes(file.type) &&
+    !ALLOWED_EXTENSIONS.includes(extension)
+  ) {
+    return `Unsupported file type: ${file.type}`;
+  }
+  return null;
+}
+
+/** The first per-KB plan limit adding `size` bytes would break, or null. */
+export async function checkUploadEntitlements(
+  userId: string,
+  kbId: string,
+  size: number,
+) {
+  for (const [feature, adding] of [
+    ["documents", 1],
+    ["storage", size],
+  ] as const) {
+    const entitlement = await checkEntitlement(userId, feature, {
+      kbId,
+      adding,
+    });
+    if (!entitlement.allowed) return entitlement;
+  }
+  return null;
+}
+
+/**
+ * Saves `file` to storage and records it as an UploadedFile of `userId` (the
+ * workspace owner). The returned `url` is a signed link valid for 7 days.
+ */
+export async function storeUploadedFile(params: {
+  file: File;
+  userId: string;
+  kbId: string | null;
+}) {
+  const { file, userId, kbId } = params;
+
+  // --- Prepare file for upload ---
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const fileName = `${Date.now()}-${uuidv4()}-${file.name}`;
+  const destinationPath = `uploads/${fileName}`;
+  const fileRef = bucket.file(destinationPath);
+
+  // --- Upload to Firebase ---
+  await fileRef.save(buffer, {
+    metadata: { contentType: file.type },
+    resumable: false,
+  });
+
+  // --- Signed URL ---
+  const [signedUrl] = await fileRef.getSignedUrl({
+    action: "read",
+    expires: Date.now() + 7 * 24 * 60 * 60 * 1000,
+  });
+
+  // --- Save in Mongo (Prisma) ---
+  return prisma.uploadedFile.create({
+    data: {
+      userId,
+      kbId,
+      filename: fileName,
+      fileType: file.type,
+      size: file.size,
+      url: signedUrl,
+      meta: {
+        originalName: file.name,
+        storagePath: destinationPath,
+      },
+    },
+  });
+}
@@ -0,0 +1,260 @@
+// lib/kb/crawlJobs.ts
+import { prisma } from "@/lib/prisma";
+import { CrawlJob, CrawlUrlStatus, Prisma } from "@prisma/client";
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+import { Client as QStashClient } from "@upstash/qstash";
+import { CrawlSettings, resolveCrawlSettings } from "./crawlScope";
+
+const qstash = new QStashClient({ token: process.env.QSTASH_TOKEN! });
+
+// Statuses that still have work queued behind them
+const PENDING_URL_STATUSES: CrawlUrlStatus[] = [
+  CrawlUrlStatus.QUEUED,
+  CrawlUrlStatus.FETCHED,
+];
+
+const MAX_PROGRESS_URLS = 200;
+const MAX_ERROR_LENGTH = 300;
+
+export type CrawlJobProgress = {
+  id: string;
+  rootUrl: string;
+  status: CrawlJob["status"];
+  createdAt: Date;
+  finishedAt: Date | null;
+  total: number;
+  counts: Record<CrawlUrlStatus, number>;
+  urls: {
+    url: string;
+    status: CrawlUrlStatus;
+    error: string | null;
+    updatedAt: Date;
+  }[];
+};
+
+export async function createCrawlJob(params: {
+  kbId: string;
+  userId: string;
+  rootUrl: string;
+  maxDepth: number;
+  maxPages?: number;
+  settings?: CrawlSettings;
+}) {
+  const { settings, ...data } = params;
+  return prisma.crawlJob.create({
+    data: {
+      ...data,
+      settings: settings as Prisma.InputJsonValue | undefined,
+    },
+  });
+}
+
+/**
+ * Records URLs about to be queued for a job. Returns the ones that weren't
+ * tracked yet, so a page linked from several others is only crawled once,
+ * stopping once the job has `maxPages` URLs.
+ */
+export async function trackCrawlUrls(
+  jobId: string,
+  entries: { url: string; depth: number }[],
+  maxPages?: number | null,
+) {
+  let room =
+    maxPages == null
+      ? Infinity
+      : maxPages - (await prisma.crawlJobUrl.count({ where: { jobId } }));
+
+  const tracked: string[] = [];
+  for (const { url, depth } of entries) {
+    if (room <= 0) break;
+    try {
+      await prisma.crawlJobUrl.create({ data: { jobId, url, depth } });
+      tracked.push(url);
+      room--;
+    } catch (err) {
+      if (
+        err instanceof PrismaClientKnownRequestError &&
+        err.code === "P2002"
+      ) {
+        continue;
+      }
+      throw err;
+    }
+  }
+  return tracked;
+}
+
+/**
+ * Called when process-crawl picks a URL up. Returns the job's scope, or
+ * null when the job was cancelled and the page must not be crawled.
+ */
+export async function beginCrawlUrl(jobId: string, url: string) {
+  const job = await prisma.crawlJob.findUnique({
+    where: { id: jobId },
+    select: { status: true, rootUrl: true, maxPages: true, settings: true },
+  });
+  if (!job || job.status === "CANCELLED") return null;
+
+  await prisma.crawlJobUrl.updateMany({
+    where: { jobId, url },
+    data: { attempts: { increment: 1 } },
+  });
+  return {
+    rootUrl: job.rootUrl,
+    maxPages: job.maxPages,
+    // jobs started before scope settings existed crawl with the defaults
+    settings: resolveCrawlSettings(job.settings),
+  };
+}
+
+export type CrawlJobScope = NonNullable<
+  Awaited<ReturnType<typeof beginCrawlUrl>>
+>;
+
+export async function markCrawlUrl(
+  jobId: string,
+  url: string,
+  data: { status: CrawlUrlStatus; error?: string; documentId?: string },
+) {
+  const res = await prisma.crawlJobUrl.updateMany({
+    where: { jobId, url },
+    data: {
+      status: data.status,
+      error: data.error?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      ...(data.documentId ? { documentId: data.documentId } : {}),
+    },
+  });
+  // fetched pages count against the plan's monthly crawl allowance
+  if (data.status === CrawlUrlStatus.FETCHED && res.count > 0) {
+    await prisma.crawlJob.update({
+      where: { id: jobId },
+      data: { pagesCrawled: { increment: 1 } },
+    });
+  }
+  await completeCrawlJobIfDone(jobId);
+}
+
+/** Marks the job URL that produced `documentId` once embeddings ran. */
+export async function markCrawlDocumentEmbedded(
+  jobId: string,
+  documentId: string,
+  error?: string,
+) {
+  await prisma.crawlJobUrl.updateMany({
+    where: { jobId, documentId },
+    data: error
+      ? {
+          status: CrawlUrlStatus.FAILED,
+          error: `Embedding failed: ${error}`.slice(0, MAX_ERROR_LENGTH),
+        }
+      : { status: CrawlUrlStatus.EMBEDDED, error: null },
+  });
+  await completeCrawlJobIfDone(jobId);
+}
+
+export async function completeCrawlJobIfDone(jobId: string) {
+  const pending = await prisma.crawlJobUrl.count({
+    where: { jobId, status: { in: PENDING_URL_STATUSES } },
+  });
+  if (pending > 0) return;
+
+  await prisma.crawlJob.updateMany({
+    where: { id: jobId, status: "RUNNING" },
+    data: { status: "COMPLETED", finishedAt: new Date() },
+  });
+}
+
+/**
+ * Stops a running crawl. URLs still in the queue are skipped when their
+ * QStash message arrives; pages already fetched still get embedded.
+ */
+export async function cancelCrawlJob(jobId: string) {
+  const res = await prisma.crawlJob.updateMany({
+    where: { id: jobId, status: "RUNNING" },
+    data: { status: "CANCELLED", finishedAt: new Date() },
+  });
+  if (res.count === 0) return 0;
+
+  const urls = await prisma.crawlJobUrl.updateMany({
+    where: { jobId, status: CrawlUrlStatus.QUEUED },
+    data: { status: CrawlUrlStatus.CANCELLED },
+  });
+  return urls.count;
+}
+
+/** Re-queues the job's failed URLs and reopens it. Returns the number queued. */
+export async function retryFailedCrawlUrls(
+  job: Pick<CrawlJob, "id" | "kbId" | "userId">,
+) {
+  const failed = await prisma.crawlJobUrl.findMany({
+    where: { jobId: job.id, status: CrawlUrlStatus.FAILED },
+    select: { id: true, url: true, depth: true },
+  });
+  if (failed.length === 0) return 0;
+
+  await prisma.crawlJob.update({
+    where: { id: job.id },
+    data: { status: "RUNNING", finishedAt: null },
+  });
+
+  let queued = 0;
+  for (const [index, entry] of failed.entries()) {
+    try {
+      await qstash.publishJSON({
+        url: `${process.env.BASE_URL}/api/process-crawl`,
+        body: {
+          kbId: job.kbId,
+          webUrl: entry.url,
+          userId: job.userId,
+          depth: entry.depth,
+          jobId: job.id,
+        },
+        delay: Math.floor(index / 3) * 10,
+      });
+      await prisma.crawlJobUrl.update({
+        where: { id: entry.id },
+        data: { status: CrawlUrlStatus.QUEUED, error: null },
+      });
+      queued++;
+    } catch (err) {
+      console.error(`Failed to re-queue ${entry.url}:`, err);
+    }
+  }
+
+  await completeCrawlJobIfDone(job.id);
+  return queued;
+}
+
+export async function getCrawlJobProgress(
+  job: CrawlJob,
+): Promise<CrawlJobProgress> {
+  const [groups, urls] = await Promise.all([
+    prisma.crawlJobUrl.groupBy({
+      by: ["status"],
+      where: { jobId: job.id },
+      _count: { _all: true },
+    }),
+    prisma.crawlJobUrl.findMany({
+      where: { jobId: job.id },
+      select: { url: true, status: true, error: true, updatedAt: true },
+      orderBy: { updatedAt: "desc" },
+      take: MAX_PROGRESS_URLS,
+    }),
+  ]);
+
+  const counts = Object.fromEntries(
+    Object.values(CrawlUrlStatus).map((s) => [s, 0]),
+  ) as Record<CrawlUrlStatus, number>;
+  for (const g of groups) counts[g.status] = g._count._all;
+
+  return {
+    id: job.id,
+    rootUrl: job.rootUrl,
+    status: job.status,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+    total: Object.values(counts).reduce((a, b) => a + b, 0),
+    counts,
+    urls,
+  };
+}
@@ -0,0 +1,142 @@
+// lib/kb/crawlScope.ts
+
+export const CRAWL_QUERY_PARAM_MODES = ["keep", "strip"] as const;
+export type CrawlQueryParamMode = (typeof CRAWL_QUERY_PARAM_MODES)[number];
+
+export type CrawlSettings = {
+  includePaths: string[]; // globs; empty = whole site
+  excludePaths: string[];
+  maxPages: number;
+  maxDepth: number; // link hops from the start page / sitemap pages
+  includeSubdomains: boolean;
+  // "keep": only tracking params are dropped; "strip": ?a=1 and ?a=2 are one page
+  queryParams: CrawlQueryParamMode;
+};
+
+export const MAX_CRAWL_PAGES = 1000;
+export const MAX_CRAWL_DEPTH = 3;
+const MAX_PATH_PATTERNS = 20;
+
+export const DEFAULT_CRAWL_SETTINGS: CrawlSettings = {
+  includePaths: [],
+  excludePaths: [],
+  maxPages: 100,
+  maxDepth: 2,
+  includeSubdomains: false,
+  queryParams: "keep",
+};
+
+function cleanPatterns(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const patterns = value
+    .filter((p): p is string => typeof p === "string")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => (p.startsWith("/") ? p : `/${p}`));
+  return [...new Set(patterns)].slice(0, MAX_PATH_PATTERNS);
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
+
+/** `KnowledgeBase.metadata.crawl` with defaults filled in and bounds applied. */
+export function resolveCrawlSettings(raw: unknown): CrawlSettings {
+  const s = (raw ?? {}) as Partial<Record<keyof CrawlSettings, unknown>>;
+  return {
+    includePaths: cleanPatterns(s.includePaths),
+    excludePaths: cleanPatterns(s.excludePaths),
+    maxPages: clampInt(
+      s.maxPages,
+      1,
+      MAX_CRAWL_PAGES,
+      DEFAULT_CRAWL_SETTINGS.maxPages,
+    ),
+    maxDepth: clampInt(
+      s.maxDepth,
+      0,
+      MAX_CRAWL_DEPTH,
+      DEFAULT_CRAWL_SETTINGS.maxDepth,
+    ),
+    includeSubdomains: s.includeSubdomains === true,
+    queryParams: CRAWL_QUERY_PARAM_MODES.includes(
+      s.queryParams as CrawlQueryParamMode,
+    )
+      ? (s.queryParams as CrawlQueryParamMode)
+      : DEFAULT_CRAWL_SETTINGS.queryParams,
+  };
+}
+
+/**
+ * `*` matches within one path segment, `**` across segments, `?` one
+ * character. A trailing `/**` also matches the directory itself.
+ */
+export function globToRegExp(glob: string) {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  source = source.replace(/\/\.\*$/, "(?:/.*)?");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function hostInScope(host: string, rootHost: string, subdomains: boolean) {
+  if (host === rootHost) return true;
+  if (!subdomains) return false;
+  const base = rootHost.replace(/^www\./, "");
+  return host === base || host.endsWith(`.${base}`);
+}
+
+/** Whether a discovered URL belongs to the crawl started at `rootUrl`. */
+export function isInCrawlScope(
+  url: string,
+  rootUrl: string,
+  settings: CrawlSettings,
+) {
+  let parsed: URL;
+  let root: URL;
+  try {
+    parsed = new URL(url);
+    root = new URL(rootUrl);
+  } catch {
+    return false;
+  }
+
+  if (!["http:", "https:"].includes(parsed.protocol)) return false;
+  if (!hostInScope(parsed.hostname, root.hostname, settings.includeSubdomains))
+    return false;
+
+  const path = parsed.pathname;
+  if (settings.excludePaths.some((p) => globToRegExp(p).test(path)))
+    return false;
+  if (
+    settings.includePaths.length > 0 &&
+    !settings.includePaths.some((p) => globToRegExp(p).test(path))
+  )
+    return false;
+
+  return true;
+}
+
+export function applyQueryParamMode(url: string, mode: CrawlQueryParamMode) {
+  if (mode === "keep") return url;
+  try {
+    const parsed = new URL(url);
+    parsed.search = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,113 @@
+// lib/kb/createKnowledgeBase.ts
+import { SupportedLang } from "@/lib/dictionaries";
+import { prisma } from "@/lib/prisma";
+import { checkAgentLimit } from "@/lib/subscription/checkUsageLimits";
+import { CrawlSettings, resolveCrawlSettings } from "./crawlScope";
+
+export interface CreateKnowledgeBaseParams {
+  title: string;
+  description?: string;
+  personality?: string;
+  voice: string;
+  primaryColor: string;
+  accentColor: string;
+  faq?: { question: string; answer: string }[];
+  url: string | null;
+  files?: string[];
+  allowedOrigins: string[];
+  language: SupportedLang;
+  crawl?: Partial<CrawlSettings>;
+}
+
+/** Throws unless `ownerId`'s plan allows another agent. */
+export async function assertAgentLimit(ownerId: string) {
+  // A workspace's agents count against its owner's plan
+  const agentCheck = await checkAgentLimit(ownerId);
+  if (!agentCheck.allowed) {
+    // Provide detailed error message based on the reason
+    if (agentCheck.requiresUpgrade) {
+      throw new Error(
+        agentCheck.reason ||
+          "Agent limit reached. Please upgrade your plan to create more agents.",
+      );
+    }
+    throw new Error(agentCheck.reason || "Cannot create agent at this time.");
+  }
+}
+
+/**
+ * Creates a KB and its bot for `ownerId` (a workspace owner); check
+ * assertAgentLimit first. Uploaded `files` not yet attached to a KB are moved
+ * to it. Nothing is crawled or embedded here; see enqueueKbProcessing.
+ */
+export async function createKnowledgeBase(
+  ownerId: string,
+  params: CreateKnowledgeBaseParams,
+) {
+  const {
+    title,
+    description,
+    personality,
+    voice,
+    primaryColor,
+    accentColor,
+    faq,
+    url,
+    files,
+    allowedOrigins,
+    language,
+    crawl,
+  } = params;
+
+  const kb = await prisma.knowledgeBase.create({
+    data: {
+      title,
+      description,
+      userId: ownerId,
+      metadata: {
+        personality,
+        voice,
+        primaryColor,
+        accentColor,
+        faq,
+        url,
+        files,
+        allowedOrigins,
+        language,
+        crawl: resolveCrawlSettings(crawl),
+      },
+    },
+  });
+
+  const bot = await prisma.bot.create({
+    data: {
+      name: title,
+      userId: ownerId,
+      description,
+      status: "DEPLOYED",
+      knowledgeBaseId: kb.id,
+    },
+  });
+
+  const updatedKb = await prisma.knowledgeBase.update({
+    where: { id: kb.id },
+    data: {
+      bot: { connect: { id: bot.id } },
+    },
+  });
+
+  if (files && Array.isArray(files) && files.length > 0) {
+    await prisma.uploadedFile.updateMany({
+      where: {
+        userId: ownerId,
+        url: { in: files },
+        kbId: null,
+      },
+      data: {
+        kbId: kb.id,
+      },
+    });
+  }
+
+  return { bot, kb: updatedKb };
+}
@@ -0,0 +1,221 @@
+// lib/kb/kbApiKeys.ts
+import { prisma } from "@/lib/prisma";
+import { generateApiKey, hashApiKey } from "@/lib/publicApi/apiKeys";
+import { Prisma } from "@prisma/client";
+
+export type KbApiKeyCheck = "valid" | "invalid" | "not_configured";
+
+/** A key request the caller can fix (bad label, too many keys...). */
+export class KbApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KbApiKeyError";
+  }
+}
+
+const MAX_KEYS_PER_KB = 10;
+const MAX_LABEL_LENGTH = 60;
+
+// lastUsedAt/lastUsedIp are informational; don't write them on every message
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+/** Keys that still authenticate: not revoked and not past their expiry. */
+export function activeKbApiKeys(kbId: string): Prisma.ApiKeyWhereInput {
+  return {
+    kbId,
+    revokedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+  };
+}
+
+function requestIp(req: Request) {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("x-real-ip") ||
+    null
+  );
+}
+
+/**
+ * KBs created before keys had their own model kept a single hash in
+ * `metadata.apiKeyHash`. Moves it into an ApiKey row so it keeps working and
+ * shows up in the key list; the plaintext was never stored, so it has no
+ * prefix.
+ */
+export async function migrateLegacyKbApiKey(kbId: string) {
+  const kb = await prisma.knowledgeBase.findUnique({
+    where: { id: kbId },
+    select: { userId: true, metadata: true },
+  });
+  const metadata = (kb?.metadata as Record<string, unknown> | null) ?? {};
+  if (!kb || typeof metadata.apiKeyHash !== "string") return;
+
+  const { apiKeyHash, apiKeyCreatedAt, ...rest } = metadata;
+  try {
+    await prisma.apiKey.upsert({
+      where: { keyHash: apiKeyHash },
+      create: {
+        userId: kb.userId,
+        kbId,
+        label: "API key",
+        prefix: "",
+        keyHash: apiKeyHash,
+        scopes: [],
+        ...(typeof apiKeyCreatedAt === "string" && {
+          createdAt: new Date(apiKeyCreatedAt),
+        }),
+      },
+      update: {},
+    });
+  } catch (err) {
+    // A concurrent request migrated it first
+    if (
+      !(err instanceof Prisma.PrismaClientKnownRequestError) ||
+      err.code !== "P2002"
+    ) {
+      throw err;
+    }
+  }
+
+  await prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: { metadata: rest as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Checks a key sent to /api/chat, /api/voice, /api/tts or
+ * /api/widget/session against `kb`'s active keys and records where it was
+ * used. `not_configured` means the KB has no active key at all.
+ */
+export async function verifyKbApiKey(
+  kb: { id: string; metadata: unknown },
+  key: string,
+  req: Request,
+): Promise<KbApiKeyCheck> {
+  if (
+    typeof (kb.metadata as Record<string, unknown> | null)?.apiKeyHash ===
+    "string"
+  ) {
+    await migrateLegacyKbApiKey(kb.id);
+  }
+
+  const apiKey = key
+    ? await prisma.apiKey.findFirst({
+        where: { ...activeKbApiKeys(kb.id), keyHash: hashApiKey(key) },
+        select: { id: true, lastUsedAt: true, lastUsedIp: true },
+      })
+    : null;
+
+  if (!apiKey) {
+    const active = await prisma.apiKey.count({
+      where: activeKbApiKeys(kb.id),
+    });
+    return active > 0 ? "invalid" : "not_configured";
+  }
+
+  const ip = requestIp(req);
+  if (
+    !apiKey.lastUsedAt ||
+    apiKey.lastUsedIp !== ip ||
+    Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_PRECISION_MS
+  ) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip },
+    });
+  }
+
+  return "valid";
+}
+
+/**
+ * Creates a key for `kb` and returns the plaintext; only its hash is stored.
+ * Check the owner's apiAccess entitlement first.
+ */
+export async function issueKbApiKey(
+  kb: { id: string; userId: string },
+  params: { label: string; expiresAt?: Date | null },
+) {
+  const label = params.label.trim();
+  if (!label) throw new KbApiKeyError("Give the key a name");
+  if (label.length > MAX_LABEL_LENGTH) {
+    throw new KbApiKeyError("Key name is too long");
+  }
+
+  const active = await prisma.apiKey.count({ where: activeKbApiKeys(kb.id) });
+  if (active >= MAX_KEYS_PER_KB) {
+    throw new KbApiKeyError(
+      `A knowledge base can have up to ${MAX_KEYS_PER_KB} active keys; revoke one first`,
+    );
+  }
+
+  const { key, prefix, keyHash } = generateApiKey("kb");
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId: kb.userId,
+      kbId: kb.id,
+      label,
+      prefix,
+      keyHash,
+      scopes: [],
+      expiresAt: params.expiresAt ?? null,
+    },
+    select: { id: true, prefix: true, expiresAt: true },
+  });
+
+  return { ...apiKey, key };
+}
+
+/**
+ * Replaces an active key with a new one under the same label. The old key
+ * keeps working for `graceMs` (or until its own expiry, if sooner) so sites
+ * can switch over; the new key gets the lifetime the old one was issued with.
+ */
+export async function reissueKbApiKey(
+  kbId: string,
+  keyId: string,
+  graceMs: number,
+) {
+  const old = await prisma.apiKey.findFirst({
+    where: { ...activeKbApiKeys(kbId), id: keyId },
+    select: {
+      id: true,
+      userId: true,
+      label: true,
+      expiresAt: true,
+      createdAt: true,
+    },
+  });
+  if (!old) throw new KbApiKeyError("API key not found or already expired");
+
+  const now = Date.now();
+  const graceEndsAt = new Date(
+    Math.min(now + graceMs, old.expiresAt?.getTime() ?? Infinity),
+  );
+  const lifetime = old.expiresAt
+    ? old.expiresAt.getTime() - old.createdAt.getTime()
+    : null;
+
+  const { key, prefix, keyHash } = generateApiKey("kb");
+  const [apiKey] = await prisma.$transaction([
+    prisma.apiKey.create({
+      data: {
+        userId: old.userId,
+        kbId,
+        label: old.label,
+        prefix,
+        keyHash,
+        scopes: [],
+        expiresAt: lifetime ? new Date(now + lifetime) : null,
+      },
+      select: { id: true, prefix: true, expiresAt: true },
+    }),
+    prisma.apiKey.update({
+      where: { id: old.id },
+      data: { expiresAt: graceEndsAt },
+    }),
+  ]);
+
+  return { ...apiKey, key, previousExpiresAt: graceEndsAt };
+}
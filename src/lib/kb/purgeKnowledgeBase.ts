@@ -0,0 +1,194 @@
+// lib/kb/purgeKnowledgeBase.ts
+import { deleteFilesFromFirebase } from "@/lib/deleteFilesFromFirebase";
+import { prisma } from "@/lib/prisma";
+import { redis } from "@/lib/upstash";
+import upstashVector from "@/lib/upstash-vector";
+import { invalidateKeywordIndex } from "@/search/keyword-search";
+import { Prisma } from "@prisma/client";
+
+export type KbPurgeReport = {
+  kbId: string;
+  bots: number;
+  documents: number;
+  embeddings: number;
+  uploadedFiles: number;
+  crawlJobs: number;
+  storageFiles: number;
+  conversations: number;
+  messages: number;
+  feedback: number;
+  leads: number;
+  integrationsUnlinked: number;
+  vectors: number | null; // null when the vector store didn't report a count
+  cacheKeys: number;
+  errors: string[]; // external cleanup steps that failed (DB rows are gone)
+};
+
+// Redis namespaces scoped to a KB (see cacheKeys in lib/upstash.ts).
+// `chat_llm:` prompt entries are keyed by prompt hash only and expire on TTL.
+const KB_CACHE_PATTERNS = (kbId: string) => [`chat:${kbId}:*`, `kb:${kbId}:*`];
+
+const SCAN_COUNT = 500;
+
+/** Clears a KB's Redis cache entries, including cached answers. */
+export async function deleteKbCacheKeys(kbId: string) {
+  let deleted = 0;
+
+  for (const match of KB_CACHE_PATTERNS(kbId)) {
+    let cursor: string | number = 0;
+    do {
+      const [next, keys]: [string | number, string[]] = await redis.scan(
+        cursor,
+        { match, count: SCAN_COUNT },
+      );
+      if (keys.length) deleted += await redis.del(...keys);
+      cursor = next;
+    } while (String(cursor) !== "0");
+  }
+
+  return deleted;
+}
+
+/**
+ * Deletes a knowledge base and everything hanging off it: bot, documents,
+ * embeddings, uploaded files (DB + Firebase), API keys, conversations,
+ * feedback, leads captured by the bot, integration `credentials.kbId` links,
+ * vectors in Upstash Vector and the KB's Redis cache entries.
+ *
+ * Database rows are removed first in one transaction; external cleanup runs
+ * afterwards and is best-effort, with failures listed in `errors` so the
+ * caller can surface or retry them.
+ */
+export async function purgeKnowledgeBase(kbId: string): Promise<KbPurgeReport> {
+  const kb = await prisma.knowledgeBase.findUnique({
+    where: { id: kbId },
+    select: { id: true, userId: true, bot: { select: { id: true } } },
+  });
+  if (!kb) throw new Error("Knowledge Base not found");
+
+  const botId = kb.bot?.id ?? null;
+  const errors: string[] = [];
+
+  // ---- gather what the DB delete would otherwise lose ----
+  const files = await prisma.uploadedFile.findMany({
+    where: { kbId },
+    select: { meta: true },
+  });
+  const storagePaths = files
+    .map((f) => (f.meta as { storagePath?: string } | null)?.storagePath)
+    .filter((p): p is string => Boolean(p));
+
+  const conversations = await prisma.conversation.findMany({
+    where: { kbId },
+    select: { id: true },
+  });
+  const conversationIds = conversations.map((c) => c.id);
+
+  const integrations = await prisma.integration.findMany({
+    where: { userId: kb.userId },
+    select: { id: true, credentials: true },
+  });
+  const linkedIntegrations = integrations.filter(
+    (i) => (i.credentials as Record<string, unknown> | null)?.kbId === kbId,
+  );
+
+  // ---- database ----
+  const counts = await prisma.$transaction(async (tx) => {
+    const messages = await tx.message.deleteMany({
+      where: { conversationId: { in: conversationIds } },
+    });
+    const conversations = await tx.conversation.deleteMany({
+      where: { kbId },
+    });
+    const feedback = await tx.feedback.deleteMany({ where: { kbId } });
+    const leads = await tx.lead.deleteMany({
+      where: {
+        userId: kb.userId,
+        capturedBy: { in: botId ? [kbId, botId] : [kbId] },
+      },
+    });
+
+    for (const integ of linkedIntegrations) {
+      const credentials = {
+        ...(integ.credentials as Record<string, unknown>),
+      };
+      delete credentials.kbId;
+      await tx.integration.update({
+        where: { id: integ.id },
+        data: { credentials: credentials as Prisma.InputJsonValue },
+      });
+    }
+
+    const bots = await tx.bot.deleteMany({ where: { knowledgeBaseId: kbId } });
+    const documents = await tx.document.deleteMany({ where: { kbId } });
+    const embeddings = await tx.embedding.deleteMany({ where: { kbId } });
+    const uploadedFiles = await tx.uploadedFile.deleteMany({
+      where: { kbId },
+    });
+    const jobs = await tx.crawlJob.findMany({
+      where: { kbId },
+      select: { id: true },
+    });
+    await tx.crawlJobUrl.deleteMany({
+      where: { jobId: { in: jobs.map((j) => j.id) } },
+    });
+    const crawlJobs = await tx.crawlJob.deleteMany({ where: { kbId } });
+    await tx.pageChange.deleteMany({ where: { kbId } });
+    await tx.apiKey.deleteMany({ where: { kbId } });
+    await tx.knowledgeBase.delete({ where: { id: kbId } });
+
+    return {
+      messages: messages.count,
+      conversations: conversations.count,
+      feedback: feedback.count,
+      leads: leads.count,
+      bots: bots.count,
+      documents: documents.count,
+      embeddings: embeddings.count,
+      uploadedFiles: uploadedFiles.count,
+      crawlJobs: crawlJobs.count,
+    };
+  });
+
+  const report: KbPurgeReport = {
+    kbId,
+    ...counts,
+    storageFiles: 0,
+    integrationsUnlinked: linkedIntegrations.length,
+    vectors: null,
+    cacheKeys: 0,
+    errors,
+  };
+
+  await invalidateKeywordIndex(kbId);
+
+  // ---- external stores (best-effort) ----
+  if (storagePaths.length) {
+    try {
+      await deleteFilesFromFirebase(storagePaths);
+      report.storageFiles = storagePaths.length;
+    } catch (err) {
+      console.error("purgeKnowledgeBase: Firebase cleanup failed:", err);
+      errors.push(`storage: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  try {
+    const res = await upstashVector.deleteByMetadata(
+      `kbId = '${kbId.replace(/'/g, "\\'")}'`,
+    );
+    report.vectors = typeof res?.deleted === "number" ? res.deleted : null;
+  } catch (err) {
+    console.error("purgeKnowledgeBase: vector cleanup failed:", err);
+    errors.push(`vectors: ${err instanceof Error ? err.message : err}`);
+  }
+
+  try {
+    report.cacheKeys = await deleteKbCacheKeys(kbId);
+  } catch (err) {
+    console.error("purgeKnowledgeBase: cache cleanup failed:", err);
+    errors.push(`cache: ${err instanceof Error ? err.message : err}`);
+  }
+
+  return report;
+}
@@ -0,0 +1,186 @@
+// lib/kb/refreshKnowledgeBase.ts
+import { prisma } from "@/lib/prisma";
+import upstashVector from "@/lib/upstash-vector";
+import { invalidateKeywordIndex } from "@/search/keyword-search";
+import { Document, RefreshSchedule } from "@prisma/client";
+import { Client as QStashClient } from "@upstash/qstash";
+import crypto from "crypto";
+import { deleteKbCacheKeys } from "./purgeKnowledgeBase";
+
+const qstash = new QStashClient({ token: process.env.QSTASH_TOKEN! });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REFRESH_INTERVAL_MS: Record<RefreshSchedule, number | null> = {
+  MANUAL: null,
+  DAILY: DAY_MS,
+  WEEKLY: 7 * DAY_MS,
+};
+
+// A manual refresh can't be re-queued while the last one is still running
+export const MIN_MANUAL_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+type RefreshedDocument = Pick<
+  Document,
+  "id" | "kbId" | "sourceUrl" | "content" | "contentHash" | "metadata"
+>;
+
+export type RefreshOutcome = "unchanged" | "changed";
+
+/** Whitespace-insensitive, so re-extraction noise isn't a change. */
+export function contentHash(content: string) {
+  return crypto
+    .createHash("sha256")
+    .update(content.replace(/\s+/g, " ").trim())
+    .digest("hex");
+}
+
+export function nextRefreshAt(
+  schedule: RefreshSchedule | null,
+  from = new Date(),
+) {
+  const interval = REFRESH_INTERVAL_MS[schedule ?? RefreshSchedule.MANUAL];
+  return interval ? new Date(from.getTime() + interval) : null;
+}
+
+async function deleteDocumentVectors(kbId: string, documentId: string) {
+  try {
+    await upstashVector.deleteByMetadata(
+      `documentId = '${documentId.replace(/'/g, "\\'")}'`,
+    );
+  } catch (err) {
+    console.error("refreshKnowledgeBase: vector cleanup failed:", err);
+  }
+
+  try {
+    await deleteKbCacheKeys(kbId);
+  } catch (err) {
+    console.error("refreshKnowledgeBase: cache cleanup failed:", err);
+  }
+}
+
+/**
+ * Queues a refresh of every crawled page in a KB through `process-crawl`
+ * and schedules the next run. Returns the number of pages queued.
+ */
+export async function enqueueKbRefresh(kbId: string) {
+  const kb = await prisma.knowledgeBase.findUnique({
+    where: { id: kbId },
+    select: { id: true, userId: true, refreshSchedule: true },
+  });
+  if (!kb) throw new Error("Knowledge Base not found");
+
+  const documents = await prisma.document.findMany({
+    where: { kbId, sourceUrl: { not: null } },
+    select: { sourceUrl: true },
+  });
+
+  let queued = 0;
+  for (const [index, doc] of documents.entries()) {
+    try {
+      await qstash.publishJSON({
+        url: `${process.env.BASE_URL}/api/process-crawl`,
+        body: {
+          kbId,
+          webUrl: doc.sourceUrl,
+          userId: kb.userId,
+          depth: 0,
+          refresh: true,
+        },
+        // same pacing as child links in a first crawl
+        delay: Math.floor(index / 3) * 10,
+      });
+      queued++;
+    } catch (err) {
+      console.error(`Failed to queue refresh of ${doc.sourceUrl}:`, err);
+    }
+  }
+
+  const now = new Date();
+  await prisma.knowledgeBase.update({
+    where: { id: kbId },
+    data: {
+      lastRefreshAt: now,
+      nextRefreshAt: nextRefreshAt(kb.refreshSchedule, now),
+    },
+  });
+
+  return queued;
+}
+
+/**
+ * Stores a re-fetched page when its content hash differs from the saved
+ * one. Old embeddings and vectors are dropped so the caller can queue the
+ * document for re-embedding; unchanged pages only get `checkedAt`.
+ */
+export async function applyRefreshedContent(
+  doc: RefreshedDocument,
+  page: { title: string; content: string; wordCount: number },
+): Promise<RefreshOutcome> {
+  const now = new Date();
+  const hash = contentHash(page.content);
+  // documents crawled before hashing was added are hashed on first refresh
+  const previous =
+    doc.contentHash ?? (doc.content ? contentHash(doc.content) : null);
+
+  if (hash === previous) {
+    await prisma.document.update({
+      where: { id: doc.id },
+      data: { contentHash: hash, checkedAt: now },
+    });
+    return "unchanged";
+  }
+
+  const previousWords = doc.content ? doc.content.split(/\s+/).length : 0;
+
+  await prisma.$transaction([
+    prisma.embedding.deleteMany({ where: { documentId: doc.id } }),
+    prisma.document.update({
+      where: { id: doc.id },
+      data: {
+        content: page.content,
+        ...(page.title ? { filename: page.title } : {}),
+        contentHash: hash,
+        checkedAt: now,
+        changedAt: now,
+        metadata: {
+          ...((doc.metadata as Record<string, unknown>) ?? {}),
+          wordCount: page.wordCount,
+          updatedAt: now.toISOString(),
+        },
+      },
+    }),
+    prisma.pageChange.create({
+      data: {
+        kbId: doc.kbId,
+        documentId: doc.id,
+        sourceUrl: doc.sourceUrl ?? "",
+        type: "CHANGED",
+        wordDelta: page.wordCount - previousWords,
+      },
+    }),
+  ]);
+
+  await invalidateKeywordIndex(doc.kbId);
+  await deleteDocumentVectors(doc.kbId, doc.id);
+
+  return "changed";
+}
+
+/** Deletes a page that no longer exists, with its embeddings and vectors. */
+export async function removeRefreshedDocument(doc: RefreshedDocument) {
+  await prisma.$transaction([
+    prisma.embedding.deleteMany({ where: { documentId: doc.id } }),
+    prisma.document.delete({ where: { id: doc.id } }),
+    prisma.pageChange.create({
+      data: {
+        kbId: doc.kbId,
+        sourceUrl: doc.sourceUrl ?? "",
+        type: "REMOVED",
+      },
+    }),
+  ]);
+
+  await invalidateKeywordIndex(doc.kbId);
+  await deleteDocumentVectors(doc.kbId, doc.id);
+}
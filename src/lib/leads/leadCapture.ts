@@ -0,0 +1,382 @@
+// lib/leads/leadCapture.ts
+import { LeadStatusChange } from "@/lib/leads/upsertSenderLead";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+
+export type LeadField = "name" | "email" | "phone";
+
+export type LeadCaptureTrigger = "before_chat" | "after_messages" | "on_intent";
+
+export type LeadCaptureSettings = {
+  enabled: boolean;
+  fields: { key: LeadField; required: boolean }[]; // asked in this order
+  trigger: LeadCaptureTrigger;
+  afterMessages: number; // for "after_messages"
+  intentKeywords: string[]; // for "on_intent", on top of the defaults
+};
+
+/** Stored on `Conversation.meta.leadCapture`. */
+export type LeadCaptureState = {
+  status: "asking" | "done" | "declined";
+  field: LeadField | null; // field the last bot message asked for
+  attempts: number; // invalid answers for `field`
+  collected: Partial<Record<LeadField, string>>;
+  pendingQuestion: string | null; // answered once capture finishes
+  lang: "en" | "ar"; // picked from the message that started capture
+  leadId?: string;
+};
+
+export type LeadCaptureStep =
+  | { type: "none" }
+  // the bot replies with a capture question instead of answering
+  | { type: "reply"; text: string; state: LeadCaptureState }
+  // capture finished: answer `question`, starting the reply with `prefix`
+  | {
+      type: "answer";
+      question: string;
+      prefix: string;
+      state: LeadCaptureState;
+    };
+
+const LEAD_FIELDS: LeadField[] = ["name", "email", "phone"];
+const TRIGGERS: LeadCaptureTrigger[] = [
+  "before_chat",
+  "after_messages",
+  "on_intent",
+];
+
+export const MAX_CAPTURE_ATTEMPTS = 3;
+export const MAX_AFTER_MESSAGES = 10;
+
+export const DEFAULT_INTENT_KEYWORDS = [
+  "price",
+  "pricing",
+  "cost",
+  "how much",
+  "quote",
+  "book",
+  "booking",
+  "appointment",
+  "reserve",
+  "demo",
+  "سعر",
+  "اسعار",
+  "أسعار",
+  "تكلفة",
+  "حجز",
+  "موعد",
+];
+
+const SKIP_WORDS = ["skip", "no", "no thanks", "later", "لا", "تخطي", "لاحقا"];
+
+const EMAIL_RE = /[^\s@<>()]+@[^\s@<>()]+\.[^\s@<>()]{2,}/;
+const PHONE_RE = /\+?\d[\d\s\-().]{5,20}\d/;
+const NAME_PREFIX_RE =
+  /^(my name is|my name's|i am|i'm|it's|this is|name:|اسمي|انا|أنا)\s+/i;
+
+const COPY = {
+  en: {
+    ask: {
+      name: "Could I have your name?",
+      email: "What's the best email to reach you?",
+      phone: "What's your phone number? Please include the country code.",
+    },
+    invalid: {
+      name: "Sorry, I didn't catch your name. Could you type it again?",
+      email:
+        "That doesn't look like a valid email address. Could you check it?",
+      phone:
+        "That doesn't look like a valid phone number. Please include the country code, e.g. +1 555 123 4567.",
+    },
+    optional: ' (or type "skip")',
+    intro: {
+      before_chat: "Before we start: ",
+      after_messages: "So our team can follow up: ",
+      on_intent: "Before I answer, so our team can follow up: ",
+    },
+    thanks: (name?: string) => `Thanks${name ? `, ${name}` : ""}!`,
+    declined: "No problem.",
+    ready: "How can I help you?",
+  },
+  ar: {
+    ask: {
+      name: "هل يمكنني معرفة اسمك؟",
+      email: "ما هو بريدك الإلكتروني للتواصل معك؟",
+      phone: "ما هو رقم هاتفك؟ يرجى إضافة رمز الدولة.",
+    },
+    invalid: {
+      name: "عذراً، لم أفهم اسمك. هل يمكنك كتابته مرة أخرى؟",
+      email: "يبدو أن البريد الإلكتروني غير صحيح. هل يمكنك التحقق منه؟",
+      phone:
+        "يبدو أن رقم الهاتف غير صحيح. يرجى إضافة رمز الدولة، مثل +966 5x xxx xxxx.",
+    },
+    optional: ' (أو اكتب "تخطي")',
+    intro: {
+      before_chat: "قبل أن نبدأ: ",
+      after_messages: "لكي يتمكن فريقنا من المتابعة معك: ",
+      on_intent: "قبل أن أجيب، لكي يتمكن فريقنا من المتابعة معك: ",
+    },
+    thanks: (name?: string) => `شكراً${name ? ` ${name}` : ""}!`,
+    declined: "لا مشكلة.",
+    ready: "كيف يمكنني مساعدتك؟",
+  },
+};
+
+/** Reads `KnowledgeBase.metadata.leadCapture`; capture is off by default. */
+export function resolveLeadCaptureSettings(
+  metadata: unknown,
+): LeadCaptureSettings {
+  const md = (metadata as Record<string, unknown> | null) ?? {};
+  const lc =
+    md.leadCapture && typeof md.leadCapture === "object"
+      ? (md.leadCapture as Record<string, unknown>)
+      : {};
+
+  const fields = (Array.isArray(lc.fields) ? lc.fields : [])
+    .filter((f: { key?: unknown }) => LEAD_FIELDS.includes(f?.key as LeadField))
+    .map((f: { key: LeadField; required?: unknown }) => ({
+      key: f.key,
+      required: f.required === true,
+    }));
+
+  return {
+    enabled: lc.enabled === true && fields.length > 0,
+    fields,
+    trigger: TRIGGERS.find((t) => t === lc.trigger) ?? "after_messages",
+    afterMessages: Math.min(
+      MAX_AFTER_MESSAGES,
+      Math.max(1, Math.round(Number(lc.afterMessages) || 2)),
+    ),
+    intentKeywords: Array.isArray(lc.intentKeywords)
+      ? lc.intentKeywords.filter(
+          (k: unknown): k is string => typeof k === "string" && !!k.trim(),
+        )
+      : [],
+  };
+}
+
+/** Returns the normalized value, or null when `text` isn't a valid answer. */
+export function parseLeadField(field: LeadField, text: string): string | null {
+  const trimmed = text.trim();
+
+  if (field === "email") {
+    const match = trimmed.match(EMAIL_RE)?.[0];
+    return match ? match.replace(/[.,;:!?]+$/, "").toLowerCase() : null;
+  }
+
+  if (field === "phone") {
+    const match = trimmed.match(PHONE_RE)?.[0];
+    if (!match) return null;
+    const digits = match.replace(/\D/g, "");
+    if (digits.length < 7 || digits.length > 15) return null;
+    return `${match.trim().startsWith("+") ? "+" : ""}${digits}`;
+  }
+
+  const name = trimmed
+    .replace(NAME_PREFIX_RE, "")
+    .replace(/[.!]+$/, "")
+    .trim();
+  if (name.length < 2 || name.length > 80) return null;
+  if (/[\d@]/.test(name) || name.split(/\s+/).length > 5) return null;
+  return name;
+}
+
+function isSkip(text: string) {
+  return SKIP_WORDS.includes(
+    text
+      .trim()
+      .toLowerCase()
+      .replace(/[.!]+$/, ""),
+  );
+}
+
+function isTriggered(
+  settings: LeadCaptureSettings,
+  message: string,
+  userTurns: number,
+) {
+  if (settings.trigger === "before_chat") return userTurns === 0;
+  if (settings.trigger === "after_messages") {
+    return userTurns >= settings.afterMessages;
+  }
+
+  const text = message.toLowerCase();
+  return [...DEFAULT_INTENT_KEYWORDS, ...settings.intentKeywords].some((k) => {
+    const keyword = k.trim().toLowerCase();
+    // whole words for Latin keywords so "book" doesn't match "facebook"
+    if (!/^[a-z0-9 ]+$/.test(keyword)) return text.includes(keyword);
+    return new RegExp(`\\b${keyword}\\b`).test(text);
+  });
+}
+
+/** Reads the capture state stored on a conversation's meta. */
+export function readLeadCaptureState(
+  conversationMeta: unknown,
+): LeadCaptureState | null {
+  const meta = (conversationMeta ?? {}) as { leadCapture?: LeadCaptureState };
+  return meta.leadCapture ?? null;
+}
+
+/**
+ * Moves the capture conversation one step forward for a website message:
+ * starts asking when the trigger fires, validates the answer to the field
+ * that was asked last, and finishes once every field is collected or the
+ * visitor declines. Pure: the caller persists `state` (see
+ * `saveLeadCaptureState`).
+ */
+export function advanceLeadCapture(params: {
+  settings: LeadCaptureSettings;
+  state: LeadCaptureState | null;
+  message: string;
+  userTurns: number; // user messages before this one
+  language?: string; // KB language, used when the message has no letters
+}): LeadCaptureStep {
+  const { settings, message, userTurns } = params;
+  if (!settings.enabled) return { type: "none" };
+  if (params.state && params.state.status !== "asking") return { type: "none" };
+
+  const lang =
+    params.state?.lang ??
+    (/[\u0600-\u06FF]/.test(message)
+      ? "ar"
+      : /[a-z]/i.test(message)
+        ? "en"
+        : params.language === "ar"
+          ? "ar"
+          : "en");
+  const copy = COPY[lang];
+  const ask = (key: LeadField) => {
+    const field = settings.fields.find((f) => f.key === key);
+    return copy.ask[key] + (field?.required ? "" : copy.optional);
+  };
+
+  // ---- not started yet ----
+  if (!params.state) {
+    if (!isTriggered(settings, message, userTurns)) return { type: "none" };
+
+    const first = settings.fields[0].key;
+    return {
+      type: "reply",
+      text: copy.intro[settings.trigger] + ask(first),
+      state: {
+        status: "asking",
+        field: first,
+        attempts: 0,
+        collected: {},
+        pendingQuestion: message,
+        lang,
+      },
+    };
+  }
+
+  // ---- answering the field asked last ----
+  const state: LeadCaptureState = {
+    ...params.state,
+    collected: { ...params.state.collected },
+  };
+  const current = settings.fields.find((f) => f.key === state.field);
+
+  if (current) {
+    const value = parseLeadField(current.key, message);
+
+    if (value) {
+      state.collected[current.key] = value;
+    } else if (!(isSkip(message) && !current.required)) {
+      state.attempts += 1;
+      if (state.attempts < MAX_CAPTURE_ATTEMPTS) {
+        return { type: "reply", text: copy.invalid[current.key], state };
+      }
+      // Don't hold the visitor hostage over a field they won't give
+      return finish({ ...state, status: "declined", field: null }, copy);
+    }
+  }
+
+  const asked = settings.fields.findIndex((f) => f.key === state.field);
+  const next = settings.fields
+    .slice(asked + 1)
+    .find((f) => !state.collected[f.key]);
+  if (next) {
+    return {
+      type: "reply",
+      text: ask(next.key),
+      state: { ...state, field: next.key, attempts: 0 },
+    };
+  }
+
+  return finish({ ...state, status: "done", field: null }, copy);
+}
+
+function finish(
+  state: LeadCaptureState,
+  copy: (typeof COPY)["en"],
+): LeadCaptureStep {
+  const prefix =
+    state.status === "done" ? copy.thanks(state.collected.name) : copy.declined;
+
+  if (state.pendingQuestion) {
+    return {
+      type: "answer",
+      question: state.pendingQuestion,
+      prefix,
+      state: { ...state, pendingQuestion: null },
+    };
+  }
+  return { type: "reply", text: `${prefix} ${copy.ready}`, state };
+}
+
+/**
+ * Stores the capture state on the conversation and, the first time capture
+ * completes with at least one value, writes the Lead (linked to the
+ * conversation, captured by the bot). Returns the saved state.
+ */
+export async function saveLeadCaptureState(params: {
+  conversationId: string;
+  state: LeadCaptureState;
+  userId: string;
+  kbId: string;
+  botId?: string | null;
+}) {
+  const { conversationId, userId, kbId, botId } = params;
+  const state = { ...params.state };
+
+  const { collected } = state;
+  const hasValues = Object.values(collected).some(Boolean);
+
+  if (state.status !== "asking" && hasValues && !state.leadId) {
+    const now = new Date();
+    const lead = await prisma.lead.create({
+      data: {
+        userId,
+        name: collected.name ?? null,
+        email: collected.email ?? null,
+        phone: collected.phone ?? null,
+        status: "NEW",
+        source: "website_widget",
+        capturedBy: botId ?? kbId,
+        channel: "website",
+        conversationId,
+        statusHistory: [
+          { status: "NEW", at: now.toISOString(), source: "website_widget" },
+        ] satisfies LeadStatusChange[],
+        meta: { kbId, conversationId, partial: state.status === "declined" },
+      },
+    });
+    state.leadId = lead.id;
+  }
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { meta: true },
+  });
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: {
+      meta: {
+        ...((conversation?.meta as Record<string, unknown>) ?? {}),
+        leadCapture: state,
+      } as Prisma.InputJsonValue,
+    },
+  });
+
+  return state;
+}
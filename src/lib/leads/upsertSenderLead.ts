@@ -0,0 +1,102 @@
+// lib/leads/upsertSenderLead.ts
+import { prisma } from "@/lib/prisma";
+import { LeadStatus, Prisma } from "@prisma/client";
+
+export type LeadStatusChange = {
+  status: LeadStatus;
+  at: string; // ISO date
+  source: string | null;
+};
+
+type SenderLeadParams = {
+  userId: string;
+  channel: string;
+  senderId: string;
+  source: string; // e.g. "whatsapp_messaging_webhook"
+  capturedBy?: string | null;
+  name?: string | null; // profile name, when the payload carries one
+  resolveName?: () => Promise<string | null>; // called only if still unnamed
+  phone?: string | null;
+  meta?: Record<string, unknown>; // merged into the lead's meta
+};
+
+/**
+ * Returns `history` with a new entry appended when `status` differs from the
+ * last recorded one. Leads created before history was kept start from their
+ * current status.
+ */
+export function appendStatusHistory(
+  history: unknown,
+  current: LeadStatus,
+  status: LeadStatus,
+  source: string | null,
+): LeadStatusChange[] {
+  const entries: LeadStatusChange[] = Array.isArray(history)
+    ? (history as LeadStatusChange[])
+    : [{ status: current, at: new Date(0).toISOString(), source: null }];
+
+  const last = entries[entries.length - 1];
+  if (last?.status === status) return entries;
+
+  return [...entries, { status, at: new Date().toISOString(), source }];
+}
+
+/**
+ * One lead per messaging contact: the first message creates it, later ones
+ * bump `messageCount` / `lastSeenAt`, fill in a missing name or phone and
+ * merge `meta`. Status and its history are never reset by new messages.
+ *
+ * Keyed by lookup rather than a unique index: MongoDB treats the missing
+ * channel/senderId of CRM leads as duplicates.
+ */
+export async function upsertSenderLead(params: SenderLeadParams) {
+  const { userId, channel, senderId, source, capturedBy, phone, meta } = params;
+  const now = new Date();
+
+  const existing = await prisma.lead.findFirst({
+    where: { userId, channel, senderId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, name: true, phone: true, meta: true },
+  });
+
+  const name =
+    params.name ||
+    (!existing?.name && params.resolveName
+      ? await params.resolveName().catch(() => null)
+      : null);
+
+  if (existing) {
+    return prisma.lead.update({
+      where: { id: existing.id },
+      data: {
+        messageCount: { increment: 1 },
+        lastSeenAt: now,
+        ...(!existing.name && name && { name }),
+        ...(!existing.phone && phone && { phone }),
+        meta: {
+          ...((existing.meta as Record<string, unknown>) ?? {}),
+          ...meta,
+        } as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  return prisma.lead.create({
+    data: {
+      userId,
+      channel,
+      senderId,
+      name: name || null,
+      phone: phone || null,
+      status: "NEW",
+      source,
+      capturedBy: capturedBy ?? null,
+      messageCount: 1,
+      lastSeenAt: now,
+      statusHistory: [
+        { status: "NEW", at: now.toISOString(), source },
+      ] satisfies LeadStatusChange[],
+      meta: (meta ?? {}) as Prisma.InputJsonValue,
+    },
+  });
+}
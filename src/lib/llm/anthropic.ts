@@ -0,0 +1,154 @@
+// lib/llm/anthropic.ts
+import { GenerateRequest, LlmError, LlmProvider } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 1024; // the Messages API requires max_tokens
+
+type AnthropicConfig = {
+  apiKey: string;
+  baseUrl?: string;
+};
+
+function unsupported(capability: string): never {
+  throw new LlmError(
+    `Anthropic does not support ${capability}`,
+    "anthropic",
+    501,
+  );
+}
+
+/**
+ * Adapter for the Anthropic Messages API over plain fetch. Text generation
+ * only: embeddings and speech must come from another provider.
+ */
+export function createAnthropicProvider(config: AnthropicConfig): LlmProvider {
+  const baseUrl = (config.baseUrl || "https://api.anthropic.com").replace(
+    /\/$/,
+    "",
+  );
+
+  const request = async (req: GenerateRequest, stream: boolean) => {
+    const res = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: req.model,
+        max_tokens: req.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(req.system && { system: req.system }),
+        ...(req.temperature !== undefined && { temperature: req.temperature }),
+        messages: req.messages,
+        stream,
+      }),
+    });
+
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "");
+      throw new LlmError(
+        `Anthropic request failed (${res.status}): ${txt}`,
+        "anthropic",
+        res.status,
+      );
+    }
+    return res;
+  };
+
+  return {
+    id: "anthropic",
+
+    async generate(req) {
+      const res = await request(req, false);
+      const json = await res.json();
+      const text = (Array.isArray(json?.content) ? json.content : [])
+        .map((block: { type?: string; text?: string }) =>
+          block?.type === "text" ? (block.text ?? "") : "",
+        )
+        .join("")
+        .trim();
+      return {
+        text,
+        usage: json?.usage
+          ? {
+              inputTokens: json.usage.input_tokens ?? 0,
+              outputTokens: json.usage.output_tokens ?? 0,
+            }
+          : null,
+      };
+    },
+
+    async *stream(req) {
+      const res = await request(req, true);
+      if (!res.body) return;
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      // input tokens come with message_start, output tokens with message_delta
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE frames; only the `data:` lines carry anything we need
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+
+          let event: {
+            type?: string;
+            delta?: { type?: string; text?: string };
+            message?: { usage?: { input_tokens?: number } };
+            usage?: { output_tokens?: number };
+            error?: { message?: string };
+          };
+          try {
+            event = JSON.parse(line.slice(5).trim());
+          } catch {
+            continue;
+          }
+
+          if (event.type === "error") {
+            throw new LlmError(
+              event.error?.message || "Anthropic stream error",
+              "anthropic",
+            );
+          }
+          if (event.type === "message_start") {
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+          } else if (event.type === "message_delta") {
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+          } else if (
+            event.type === "content_block_delta" &&
+            event.delta?.type === "text_delta" &&
+            event.delta.text
+          ) {
+            yield { type: "delta", text: event.delta.text };
+          }
+        }
+      }
+
+      if (inputTokens || outputTokens) {
+        yield { type: "usage", usage: { inputTokens, outputTokens } };
+      }
+    },
+
+    async embed() {
+      return unsupported("embeddings");
+    },
+
+    async transcribe() {
+      return unsupported("transcription");
+    },
+
+    async speak() {
+      return unsupported("text-to-speech");
+    },
+  };
+}
@@ -0,0 +1,139 @@
+// lib/llm/index.ts
+import OpenAI, { AzureOpenAI } from "openai";
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAiProvider } from "./openai";
+import {
+  LLM_PROVIDER_IDS,
+  LlmError,
+  LlmProvider,
+  LlmProviderId,
+} from "./types";
+
+export * from "./types";
+
+export type LlmSettings = {
+  provider: LlmProviderId;
+  model: string;
+};
+
+const env = process.env;
+
+function parseProviderId(value: unknown, fallback: LlmProviderId) {
+  return LLM_PROVIDER_IDS.includes(value as LlmProviderId)
+    ? (value as LlmProviderId)
+    : fallback;
+}
+
+/** Chat provider and model used when a KB doesn't pick its own. */
+export const DEFAULT_LLM_PROVIDER = parseProviderId(env.LLM_PROVIDER, "openai");
+
+export const DEFAULT_LLM_MODELS: Record<LlmProviderId, string> = {
+  openai: env.CHAT_MODEL || "gpt-4o-mini",
+  azure: env.AZURE_OPENAI_CHAT_DEPLOYMENT || "gpt-4o-mini",
+  anthropic: env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest",
+  local: env.LLM_LOCAL_MODEL || "llama3.1",
+};
+
+// Embeddings are global: every KB's vectors live in one index with a fixed
+// dimension, so switching the chat provider must not change the embedder.
+const EMBEDDING_PROVIDER = parseProviderId(env.EMBEDDING_PROVIDER, "openai");
+export const EMBEDDING_MODEL = env.EMBEDDING_MODEL || "text-embedding-3-small";
+
+export const SPEECH_PROVIDER = parseProviderId(env.SPEECH_PROVIDER, "openai");
+export const TRANSCRIBE_MODEL = env.TRANSCRIBE_MODEL || "whisper-1";
+export const TTS_MODEL = env.TTS_MODEL || "gpt-4o-mini-tts";
+
+/** True when the env has what the provider needs to be instantiated. */
+export function isLlmProviderConfigured(id: LlmProviderId) {
+  switch (id) {
+    case "openai":
+      return Boolean(env.OPENAI_API_KEY);
+    case "azure":
+      return Boolean(env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_ENDPOINT);
+    case "anthropic":
+      return Boolean(env.ANTHROPIC_API_KEY);
+    case "local":
+      return Boolean(env.LLM_LOCAL_BASE_URL);
+  }
+}
+
+function createProvider(id: LlmProviderId): LlmProvider {
+  if (!isLlmProviderConfigured(id)) {
+    throw new LlmError(`LLM provider "${id}" is not configured`, id, 503);
+  }
+
+  switch (id) {
+    case "openai":
+      return createOpenAiProvider(
+        id,
+        new OpenAI({
+          apiKey: env.OPENAI_API_KEY,
+          baseURL: env.OPENAI_BASE_URL || undefined,
+        }),
+      );
+    case "azure":
+      return createOpenAiProvider(
+        id,
+        new AzureOpenAI({
+          apiKey: env.AZURE_OPENAI_API_KEY,
+          endpoint: env.AZURE_OPENAI_ENDPOINT,
+          apiVersion: env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+        }),
+      );
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY!,
+        baseUrl: env.ANTHROPIC_BASE_URL,
+      });
+    case "local":
+      return createOpenAiProvider(
+        id,
+        new OpenAI({
+          // local servers usually ignore the key but the SDK requires one
+          apiKey: env.LLM_LOCAL_API_KEY || "local",
+          baseURL: env.LLM_LOCAL_BASE_URL,
+        }),
+      );
+  }
+}
+
+const providers = new Map<LlmProviderId, LlmProvider>();
+
+export function getLlmProvider(id: LlmProviderId): LlmProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = createProvider(id);
+    providers.set(id, provider);
+  }
+  return provider;
+}
+
+/** Provider used for document and query embeddings. */
+export function getEmbeddingProvider() {
+  return getLlmProvider(EMBEDDING_PROVIDER);
+}
+
+/** Provider used for transcription and text-to-speech. */
+export function getSpeechProvider() {
+  return getLlmProvider(SPEECH_PROVIDER);
+}
+
+/**
+ * Reads `KnowledgeBase.metadata.llm`, falling back to the env defaults. A KB
+ * that picks a provider without a model gets that provider's default model.
+ */
+export function resolveLlmSettings(metadata: unknown): LlmSettings {
+  const md = (metadata as Record<string, unknown> | null) ?? {};
+  const llm =
+    md.llm && typeof md.llm === "object"
+      ? (md.llm as Record<string, unknown>)
+      : {};
+
+  const provider = parseProviderId(llm.provider, DEFAULT_LLM_PROVIDER);
+  const model =
+    typeof llm.model === "string" && llm.model.trim()
+      ? llm.model.trim()
+      : DEFAULT_LLM_MODELS[provider];
+
+  return { provider, model };
+}
@@ -0,0 +1,141 @@
+// lib/llm/openai.ts
+import OpenAI, { toFile } from "openai";
+import type { CompletionUsage } from "openai/resources/completions";
+import {
+  GenerateRequest,
+  LlmError,
+  LlmProvider,
+  LlmProviderId,
+  TokenUsage,
+} from "./types";
+
+function toLlmError(id: LlmProviderId, err: unknown) {
+  if (err instanceof LlmError) return err;
+  const status = err instanceof OpenAI.APIError ? err.status : undefined;
+  const message = err instanceof Error ? err.message : String(err);
+  return new LlmError(message, id, status);
+}
+
+function tokenUsage(usage?: CompletionUsage | null): TokenUsage | null {
+  return usage
+    ? {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+      }
+    : null;
+}
+
+function chatMessages(req: GenerateRequest) {
+  return [
+    ...(req.system ? [{ role: "system" as const, content: req.system }] : []),
+    ...req.messages,
+  ];
+}
+
+/**
+ * Adapter for anything speaking the OpenAI API: OpenAI itself, Azure OpenAI
+ * (pass an `AzureOpenAI` client; models are deployment names) and local
+ * OpenAI-compatible servers such as vLLM or Ollama (pass a `baseURL`).
+ * Uses Chat Completions, which all of them implement.
+ */
+export function createOpenAiProvider(
+  id: LlmProviderId,
+  client: OpenAI,
+): LlmProvider {
+  return {
+    id,
+
+    async generate(req) {
+      try {
+        const completion = await client.chat.completions.create({
+          model: req.model,
+          messages: chatMessages(req),
+          max_tokens: req.maxTokens,
+          temperature: req.temperature,
+        });
+        return {
+          text: completion.choices[0]?.message?.content?.trim() ?? "",
+          usage: tokenUsage(completion.usage),
+        };
+      } catch (err) {
+        throw toLlmError(id, err);
+      }
+    },
+
+    async *stream(req) {
+      try {
+        const chunks = await client.chat.completions.create({
+          model: req.model,
+          messages: chatMessages(req),
+          max_tokens: req.maxTokens,
+          temperature: req.temperature,
+          stream: true,
+          // the last chunk carries the token counts (empty `choices`)
+          stream_options: { include_usage: true },
+        });
+        for await (const chunk of chunks) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) yield { type: "delta", text: delta };
+          const usage = tokenUsage(chunk.usage);
+          if (usage) yield { type: "usage", usage };
+        }
+      } catch (err) {
+        throw toLlmError(id, err);
+      }
+    },
+
+    async embed(texts, model) {
+      try {
+        const response = await client.embeddings.create({
+          model,
+          input: texts,
+          encoding_format: "float",
+        });
+        return response.data.map((item) => item.embedding);
+      } catch (err) {
+        throw toLlmError(id, err);
+      }
+    },
+
+    async transcribe(req) {
+      try {
+        const file = await toFile(
+          req.audio instanceof Uint8Array
+            ? req.audio
+            : new Uint8Array(req.audio),
+          req.filename ?? "audio.webm",
+          { type: req.mimeType ?? "audio/webm" },
+        );
+        const result = await client.audio.transcriptions.create({
+          file,
+          model: req.model ?? "whisper-1",
+          response_format: "verbose_json",
+          ...(req.language && { language: req.language }),
+        });
+        return {
+          text: (result.text ?? "").trim(),
+          durationSeconds:
+            typeof result.duration === "number" ? result.duration : null,
+          language: result.language ?? null,
+        };
+      } catch (err) {
+        throw toLlmError(id, err);
+      }
+    },
+
+    async speak(req) {
+      try {
+        const response = await client.audio.speech.create({
+          model: req.model ?? "gpt-4o-mini-tts",
+          input: req.text,
+          voice: req.voice,
+          response_format: "mp3",
+          speed: req.speed ?? 1.0,
+        });
+        return await response.arrayBuffer();
+      } catch (err) {
+        throw toLlmError(id, err);
+      }
+    },
+  };
+}
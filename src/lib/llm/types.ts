@@ -0,0 +1,84 @@
+// lib/llm/types.ts
+
+export const LLM_PROVIDER_IDS = [
+  "openai",
+  "azure",
+  "anthropic",
+  "local",
+] as const;
+
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export type LlmMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type GenerateRequest = {
+  model: string; // deployment name on Azure
+  system?: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type GenerateResult = {
+  text: string;
+  usage: TokenUsage | null; // null when the backend doesn't report it
+};
+
+/** Text arrives as `delta` chunks; a final `usage` chunk may follow. */
+export type StreamChunk =
+  | { type: "delta"; text: string }
+  | { type: "usage"; usage: TokenUsage };
+
+export type TranscribeRequest = {
+  audio: ArrayBuffer | Uint8Array;
+  filename?: string;
+  mimeType?: string;
+  model?: string;
+  language?: string;
+};
+
+export type TranscribeResult = {
+  text: string;
+  durationSeconds: number | null; // when the provider reports it
+  language: string | null;
+};
+
+export type SpeakRequest = {
+  text: string;
+  voice: string;
+  model?: string;
+  speed?: number;
+};
+
+/**
+ * One backend behind the chat, voice, messaging and ingestion pipelines.
+ * Capabilities a provider lacks (e.g. embeddings on Anthropic) throw an
+ * `LlmError` with status 501.
+ */
+export interface LlmProvider {
+  id: LlmProviderId;
+  generate(req: GenerateRequest): Promise<GenerateResult>;
+  stream(req: GenerateRequest): AsyncIterable<StreamChunk>;
+  embed(texts: string[], model: string): Promise<number[][]>;
+  transcribe(req: TranscribeRequest): Promise<TranscribeResult>;
+  speak(req: SpeakRequest): Promise<ArrayBuffer>; // mp3
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public provider: LlmProviderId,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
@@ -0,0 +1,38 @@
+// lib/messaging/profile.ts
+import { MessagingRoute } from "@/lib/messaging/send";
+
+/**
+ * Looks up a Messenger / Instagram sender's display name through the Graph
+ * API. WhatsApp names arrive in the webhook payload (`contacts[].profile`),
+ * so there is nothing to fetch for it. Returns null when the lookup isn't
+ * possible or fails.
+ */
+export async function fetchSenderProfileName(
+  route: MessagingRoute,
+  senderId: string,
+  credentials: Record<string, unknown>,
+): Promise<string | null> {
+  const pageAccessToken = credentials.page_access_token as string | undefined;
+  if (!pageAccessToken || route.provider === "whatsapp") return null;
+
+  const fields =
+    route.provider === "instagram" ? "name,username" : "first_name,last_name";
+
+  try {
+    const response = await fetch(
+      `https://graph.facebook.com/v16.0/${encodeURIComponent(senderId)}?fields=${fields}&access_token=${encodeURIComponent(pageAccessToken)}`,
+    );
+    if (!response.ok) return null;
+
+    const profile = (await response.json()) as Record<string, string>;
+    const name =
+      route.provider === "instagram"
+        ? profile.name || profile.username
+        : [profile.first_name, profile.last_name].filter(Boolean).join(" ");
+
+    return name?.trim() || null;
+  } catch (error) {
+    console.warn("Failed to fetch sender profile:", error);
+    return null;
+  }
+}
@@ -0,0 +1,152 @@
+// lib/messaging/send.ts
+// WhatsApp/Facebook (Messenger & Instagram) sending functions
+export async function sendWhatsAppMessage(
+  phoneNumberId: string,
+  to: string,
+  message: string,
+  accessToken: string,
+) {
+  try {
+    const response = await fetch(
+      `https://graph.facebook.com/v16.0/${phoneNumberId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          to: to,
+          type: "text",
+          text: { body: message },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error("WhatsApp API error:", errorData);
+    }
+
+    return response.ok;
+  } catch (error) {
+    console.error("Failed to send WhatsApp message:", error);
+    return false;
+  }
+}
+
+export async function sendMessengerMessage(
+  pageId: string,
+  recipientId: string,
+  message: string,
+  pageAccessToken: string,
+) {
+  try {
+    const response = await fetch(
+      `https://graph.facebook.com/v16.0/${pageId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          recipient: { id: recipientId },
+          message: { text: message },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error("Messenger API error:", errorData);
+    }
+
+    return response.ok;
+  } catch (error) {
+    console.error("Failed to send Messenger message:", error);
+    return false;
+  }
+}
+
+export async function sendInstagramMessage(
+  instagramAccountId: string,
+  recipientId: string,
+  message: string,
+  pageAccessToken: string,
+) {
+  try {
+    const response = await fetch(
+      `https://graph.facebook.com/v16.0/${instagramAccountId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          recipient: { id: recipientId },
+          message: { text: message },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error("Instagram API error:", errorData);
+    }
+
+    return response.ok;
+  } catch (error) {
+    console.error("Failed to send Instagram message:", error);
+    return false;
+  }
+}
+
+export type MessagingRoute = {
+  provider: string; // "whatsapp" | "messenger" | "instagram"
+  platformId: string; // phone_number_id, page id or instagram account id
+};
+
+/**
+ * Sends a text through whichever provider a conversation came in on, using
+ * the integration's stored credentials. Returns false when the provider is
+ * unknown or the credentials lack a token.
+ */
+export async function sendChannelMessage(
+  route: MessagingRoute,
+  recipientId: string,
+  message: string,
+  credentials: Record<string, unknown>,
+) {
+  const { provider, platformId } = route;
+
+  if (provider === "whatsapp") {
+    const accessToken = credentials.access_token as string | undefined;
+    if (!accessToken) return false;
+    return sendWhatsAppMessage(platformId, recipientId, message, accessToken);
+  }
+
+  const pageAccessToken = credentials.page_access_token as string | undefined;
+  if (!pageAccessToken) return false;
+
+  if (provider === "messenger") {
+    return sendMessengerMessage(
+      platformId,
+      recipientId,
+      message,
+      pageAccessToken,
+    );
+  }
+  if (provider === "instagram") {
+    return sendInstagramMessage(
+      platformId,
+      recipientId,
+      message,
+      pageAccessToken,
+    );
+  }
+
+  return false;
+}
@@ -67,6 +67,337 @@ export async function notifyUserProcessingDone(
   }
 }
 
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function notifyUserHandoffRequested(
+  userId: string,
+  summary: {
+    kbTitle?: string;
+    channel: string;
+    visitorId?: string | null;
+    lastMessage?: string;
+    reason: "requested" | "fallback";
+    link?: string;
+    language?: SupportedLang;
+  },
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, name: true },
+  });
+  if (!user?.email) {
+    console.warn("notifyUserHandoffRequested: user has no email", userId);
+    return;
+  }
+
+  const lang = summary.language ?? "en";
+  const who = escapeHtml(summary.visitorId ?? "");
+  const quote = summary.lastMessage
+    ? `<blockquote>${escapeHtml(summary.lastMessage.slice(0, 500))}</blockquote>`
+    : "";
+
+  let subject: string;
+  let html: string;
+
+  if (lang === "ar") {
+    subject = `محادثة على ${summary.channel} تحتاج إلى رد بشري`;
+    html = `
+      <p>مرحبًا ${user.name ?? ""},</p>
+      <p>${summary.reason === "requested" ? "طلب أحد العملاء التحدث مع شخص" : "لم يتمكن البوت من الإجابة على أحد العملاء"} عبر <strong>${summary.channel}</strong> ${who ? `(${who})` : ""} في قاعدة المعرفة <strong>${summary.kbTitle ?? "بدون عنوان"}</strong>.</p>
+      ${quote}
+      <p>تم إيقاف الرد التلقائي لهذه المحادثة حتى تعيدها إلى البوت.</p>
+      ${summary.link ? `<p>رد من هنا: <a href="${summary.link}">${summary.link}</a></p>` : ""}
+      <p>شكرًا — بوتك المساعد</p>
+    `;
+  } else {
+    subject = `A ${summary.channel} conversation needs a human reply`;
+    html = `
+      <p>Hi ${user.name ?? ""},</p>
+      <p>${summary.reason === "requested" ? "A customer asked to talk to a person" : "Your bot couldn't answer a customer"} on <strong>${summary.channel}</strong> ${who ? `(${who})` : ""} for <strong>${summary.kbTitle ?? "Untitled"}</strong>.</p>
+      ${quote}
+      <p>Auto-replies are paused for this conversation until you hand it back to the bot.</p>
+      ${summary.link ? `<p>Reply here: <a href="${summary.link}">${summary.link}</a></p>` : ""}
+      <p>Thanks — your friendly bot</p>
+    `;
+  }
+
+  try {
+    await sendTransactionalEmail(
+      { email: user.email, name: user.name ?? undefined },
+      subject,
+      html,
+    );
+  } catch (err) {
+    console.error("Failed to send Brevo notification:", err);
+  }
+}
+
+/** Emails a billing notice to the user; resolves to whether it was sent. */
+async function sendBillingNotice(
+  userId: string,
+  caller: string,
+  build: (name: string) => { subject: string; html: string },
+) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, name: true },
+  });
+  if (!user?.email) {
+    console.warn(`${caller}: user has no email`, userId);
+    return false;
+  }
+
+  const { subject, html } = build(escapeHtml(user.name ?? ""));
+  try {
+    await sendTransactionalEmail(
+      { email: user.email, name: user.name ?? undefined },
+      subject,
+      html,
+    );
+    return true;
+  } catch (err) {
+    console.error("Failed to send Brevo notification:", err);
+    return false;
+  }
+}
+
+function formatAmount(amount: number, currency: string) {
+  return `${amount.toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+export async function notifyPaymentFailed(
+  userId: string,
+  summary: {
+    amount: number; // major units
+    currency: string;
+    invoiceUrl?: string | null; // Stripe hosted page to retry the payment
+    billingLink: string;
+    nextAttempt?: Date | null;
+    language?: SupportedLang;
+  },
+) {
+  const amount = formatAmount(summary.amount, summary.currency);
+  const payLink = summary.invoiceUrl ?? summary.billingLink;
+
+  await sendBillingNotice(userId, "notifyPaymentFailed", (name) =>
+    summary.language === "ar"
+      ? {
+          subject: "فشل الدفع لاشتراكك",
+          html: `
+      <p>مرحبًا ${name},</p>
+      <p>لم نتمكن من تحصيل مبلغ <strong>${amount}</strong> لاشتراكك.</p>
+      ${summary.nextAttempt ? `<p>سنحاول مرة أخرى في ${summary.nextAttempt.toISOString().slice(0, 10)}.</p>` : ""}
+      <p>حدّث وسيلة الدفع أو ادفع الفاتورة من هنا: <a href="${payLink}">${payLink}</a></p>
+      <p>شكرًا — بوتك المساعد</p>
+    `,
+        }
+      : {
+          subject: "Your subscription payment failed",
+          html: `
+      <p>Hi ${name},</p>
+      <p>We couldn't collect <strong>${amount}</strong> for your subscription.</p>
+      ${summary.nextAttempt ? `<p>We'll retry on ${summary.nextAttempt.toISOString().slice(0, 10)}.</p>` : ""}
+      <p>Update your card or pay the invoice here: <a href="${payLink}">${payLink}</a></p>
+      <p>Thanks — your friendly bot</p>
+    `,
+        },
+  );
+}
+
+export async function notifyRefundIssued(
+  userId: string,
+  summary: {
+    amount: number; // refunded, major units
+    currency: string;
+    full: boolean;
+    billingLink: string;
+    language?: SupportedLang;
+  },
+) {
+  const amount = formatAmount(summary.amount, summary.currency);
+
+  await sendBillingNotice(userId, "notifyRefundIssued", (name) =>
+    summary.language === "ar"
+      ? {
+          subject: "تم إصدار استرداد",
+          html: `
+      <p>مرحبًا ${name},</p>
+      <p>تم استرداد ${summary.full ? "كامل" : "جزء من"} المبلغ: <strong>${amount}</strong>. قد يستغرق ظهوره في حسابك بضعة أيام.</p>
+      <p>سجل الفواتير: <a href="${summary.billingLink}">${summary.billingLink}</a></p>
+      <p>شكرًا — بوتك المساعد</p>
+    `,
+        }
+      : {
+          subject: "Your refund has been issued",
+          html: `
+      <p>Hi ${name},</p>
+      <p>We've issued a ${summary.full ? "full" : "partial"} refund of <strong>${amount}</strong>. It may take a few days to appear on your statement.</p>
+      <p>Billing history: <a href="${summary.billingLink}">${summary.billingLink}</a></p>
+      <p>Thanks — your friendly bot</p>
+    `,
+        },
+  );
+}
+
+export async function notifyTrialEnding(
+  userId: string,
+  summary: {
+    trialEnd: Date;
+    planTitle?: string;
+    hasPaymentMethod: boolean;
+    billingLink: string;
+    language?: SupportedLang;
+  },
+) {
+  const date = summary.trialEnd.toISOString().slice(0, 10);
+
+  await sendBillingNotice(userId, "notifyTrialEnding", (name) =>
+    summary.language === "ar"
+      ? {
+          subject: `تنتهي فترتك التجريبية في ${date}`,
+          html: `
+      <p>مرحبًا ${name},</p>
+      <p>تنتهي الفترة التجريبية لخطة <strong>${summary.planTitle ?? ""}</strong> في ${date}.</p>
+      <p>${summary.hasPaymentMethod ? "سيبدأ الاشتراك المدفوع تلقائيًا." : "أضف وسيلة دفع لمواصلة استخدام وكلائك."}</p>
+      <p>إدارة الفوترة: <a href="${summary.billingLink}">${summary.billingLink}</a></p>
+      <p>شكرًا — بوتك المساعد</p>
+    `,
+        }
+      : {
+          subject: `Your trial ends on ${date}`,
+          html: `
+      <p>Hi ${name},</p>
+      <p>Your <strong>${summary.planTitle ?? ""}</strong> trial ends on ${date}.</p>
+      <p>${summary.hasPaymentMethod ? "Your paid subscription will start automatically." : "Add a payment method to keep your agents running."}</p>
+      <p>Manage billing: <a href="${summary.billingLink}">${summary.billingLink}</a></p>
+      <p>Thanks — your friendly bot</p>
+    `,
+        },
+  );
+}
+
+export async function notifyUsageThreshold(
+  userId: string,
+  summary: {
+    threshold: number; // percent of quota crossed
+    percent: number;
+    usedMinutes: number;
+    totalMinutes: number;
+    usedTokens?: number;
+    totalTokens?: number | null;
+    periodEnd: Date;
+    overageEnabled: boolean;
+    billingLink: string;
+    language?: SupportedLang;
+  },
+) {
+  const date = summary.periodEnd.toISOString().slice(0, 10);
+  const exhausted = summary.percent >= 100;
+  const tokens =
+    summary.totalTokens != null
+      ? `${summary.usedTokens ?? 0} / ${summary.totalTokens}`
+      : null;
+
+  return sendBillingNotice(userId, "notifyUsageThreshold", (name) =>
+    summary.language === "ar"
+      ? {
+          subject: exhausted
+            ? "لقد استهلكت كامل حصة خطتك"
+            : `لقد استهلكت ${summary.threshold}% من حصة خطتك`,
+          html: `
+      <p>مرحبًا ${name},</p>
+      <p>استهلكت <strong>${summary.percent}%</strong> من حصة فترة الفوترة الحالية التي تنتهي في ${date}.</p>
+      <ul>
+        <li>الدقائق: ${summary.usedMinutes} / ${summary.totalMinutes}</li>
+        ${tokens ? `<li>الرموز: ${tokens}</li>` : ""}
+      </ul>
+      ${
+        exhausted
+          ? summary.overageEnabled
+            ? "<p>يستمر وكلاؤك في الرد، ويُحتسب الاستخدام الإضافي حتى حد الإنفاق الذي حددته.</p>"
+            : "<p>يرد وكلاؤك الآن على العملاء برسالة الاعتذار حتى بداية الفترة التالية.</p>"
+          : ""
+      }
+      <p>قم بالترقية أو فعّل الاستخدام الإضافي من هنا: <a href="${summary.billingLink}">${summary.billingLink}</a></p>
+      <p>شكرًا — بوتك المساعد</p>
+    `,
+        }
+      : {
+          subject: exhausted
+            ? "You've used all of your plan's quota"
+            : `You've used ${summary.threshold}% of your plan's quota`,
+          html: `
+      <p>Hi ${name},</p>
+      <p>You've used <strong>${summary.percent}%</strong> of your quota for the billing period ending ${date}.</p>
+      <ul>
+        <li>Minutes: ${summary.usedMinutes} / ${summary.totalMinutes}</li>
+        ${tokens ? `<li>Tokens: ${tokens}</li>` : ""}
+      </ul>
+      ${
+        exhausted
+          ? summary.overageEnabled
+            ? "<p>Your agents keep answering; extra usage is billed up to your spending cap.</p>"
+            : "<p>Your agents now reply to customers with your fallback message until the next period starts.</p>"
+          : ""
+      }
+      <p>Upgrade or turn on overage here: <a href="${summary.billingLink}">${summary.billingLink}</a></p>
+      <p>Thanks — your friendly bot</p>
+    `,
+        },
+  );
+}
+
+export async function notifyWorkspaceInvitation(
+  email: string,
+  summary: {
+    workspaceName: string;
+    inviterName?: string | null;
+    role: string;
+    link: string;
+    expiresAt: Date;
+    language?: SupportedLang;
+  },
+) {
+  const workspace = escapeHtml(summary.workspaceName);
+  const inviter = escapeHtml(summary.inviterName ?? "");
+  const date = summary.expiresAt.toISOString().slice(0, 10);
+
+  const { subject, html } =
+    summary.language === "ar"
+      ? {
+          subject: `دعوة للانضمام إلى مساحة العمل "${summary.workspaceName}"`,
+          html: `
+      <p>مرحبًا،</p>
+      <p>${inviter || "أحد أعضاء الفريق"} دعاك للانضمام إلى مساحة العمل <strong>${workspace}</strong> بدور ${summary.role}.</p>
+      <p>سجّل الدخول أو أنشئ حسابًا بهذا البريد الإلكتروني، ثم اقبل الدعوة من هنا: <a href="${summary.link}">${summary.link}</a></p>
+      <p>تنتهي صلاحية الدعوة في ${date}.</p>
+      <p>شكرًا — بوتك المساعد</p>
+    `,
+        }
+      : {
+          subject: `You're invited to join "${summary.workspaceName}"`,
+          html: `
+      <p>Hi,</p>
+      <p>${inviter || "A teammate"} invited you to join the <strong>${workspace}</strong> workspace as ${summary.role}.</p>
+      <p>Sign in or create an account with this email address, then accept the invitation here: <a href="${summary.link}">${summary.link}</a></p>
+      <p>The invitation expires on ${date}.</p>
+      <p>Thanks — your friendly bot</p>
+    `,
+        };
+
+  try {
+    await sendTransactionalEmail({ email }, subject, html);
+  } catch (err) {
+    console.error("Failed to send Brevo notification:", err);
+  }
+}
+
 export function generateResetPasswordEmail(
   userName: string,
   resetUrl: string,
@@ -0,0 +1,21 @@
+// lib/publicApi/apiKeys.ts
+import crypto from "crypto";
+
+// Makes leaked keys easy to recognise and to search for in code; "sk_" keys
+// reach /api/v1, "kb_" keys a single knowledge base's chat and voice
+const KEY_PREFIXES = { account: "sk_", kb: "kb_" } as const;
+const PREFIX_SECRET_CHARS = 8; // characters of the secret kept in `prefix`
+
+export function hashApiKey(key: string) {
+  return crypto.createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+/** A new key; only `keyHash` and `prefix` are stored, `key` is shown once. */
+export function generateApiKey(kind: keyof typeof KEY_PREFIXES = "account") {
+  const key = KEY_PREFIXES[kind] + crypto.randomBytes(32).toString("base64url");
+  return {
+    key,
+    prefix: key.slice(0, KEY_PREFIXES[kind].length + PREFIX_SECRET_CHARS),
+    keyHash: hashApiKey(key),
+  };
+}
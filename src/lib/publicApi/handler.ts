@@ -0,0 +1,198 @@
+// lib/publicApi/handler.ts
+import { prisma } from "@/lib/prisma";
+import { ApiErrorCode, paginationQuerySchema } from "@/lib/schemas/publicApi";
+import { checkEntitlement } from "@/lib/subscription/checkUsageLimits";
+import { checkRateLimit } from "@/lib/upstash";
+import { NextResponse } from "next/server";
+import z from "zod";
+import { hashApiKey } from "./apiKeys";
+import { ApiKeyScope } from "./scopes";
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  unauthorized: 401,
+  insufficient_scope: 403,
+  plan_required: 403,
+  not_found: 404,
+  invalid_request: 400,
+  limit_reached: 403,
+  conflict: 409,
+  rate_limited: 429,
+  internal_error: 500,
+};
+
+// lastUsedAt is informational; don't write it on every request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+const OBJECT_ID_RE = /^[a-f0-9]{24}$/i;
+
+export class ApiError extends Error {
+  public statusCode: number;
+
+  constructor(
+    public code: ApiErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+export type ApiContext = {
+  ownerId: string; // workspace owner the key acts for
+  keyId: string;
+};
+
+function errorResponse(code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    { error: { code, message } },
+    { status: ERROR_STATUS[code] },
+  );
+}
+
+async function authenticate(
+  req: Request,
+  scope: ApiKeyScope,
+): Promise<ApiContext> {
+  const token = (req.headers.get("authorization") || "")
+    .replace(/^Bearer\s+/i, "")
+    .trim();
+  if (!token) {
+    throw new ApiError(
+      "unauthorized",
+      "Send your API key as `Authorization: Bearer <key>`",
+    );
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(token) },
+    select: {
+      id: true,
+      userId: true,
+      kbId: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+    },
+  });
+  // Knowledge base keys only reach that KB's chat and voice endpoints
+  if (
+    !apiKey ||
+    apiKey.kbId ||
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt <= new Date())
+  ) {
+    throw new ApiError("unauthorized", "Invalid, expired or revoked API key");
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    throw new ApiError(
+      "insufficient_scope",
+      `This API key doesn't have the ${scope} scope`,
+    );
+  }
+
+  const rate = await checkRateLimit(`api_key:${apiKey.id}`, "api");
+  if (!rate.success) {
+    throw new ApiError("rate_limited", "Too many requests; try again shortly");
+  }
+
+  // The workspace owner's plan decides
+  const entitlement = await checkEntitlement(apiKey.userId, "apiAccess");
+  if (!entitlement.allowed) {
+    throw new ApiError(
+      "plan_required",
+      entitlement.reason ?? "Your plan doesn't include API access",
+    );
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_PRECISION_MS
+  ) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return { ownerId: apiKey.userId, keyId: apiKey.id };
+}
+
+/**
+ * Wraps a /api/v1 route handler: authenticates the API key, checks `scope`,
+ * the rate limit and the plan, and turns thrown ApiErrors and validation
+ * errors into `{ error: { code, message } }` responses.
+ */
+export function apiRoute<P = Record<string, never>>(
+  scope: ApiKeyScope,
+  handler: (req: Request, ctx: ApiContext, params: P) => Promise<Response>,
+) {
+  return async (req: Request, { params }: { params: Promise<P> }) => {
+    try {
+      const ctx = await authenticate(req, scope);
+      return await handler(req, ctx, await params);
+    } catch (err) {
+      if (err instanceof ApiError) return errorResponse(err.code, err.message);
+      if (err instanceof z.ZodError) {
+        return errorResponse("invalid_request", z.prettifyError(err));
+      }
+      console.error(`[API v1] ${req.method} ${new URL(req.url).pathname}`, err);
+      return errorResponse("internal_error", "Something went wrong");
+    }
+  };
+}
+
+/** Parses a JSON body with `schema`; a malformed body is an invalid_request. */
+export async function parseJsonBody<T extends z.ZodType>(
+  req: Request,
+  schema: T,
+): Promise<z.infer<T>> {
+  const body = await req.json().catch(() => {
+    throw new ApiError("invalid_request", "Request body must be valid JSON");
+  });
+  return schema.parse(body);
+}
+
+export function parseQuery<T extends z.ZodType>(
+  req: Request,
+  schema: T,
+): z.infer<T> {
+  return schema.parse(Object.fromEntries(new URL(req.url).searchParams));
+}
+
+/** A KB of the key's account, or not_found. */
+export async function findApiKnowledgeBase(ctx: ApiContext, kbId: string) {
+  const kb = OBJECT_ID_RE.test(kbId)
+    ? await prisma.knowledgeBase.findFirst({
+        where: { id: kbId, userId: ctx.ownerId },
+      })
+    : null;
+  if (!kb) throw new ApiError("not_found", "Knowledge base not found");
+  return kb;
+}
+
+/** Prisma arguments for one page, newest first (ObjectIds sort by creation). */
+export function pageArgs({
+  limit,
+  cursor,
+}: z.infer<typeof paginationQuerySchema>) {
+  return {
+    take: limit + 1,
+    orderBy: { id: "desc" as const },
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  };
+}
+
+export function toPage<T extends { id: string }, R>(
+  rows: T[],
+  limit: number,
+  serialize: (row: T) => R,
+) {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    data: items.map(serialize),
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  };
+}
@@ -0,0 +1,233 @@
+// lib/publicApi/openapi.ts
+import {
+  listConversationsQuerySchema,
+  listLeadsQuerySchema,
+  paginationQuerySchema,
+  publicApiRegistry,
+} from "@/lib/schemas/publicApi";
+import z from "zod";
+import { API_KEY_SCOPES, ApiKeyScope } from "./scopes";
+
+type Operation = {
+  summary: string;
+  scope: ApiKeyScope;
+  query?: z.ZodObject;
+  body?: string | "multipart"; // a component schema id
+  status: number;
+  response: string; // a component schema id
+};
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+const idParam = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+const OPERATIONS: Record<string, Record<string, Operation>> = {
+  "/knowledge-bases": {
+    get: {
+      summary: "List knowledge bases",
+      scope: "kb:read",
+      query: paginationQuerySchema,
+      status: 200,
+      response: "KnowledgeBasePage",
+    },
+    post: {
+      summary: "Create a knowledge base and start training it",
+      scope: "kb:write",
+      body: "CreateKnowledgeBase",
+      status: 201,
+      response: "KnowledgeBase",
+    },
+  },
+  "/knowledge-bases/{id}": {
+    get: {
+      summary: "Get a knowledge base",
+      scope: "kb:read",
+      status: 200,
+      response: "KnowledgeBase",
+    },
+  },
+  "/knowledge-bases/{id}/faq": {
+    post: {
+      summary: "Add FAQ entries",
+      scope: "kb:write",
+      body: "AddFaq",
+      status: 201,
+      response: "KnowledgeBase",
+    },
+  },
+  "/knowledge-bases/{id}/documents": {
+    get: {
+      summary: "List uploaded documents",
+      scope: "kb:read",
+      query: paginationQuerySchema,
+      status: 200,
+      response: "DocumentPage",
+    },
+    post: {
+      summary: "Upload a document",
+      scope: "kb:write",
+      body: "multipart",
+      status: 201,
+      response: "Document",
+    },
+  },
+  "/knowledge-bases/{id}/refresh": {
+    post: {
+      summary: "Re-crawl the knowledge base's web pages",
+      scope: "kb:write",
+      status: 202,
+      response: "RefreshResult",
+    },
+  },
+  "/leads": {
+    get: {
+      summary: "List leads",
+      scope: "leads:read",
+      query: listLeadsQuerySchema,
+      status: 200,
+      response: "LeadPage",
+    },
+  },
+  "/conversations": {
+    get: {
+      summary: "List conversations",
+      scope: "conversations:read",
+      query: listConversationsQuerySchema,
+      status: 200,
+      response: "ConversationPage",
+    },
+  },
+  "/conversations/{id}": {
+    get: {
+      summary: "Export a conversation with its messages",
+      scope: "conversations:read",
+      status: 200,
+      response: "ConversationExport",
+    },
+  },
+};
+
+// Schemas are embedded in the document, not standalone
+function embedded(schema: Record<string, unknown>) {
+  const copy = { ...schema };
+  delete copy.$schema;
+  delete copy.$id;
+  return copy;
+}
+
+function queryParameters(query: z.ZodObject) {
+  return Object.entries(query.shape).map(([name, schema]) => {
+    const jsonSchema = embedded(
+      z.toJSONSchema(schema as z.ZodType, { io: "input" }),
+    );
+    return {
+      name,
+      in: "query",
+      required: !(schema as z.ZodType).safeParse(undefined).success,
+      description: jsonSchema.description,
+      schema: jsonSchema,
+    };
+  });
+}
+
+function operation(path: string, op: Operation) {
+  const errors = ["400", "401", "403", "404", "409", "429"].filter(
+    (status) =>
+      (status !== "404" || path.includes("{id}")) &&
+      (status !== "409" || path.endsWith("/refresh")),
+  );
+
+  return {
+    summary: op.summary,
+    description: `Requires the \`${op.scope}\` scope.`,
+    tags: [path.split("/")[1]],
+    parameters: [
+      ...(path.includes("{id}") ? [idParam] : []),
+      ...(op.query ? queryParameters(op.query) : []),
+    ],
+    ...(op.body && {
+      requestBody: {
+        required: true,
+        content:
+          op.body === "multipart"
+            ? {
+                "multipart/form-data": {
+                  schema: {
+                    type: "object",
+                    properties: { file: { type: "string", format: "binary" } },
+                    required: ["file"],
+                  },
+                },
+              }
+            : { "application/json": { schema: ref(op.body) } },
+      },
+    }),
+    responses: {
+      [op.status]: {
+        description: "OK",
+        content: { "application/json": { schema: ref(op.response) } },
+      },
+      ...Object.fromEntries(
+        errors.map((status) => [
+          status,
+          { $ref: "#/components/responses/Error" },
+        ]),
+      ),
+    },
+  };
+}
+
+/** The OpenAPI 3.1 document of /api/v1, built from the schemas the routes use. */
+export function buildOpenApiDocument(serverUrl: string) {
+  const { schemas } = z.toJSONSchema(publicApiRegistry, {
+    io: "input",
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  const components = Object.fromEntries(
+    Object.entries(schemas).map(([id, schema]) => [id, embedded(schema)]),
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Public API",
+      version: "1.0.0",
+      description:
+        "Manage knowledge bases and read leads and conversations. Create API keys under Settings → API keys; each key only reaches the scopes it was given. Lists are paginated with `limit` and `cursor`. Errors are `{ error: { code, message } }`.",
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    paths: Object.fromEntries(
+      Object.entries(OPERATIONS).map(([path, ops]) => [
+        path,
+        Object.fromEntries(
+          Object.entries(ops).map(([method, op]) => [
+            method,
+            operation(path, op),
+          ]),
+        ),
+      ]),
+    ),
+    components: {
+      schemas: components,
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: `Scopes: ${API_KEY_SCOPES.join(", ")}`,
+        },
+      },
+      responses: {
+        Error: {
+          description: "Error; see `error.code`",
+          content: { "application/json": { schema: ref("Error") } },
+        },
+      },
+    },
+  };
+}
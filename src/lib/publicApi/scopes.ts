@@ -0,0 +1,14 @@
+// lib/publicApi/scopes.ts
+
+export const API_KEY_SCOPES = [
+  "kb:read", // list and read knowledge bases
+  "kb:write", // create KBs, add FAQ entries and documents, re-crawl
+  "leads:read",
+  "conversations:read", // list and export conversations with their messages
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
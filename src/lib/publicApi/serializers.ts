@@ -0,0 +1,87 @@
+// lib/publicApi/serializers.ts
+import type { KbMetadata } from "@/components/dashboard/KnowledgeBaseClient";
+import type {
+  PublicConversation,
+  PublicDocument,
+  PublicKnowledgeBase,
+  PublicLead,
+  PublicMessage,
+} from "@/lib/schemas/publicApi";
+import type {
+  Conversation,
+  KnowledgeBase,
+  Lead,
+  Message,
+  UploadedFile,
+} from "@prisma/client";
+
+// API responses are built field by field so new internal columns (hashes,
+// tokens, settings) never leak out by default.
+
+export function serializeKnowledgeBase(kb: KnowledgeBase): PublicKnowledgeBase {
+  const metadata = (kb.metadata as KbMetadata | null) ?? null;
+  return {
+    id: kb.id,
+    title: kb.title,
+    description: kb.description,
+    language: metadata?.language ?? null,
+    url: metadata?.url ?? null,
+    allowedOrigins: metadata?.allowedOrigins ?? [],
+    faqCount: metadata?.faq?.length ?? 0,
+    refreshSchedule: kb.refreshSchedule ?? "MANUAL",
+    lastRefreshAt: kb.lastRefreshAt?.toISOString() ?? null,
+    createdAt: kb.createdAt.toISOString(),
+    updatedAt: kb.updatedAt.toISOString(),
+  };
+}
+
+export function serializeDocument(file: UploadedFile): PublicDocument {
+  const meta = file.meta as { originalName?: string } | null;
+  return {
+    id: file.id,
+    filename: meta?.originalName ?? file.filename,
+    fileType: file.fileType,
+    size: file.size,
+    createdAt: file.createdAt.toISOString(),
+  };
+}
+
+export function serializeLead(lead: Lead): PublicLead {
+  return {
+    id: lead.id,
+    name: lead.name,
+    email: lead.email,
+    phone: lead.phone,
+    status: lead.status,
+    source: lead.source,
+    channel: lead.channel,
+    conversationId: lead.conversationId,
+    createdAt: lead.createdAt.toISOString(),
+    updatedAt: lead.updatedAt.toISOString(),
+  };
+}
+
+export function serializeConversation(
+  conversation: Conversation & { _count: { messages: number } },
+): PublicConversation {
+  return {
+    id: conversation.id,
+    kbId: conversation.kbId,
+    channel: conversation.channel,
+    visitorId: conversation.visitorId,
+    title: conversation.title,
+    status: conversation.status,
+    messageCount: conversation._count.messages,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+  };
+}
+
+export function serializeMessage(message: Message): PublicMessage {
+  return {
+    id: message.id,
+    sender: message.sender,
+    content: message.content,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
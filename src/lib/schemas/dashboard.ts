@@ -1,4 +1,9 @@
 import { Dictionary } from "@/contexts/dictionary-context";
+import {
+  CRAWL_QUERY_PARAM_MODES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+} from "@/lib/kb/crawlScope";
 import z from "zod";
 
 export const settingsSchema = (dict: Dictionary) =>
@@ -48,6 +53,18 @@ export const setupSchema = (dict: Dictionary) => {
       .optional(),
     files: z.array(z.url()).optional(),
     allowedOrigins: z.array(z.string()).min(1, t.allowed_origins_required),
+    crawl: z.object({
+      includePaths: z.array(z.string()),
+      excludePaths: z.array(z.string()),
+      maxPages: z
+        .number(t.crawl_max_pages_invalid)
+        .int(t.crawl_max_pages_invalid)
+        .min(1, t.crawl_max_pages_invalid)
+        .max(MAX_CRAWL_PAGES, t.crawl_max_pages_invalid),
+      maxDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH),
+      includeSubdomains: z.boolean(),
+      queryParams: z.enum(CRAWL_QUERY_PARAM_MODES),
+    }),
   });
 };
 
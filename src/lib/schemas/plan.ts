@@ -1,4 +1,5 @@
 import * as z from "zod";
+import { ENTITLEMENT_CHANNELS } from "@/lib/subscription/planEntitlements";
 
 export const planSchema = z.object({
   name: z.enum(["MAINTENANCE", "FREE", "STARTER", "PRO", "ENTERPRISE"]),
@@ -11,8 +12,20 @@ export const planSchema = z.object({
   priceAmount: z.number().int().nullable().optional(),
   interval: z.string().optional(),
   stripePriceId: z.string().optional(),
+  stripeOveragePriceId: z.string().optional(), // metered price for overage
   minutesPerMonth: z.number().int().min(0),
+  tokensPerMonth: z.number().int().min(0).nullable().optional(), // null = derived from minutesPerMonth
+  crawlPagesPerMonth: z.number().int().min(0).nullable().optional(), // null = unlimited
   agents: z.number().int().min(0),
+  entitlements: z.object({
+    channels: z.array(z.enum(ENTITLEMENT_CHANNELS)),
+    voice: z.boolean(),
+    maxDocumentsPerKb: z.number().int().min(0).nullable(), // null = unlimited
+    maxPagesPerKb: z.number().int().min(0).nullable(),
+    maxStorageMbPerKb: z.number().int().min(0).nullable(),
+    removeBranding: z.boolean(),
+    apiAccess: z.boolean(),
+  }),
   featuresEn: z.array(z.string()).min(0),
   featuresAr: z.array(z.string()).min(0),
   popular: z.boolean().optional(),
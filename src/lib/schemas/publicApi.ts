@@ -0,0 +1,210 @@
+import {
+  CRAWL_QUERY_PARAM_MODES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+} from "@/lib/kb/crawlScope";
+import z from "zod";
+
+/**
+ * Request and response shapes of the public REST API (/api/v1). Routes parse
+ * requests with these, and the OpenAPI document is generated from them, so
+ * the two can't drift apart. Registered schemas become named components.
+ */
+export const publicApiRegistry = z.registry<{ id: string }>();
+
+const objectId = z.string().regex(/^[a-f0-9]{24}$/i, "Invalid id");
+const timestamp = z.iso.datetime();
+
+export const API_ERROR_CODES = [
+  "unauthorized", // missing, unknown or revoked API key
+  "insufficient_scope",
+  "plan_required", // the account's plan doesn't include API access
+  "not_found",
+  "invalid_request",
+  "limit_reached", // a plan limit (agents, documents, storage...)
+  "conflict", // e.g. a re-crawl is already running
+  "rate_limited",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+export const apiErrorSchema = z
+  .object({
+    error: z.object({
+      code: z.enum(API_ERROR_CODES),
+      message: z.string(),
+    }),
+  })
+  .register(publicApiRegistry, { id: "Error" });
+
+export const paginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: objectId
+    .optional()
+    .describe("`nextCursor` of the previous page; omit for the first page"),
+});
+
+/** Newest first; `nextCursor` is null on the last page. */
+export const pageSchema = <T extends z.ZodType>(item: T) =>
+  z.object({ data: z.array(item), nextCursor: z.string().nullable() });
+
+export const faqItemSchema = z
+  .object({
+    question: z.string().trim().min(1).max(500),
+    answer: z.string().trim().min(1).max(5000),
+  })
+  .register(publicApiRegistry, { id: "FaqItem" });
+
+export const knowledgeBaseSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+    language: z.string().nullable(),
+    url: z.string().nullable().describe("Website the KB is trained from"),
+    allowedOrigins: z.array(z.string()),
+    faqCount: z.number().int(),
+    refreshSchedule: z.enum(["MANUAL", "DAILY", "WEEKLY"]),
+    lastRefreshAt: timestamp.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .register(publicApiRegistry, { id: "KnowledgeBase" });
+
+export const knowledgeBasePageSchema = pageSchema(knowledgeBaseSchema).register(
+  publicApiRegistry,
+  { id: "KnowledgeBasePage" },
+);
+
+export const createKnowledgeBaseSchema = z
+  .object({
+    title: z.string().trim().min(1).max(50),
+    description: z.string().trim().max(100).optional(),
+    personality: z.string().trim().max(2000).optional(),
+    language: z.enum(["en", "ar"]).default("en"),
+    url: z
+      .url({ protocol: /^https?$/ })
+      .optional()
+      .describe("Crawled right after the KB is created"),
+    allowedOrigins: z
+      .array(z.url({ protocol: /^https?$/ }))
+      .min(1)
+      .describe("Sites allowed to embed the chat widget"),
+    faq: z.array(faqItemSchema).max(100).optional(),
+    voice: z.string().default("alloy"),
+    primaryColor: z
+      .string()
+      .regex(/^#([0-9A-F]{3}){1,2}$/i)
+      .default("#29ABE2"),
+    accentColor: z
+      .string()
+      .regex(/^#([0-9A-F]{3}){1,2}$/i)
+      .default("#29E2C2"),
+    crawl: z
+      .object({
+        includePaths: z.array(z.string()),
+        excludePaths: z.array(z.string()),
+        maxPages: z.number().int().min(1).max(MAX_CRAWL_PAGES),
+        maxDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH),
+        includeSubdomains: z.boolean(),
+        queryParams: z.enum(CRAWL_QUERY_PARAM_MODES),
+      })
+      .partial()
+      .optional(),
+  })
+  .register(publicApiRegistry, { id: "CreateKnowledgeBase" });
+
+export const addFaqSchema = z
+  .object({ items: z.array(faqItemSchema).min(1).max(100) })
+  .register(publicApiRegistry, { id: "AddFaq" });
+
+export const documentSchema = z
+  .object({
+    id: z.string(),
+    filename: z.string(),
+    fileType: z.string().nullable(),
+    size: z.number().int().nullable(),
+    createdAt: timestamp,
+  })
+  .register(publicApiRegistry, { id: "Document" });
+
+export const documentPageSchema = pageSchema(documentSchema).register(
+  publicApiRegistry,
+  { id: "DocumentPage" },
+);
+
+export const refreshResultSchema = z
+  .object({
+    queued: z.number().int().describe("Pages queued for re-crawling"),
+  })
+  .register(publicApiRegistry, { id: "RefreshResult" });
+
+export const leadSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullable(),
+    email: z.string().nullable(),
+    phone: z.string().nullable(),
+    status: z.enum(["NEW", "CONTACTED", "QUALIFIED", "CONVERTED", "LOST"]),
+    source: z.string().nullable(),
+    channel: z.string().nullable(),
+    conversationId: z.string().nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .register(publicApiRegistry, { id: "Lead" });
+
+export const leadPageSchema = pageSchema(leadSchema).register(
+  publicApiRegistry,
+  { id: "LeadPage" },
+);
+
+export const listLeadsQuerySchema = paginationQuerySchema.extend({
+  status: leadSchema.shape.status.optional(),
+});
+
+export const conversationSchema = z
+  .object({
+    id: z.string(),
+    kbId: z.string().nullable(),
+    channel: z.string(),
+    visitorId: z.string().nullable(),
+    title: z.string().nullable(),
+    status: z
+      .string()
+      .describe('"bot", or "handoff" while a human agent answers'),
+    messageCount: z.number().int(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .register(publicApiRegistry, { id: "Conversation" });
+
+export const conversationPageSchema = pageSchema(conversationSchema).register(
+  publicApiRegistry,
+  { id: "ConversationPage" },
+);
+
+export const listConversationsQuerySchema = paginationQuerySchema.extend({
+  kbId: objectId.optional(),
+  channel: z.string().optional(),
+});
+
+export const messageSchema = z
+  .object({
+    id: z.string(),
+    sender: z.string().describe('"user", "bot" or "agent"'),
+    content: z.string(),
+    createdAt: timestamp,
+  })
+  .register(publicApiRegistry, { id: "Message" });
+
+export const conversationExportSchema = conversationSchema
+  .extend({ messages: z.array(messageSchema) })
+  .register(publicApiRegistry, { id: "ConversationExport" });
+
+export type PublicKnowledgeBase = z.infer<typeof knowledgeBaseSchema>;
+export type PublicDocument = z.infer<typeof documentSchema>;
+export type PublicLead = z.infer<typeof leadSchema>;
+export type PublicConversation = z.infer<typeof conversationSchema>;
+export type PublicMessage = z.infer<typeof messageSchema>;
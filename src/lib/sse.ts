@@ -0,0 +1,125 @@
+// lib/sse.ts
+// Minimal Server-Sent Events helpers for streaming route handlers.
+
+export type SseSend = (event: string, data: unknown) => void;
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+} as const;
+
+/**
+ * True when the caller opted into streaming via `Accept: text/event-stream`
+ * or a `stream: true` flag in the request body.
+ */
+export function wantsEventStream(req: Request, streamFlag?: unknown) {
+  if (streamFlag === true || streamFlag === "true") return true;
+  const accept = req.headers.get("accept") || "";
+  return accept.includes("text/event-stream");
+}
+
+/**
+ * Runs `handler` after the response has been returned, forwarding everything
+ * it sends as SSE frames. Errors thrown by the handler become an `error`
+ * event so the client can stop waiting.
+ */
+export function createSseResponse(
+  handler: (send: SseSend) => Promise<void>,
+  init?: { headers?: Record<string, string> },
+) {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+
+      const send: SseSend = (event, data) => {
+        if (closed) return;
+        const payload = typeof data === "string" ? data : JSON.stringify(data);
+        try {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${payload}\n\n`),
+          );
+        } catch {
+          // client went away; keep running the handler so bookkeeping finishes
+          closed = true;
+        }
+      };
+
+      try {
+        await handler(send);
+      } catch (err) {
+        console.error("SSE handler error:", err);
+        send("error", {
+          error: "internal_error",
+          details: err instanceof Error ? err.message : String(err),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...SSE_HEADERS, ...(init?.headers ?? {}) },
+  });
+}
+
+/** Streams an already-complete answer as a single delta followed by `done`. */
+export function sseFromText(text: string, done: unknown) {
+  return createSseResponse(async (send) => {
+    send("delta", { text });
+    send("done", done);
+  });
+}
+
+/**
+ * Client-side reader: parses an SSE response body and calls `onEvent` for
+ * every complete frame. Resolves when the stream ends.
+ */
+export async function readEventStream(
+  res: Response,
+  onEvent: (event: string, data: unknown) => void,
+) {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (frame: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+    }
+    if (!dataLines.length) return;
+    const raw = dataLines.join("\n");
+    try {
+      onEvent(event, JSON.parse(raw));
+    } catch {
+      onEvent(event, raw);
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  if (buffer.trim()) flush(buffer);
+}
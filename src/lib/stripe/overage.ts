@@ -0,0 +1,266 @@
+// lib/stripe/overage.ts
+import { prisma } from "@/lib/prisma";
+import {
+  getPeriodUsage,
+  overageCapFor,
+  overageCostCents,
+} from "@/lib/subscription/checkUsageLimits";
+import Stripe from "stripe";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-07-30.basil",
+});
+
+// The Stripe meter every plan's overage price is attached to
+export const OVERAGE_METER_EVENT =
+  process.env.STRIPE_OVERAGE_METER_EVENT || "overage_minutes";
+
+function priceIdOf(item: Stripe.SubscriptionItem) {
+  return typeof item.price === "string" ? item.price : item.price?.id;
+}
+
+function isMetered(item: Stripe.SubscriptionItem) {
+  return (
+    typeof item.price !== "string" &&
+    item.price?.recurring?.usage_type === "metered"
+  );
+}
+
+/** The licensed (flat-fee) item, i.e. the one that carries the plan. */
+export function findPlanItem(subscription: Stripe.Subscription) {
+  const items = subscription.items?.data ?? [];
+  return items.find((item) => !isMetered(item)) ?? items[0] ?? null;
+}
+
+export function findOverageItem(subscription: Stripe.Subscription) {
+  return subscription.items?.data?.find(isMetered) ?? null;
+}
+
+/**
+ * Makes sure the subscription has the plan's metered overage price, so
+ * minutes reported to the meter show up on its invoices. An existing
+ * overage item for another price (after a plan change) is swapped.
+ */
+export async function ensureOverageItem(
+  stripeSubscriptionId: string,
+  overagePriceId: string,
+) {
+  const subscription = await stripe.subscriptions.retrieve(
+    stripeSubscriptionId,
+    { expand: ["items.data.price"] },
+  );
+  const existing = findOverageItem(subscription);
+
+  if (existing && priceIdOf(existing) === overagePriceId) return;
+
+  if (existing) {
+    await stripe.subscriptionItems.update(existing.id, {
+      price: overagePriceId,
+      proration_behavior: "none",
+    });
+  } else {
+    await stripe.subscriptionItems.create({
+      subscription: stripeSubscriptionId,
+      price: overagePriceId,
+      proration_behavior: "none",
+    });
+  }
+}
+
+type OptInUser = {
+  overageEnabled: boolean | null;
+  overageEnabledAt: Date | null;
+  overageDisabledAt: Date | null;
+};
+
+/**
+ * The part of a billing period the user was opted in to overage, or null
+ * when they never were. Opt-ins from before the dates were recorded count
+ * from the start of the period.
+ */
+function optInWindow(
+  user: OptInUser | null,
+  periodStart: Date,
+  periodEnd: Date,
+) {
+  if (!user) return null;
+  const enabledAt =
+    user.overageEnabledAt ?? (user.overageEnabled ? periodStart : null);
+  if (!enabledAt) return null;
+
+  const disabledAt = user.overageEnabled ? null : user.overageDisabledAt;
+  if (!user.overageEnabled && !disabledAt) return null;
+
+  const start = enabledAt > periodStart ? enabledAt : periodStart;
+  const end = disabledAt && disabledAt < periodEnd ? disabledAt : periodEnd;
+  return start < end ? { start, end } : null;
+}
+
+/**
+ * Reports one finished billing period's overage to the Stripe meter. Runs
+ * from the `invoice.created` webhook, inside Stripe's grace window before
+ * the cycle invoice is finalized. Only minutes past the quota used while
+ * the user was opted in are billed, so turning overage off before the
+ * period ends does not waive them. Billed minutes are rounded up and cut
+ * at the user's spending cap; the report row makes retries a no-op.
+ * Subscriptions without a metered overage item are never reported.
+ */
+export async function reportPeriodOverage(params: {
+  userId: string;
+  stripeCustomerId: string;
+  stripeSubscriptionId: string;
+  invoiceId: string; // the cycle invoice the overage should land on
+  periodStart: Date;
+  periodEnd: Date;
+}) {
+  const { userId, stripeSubscriptionId, periodStart, periodEnd } = params;
+
+  const already = await prisma.overageReport.findUnique({
+    where: {
+      stripeSubscriptionId_periodStart: { stripeSubscriptionId, periodStart },
+    },
+  });
+  if (already) return already;
+
+  const [user, subscription] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        overageEnabled: true,
+        overageCapCents: true,
+        overageEnabledAt: true,
+        overageDisabledAt: true,
+      },
+    }),
+    prisma.subscription.findFirst({
+      where: { stripeSubscriptionId },
+      include: { plan: true },
+    }),
+  ]);
+  if (!subscription) return null;
+
+  const plan = subscription.plan;
+  // Only overage used while the user was opted in is billed
+  const window = optInWindow(user, periodStart, periodEnd);
+  if (!window) return null;
+  // The cap they set still applies after opting out
+  const capCents = overageCapFor({ ...user, overageEnabled: true }, plan);
+  if (capCents === null) return null;
+
+  // Without the metered price the meter events would land on no invoice
+  const stripeSubscription = await stripe.subscriptions.retrieve(
+    stripeSubscriptionId,
+    { expand: ["items.data.price"] },
+  );
+  if (!findOverageItem(stripeSubscription)) return null;
+
+  // Minutes past the quota by `until`, counted from the period start
+  const overBy = async (until: Date) => {
+    if (until <= periodStart) return 0;
+    const usage = await getPeriodUsage(userId, periodStart, until);
+    return Math.max(0, usage.minutes - plan.minutesPerMonth);
+  };
+  const [overAtStart, overAtEnd] = await Promise.all([
+    overBy(window.start),
+    overBy(window.end),
+  ]);
+
+  const perMinuteCents = Math.max(1, overageCostCents(1, plan.name));
+  const capMinutes = Math.floor(capCents / perMinuteCents);
+  const minutes = Math.min(
+    capMinutes,
+    Math.ceil(Math.max(0, overAtEnd - overAtStart)),
+  );
+  if (minutes <= 0) return null;
+
+  const identifier = `overage_${stripeSubscriptionId}_${periodStart.getTime()}`;
+  await stripe.billing.meterEvents.create({
+    event_name: OVERAGE_METER_EVENT,
+    identifier,
+    // inside the finished period so it lands on this cycle's invoice
+    timestamp: Math.floor(periodEnd.getTime() / 1000) - 1,
+    payload: {
+      stripe_customer_id: params.stripeCustomerId,
+      value: String(minutes),
+    },
+  });
+
+  return prisma.overageReport.create({
+    data: {
+      userId,
+      stripeSubscriptionId,
+      periodStart,
+      periodEnd,
+      minutes,
+      amountCents: overageCostCents(minutes, plan.name),
+      invoiceId: params.invoiceId,
+    },
+  });
+}
+
+/** Subscription an invoice bills (moved under `parent` in API 2025-03-31). */
+export function invoiceSubscriptionId(invoice: Stripe.Invoice) {
+  const fromParent = invoice.parent?.subscription_details?.subscription;
+  const legacy = (invoice as { subscription?: unknown }).subscription;
+  const sub = fromParent ?? legacy;
+  if (!sub) return null;
+  return typeof sub === "string" ? sub : (sub as Stripe.Subscription).id;
+}
+
+/** Marks the overage reported for an invoice as paid or failed. */
+export async function reconcileOverageInvoice(
+  invoice: Stripe.Invoice,
+  status: "PAID" | "FAILED",
+) {
+  if (!invoice.id) return 0;
+  const { count } = await prisma.overageReport.updateMany({
+    where: { invoiceId: invoice.id },
+    data: { status },
+  });
+  return count;
+}
+
+/**
+ * Overage charged on an invoice: the total of its lines billed at one of
+ * the plans' metered overage prices, in cents.
+ */
+export async function invoiceOverageCents(invoice: Stripe.Invoice) {
+  const plans = await prisma.plan.findMany({
+    where: { stripeOveragePriceId: { not: null } },
+    select: { stripeOveragePriceId: true },
+  });
+  const overagePrices = new Set(plans.map((p) => p.stripeOveragePriceId));
+
+  return (invoice.lines?.data ?? [])
+    .filter((line) =>
+      overagePrices.has(line.pricing?.price_details?.price ?? null),
+    )
+    .reduce((sum, line) => sum + (line.amount ?? 0), 0);
+}
+
+/**
+ * Subscription period an invoice bills the plan for, taken from its
+ * licensed plan line. The metered overage line is billed in arrears and
+ * carries the previous period, so it is never used. Null when the invoice
+ * has no plan line.
+ */
+export async function invoicePlanPeriod(invoice: Stripe.Invoice) {
+  const plans = await prisma.plan.findMany({
+    select: { stripePriceId: true, stripeOveragePriceId: true },
+  });
+  const planPrices = new Set(plans.map((p) => p.stripePriceId));
+  const overagePrices = new Set(plans.map((p) => p.stripeOveragePriceId));
+
+  const lines = invoice.lines?.data ?? [];
+  const priceOf = (line: Stripe.InvoiceLineItem) =>
+    line.pricing?.price_details?.price ?? null;
+  const line =
+    lines.find((l) => planPrices.has(priceOf(l))) ??
+    lines.find((l) => !overagePrices.has(priceOf(l)));
+
+  if (!line?.period?.start || !line.period.end) return null;
+  return {
+    currentPeriodStart: new Date(line.period.start * 1000),
+    currentPeriodEnd: new Date(line.period.end * 1000),
+  };
+}
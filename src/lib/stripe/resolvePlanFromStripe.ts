@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/prisma";
 import { PlanName } from "@prisma/client";
 import Stripe from "stripe";
+import { findPlanItem } from "./overage";
 
 /**
  * Resolve a Plan ID (your DB plan.id) from a Stripe subscription object.
@@ -13,8 +14,9 @@ import Stripe from "stripe";
 export async function resolvePlanIdFromStripeSubscription(
   subscription: Stripe.Subscription,
 ): Promise<string | null> {
-  // 1) price id from first item (most reliable)
-  const firstItem = subscription.items?.data?.[0];
+  // 1) price id from the flat-fee item (most reliable); the metered
+  //    overage item never identifies the plan
+  const firstItem = findPlanItem(subscription);
   const priceObj = firstItem?.price;
   let priceId: string | null = null;
 
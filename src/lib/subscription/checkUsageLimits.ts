@@ -1,6 +1,15 @@
 // lib/subscription/checkUsageLimits.ts
 import { prisma } from "@/lib/prisma";
+import { sendUsageAlerts } from "@/lib/usage/alerts";
+import { planTokenQuota, UsageEstimate } from "@/lib/usage/metering";
 import { PlanName, SubscriptionStatus } from "@prisma/client";
+import {
+  EntitlementFeature,
+  isEntitlementChannel,
+  PlanEntitlements,
+  resolvePlanEntitlements,
+  UNRESTRICTED_ENTITLEMENTS,
+} from "./planEntitlements";
 
 type UsageLimitResult = {
   allowed: boolean;
@@ -8,6 +17,12 @@ type UsageLimitResult = {
   remainingMinutes?: number;
   totalMinutes?: number;
   usedMinutes?: number;
+  remainingTokens?: number; // only for plans that meter tokens
+  totalTokens?: number;
+  usedTokens?: number;
+  overageMinutes?: number; // minutes past the quota, when overage is on
+  overageCostCents?: number;
+  overageCapCents?: number;
   planName?: PlanName;
   requiresUpgrade?: boolean;
 };
@@ -21,17 +36,111 @@ type AgentLimitResult = {
   planName?: PlanName;
 };
 
+const roundMinutes = (minutes: number) => Math.round(minutes * 100) / 100;
+
+export const DEFAULT_OVERAGE_CAP_CENTS = 5000;
+
+type OverageUser = {
+  overageEnabled?: boolean | null;
+  overageCapCents?: number | null;
+};
+
+type OveragePlan = {
+  name: PlanName;
+  stripeOveragePriceId?: string | null;
+};
+
+/**
+ * The user's per-period spending cap when overage applies to them: they
+ * opted in, and the plan has a rate and a Stripe metered price to bill it.
+ */
+export function overageCapFor(user: OverageUser | null, plan: OveragePlan) {
+  if (!user?.overageEnabled || !plan.stripeOveragePriceId) return null;
+  if (getOverageRate(plan.name) <= 0) return null;
+  return user.overageCapCents ?? DEFAULT_OVERAGE_CAP_CENTS;
+}
+
+/** What `minutes` past the quota cost at the plan's overage rate. */
+export function overageCostCents(minutes: number, planName: PlanName) {
+  return Math.round(Math.max(0, minutes) * getOverageRate(planName) * 100);
+}
+
+/**
+ * Billable usage between two dates, excluding demo traffic. Voice minutes
+ * are exact (not rounded); tokens are input + output.
+ */
+export async function getPeriodUsage(
+  userId: string,
+  periodStart: Date,
+  periodEnd: Date,
+) {
+  const matchStage = {
+    $match: {
+      userId: { $oid: userId },
+      date: {
+        $gte: { $date: periodStart.toISOString() },
+        $lte: { $date: periodEnd.toISOString() },
+      },
+      $or: [
+        { "meta.isDemo": { $exists: false } },
+        { "meta.isDemo": { $ne: true } },
+      ],
+    },
+  };
+
+  const groupStage = {
+    $group: {
+      _id: null,
+      totalMinutes: { $sum: "$minutes" },
+      // rows logged before token metering have no token fields
+      totalTokens: {
+        $sum: {
+          $add: [
+            { $ifNull: ["$inputTokens", 0] },
+            { $ifNull: ["$outputTokens", 0] },
+          ],
+        },
+      },
+    },
+  };
+
+  const agg = await prisma.usage.aggregateRaw({
+    pipeline: [matchStage, groupStage],
+  });
+
+  const totals = Array.isArray(agg) && agg.length > 0 ? agg[0] : null;
+  return {
+    minutes: Number(totals?.totalMinutes) || 0,
+    tokens: Number(totals?.totalTokens) || 0,
+  };
+}
+
 /**
- * Check if user can make a request based on their subscription and usage
+ * Check if user can make a request based on their subscription and usage.
+ * Voice minutes (measured audio) are checked against `minutesPerMonth` and
+ * LLM tokens against `tokensPerMonth` (or the quota derived from the plan's
+ * minutes when it sets none; see `planTokenQuota`). An exhausted
+ * quota blocks every channel; `estimate` is what this request will likely
+ * consume of each.
  */
 export async function checkUsageLimits(
   userId: string,
-  estimatedMinutes: number = 1,
+  estimate: UsageEstimate = {},
 ): Promise<UsageLimitResult> {
+  const estimatedMinutes = estimate.voiceMinutes ?? 0;
+  const estimatedTokens = estimate.tokens ?? 0;
+
   // Check if user is admin - admins bypass all limits
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { role: true },
+    select: {
+      role: true,
+      overageEnabled: true,
+      overageCapCents: true,
+      usageAlertsEnabled: true,
+      usageAlertThresholds: true,
+      usageAlertLanguage: true,
+    },
   });
 
   if (user?.role === "ADMIN") {
@@ -49,10 +158,14 @@ export async function checkUsageLimits(
       },
       _sum: {
         minutes: true,
+        inputTokens: true,
+        outputTokens: true,
       },
     });
 
-    const usedMinutes = usage._sum.minutes || 0;
+    const usedMinutes = roundMinutes(usage._sum.minutes || 0);
+    const usedTokens =
+      (usage._sum.inputTokens || 0) + (usage._sum.outputTokens || 0);
 
     return {
       allowed: true,
@@ -60,6 +173,9 @@ export async function checkUsageLimits(
       remainingMinutes: -1, // Unlimited
       totalMinutes: -1,
       usedMinutes: usedMinutes, // Actual usage tracked
+      remainingTokens: -1,
+      totalTokens: -1,
+      usedTokens,
     };
   }
 
@@ -112,6 +228,7 @@ export async function checkUsageLimits(
       planName: plan.name,
       remainingMinutes: -1, // -1 indicates unlimited
       totalMinutes: plan.minutesPerMonth,
+      remainingTokens: -1,
     };
   }
 
@@ -124,34 +241,102 @@ export async function checkUsageLimits(
     );
 
   // 3. Get usage for current billing period
-  const matchStage = {
-    $match: {
-      userId,
-      date: { $gte: periodStart, $lte: periodEnd },
-      $or: [
-        { "meta.isDemo": { $exists: false } },
-        { "meta.isDemo": { $ne: true } },
-      ],
-    },
-  };
+  const periodUsage = await getPeriodUsage(userId, periodStart, periodEnd);
+
+  // Usage so far already crossed any threshold, including the one that
+  // blocks this request. Not awaited: the email must not slow the request.
+  void sendUsageAlerts({
+    userId,
+    user,
+    plan,
+    usage: periodUsage,
+    periodStart,
+    periodEnd,
+    overageEnabled: overageCapFor(user, plan) !== null,
+  });
 
-  const groupStage = {
-    $group: {
-      _id: null,
-      totalMinutes: { $sum: "$minutes" },
-    },
+  const usedMinutes = roundMinutes(periodUsage.minutes);
+  const totalMinutes = plan.minutesPerMonth;
+  const remainingMinutes = roundMinutes(totalMinutes - usedMinutes);
+
+  const usedTokens = periodUsage.tokens;
+  const tokenQuota = planTokenQuota(plan);
+  const tokenLimits = {
+    usedTokens,
+    totalTokens: tokenQuota,
+    remainingTokens: Math.max(0, tokenQuota - usedTokens),
   };
 
-  const agg = await prisma.usage.aggregateRaw({
-    pipeline: [matchStage, groupStage],
-  });
+  if (tokenLimits.remainingTokens === 0) {
+    return {
+      allowed: false,
+      reason: `Monthly limit of ${tokenLimits.totalTokens} tokens exceeded. Used: ${usedTokens} tokens.`,
+      remainingMinutes: Math.max(0, remainingMinutes),
+      totalMinutes,
+      usedMinutes,
+      ...tokenLimits,
+      planName: plan.name,
+      requiresUpgrade: true,
+    };
+  }
 
-  const usedMinutes =
-    Array.isArray(agg) && agg.length > 0 ? agg[0].totalMinutes || 0 : 0;
-  const totalMinutes = plan.minutesPerMonth;
-  const remainingMinutes = totalMinutes - usedMinutes;
+  if (tokenLimits.remainingTokens < estimatedTokens) {
+    return {
+      allowed: false,
+      reason: `Insufficient tokens. Required: ${estimatedTokens}, Available: ${tokenLimits.remainingTokens}`,
+      remainingMinutes: Math.max(0, remainingMinutes),
+      totalMinutes,
+      usedMinutes,
+      ...tokenLimits,
+      planName: plan.name,
+      requiresUpgrade: false,
+    };
+  }
+
+  // 4. Past the quota: opted-in users keep going until the spending cap
+  const overageCapCents = overageCapFor(user, plan);
+  if (
+    overageCapCents !== null &&
+    (remainingMinutes <= 0 || remainingMinutes < estimatedMinutes)
+  ) {
+    const overageMinutes = roundMinutes(
+      Math.max(0, usedMinutes - totalMinutes),
+    );
+    const projectedCents = overageCostCents(
+      usedMinutes + estimatedMinutes - totalMinutes,
+      plan.name,
+    );
+    const overage = {
+      overageMinutes,
+      overageCostCents: overageCostCents(overageMinutes, plan.name),
+      overageCapCents,
+    };
+
+    if (projectedCents > overageCapCents) {
+      return {
+        allowed: false,
+        reason: `Overage spending cap of $${(overageCapCents / 100).toFixed(2)} reached for this billing period.`,
+        remainingMinutes: 0,
+        totalMinutes,
+        usedMinutes,
+        ...tokenLimits,
+        ...overage,
+        planName: plan.name,
+        requiresUpgrade: true,
+      };
+    }
+
+    return {
+      allowed: true,
+      remainingMinutes: Math.max(0, remainingMinutes),
+      totalMinutes,
+      usedMinutes,
+      ...tokenLimits,
+      ...overage,
+      planName: plan.name,
+    };
+  }
 
-  // 4. Check if user has exceeded limit
   if (remainingMinutes <= 0) {
     return {
       allowed: false,
@@ -159,6 +344,7 @@ export async function checkUsageLimits(
       remainingMinutes: 0,
       totalMinutes,
       usedMinutes,
+      ...tokenLimits,
       planName: plan.name,
       requiresUpgrade: true,
     };
@@ -168,10 +354,11 @@ export async function checkUsageLimits(
   if (remainingMinutes < estimatedMinutes) {
     return {
       allowed: false,
-      reason: `Insufficient minutes. Required: ${estimatedMinutes}, Available: ${remainingMinutes}`,
+      reason: `Insufficient minutes. Required: ${roundMinutes(estimatedMinutes)}, Available: ${remainingMinutes}`,
       remainingMinutes,
       totalMinutes,
       usedMinutes,
+      ...tokenLimits,
       planName: plan.name,
       requiresUpgrade: false,
     };
@@ -183,6 +370,7 @@ export async function checkUsageLimits(
     remainingMinutes,
     totalMinutes,
     usedMinutes,
+    ...tokenLimits,
     planName: plan.name,
   };
 }
@@ -317,3 +505,271 @@ export async function getAgentLimitInfo(userId: string): Promise<{
     planName: result.planName,
   };
 }
+
+type CrawlPageLimitResult = {
+  allowed: boolean;
+  reason?: string;
+  limit?: number; // -1 = unlimited
+  used?: number;
+  remaining?: number; // -1 = unlimited
+  requiresUpgrade?: boolean;
+  planName?: PlanName;
+};
+
+/**
+ * Pages the user's crawls may still fetch this billing period. Counted from
+ * `CrawlJob.pagesCrawled`, so re-crawling a page counts again.
+ */
+export async function checkCrawlPageLimit(
+  userId: string,
+): Promise<CrawlPageLimitResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (user?.role === "ADMIN") {
+    return {
+      allowed: true,
+      limit: -1,
+      remaining: -1,
+      planName: PlanName.ENTERPRISE,
+    };
+  }
+
+  const subscription = await prisma.subscription.findFirst({
+    where: {
+      userId,
+      status: {
+        in: [
+          SubscriptionStatus.ACTIVE,
+          SubscriptionStatus.TRIALING,
+          SubscriptionStatus.PAST_DUE,
+        ],
+      },
+    },
+    include: {
+      plan: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+
+  if (!subscription) {
+    return {
+      allowed: false,
+      reason:
+        "No active subscription found. Please subscribe to a plan to crawl websites.",
+      requiresUpgrade: true,
+    };
+  }
+
+  const plan = subscription.plan;
+  if (plan.crawlPagesPerMonth == null) {
+    return { allowed: true, limit: -1, remaining: -1, planName: plan.name };
+  }
+
+  const periodStart = subscription.currentPeriodStart || subscription.createdAt;
+  const usage = await prisma.crawlJob.aggregate({
+    where: { userId, createdAt: { gte: periodStart } },
+    _sum: { pagesCrawled: true },
+  });
+
+  const used = usage._sum.pagesCrawled || 0;
+  const remaining = Math.max(0, plan.crawlPagesPerMonth - used);
+
+  if (remaining === 0) {
+    return {
+      allowed: false,
+      reason: `Crawl limit reached. Your ${plan.name} plan allows ${plan.crawlPagesPerMonth} crawled pages per month. Used: ${used}.`,
+      limit: plan.crawlPagesPerMonth,
+      used,
+      remaining: 0,
+      requiresUpgrade: true,
+      planName: plan.name,
+    };
+  }
+
+  return {
+    allowed: true,
+    limit: plan.crawlPagesPerMonth,
+    used,
+    remaining,
+    planName: plan.name,
+  };
+}
+
+type EntitlementResult = {
+  allowed: boolean;
+  reason?: string;
+  limit?: number; // documents, pages or MB; -1 = unlimited
+  current?: number;
+  requiresUpgrade?: boolean;
+  planName?: PlanName;
+};
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * The user's plan entitlements; admins get everything. Null without an
+ * active subscription.
+ */
+export async function getPlanEntitlements(
+  userId: string,
+): Promise<{ entitlements: PlanEntitlements; planName: PlanName } | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+
+  if (user?.role === "ADMIN") {
+    return {
+      entitlements: UNRESTRICTED_ENTITLEMENTS,
+      planName: PlanName.ENTERPRISE,
+    };
+  }
+
+  const subscription = await prisma.subscription.findFirst({
+    where: {
+      userId,
+      status: {
+        in: [
+          SubscriptionStatus.ACTIVE,
+          SubscriptionStatus.TRIALING,
+          SubscriptionStatus.PAST_DUE,
+        ],
+      },
+    },
+    include: {
+      plan: true,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+  });
+
+  if (!subscription) return null;
+
+  const plan = subscription.plan;
+  return {
+    entitlements: resolvePlanEntitlements(plan.entitlements, plan.name),
+    planName: plan.name,
+  };
+}
+
+/**
+ * Whether the user's plan includes `feature`. For the per-KB limits,
+ * `usage.adding` is what the caller is about to add (files, or bytes for
+ * storage); with `usage.kbId` the KB's current uploads count too, without
+ * it `adding` is the KB's whole file set.
+ */
+export async function checkEntitlement(
+  userId: string,
+  feature: EntitlementFeature,
+  usage: { kbId?: string | null; adding?: number } = {},
+): Promise<EntitlementResult> {
+  const resolved = await getPlanEntitlements(userId);
+  if (!resolved) {
+    return {
+      allowed: false,
+      reason: "No active subscription found. Please subscribe to a plan.",
+      requiresUpgrade: true,
+    };
+  }
+
+  const { entitlements, planName } = resolved;
+
+  if (isEntitlementChannel(feature)) {
+    return entitlements.channels.includes(feature)
+      ? { allowed: true, planName }
+      : {
+          allowed: false,
+          reason: `Your ${planName} plan does not include the ${feature} channel. Please upgrade to connect it.`,
+          requiresUpgrade: true,
+          planName,
+        };
+  }
+
+  if (
+    feature === "voice" ||
+    feature === "removeBranding" ||
+    feature === "apiAccess"
+  ) {
+    const labels = {
+      voice: "voice conversations",
+      removeBranding: "removing the widget branding",
+      apiAccess: "API access",
+    };
+    return entitlements[feature]
+      ? { allowed: true, planName }
+      : {
+          allowed: false,
+          reason: `Your ${planName} plan does not include ${labels[feature]}. Please upgrade to a higher plan.`,
+          requiresUpgrade: true,
+          planName,
+        };
+  }
+
+  if (feature === "pages") {
+    const limit = entitlements.maxPagesPerKb;
+    if (limit === null) return { allowed: true, limit: -1, planName };
+    return limit > 0
+      ? { allowed: true, limit, planName }
+      : {
+          allowed: false,
+          reason: `Your ${planName} plan does not include website crawling.`,
+          limit,
+          requiresUpgrade: true,
+          planName,
+        };
+  }
+
+  const adding = usage.adding ?? 0;
+
+  if (feature === "documents") {
+    const limit = entitlements.maxDocumentsPerKb;
+    if (limit === null) return { allowed: true, limit: -1, planName };
+
+    const current = usage.kbId
+      ? await prisma.uploadedFile.count({ where: { kbId: usage.kbId } })
+      : 0;
+
+    if (current + adding > limit) {
+      return {
+        allowed: false,
+        reason: `Document limit reached. Your ${planName} plan allows ${limit} file(s) per knowledge base.`,
+        limit,
+        current,
+        requiresUpgrade: true,
+        planName,
+      };
+    }
+    return { allowed: true, limit, current, planName };
+  }
+
+  // storage
+  const limit = entitlements.maxStorageMbPerKb;
+  if (limit === null) return { allowed: true, limit: -1, planName };
+
+  const stored = usage.kbId
+    ? await prisma.uploadedFile.aggregate({
+        where: { kbId: usage.kbId },
+        _sum: { size: true },
+      })
+    : null;
+  const currentBytes = stored?._sum.size ?? 0;
+  const current = Math.round((currentBytes / BYTES_PER_MB) * 10) / 10;
+
+  if (currentBytes + adding > limit * BYTES_PER_MB) {
+    return {
+      allowed: false,
+      reason: `Storage limit reached. Your ${planName} plan allows ${limit} MB of files per knowledge base. Used: ${current} MB.`,
+      limit,
+      current,
+      requiresUpgrade: true,
+      planName,
+    };
+  }
+  return { allowed: true, limit, current, planName };
+}
@@ -0,0 +1,27 @@
+// lib/subscription/limitMessage.ts
+import { SupportedLang } from "@/lib/dictionaries";
+
+export const MAX_LIMIT_MESSAGE_LENGTH = 1000;
+
+const DEFAULT_LIMIT_MESSAGE: Record<SupportedLang, string> = {
+  en: "Sorry, I can't answer right now. Please try again later or contact us directly.",
+  ar: "عذرًا، لا يمكنني الرد الآن. يُرجى المحاولة لاحقًا أو التواصل معنا مباشرة.",
+};
+
+/**
+ * What customers see when the KB owner's quota is used up. Reads
+ * `KnowledgeBase.metadata.limitMessage`; the default picks the language of
+ * the customer's message, then the KB's.
+ */
+export function usageLimitMessage(metadata: unknown, text = ""): string {
+  const md = (metadata ?? {}) as Record<string, unknown>;
+  if (typeof md.limitMessage === "string" && md.limitMessage.trim()) {
+    return md.limitMessage.trim();
+  }
+
+  if (/[\u0600-\u06FF]/.test(text)) return DEFAULT_LIMIT_MESSAGE.ar;
+  if (text.trim()) return DEFAULT_LIMIT_MESSAGE.en;
+  return md.language === "ar"
+    ? DEFAULT_LIMIT_MESSAGE.ar
+    : DEFAULT_LIMIT_MESSAGE.en;
+}
@@ -0,0 +1,127 @@
+// lib/subscription/planEntitlements.ts
+import type { PlanName } from "@prisma/client";
+
+export const ENTITLEMENT_CHANNELS = [
+  "whatsapp",
+  "messenger",
+  "instagram",
+] as const;
+export type EntitlementChannel = (typeof ENTITLEMENT_CHANNELS)[number];
+
+/** Stored in `Plan.entitlements`; null limits = unlimited. */
+export type PlanEntitlements = {
+  channels: EntitlementChannel[]; // messaging integrations; the widget is always on
+  voice: boolean; // realtime voice in the widget and voice calls
+  maxDocumentsPerKb: number | null; // uploaded files
+  maxPagesPerKb: number | null; // pages one website crawl of a KB may fetch
+  maxStorageMbPerKb: number | null; // total size of uploaded files
+  removeBranding: boolean; // hide "Powered by Aoun" in the widget
+  apiAccess: boolean;
+};
+
+export type EntitlementFeature =
+  | EntitlementChannel
+  | "voice"
+  | "documents"
+  | "pages"
+  | "storage"
+  | "removeBranding"
+  | "apiAccess";
+
+export const UNRESTRICTED_ENTITLEMENTS: PlanEntitlements = {
+  channels: [...ENTITLEMENT_CHANNELS],
+  voice: true,
+  maxDocumentsPerKb: null,
+  maxPagesPerKb: null,
+  maxStorageMbPerKb: null,
+  removeBranding: true,
+  apiAccess: true,
+};
+
+// What plans saved before entitlements existed get, until an admin edits them
+const DEFAULT_PLAN_ENTITLEMENTS: Record<PlanName, PlanEntitlements> = {
+  MAINTENANCE: {
+    channels: [],
+    voice: false,
+    maxDocumentsPerKb: 5,
+    maxPagesPerKb: 50,
+    maxStorageMbPerKb: 10,
+    removeBranding: false,
+    apiAccess: false,
+  },
+  FREE: {
+    channels: [],
+    voice: false,
+    maxDocumentsPerKb: 5,
+    maxPagesPerKb: 50,
+    maxStorageMbPerKb: 10,
+    removeBranding: false,
+    apiAccess: false,
+  },
+  STARTER: {
+    channels: ["whatsapp"],
+    voice: true,
+    maxDocumentsPerKb: 25,
+    maxPagesPerKb: 250,
+    maxStorageMbPerKb: 100,
+    removeBranding: false,
+    apiAccess: false,
+  },
+  PRO: {
+    channels: [...ENTITLEMENT_CHANNELS],
+    voice: true,
+    maxDocumentsPerKb: 100,
+    maxPagesPerKb: 1000,
+    maxStorageMbPerKb: 500,
+    removeBranding: true,
+    apiAccess: true,
+  },
+  ENTERPRISE: UNRESTRICTED_ENTITLEMENTS,
+};
+
+function limitOrNull(value: unknown, fallback: number | null) {
+  if (value === null) return null;
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.floor(n));
+}
+
+function flag(value: unknown, fallback: boolean) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+/** `Plan.entitlements` with the plan's defaults filled in. */
+export function resolvePlanEntitlements(
+  raw: unknown,
+  planName: PlanName,
+): PlanEntitlements {
+  const defaults = DEFAULT_PLAN_ENTITLEMENTS[planName];
+  if (!raw || typeof raw !== "object") return defaults;
+
+  const e = raw as Partial<Record<keyof PlanEntitlements, unknown>>;
+  return {
+    channels: Array.isArray(e.channels)
+      ? ENTITLEMENT_CHANNELS.filter((c) =>
+          (e.channels as unknown[]).includes(c),
+        )
+      : defaults.channels,
+    voice: flag(e.voice, defaults.voice),
+    maxDocumentsPerKb: limitOrNull(
+      e.maxDocumentsPerKb,
+      defaults.maxDocumentsPerKb,
+    ),
+    maxPagesPerKb: limitOrNull(e.maxPagesPerKb, defaults.maxPagesPerKb),
+    maxStorageMbPerKb: limitOrNull(
+      e.maxStorageMbPerKb,
+      defaults.maxStorageMbPerKb,
+    ),
+    removeBranding: flag(e.removeBranding, defaults.removeBranding),
+    apiAccess: flag(e.apiAccess, defaults.apiAccess),
+  };
+}
+
+export function isEntitlementChannel(
+  value: string,
+): value is EntitlementChannel {
+  return (ENTITLEMENT_CHANNELS as readonly string[]).includes(value);
+}
@@ -68,6 +68,11 @@ export const cacheKeys = {
   ttsAudio: (textHash: string, voiceId: string) => `tts:${textHash}:${voiceId}`,
 } as const;
 
+export type CachedTranscription = {
+  text: string;
+  durationSeconds: number | null; // billed again on every cache hit
+};
+
 // Cache service with TTL management
 export class CacheService {
   private static instance: CacheService;
@@ -218,11 +223,20 @@ export class CacheService {
     );
   }
 
-  async getTranscription(audioHash: string) {
-    return this.get<string>(cacheKeys.transcription(audioHash));
+  async getTranscription(
+    audioHash: string,
+  ): Promise<CachedTranscription | null> {
+    const cached = await this.get<CachedTranscription | string>(
+      cacheKeys.transcription(audioHash),
+    );
+    // entries written before durations were cached are plain strings
+    if (typeof cached === "string") {
+      return { text: cached, durationSeconds: null };
+    }
+    return cached;
   }
 
-  async setTranscription(audioHash: string, transcript: string) {
+  async setTranscription(audioHash: string, transcript: CachedTranscription) {
     return this.set(
       cacheKeys.transcription(audioHash),
       transcript,
@@ -0,0 +1,128 @@
+// lib/usage/alerts.ts
+import { SupportedLang } from "@/lib/dictionaries";
+import { notifyUsageThreshold } from "@/lib/notifier";
+import { prisma } from "@/lib/prisma";
+import { redis } from "@/lib/upstash";
+import { planTokenQuota } from "@/lib/usage/metering";
+import { PrismaClientKnownRequestError } from "@prisma/client/runtime/library";
+
+export const USAGE_ALERT_OPTIONS = [50, 80, 90, 100];
+export const DEFAULT_USAGE_ALERT_THRESHOLDS = [80, 100];
+
+// After a failed send, no retry for this long instead of on every request
+const ALERT_RETRY_BACKOFF_SECONDS = 15 * 60;
+const backoffKey = (userId: string) => `usage-alert:backoff:${userId}`;
+
+type AlertUser = {
+  usageAlertsEnabled?: boolean | null;
+  usageAlertThresholds?: number[] | null;
+};
+
+/** The user's thresholds in ascending order; none when alerts are off. */
+export function resolveAlertThresholds(user: AlertUser | null): number[] {
+  if (user?.usageAlertsEnabled === false) return [];
+  const saved = (user?.usageAlertThresholds ?? []).filter((t) =>
+    USAGE_ALERT_OPTIONS.includes(t),
+  );
+  return [
+    ...new Set(saved.length ? saved : DEFAULT_USAGE_ALERT_THRESHOLDS),
+  ].sort((a, b) => a - b);
+}
+
+/**
+ * Percent of the period's quota used, whichever of minutes and tokens is
+ * further along.
+ */
+export function quotaPercent(
+  usage: { minutes: number; tokens: number },
+  plan: { minutesPerMonth: number; tokensPerMonth?: number | null },
+) {
+  const minutes =
+    plan.minutesPerMonth > 0 ? usage.minutes / plan.minutesPerMonth : 0;
+  const tokenQuota = planTokenQuota(plan);
+  const tokens = tokenQuota > 0 ? usage.tokens / tokenQuota : 0;
+  return Math.floor(Math.max(minutes, tokens) * 100);
+}
+
+/**
+ * Emails the account owner the first time this period's usage crosses one
+ * of their thresholds. Each threshold is claimed with a unique row before
+ * sending, so concurrent requests don't email twice, and released again if
+ * the email fails so a request after the backoff retries it. When several
+ * are crossed at once only the highest is mentioned. Callers don't await
+ * it: the send must not hold up the request that triggered it.
+ */
+export async function sendUsageAlerts(params: {
+  userId: string;
+  user: (AlertUser & { usageAlertLanguage?: string | null }) | null;
+  plan: { minutesPerMonth: number; tokensPerMonth?: number | null };
+  usage: { minutes: number; tokens: number };
+  periodStart: Date;
+  periodEnd: Date;
+  overageEnabled: boolean;
+}) {
+  const { userId, user, plan, usage, periodStart } = params;
+
+  const percent = quotaPercent(usage, plan);
+  const crossed = resolveAlertThresholds(user).filter((t) => percent >= t);
+  if (crossed.length === 0) return;
+
+  try {
+    if (await redis.exists(backoffKey(userId))) return;
+
+    const sent = await prisma.usageAlert.findMany({
+      where: { userId, periodStart },
+      select: { threshold: true },
+    });
+    const pending = crossed.filter((t) => !sent.some((s) => s.threshold === t));
+
+    const claimed: number[] = [];
+    for (const threshold of pending) {
+      try {
+        await prisma.usageAlert.create({
+          data: { userId, periodStart, threshold, percent },
+        });
+        claimed.push(threshold);
+      } catch (err) {
+        // Another request claimed it first
+        if (
+          err instanceof PrismaClientKnownRequestError &&
+          err.code === "P2002"
+        ) {
+          continue;
+        }
+        throw err;
+      }
+    }
+    if (claimed.length === 0) return;
+
+    const lang: SupportedLang = user?.usageAlertLanguage === "ar" ? "ar" : "en";
+    let delivered = false;
+    try {
+      delivered = await notifyUsageThreshold(userId, {
+        threshold: Math.max(...claimed),
+        percent,
+        usedMinutes: Math.round(usage.minutes * 10) / 10,
+        totalMinutes: plan.minutesPerMonth,
+        usedTokens: usage.tokens,
+        totalTokens: planTokenQuota(plan),
+        periodEnd: params.periodEnd,
+        overageEnabled: params.overageEnabled,
+        billingLink: `${process.env.BASE_URL}/${lang}/dashboard/settings/billing`,
+        language: lang,
+      });
+    } finally {
+      if (!delivered) {
+        await prisma.usageAlert.deleteMany({
+          where: { userId, periodStart, threshold: { in: claimed } },
+        });
+        await redis.set(backoffKey(userId), 1, {
+          ex: ALERT_RETRY_BACKOFF_SECONDS,
+        });
+      }
+    }
+  } catch (err) {
+    // Alerts must never block the request that triggered them
+    console.error("Failed to send usage alerts:", err);
+  }
+}
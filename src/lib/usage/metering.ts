@@ -0,0 +1,142 @@
+// lib/usage/metering.ts
+
+/**
+ * What a single interaction consumed. Audio is measured in seconds from the
+ * media itself (Whisper's reported duration, the decoded TTS mp3, realtime
+ * connect → disconnect); text is measured in LLM tokens.
+ */
+export type UsageDimensions = {
+  audioInputSeconds?: number;
+  audioOutputSeconds?: number;
+  realtimeSeconds?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+};
+
+/** Pre-flight estimate passed to `checkUsageLimits`. */
+export type UsageEstimate = {
+  voiceMinutes?: number;
+  tokens?: number;
+};
+
+export function voiceSeconds(usage: UsageDimensions) {
+  return (
+    (usage.audioInputSeconds ?? 0) +
+    (usage.audioOutputSeconds ?? 0) +
+    (usage.realtimeSeconds ?? 0)
+  );
+}
+
+/** Exact billable voice minutes (no per-request rounding). */
+export function voiceMinutes(usage: UsageDimensions) {
+  return Math.round((voiceSeconds(usage) / 60) * 1000) / 1000;
+}
+
+// Text quota per plan minute when a plan sets no `tokensPerMonth`: about
+// what a minute bought when chat was billed by word count, counting the
+// prompt and retrieved context as well as the reply
+export const FALLBACK_TOKENS_PER_MINUTE = 2000;
+
+/**
+ * A plan's monthly LLM token quota: `tokensPerMonth`, or one derived from
+ * `minutesPerMonth` for plans that don't set it, so text chat is never
+ * unlimited by omission.
+ */
+export function planTokenQuota(plan: {
+  minutesPerMonth: number;
+  tokensPerMonth?: number | null;
+}) {
+  return (
+    plan.tokensPerMonth ?? plan.minutesPerMonth * FALLBACK_TOKENS_PER_MINUTE
+  );
+}
+
+export function totalTokens(usage: UsageDimensions) {
+  return (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+}
+
+/** ~4 characters per token; used only when a provider reports no usage. */
+export function estimateTokens(text?: string | null) {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/** Speaking time of `text` at `wpm`, for limit checks before audio exists. */
+export function estimateSpeechSeconds(text?: string | null, wpm = 150) {
+  if (!text) return 0;
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return (words / wpm) * 60;
+}
+
+// MPEG audio layer III tables (kbps / Hz), indexed by header fields
+const MP3_BITRATES = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+function id3v2Size(bytes: Uint8Array) {
+  if (
+    bytes.length < 10 ||
+    bytes[0] !== 0x49 || // "I"
+    bytes[1] !== 0x44 || // "D"
+    bytes[2] !== 0x33 //    "3"
+  ) {
+    return 0;
+  }
+  // syncsafe integer: 7 bits per byte
+  const size =
+    ((bytes[6] & 0x7f) << 21) |
+    ((bytes[7] & 0x7f) << 14) |
+    ((bytes[8] & 0x7f) << 7) |
+    (bytes[9] & 0x7f);
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Duration of an MP3 (layer III, as produced by the TTS providers) by
+ * walking its frame headers, so VBR output is measured correctly too.
+ * Returns 0 for anything that isn't MP3.
+ */
+export function mp3DurationSeconds(data: ArrayBuffer | Uint8Array) {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let offset = id3v2Size(bytes);
+  let seconds = 0;
+
+  while (offset + 4 <= bytes.length) {
+    const b1 = bytes[offset + 1];
+    const b2 = bytes[offset + 2];
+    const isSync = bytes[offset] === 0xff && (b1 & 0xe0) === 0xe0;
+    const version = (b1 >> 3) & 0x03; // 0: 2.5, 2: 2, 3: 1
+    const layer = (b1 >> 1) & 0x03; // 1: layer III
+    const bitrateIndex = (b2 >> 4) & 0x0f;
+    const sampleRateIndex = (b2 >> 2) & 0x03;
+
+    if (
+      !isSync ||
+      version === 1 ||
+      layer !== 1 ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15 ||
+      sampleRateIndex === 3
+    ) {
+      offset++; // resync
+      continue;
+    }
+
+    const isV1 = version === 3;
+    const bitrate =
+      (isV1 ? MP3_BITRATES.v1 : MP3_BITRATES.v2)[bitrateIndex] * 1000;
+    const sampleRate =
+      MP3_SAMPLE_RATES[sampleRateIndex] / (isV1 ? 1 : version === 2 ? 2 : 4);
+    const samples = isV1 ? 1152 : 576;
+    const padding = (b2 >> 1) & 0x01;
+    const frameLength =
+      Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+
+    seconds += samples / sampleRate;
+    offset += frameLength;
+  }
+
+  return Math.round(seconds * 1000) / 1000;
+}
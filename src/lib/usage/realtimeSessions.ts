@@ -0,0 +1,177 @@
+// lib/usage/realtimeSessions.ts
+import { logInteraction } from "@/lib/analytics/logInteraction";
+import { redis } from "@/lib/upstash";
+import crypto from "crypto";
+
+export type RealtimeSession = {
+  userId: string;
+  botId: string;
+  kbId: string;
+  usageTokenHash: string; // usage reports must present the matching token
+  createdAt: number; // the clock starts when the ephemeral key is issued
+  keyExpiresAt?: number; // until then the key can open (or reopen) a call
+  connectedAt?: number; // set when the client's WebRTC call is up
+};
+
+// The clock starts when the key is issued and moves to the connect report
+// if one arrives. Sessions that never report a disconnect are billed by
+// sweepRealtimeSessions once they pass the session limit: the capped time
+// when connected, the minimum otherwise (e.g. a prewarmed widget whose key
+// may never have been used).
+const SESSION_TTL = 2 * 60 * 60; // seconds
+export const MAX_REALTIME_SESSION_SECONDS = Number(
+  process.env.REALTIME_MAX_SESSION_SECONDS ?? 1800,
+);
+export const MIN_REALTIME_SESSION_SECONDS = Number(
+  process.env.REALTIME_MIN_SESSION_SECONDS ?? 60,
+);
+// OpenAI's ephemeral keys live a minute; used when the session omits it
+const DEFAULT_KEY_TTL_MS = 60_000;
+
+const key = (sessionId: string) => `realtime:${sessionId}`;
+// Unended sessions, scored by connectedAt (createdAt until connected)
+const OPEN_SESSIONS_KEY = "realtime:open";
+
+const hashUsageToken = (token: string) =>
+  crypto.createHash("sha256").update(token, "utf8").digest("hex");
+
+/**
+ * Starts tracking a session, and its clock, and returns the usage token the
+ * client must send with its connect/disconnect reports, so only the caller
+ * that got the ephemeral key can move or stop the clock. Throws when the
+ * session can't be stored; its key must not be handed out then.
+ */
+export async function trackRealtimeSession(
+  sessionId: string,
+  session: Omit<
+    RealtimeSession,
+    "usageTokenHash" | "createdAt" | "keyExpiresAt" | "connectedAt"
+  >,
+  keyExpiresAt?: number | null, // ms; the ephemeral key's expiry
+) {
+  const usageToken = crypto.randomBytes(24).toString("base64url");
+  const createdAt = Date.now();
+  await redis.set(
+    key(sessionId),
+    {
+      ...session,
+      usageTokenHash: hashUsageToken(usageToken),
+      createdAt,
+      keyExpiresAt: keyExpiresAt || createdAt + DEFAULT_KEY_TTL_MS,
+    },
+    { ex: SESSION_TTL },
+  );
+  await redis.zadd(OPEN_SESSIONS_KEY, { score: createdAt, member: sessionId });
+  return usageToken;
+}
+
+/** The session, if `usageToken` is the one issued with it. */
+async function authorizedSession(sessionId: string, usageToken: string) {
+  const session = await redis.get<RealtimeSession>(key(sessionId));
+  if (!session?.usageTokenHash || !usageToken) return null;
+
+  const expected = Buffer.from(session.usageTokenHash, "hex");
+  const received = Buffer.from(hashUsageToken(usageToken), "hex");
+  return crypto.timingSafeEqual(expected, received) ? session : null;
+}
+
+/**
+ * Restarts the clock at the connect time, so waiting on a prewarmed key
+ * isn't billed; repeated connects keep the first timestamp.
+ */
+export async function markRealtimeConnected(
+  sessionId: string,
+  usageToken: string,
+) {
+  const session = await authorizedSession(sessionId, usageToken);
+  if (!session || session.connectedAt) return session;
+
+  const connected = { ...session, connectedAt: Date.now() };
+  await redis.set(key(sessionId), connected, { ex: SESSION_TTL });
+  await redis.zadd(OPEN_SESSIONS_KEY, {
+    score: connected.connectedAt,
+    member: sessionId,
+  });
+  return connected;
+}
+
+/**
+ * Stops the clock and forgets the session, so it's billed once. Returns the
+ * seconds since connect, or since the key was issued when no connect was
+ * reported, capped at the realtime session limit. Null when the session is
+ * unknown.
+ *
+ * A disconnect is only the client's word, and the key can still open a call
+ * until it expires, so the clock never stops before the key's expiry.
+ */
+async function closeRealtimeSession(sessionId: string) {
+  const session = await redis.getdel<RealtimeSession>(key(sessionId));
+  await redis.zrem(OPEN_SESSIONS_KEY, sessionId);
+  if (!session) return null;
+
+  const startedAt = session.connectedAt ?? session.createdAt;
+  const endedAt = Math.max(
+    Date.now(),
+    session.keyExpiresAt ?? session.createdAt + DEFAULT_KEY_TTL_MS,
+  );
+  const seconds = Math.min(
+    MAX_REALTIME_SESSION_SECONDS,
+    Math.max(0, (endedAt - startedAt) / 1000),
+  );
+  return { session, seconds: Math.round(seconds * 10) / 10 };
+}
+
+/** Ends a session on the client's disconnect report. */
+export async function endRealtimeSession(
+  sessionId: string,
+  usageToken: string,
+) {
+  if (!(await authorizedSession(sessionId, usageToken))) return null;
+  return closeRealtimeSession(sessionId);
+}
+
+/** Records the billable connected time of an ended session. */
+export async function billRealtimeSession(
+  sessionId: string,
+  ended: { session: RealtimeSession; seconds: number },
+) {
+  await logInteraction({
+    userId: ended.session.userId,
+    botId: ended.session.botId,
+    channel: "voice",
+    interactions: 1,
+    usage: { realtimeSeconds: ended.seconds },
+    isCorrect: true,
+    eventId: `realtime:${sessionId}`,
+    meta: {
+      kbId: ended.session.kbId,
+      realtimeSessionId: sessionId,
+      requestPath: "/api/realtime/session",
+    },
+  });
+}
+
+/**
+ * Ends and bills sessions that outlived the session limit without reporting
+ * a disconnect (closed tab with a lost beacon, crashed client...). Connected
+ * ones are billed the capped time, ones that never reported a connect the
+ * minimum. Returns how many were billed.
+ */
+export async function sweepRealtimeSessions() {
+  const cutoff = Date.now() - MAX_REALTIME_SESSION_SECONDS * 1000;
+  const stale = await redis.zrange<string[]>(OPEN_SESSIONS_KEY, 0, cutoff, {
+    byScore: true,
+  });
+
+  let billed = 0;
+  for (const sessionId of stale) {
+    const ended = await closeRealtimeSession(sessionId);
+    if (!ended) continue;
+    if (!ended.session.connectedAt) {
+      ended.seconds = Math.min(ended.seconds, MIN_REALTIME_SESSION_SECONDS);
+    }
+    await billRealtimeSession(sessionId, ended);
+    billed++;
+  }
+  return billed;
+}
@@ -0,0 +1,108 @@
+// lib/widget/verifyWidgetRequest.ts
+import { prisma } from "@/lib/prisma";
+import { jwtVerify } from "jose";
+
+const JWT_SECRET = process.env.WIDGET_JWT_SECRET || "";
+const DEMO_KB_ID = process.env.DEMO_KB_ID ?? null;
+
+export type WidgetPayload = {
+  kbId?: string;
+  origin?: string;
+  visitorId?: string; // random per-browser id from /api/widget/session
+};
+
+export type WidgetAuthErrorCode =
+  | "missing_token"
+  | "invalid_token"
+  | "kb_mismatch"
+  | "kb_not_found"
+  | "origin_not_allowed";
+
+const ERROR_STATUS: Record<WidgetAuthErrorCode, number> = {
+  missing_token: 401,
+  invalid_token: 401,
+  kb_mismatch: 403,
+  kb_not_found: 404,
+  origin_not_allowed: 403,
+};
+
+export class WidgetAuthError extends Error {
+  public statusCode: number;
+
+  constructor(
+    message: string,
+    public code: WidgetAuthErrorCode,
+  ) {
+    super(message);
+    this.name = "WidgetAuthError";
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+/**
+ * Verifies the widget JWT (from /api/widget/session) sent as the bearer
+ * token: it must be issued for `kbId`, and its origin must be one of the
+ * KB's allowed origins (the demo KB is exempt). Pass `kb` when it's already
+ * loaded to skip the lookup. Throws a WidgetAuthError otherwise.
+ */
+export async function verifyWidgetRequest(
+  req: Request,
+  kbId: string,
+  kb?: { metadata: unknown },
+): Promise<WidgetPayload> {
+  const token = (req.headers.get("authorization") || "").replace(
+    /^Bearer\s+/,
+    "",
+  );
+  if (!token)
+    throw new WidgetAuthError("Missing widget token", "missing_token");
+
+  let widgetPayload: WidgetPayload;
+  try {
+    if (!JWT_SECRET) throw new Error("WIDGET_JWT_SECRET is not set");
+    const secretKey = new TextEncoder().encode(JWT_SECRET);
+    const { payload } = await jwtVerify(token, secretKey);
+    widgetPayload = {
+      kbId: payload.kbId as string | undefined,
+      origin: payload.origin as string | undefined,
+      visitorId: payload.visitorId as string | undefined,
+    };
+  } catch {
+    throw new WidgetAuthError("Invalid widget token", "invalid_token");
+  }
+
+  if (widgetPayload.kbId !== kbId) {
+    throw new WidgetAuthError("KB ID mismatch in widget token", "kb_mismatch");
+  }
+  if (kbId === DEMO_KB_ID) return widgetPayload;
+
+  const record =
+    kb ??
+    (await prisma.knowledgeBase.findUnique({
+      where: { id: kbId },
+      select: { metadata: true },
+    }));
+  if (!record) {
+    throw new WidgetAuthError("Knowledge base not found", "kb_not_found");
+  }
+
+  const metadata = record.metadata as { allowedOrigins?: unknown } | null;
+  const allowedOrigins = Array.isArray(metadata?.allowedOrigins)
+    ? metadata.allowedOrigins.map((o: string) => new URL(o).origin)
+    : [];
+
+  if (!widgetPayload.origin || allowedOrigins.length === 0) {
+    throw new WidgetAuthError(
+      "Invalid widget token (missing origin)",
+      "origin_not_allowed",
+    );
+  }
+  if (!allowedOrigins.includes(widgetPayload.origin)) {
+    throw new WidgetAuthError(
+      "Origin not allowed for widget token",
+      "origin_not_allowed",
+    );
+  }
+
+  return widgetPayload;
+}
@@ -0,0 +1,165 @@
+import type { WorkspaceRole } from "@prisma/client";
+import type { Session } from "next-auth";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { prisma } from "../prisma";
+import { KbAccessError, KbAction, requireKbAccess } from "./kbAccess";
+import { getWorkspaceRole } from "./workspaceAccess";
+
+vi.mock("../prisma", () => ({
+  prisma: {
+    knowledgeBase: { findUnique: vi.fn() },
+    auditLog: { create: vi.fn() },
+  },
+}));
+vi.mock("next/headers", () => ({ headers: async () => new Headers() }));
+vi.mock("./workspaceAccess", () => ({ getWorkspaceRole: vi.fn() }));
+
+const KB_ID = "64b7f0c2a1b2c3d4e5f60718";
+const OWNER_ID = "owner-1";
+
+const kb = {
+  id: KB_ID,
+  userId: OWNER_ID,
+  title: "Support",
+  metadata: {},
+  lastRefreshAt: null,
+};
+
+function session(userId: string, role: "USER" | "ADMIN" = "USER") {
+  return { user: { id: userId, role }, expires: "" } as unknown as Session;
+}
+
+async function accessError(promise: Promise<unknown>) {
+  const err = await promise.then(
+    () => null,
+    (e: unknown) => e,
+  );
+  expect(err).toBeInstanceOf(KbAccessError);
+  return err as KbAccessError;
+}
+
+function withRole(role: WorkspaceRole | null) {
+  vi.mocked(getWorkspaceRole).mockResolvedValue(role);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(prisma.knowledgeBase.findUnique).mockResolvedValue(kb as never);
+});
+
+describe("requireKbAccess", () => {
+  it("rejects unauthenticated callers with 401", async () => {
+    const err = await accessError(requireKbAccess(null, KB_ID, "read"));
+
+    expect(err.code).toBe("unauthenticated");
+    expect(err.statusCode).toBe(401);
+    expect(prisma.knowledgeBase.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("reports KBs outside the caller's workspace as not found", async () => {
+    withRole(null);
+
+    for (const action of ["read", "update", "delete"] as const) {
+      const err = await accessError(
+        requireKbAccess(session("stranger"), KB_ID, action),
+      );
+      expect(err.code).toBe("not_found");
+      expect(err.statusCode).toBe(404);
+    }
+    expect(prisma.auditLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ action: "kb_access_denied" }),
+      }),
+    );
+  });
+
+  it("reports unknown and malformed KB ids as not found", async () => {
+    vi.mocked(prisma.knowledgeBase.findUnique).mockResolvedValue(null);
+    const missing = await accessError(
+      requireKbAccess(session(OWNER_ID), KB_ID, "read"),
+    );
+    expect(missing.code).toBe("not_found");
+
+    const malformed = await accessError(
+      requireKbAccess(session(OWNER_ID), "not-an-id", "read"),
+    );
+    expect(malformed.code).toBe("not_found");
+  });
+
+  it.each<[WorkspaceRole, KbAction]>([
+    ["VIEWER", "update"],
+    ["VIEWER", "crawl"],
+    ["VIEWER", "manage_keys"],
+    ["VIEWER", "delete"],
+    ["AGENT", "update"],
+    ["AGENT", "crawl"],
+    ["AGENT", "manage_keys"],
+    ["AGENT", "delete"],
+    ["AGENT", "read"],
+    ["EDITOR", "manage_keys"],
+    ["EDITOR", "delete"],
+  ])("forbids a %s from %s", async (role, action) => {
+    withRole(role);
+
+    const err = await accessError(
+      requireKbAccess(session("member"), KB_ID, action),
+    );
+    expect(err.code).toBe("forbidden");
+    expect(err.statusCode).toBe(403);
+  });
+
+  it.each<[WorkspaceRole, KbAction]>([
+    ["VIEWER", "read"],
+    ["EDITOR", "update"],
+    ["EDITOR", "crawl"],
+    ["EDITOR", "deploy"],
+    ["ADMIN", "manage_keys"],
+    ["ADMIN", "delete"],
+    ["OWNER", "delete"],
+  ])("allows a %s to %s", async (role, action) => {
+    withRole(role);
+
+    const access = await requireKbAccess(session("member"), KB_ID, action);
+    expect(access).toEqual({ kb, userId: "member", role });
+  });
+
+  it("audits granted writes but not reads", async () => {
+    withRole("OWNER");
+
+    await requireKbAccess(session(OWNER_ID), KB_ID, "read");
+    expect(prisma.auditLog.create).not.toHaveBeenCalled();
+
+    await requireKbAccess(session(OWNER_ID), KB_ID, "update");
+    expect(prisma.auditLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ action: "kb_access_granted" }),
+      }),
+    );
+  });
+
+  it("lets site admins read and delete KBs outside their workspace", async () => {
+    withRole(null);
+    const admin = session("site-admin", "ADMIN");
+
+    await expect(requireKbAccess(admin, KB_ID, "read")).resolves.toEqual({
+      kb,
+      userId: "site-admin",
+      role: null,
+    });
+    await expect(requireKbAccess(admin, KB_ID, "delete")).resolves.toEqual({
+      kb,
+      userId: "site-admin",
+      role: null,
+    });
+  });
+
+  it("gives site admins nothing else outside their workspace", async () => {
+    withRole(null);
+    const admin = session("site-admin", "ADMIN");
+
+    for (const action of ["update", "crawl", "manage_keys"] as const) {
+      const err = await accessError(requireKbAccess(admin, KB_ID, action));
+      expect(err.code).toBe("not_found");
+    }
+  });
+});
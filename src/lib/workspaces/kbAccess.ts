@@ -0,0 +1,129 @@
+// lib/workspaces/kbAccess.ts
+import { Prisma, WorkspaceRole } from "@prisma/client";
+import type { Session } from "next-auth";
+import { headers } from "next/headers";
+import { prisma } from "../prisma";
+import { hasWorkspacePermission, WorkspacePermission } from "./roles";
+import { getWorkspaceRole } from "./workspaceAccess";
+
+export type KbAction =
+  | "read"
+  | "update" // settings, content, files
+  | "crawl" // start, refresh, cancel or retry crawls
+  | "deploy" // allowed origins
+  | "manage_keys" // API keys and verify tokens
+  | "delete";
+
+const KB_ACTION_PERMISSIONS: Record<KbAction, WorkspacePermission> = {
+  read: "view",
+  update: "edit",
+  crawl: "edit",
+  deploy: "edit",
+  manage_keys: "manage",
+  delete: "manage",
+};
+
+// Site admins clean up KBs from the admin panel
+const SITE_ADMIN_ACTIONS: KbAction[] = ["read", "delete"];
+
+export type KbAccessErrorCode = "unauthenticated" | "not_found" | "forbidden";
+
+const ERROR_STATUS: Record<KbAccessErrorCode, number> = {
+  unauthenticated: 401,
+  not_found: 404,
+  forbidden: 403,
+};
+
+export class KbAccessError extends Error {
+  public statusCode: number;
+
+  constructor(
+    message: string,
+    public code: KbAccessErrorCode,
+  ) {
+    super(message);
+    this.name = "KbAccessError";
+    this.statusCode = ERROR_STATUS[code];
+  }
+}
+
+const OBJECT_ID_RE = /^[a-f0-9]{24}$/i;
+
+const kbSelect = {
+  id: true,
+  userId: true,
+  title: true,
+  metadata: true,
+  lastRefreshAt: true,
+} satisfies Prisma.KnowledgeBaseSelect;
+
+export type KbAccess = {
+  kb: Prisma.KnowledgeBaseGetPayload<{ select: typeof kbSelect }>;
+  userId: string; // the caller
+  role: WorkspaceRole | null; // null for site admins outside the KB's workspace
+};
+
+async function audit(
+  userId: string,
+  action: string,
+  meta: Record<string, unknown>,
+) {
+  try {
+    const h = await headers();
+    const ip =
+      h.get("x-forwarded-for")?.split(",")[0].trim() ||
+      h.get("x-real-ip") ||
+      null;
+    await prisma.auditLog.create({
+      data: { userId, action, meta: meta as Prisma.InputJsonValue, ip },
+    });
+  } catch (err) {
+    console.error("KB access audit failed:", err);
+  }
+}
+
+/**
+ * The one ownership check for knowledge bases: resolves the caller's role in
+ * the workspace that owns `kbId` and throws a KbAccessError unless it allows
+ * `action`. Denials and every granted write are recorded in AuditLog.
+ *
+ * Callers outside the KB's workspace get `not_found`, so KB ids can't be
+ * probed; members whose role is too low get `forbidden`.
+ */
+export async function requireKbAccess(
+  session: Session | null,
+  kbId: string,
+  action: KbAction,
+): Promise<KbAccess> {
+  const userId = session?.user?.id;
+  if (!userId) throw new KbAccessError("Not authenticated", "unauthenticated");
+
+  const kb = OBJECT_ID_RE.test(kbId)
+    ? await prisma.knowledgeBase.findUnique({
+        where: { id: kbId },
+        select: kbSelect,
+      })
+    : null;
+  if (!kb) throw new KbAccessError("Knowledge Base not found", "not_found");
+
+  const role = await getWorkspaceRole(userId, kb.userId);
+  const allowed =
+    hasWorkspacePermission(role, KB_ACTION_PERMISSIONS[action]) ||
+    (session?.user?.role === "ADMIN" && SITE_ADMIN_ACTIONS.includes(action));
+
+  if (!allowed) {
+    await audit(userId, "kb_access_denied", { kbId, action, role });
+    throw role
+      ? new KbAccessError(
+          "Your role in this workspace doesn't allow this",
+          "forbidden",
+        )
+      : new KbAccessError("Knowledge Base not found", "not_found");
+  }
+
+  if (action !== "read") {
+    await audit(userId, "kb_access_granted", { kbId, action, role });
+  }
+
+  return { kb, userId, role };
+}
@@ -0,0 +1,48 @@
+// lib/workspaces/roles.ts
+import type { WorkspaceRole } from "@prisma/client";
+
+export type WorkspacePermission =
+  | "view" // dashboard pages: bots, KBs, leads, reports
+  | "conversations" // read the conversations inbox
+  | "reply" // take conversations over and answer them
+  | "edit" // create and change KBs, bots, crawls and deploy settings
+  | "manage" // delete KBs, integrations, API keys, the team
+  | "billing";
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  OWNER: ["view", "conversations", "reply", "edit", "manage", "billing"],
+  ADMIN: ["view", "conversations", "reply", "edit", "manage"],
+  EDITOR: ["view", "conversations", "reply", "edit"],
+  VIEWER: ["view", "conversations"],
+  AGENT: ["conversations", "reply"],
+};
+
+/** Roles a member can be invited as or changed to; a workspace has one owner. */
+export const ASSIGNABLE_WORKSPACE_ROLES = [
+  "ADMIN",
+  "EDITOR",
+  "VIEWER",
+  "AGENT",
+] as const satisfies readonly WorkspaceRole[];
+export type AssignableWorkspaceRole =
+  (typeof ASSIGNABLE_WORKSPACE_ROLES)[number];
+
+export function hasWorkspacePermission(
+  role: WorkspaceRole | null | undefined,
+  permission: WorkspacePermission,
+) {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function isAssignableWorkspaceRole(
+  value: string,
+): value is AssignableWorkspaceRole {
+  return (ASSIGNABLE_WORKSPACE_ROLES as readonly string[]).includes(value);
+}
+
+/** Where a member lands when a page needs more than their role allows. */
+export function workspaceHomePath(role: WorkspaceRole) {
+  return hasWorkspacePermission(role, "view")
+    ? "/dashboard"
+    : "/dashboard/conversations";
+}
@@ -0,0 +1,188 @@
+// lib/workspaces/workspaceAccess.ts
+import { Prisma, WorkspaceRole } from "@prisma/client";
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+import { auth } from "../auth";
+import { prisma } from "../prisma";
+import {
+  hasWorkspacePermission,
+  WorkspacePermission,
+  workspaceHomePath,
+} from "./roles";
+
+export const ACTIVE_WORKSPACE_COOKIE = "active_workspace";
+
+const OBJECT_ID_RE = /^[a-f0-9]{24}$/i;
+
+export type WorkspaceContext = {
+  userId: string; // the signed-in member
+  workspaceId: string;
+  name: string;
+  ownerId: string; // owns the workspace's bots, KBs, leads and subscription
+  role: WorkspaceRole;
+};
+
+/**
+ * The user's own workspace, created the first time it's needed. Everything
+ * they owned before workspaces existed already belongs to it.
+ */
+export async function ensurePersonalWorkspace(userId: string) {
+  const existing = await prisma.workspace.findUnique({
+    where: { ownerId: userId },
+    select: { id: true, name: true },
+  });
+  if (existing) return existing;
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true },
+  });
+
+  try {
+    return await prisma.workspace.create({
+      data: {
+        name: user?.name || user?.email.split("@")[0] || "Workspace",
+        ownerId: userId,
+        members: { create: { userId, role: "OWNER" } },
+      },
+      select: { id: true, name: true },
+    });
+  } catch (err) {
+    // Another request created it first
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return prisma.workspace.findUniqueOrThrow({
+        where: { ownerId: userId },
+        select: { id: true, name: true },
+      });
+    }
+    throw err;
+  }
+}
+
+/**
+ * The workspace the signed-in user is working in: the one picked in the
+ * sidebar if they're still a member, otherwise their own. Null when signed out.
+ */
+export const getWorkspaceContext = cache(
+  async (): Promise<WorkspaceContext | null> => {
+    const session = await auth();
+    const userId = session?.user?.id;
+    if (!userId) return null;
+
+    const activeId = (await cookies()).get(ACTIVE_WORKSPACE_COOKIE)?.value;
+    if (activeId && OBJECT_ID_RE.test(activeId)) {
+      const member = await prisma.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId: activeId, userId } },
+        select: {
+          role: true,
+          workspace: { select: { id: true, name: true, ownerId: true } },
+        },
+      });
+      if (member) {
+        return {
+          userId,
+          workspaceId: member.workspace.id,
+          name: member.workspace.name,
+          ownerId: member.workspace.ownerId,
+          role: member.role,
+        };
+      }
+    }
+
+    const own = await ensurePersonalWorkspace(userId);
+    return {
+      userId,
+      workspaceId: own.id,
+      name: own.name,
+      ownerId: userId,
+      role: "OWNER",
+    };
+  },
+);
+
+/** For server actions: the active workspace, if the user's role allows `permission`. */
+export async function requireWorkspacePermission(
+  permission: WorkspacePermission,
+) {
+  const workspace = await getWorkspaceContext();
+  if (!workspace) throw new Error("Not authenticated");
+  if (!hasWorkspacePermission(workspace.role, permission)) {
+    throw new Error("Your role in this workspace doesn't allow this");
+  }
+  return workspace;
+}
+
+/** For dashboard pages: sends signed-out users to login and others to a page their role can open. */
+export async function getDashboardWorkspace(
+  lang: string,
+  permission: WorkspacePermission = "view",
+) {
+  const workspace = await getWorkspaceContext();
+  if (!workspace) return redirect(`/${lang}/auth/login`);
+  if (!hasWorkspacePermission(workspace.role, permission)) {
+    return redirect(`/${lang}${workspaceHomePath(workspace.role)}`);
+  }
+  return workspace;
+}
+
+/**
+ * The user's role in the workspace of whoever owns a resource (`kb.userId`,
+ * `integration.userId`...), regardless of which workspace is active. Null
+ * when they aren't a member.
+ */
+export async function getWorkspaceRole(
+  userId: string,
+  ownerId: string,
+): Promise<WorkspaceRole | null> {
+  if (userId === ownerId) return "OWNER";
+
+  const member = await prisma.workspaceMember.findFirst({
+    where: { userId, workspace: { is: { ownerId } } },
+    select: { role: true },
+  });
+  return member?.role ?? null;
+}
+
+/** Workspaces the user belongs to, for the switcher. */
+export async function listUserWorkspaces(userId: string) {
+  await ensurePersonalWorkspace(userId);
+
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+    select: { role: true, workspace: { select: { id: true, name: true } } },
+  });
+  return memberships.map((m) => ({
+    id: m.workspace.id,
+    name: m.workspace.name,
+    role: m.role,
+  }));
+}
+
+/** Invite links carry the token; only its hash is stored. */
+export function hashInvitationToken(token: string) {
+  return crypto.createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+/** A pending, unexpired invitation for the invite page, or null. */
+export async function findWorkspaceInvitation(token: string) {
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    select: {
+      email: true,
+      role: true,
+      expiresAt: true,
+      acceptedAt: true,
+      workspace: { select: { name: true } },
+      invitedBy: { select: { name: true, email: true } },
+    },
+  });
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date())
+    return null;
+  return invitation;
+}
@@ -0,0 +1,298 @@
+// src/search/keyword-search.ts
+import type { ChunkMetadata } from "@/lib/embedding-service";
+import { prisma } from "@/lib/prisma";
+import { redis } from "@/lib/upstash";
+
+export type KeywordHit = {
+  text: string;
+  score: number; // raw BM25 score; unbounded, not comparable to cosine
+  metadata: ChunkMetadata;
+};
+
+type IndexedChunk = {
+  text: string;
+  metadata: ChunkMetadata;
+  length: number; // token count
+};
+
+type KeywordIndex = {
+  chunks: IndexedChunk[];
+  postings: Map<string, Array<[chunk: number, tf: number]>>;
+  avgLength: number;
+  builtAt: number;
+};
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const INDEX_TTL_MS = Number(process.env.KEYWORD_INDEX_TTL_MS ?? 5 * 60_000);
+const MAX_INDEXED_CHUNKS = Number(process.env.KEYWORD_INDEX_MAX_CHUNKS ?? 5000);
+const DOCUMENT_PASSAGE_CHARS = 1500;
+// Unembedded documents are read a few at a time; their content is unbounded
+const DOCUMENT_BATCH_SIZE = 20;
+
+// prettier-ignore
+const STOPWORDS = new Set([
+  // English
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for",
+  "from", "how", "i", "in", "is", "it", "me", "my", "of", "on", "or", "the",
+  "to", "we", "what", "when", "where", "which", "who", "why", "with", "you",
+  "your",
+  // Arabic (after normalization)
+  "في", "من", "على", "الى", "عن", "ما", "ماذا", "هل", "هو", "هي", "انا",
+  "انت", "كيف", "متى", "اين", "او", "و", "ان", "لا", "مع", "هذا", "هذه",
+]);
+
+/**
+ * Lower-cases and folds Arabic spelling variants (hamza forms, taa marbuta,
+ * alef maqsura, diacritics, tatweel) so the same word matches however it
+ * was typed.
+ */
+function normalize(text: string) {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "")
+    .replace(/[\u0622\u0623\u0625\u0671]/g, "\u0627")
+    .replace(/\u0629/g, "\u0647")
+    .replace(/\u0649/g, "\u064A");
+}
+
+/**
+ * Splits text into search terms. Codes such as "SKU-1042" or prices such as
+ * "49.99" are kept whole in addition to their parts so exact lookups rank
+ * above partial ones.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const compounds =
+    normalize(text).match(/[\p{L}\p{N}]+(?:[-_./:][\p{L}\p{N}]+)*/gu) ?? [];
+
+  for (const compound of compounds) {
+    const parts = compound.split(/[-_./:]/);
+    if (parts.length > 1) tokens.push(compound);
+    for (const part of parts) {
+      if (!part || STOPWORDS.has(part)) continue;
+      // drop the Arabic definite article so "المنتج" matches "منتج"
+      const term =
+        part.length > 4 && part.startsWith("ال") ? part.slice(2) : part;
+      tokens.push(term);
+    }
+  }
+
+  return tokens;
+}
+
+function splitPassages(text: string) {
+  const passages: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (current && current.length + trimmed.length > DOCUMENT_PASSAGE_CHARS) {
+      passages.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${trimmed}` : trimmed;
+  }
+  if (current) passages.push(current);
+
+  return passages;
+}
+
+function toChunkMetadata(meta: unknown, documentId: string | null) {
+  const md = (meta ?? {}) as Partial<ChunkMetadata>;
+  return {
+    documentId: md.documentId ?? documentId ?? "",
+    filename: md.filename ?? "",
+    sourceUrl: md.sourceUrl ?? "",
+    chunkIndex: Number(md.chunkIndex ?? 0),
+    totalChunks: Number(md.totalChunks ?? 1),
+    startOffset: Number(md.startOffset ?? 0),
+    endOffset: Number(md.endOffset ?? 0),
+  } satisfies ChunkMetadata;
+}
+
+async function loadChunks(kbId: string) {
+  const chunks: Array<{ text: string; metadata: ChunkMetadata }> = [];
+
+  const embeddings = await prisma.embedding.findMany({
+    where: { kbId },
+    select: { text: true, meta: true, documentId: true },
+    take: MAX_INDEXED_CHUNKS,
+  });
+  for (const e of embeddings) {
+    if (e.text?.trim()) {
+      chunks.push({
+        text: e.text,
+        metadata: toChunkMetadata(e.meta, e.documentId),
+      });
+    }
+  }
+
+  // Documents that were never embedded still have searchable content. Each
+  // yields at least one passage, so no more are read than there are slots.
+  let cursor: string | undefined;
+  while (chunks.length < MAX_INDEXED_CHUNKS) {
+    const take = Math.min(
+      DOCUMENT_BATCH_SIZE,
+      MAX_INDEXED_CHUNKS - chunks.length,
+    );
+    const documents = await prisma.document.findMany({
+      where: { kbId, embedding: { none: {} }, content: { not: null } },
+      select: { id: true, content: true, filename: true, sourceUrl: true },
+      orderBy: { id: "asc" },
+      take,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const doc of documents) {
+      const passages = splitPassages(doc.content ?? "");
+      let offset = 0;
+      passages.forEach((text, i) => {
+        chunks.push({
+          text,
+          metadata: {
+            documentId: doc.id,
+            filename: doc.filename ?? "",
+            sourceUrl: doc.sourceUrl ?? "",
+            chunkIndex: i,
+            totalChunks: passages.length,
+            startOffset: offset,
+            endOffset: offset + text.length,
+          },
+        });
+        offset += text.length;
+      });
+    }
+
+    if (documents.length < take) break;
+    cursor = documents[documents.length - 1].id;
+  }
+
+  return chunks.slice(0, MAX_INDEXED_CHUNKS);
+}
+
+async function buildIndex(kbId: string): Promise<KeywordIndex> {
+  const rows = await loadChunks(kbId);
+  const chunks: IndexedChunk[] = [];
+  const postings = new Map<string, Array<[number, number]>>();
+  let totalLength = 0;
+
+  rows.forEach((row, idx) => {
+    const tokens = tokenize(row.text);
+    const tf = new Map<string, number>();
+    for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+
+    for (const [term, count] of tf) {
+      const list = postings.get(term);
+      if (list) list.push([idx, count]);
+      else postings.set(term, [[idx, count]]);
+    }
+
+    chunks.push({ ...row, length: tokens.length });
+    totalLength += tokens.length;
+  });
+
+  return {
+    chunks,
+    postings,
+    avgLength: chunks.length ? totalLength / chunks.length : 0,
+    builtAt: Date.now(),
+  };
+}
+
+// Per-instance cache. Content changes bump a version in Redis so every
+// instance rebuilds, not just the one that made the change; INDEX_TTL_MS is
+// the fallback when Redis can't be reached.
+const indexCache = new Map<
+  string,
+  { version: number | null; index: Promise<KeywordIndex> }
+>();
+
+const versionKey = (kbId: string) => `kb:${kbId}:keyword_index_version`;
+
+async function indexVersion(kbId: string) {
+  try {
+    return Number(await redis.get<number>(versionKey(kbId))) || 0;
+  } catch (error) {
+    console.error("Failed to read keyword index version:", error);
+    return null;
+  }
+}
+
+async function getIndex(kbId: string) {
+  const version = await indexVersion(kbId);
+  const cached = indexCache.get(kbId);
+  if (cached && cached.version === version) {
+    const index = await cached.index.catch(() => null);
+    if (index && Date.now() - index.builtAt < INDEX_TTL_MS) return index;
+  }
+
+  const pending = buildIndex(kbId);
+  indexCache.set(kbId, { version, index: pending });
+  pending.catch(() => indexCache.delete(kbId));
+  return pending;
+}
+
+/**
+ * Marks the KB's keyword index stale on every instance so the next search
+ * re-reads the KB. Call after documents or embeddings change.
+ */
+export async function invalidateKeywordIndex(kbId: string) {
+  indexCache.delete(kbId);
+  try {
+    await redis.incr(versionKey(kbId));
+  } catch (error) {
+    console.error("Failed to bump keyword index version:", error);
+  }
+}
+
+/**
+ * BM25 keyword search over a knowledge base's chunk texts
+ * (Embedding.text, plus Document.content for documents without embeddings).
+ */
+export async function keywordSearch(
+  kbId: string,
+  queryText: string,
+  topK = 5,
+): Promise<KeywordHit[]> {
+  try {
+    const terms = [...new Set(tokenize(queryText))];
+    if (!terms.length) return [];
+
+    const index = await getIndex(kbId);
+    const n = index.chunks.length;
+    if (!n) return [];
+
+    const scores = new Map<number, number>();
+    for (const term of terms) {
+      const list = index.postings.get(term);
+      if (!list) continue;
+
+      const idf = Math.log(1 + (n - list.length + 0.5) / (list.length + 0.5));
+      for (const [chunkIdx, tf] of list) {
+        const length = index.chunks[chunkIdx].length;
+        const norm =
+          BM25_K1 * (1 - BM25_B + (BM25_B * length) / (index.avgLength || 1));
+        const score = (idf * tf * (BM25_K1 + 1)) / (tf + norm);
+        scores.set(chunkIdx, (scores.get(chunkIdx) ?? 0) + score);
+      }
+    }
+
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([chunkIdx, score]) => ({
+        text: index.chunks[chunkIdx].text,
+        score,
+        metadata: index.chunks[chunkIdx].metadata,
+      }));
+  } catch (error) {
+    console.error("Error in keywordSearch:", error);
+    return [];
+  }
+}
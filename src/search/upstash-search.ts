@@ -2,10 +2,12 @@
 import type { ChunkMetadata } from "@/lib/embedding-service";
 import { createEmbeddings } from "@/lib/embedding-service";
 import upstashVector from "@/lib/upstash-vector";
+import { keywordSearch } from "./keyword-search";
 
 type NormalizedHit = {
   text: string;
   similarity: number;
+  keywordScore?: number; // raw BM25 score, hybrid search only
   metadata: ChunkMetadata;
 };
 
@@ -203,24 +205,81 @@ export async function getChunkById(
   }
 }
 
+export type HybridWeights = {
+  vectorWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+};
+
+export type HybridSearchOptions = {
+  topK?: number;
+  filenameFilter?: string;
+  queryVector?: number[]; // reuse a cached query embedding
+  weights?: Partial<HybridWeights>;
+};
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = {
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+};
+
+/**
+ * Reads fusion weights from `KnowledgeBase.metadata.retrieval`, falling back
+ * to the defaults for anything missing or out of range.
+ */
+export function resolveHybridWeights(metadata: unknown): HybridWeights {
+  const retrieval = isObject(metadata) ? metadata.retrieval : undefined;
+  const vectorWeight = getNumber(retrieval, "vectorWeight", -1);
+  const keywordWeight = getNumber(retrieval, "keywordWeight", -1);
+  const rrfK = getNumber(retrieval, "rrfK", -1);
+
+  return {
+    vectorWeight:
+      vectorWeight >= 0 ? vectorWeight : DEFAULT_HYBRID_WEIGHTS.vectorWeight,
+    keywordWeight:
+      keywordWeight >= 0 ? keywordWeight : DEFAULT_HYBRID_WEIGHTS.keywordWeight,
+    rrfK: rrfK > 0 ? rrfK : DEFAULT_HYBRID_WEIGHTS.rrfK,
+  };
+}
+
+function chunkKey(hit: NormalizedHit) {
+  const { documentId, chunkIndex } = hit.metadata;
+  return documentId ? `${documentId}:${chunkIndex}` : `text:${hit.text}`;
+}
+
+/**
+ * Vector + BM25 keyword retrieval fused with weighted reciprocal rank fusion.
+ * Ordering follows the fused rank. `similarity` is only ever the vector
+ * (cosine) score, so thresholds on it keep their meaning; chunks found by
+ * keyword alone get 0 and carry their BM25 score in `keywordScore`.
+ */
 export async function upstashHybridSearch(
   kbId: string,
   queryText: string,
-  filenameFilter?: string,
-  topK = 5,
+  options: HybridSearchOptions = {},
 ): Promise<NormalizedHit[]> {
-  try {
-    const [queryVec] = await createEmbeddings([queryText]);
+  const { topK = 5, filenameFilter, queryVector } = options;
+  const weights = { ...DEFAULT_HYBRID_WEIGHTS, ...options.weights };
+  // pull a deeper candidate list from each retriever than we return
+  const candidateK = Math.max(topK * 3, 10);
+
+  const vectorSearch = async (): Promise<NormalizedHit[]> => {
+    if (weights.vectorWeight <= 0) return [];
+
+    const queryVec = queryVector ?? (await createEmbeddings([queryText]))[0];
     if (!queryVec) {
       console.warn("Failed to create query embedding");
       return [];
     }
 
-    let filter = `kbId = '${kbId}'`;
-    if (filenameFilter) filter += ` AND filename = '${filenameFilter}'`;
+    let filter = `kbId = '${kbId.replace(/'/g, "\\'")}'`;
+    if (filenameFilter) {
+      filter += ` AND filename = '${filenameFilter.replace(/'/g, "\\'")}'`;
+    }
 
     const results = await upstashVector.query(queryVec, {
-      topK,
+      topK: candidateK,
       includeMetadata: true,
       includeVectors: false,
       filter,
@@ -246,8 +305,54 @@ export async function upstashHybridSearch(
         metadata,
       };
     });
-  } catch (error) {
-    console.error("Error in upstashHybridSearch:", error);
-    return [];
-  }
+  };
+
+  const keywordOnly = async (): Promise<NormalizedHit[]> => {
+    if (weights.keywordWeight <= 0) return [];
+    const hits = (await keywordSearch(kbId, queryText, candidateK)).filter(
+      (h) => !filenameFilter || h.metadata.filename === filenameFilter,
+    );
+    return hits.map(({ score, ...h }) => ({
+      ...h,
+      similarity: 0,
+      keywordScore: score,
+    }));
+  };
+
+  const [vectorHits, keywordHits] = await Promise.all([
+    vectorSearch().catch((error) => {
+      console.error("Vector leg of upstashHybridSearch failed:", error);
+      return [] as NormalizedHit[];
+    }),
+    keywordOnly(),
+  ]);
+
+  const fused = new Map<string, { hit: NormalizedHit; score: number }>();
+
+  const addRanked = (hits: NormalizedHit[], weight: number) => {
+    hits.forEach((hit, rank) => {
+      const key = chunkKey(hit);
+      const contribution = weight / (weights.rrfK + rank + 1);
+      const entry = fused.get(key);
+
+      if (entry) {
+        entry.score += contribution;
+        entry.hit = {
+          ...entry.hit,
+          similarity: Math.max(entry.hit.similarity, hit.similarity),
+          keywordScore: entry.hit.keywordScore ?? hit.keywordScore,
+        };
+      } else {
+        fused.set(key, { hit, score: contribution });
+      }
+    });
+  };
+
+  addRanked(vectorHits, weights.vectorWeight);
+  addRanked(keywordHits, weights.keywordWeight);
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((entry) => entry.hit);
 }
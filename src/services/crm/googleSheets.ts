@@ -44,6 +44,12 @@ export async function fetchGoogleSheetLeads(
     source: row[3] || "Google Sheets",
     capturedBy: "google_sheets",
     meta: { raw: row },
+    channel: null,
+    senderId: null,
+    messageCount: 0,
+    lastSeenAt: null,
+    statusHistory: null,
+    conversationId: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   }));
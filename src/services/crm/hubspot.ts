@@ -39,6 +39,12 @@ export async function fetchHubspotLeads(
       source: "HubSpot",
       capturedBy: "hubspot",
       meta: c,
+      channel: null,
+      senderId: null,
+      messageCount: 0,
+      lastSeenAt: null,
+      statusHistory: null,
+      conversationId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }));
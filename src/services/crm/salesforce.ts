@@ -39,6 +39,12 @@ export async function fetchSalesforceLeads(
       source: "Salesforce",
       capturedBy: "salesforce",
       meta: c,
+      channel: null,
+      senderId: null,
+      messageCount: 0,
+      lastSeenAt: null,
+      statusHistory: null,
+      conversationId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     }));